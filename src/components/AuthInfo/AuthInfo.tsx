@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Chip,
+  Table,
+  TableBody,
+  TableRow,
+  TableCell
+} from '@mui/material';
+import { AuthScheme, AuthSource, type CurlAuth } from '../../types/filterRules';
+import { decodeJwt } from '../../utils/auth';
+
+interface AuthInfoProps {
+  auth: CurlAuth;  // 过滤后的认证信息
+}
+
+// 认证方式的显示名称
+const SCHEME_LABELS: Record<AuthScheme, string> = {
+  [AuthScheme.BASIC]: 'Basic',
+  [AuthScheme.DIGEST]: 'Digest',
+  [AuthScheme.NTLM]: 'NTLM',
+  [AuthScheme.BEARER]: 'Bearer'
+};
+
+// 认证来源的显示名称
+const SOURCE_LABELS: Record<AuthSource, string> = {
+  [AuthSource.OPTION]: '命令行选项',
+  [AuthSource.HEADER]: 'Authorization请求头'
+};
+
+/**
+ * 把 JWT 中以秒为单位的时间戳显示为本地时间
+ */
+function formatTimestamp(value: unknown): string | null {
+  return typeof value === 'number' ? new Date(value * 1000).toLocaleString() : null;
+}
+
+// 认证信息：解码后的用户名密码，JWT 令牌显示头部和载荷
+const AuthInfo: React.FC<AuthInfoProps> = ({ auth }) => {
+  const jwt = useMemo(() => auth.token ? decodeJwt(auth.token) : null, [auth.token]);
+
+  const rows: Array<[string, string]> = auth.scheme === AuthScheme.BEARER
+    ? [['令牌', auth.token ?? '']]
+    : [['用户名', auth.username ?? ''], ['密码', auth.password ?? '(未提供，curl 会提示输入)']];
+
+  const expiresAt = formatTimestamp(jwt?.payload.exp);
+  const isExpired = typeof jwt?.payload.exp === 'number' && jwt.payload.exp * 1000 < Date.now();
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="subtitle2">认证信息</Typography>
+        <Chip size="small" label={SCHEME_LABELS[auth.scheme]} color="primary" variant="outlined" />
+        <Chip size="small" label={SOURCE_LABELS[auth.source]} variant="outlined" />
+        {jwt && <Chip size="small" label="JWT" variant="outlined" />}
+        {expiresAt && (
+          <Chip
+            size="small"
+            label={`${isExpired ? '已过期' : '过期时间'}: ${expiresAt}`}
+            color={isExpired ? 'error' : 'default'}
+          />
+        )}
+      </Box>
+      <Table size="small">
+        <TableBody>
+          {rows.map(([label, value]) => (
+            <TableRow key={label}>
+              <TableCell sx={{ width: 80 }}>{label}</TableCell>
+              <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{value}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {jwt && (
+        <Box sx={{ display: 'flex', gap: 2, mt: 1, flexWrap: 'wrap' }}>
+          {([['头部', jwt.header], ['载荷', jwt.payload]] as const).map(([label, value]) => (
+            <Box key={label} sx={{ flex: 1, minWidth: 240 }}>
+              <Typography variant="caption" color="text.secondary">{label}（未校验签名）</Typography>
+              <Box component="pre" sx={{ m: 0, p: 1, bgcolor: 'action.hover', borderRadius: 1, fontSize: 12, overflow: 'auto' }}>
+                {JSON.stringify(value, null, 2)}
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default AuthInfo;
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import {
   Box,
   TextField,
@@ -15,7 +15,8 @@ import {
   Tab,
   Dialog,
   DialogTitle,
-  DialogContent
+  DialogContent,
+  CircularProgress
 } from '@mui/material';
 import {
   ContentCopy,
@@ -25,18 +26,33 @@ import {
   Settings,
   Settings as SettingsIcon,
   Preview as PreviewIcon,
-  History as HistoryIcon
+  History as HistoryIcon,
+  UploadFile
 } from '@mui/icons-material';
 import GitHubIcon from './GitHubIcon';
 import LanguageSwitcher from './LanguageSwitcher';
-import { parseCurl, type ParsedCurl } from '../utils/curlParser';
-import { FilterEngine } from '../utils/filterEngine';
-import type { FilterRule, FilterContext, FilterResult } from '../types/filterRules';
-import { loadRules } from '../utils/ruleStorage';
+import {
+  detectCommandDialect,
+  isSupportedCommand,
+  CommandDialect,
+  type ParsedCurl
+} from '../utils/curlParser';
+import { formatCurl, DEFAULT_FORMAT_OPTIONS, type CurlFormatOptions as FormatOptions } from '../utils/curlFormatter';
+import { CODE_GENERATORS, CodeTarget, generateCode } from '../utils/codeGenerator';
+import { CollectionFormat, exportCollection } from '../utils/collectionExport';
+import { downloadText } from '../utils/download';
+import { FilterService, isFilterJobCancelled } from '../utils/filterService';
+import type { FilterRule, FilterResult } from '../types/filterRules';
+import { DEFAULT_SETTINGS, type ResolutionStrategy } from '../types/filterRules';
+import { loadRules, loadSettings } from '../utils/ruleStorage';
 import { saveHistoryEntry } from '../utils/indexedDBStorage';
 import RuleManager from './RuleManager/RuleManager';
 import RulePreview from './RuleManager/RulePreview';
 import HistoryManager from './HistoryManager/HistoryManager';
+import HarImport from './HarImport/HarImport';
+import OpenApiExport from './OpenApiExport/OpenApiExport';
+import CurlFormatOptions from './CurlFormatOptions/CurlFormatOptions';
+import AuthInfo from './AuthInfo/AuthInfo';
 import { useTranslation } from 'react-i18next';
 import './CurlFilter.css';
 
@@ -66,6 +82,9 @@ const CurlFilter: React.FC = () => {
   const { t } = useTranslation();
   const [inputCurl, setInputCurl] = useState('');
   const [outputCurl, setOutputCurl] = useState('');
+  const [filteredParsed, setFilteredParsed] = useState<ParsedCurl | null>(null);
+  const [outputTarget, setOutputTarget] = useState<CodeTarget>(CodeTarget.CURL);
+  const [formatOptions, setFormatOptions] = useState<FormatOptions>(DEFAULT_FORMAT_OPTIONS);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [inputValidation, setInputValidation] = useState<{
@@ -77,11 +96,16 @@ const CurlFilter: React.FC = () => {
   const [isRuleManagerOpen, setIsRuleManagerOpen] = useState(false);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [isHistoryManagerOpen, setIsHistoryManagerOpen] = useState(false);
+  const [isHarImportOpen, setIsHarImportOpen] = useState(false);
+  const [isOpenApiExportOpen, setIsOpenApiExportOpen] = useState(false);
 
   // 过滤相关状态
   const [rules, setRules] = useState<FilterRule[]>([]);
-  const [filterEngine] = useState<FilterEngine>(new FilterEngine());
+  const [filterService] = useState<FilterService>(() => new FilterService());
+  const [isFiltering, setIsFiltering] = useState(false);
+  const [resolutionStrategy, setResolutionStrategy] = useState<ResolutionStrategy>(DEFAULT_SETTINGS.resolutionStrategy);
   const [filterResult, setFilterResult] = useState<FilterResult | null>(null);
+  const enabledRules = useMemo(() => rules && Array.isArray(rules) ? rules.filter(r => r.enabled) : [], [rules]);
 
   // 防抖定时器引用
   const debounceTimerRef = useRef<number | null>(null);
@@ -90,19 +114,27 @@ const CurlFilter: React.FC = () => {
   const loadFilterRules = useCallback(async () => {
     try {
       const loadedRules = await loadRules();
+      const settings = await loadSettings();
       setRules(loadedRules);
-      filterEngine.setRules(loadedRules);
+      setResolutionStrategy(settings.resolutionStrategy);
+      filterService.setRules(loadedRules);
+      filterService.setResolutionStrategy(settings.resolutionStrategy);
     } catch (error) {
       console.error('加载过滤规则失败:', error);
       setError('加载过滤规则失败');
     }
-  }, [filterEngine]);
+  }, [filterService]);
 
   // 初始化加载规则
   useEffect(() => {
     loadFilterRules();
   }, [loadFilterRules]);
 
+  // 卸载时取消正在执行的过滤任务并释放 Worker
+  useEffect(() => {
+    return () => filterService.dispose();
+  }, [filterService]);
+
   const handleFilter = useCallback(async (curlText?: string) => {
     try {
       const textToProcess = curlText || inputCurl;
@@ -112,38 +144,19 @@ const CurlFilter: React.FC = () => {
         return;
       }
 
-      const parsed = parseCurl(textToProcess);
+      // 在 Worker 中解析命令、应用过滤规则并重新构建cURL命令，新的过滤会取消仍在执行的旧过滤
+      setIsFiltering(true);
+      const { result, filtered: filteredParsed, outputCurl: newCurl } = await filterService.filterCurl(textToProcess);
+      setIsFiltering(false);
 
-      if (!parsed.url) {
+      if (!filteredParsed.url) {
         setError(t('messages.parseUrlError'));
         return;
       }
 
-      // 创建过滤上下文
-      const context: FilterContext = {
-        headers: parsed.headers,
-        queryParams: parsed.queryParams,
-        formData: parsed.formData,
-        jsonBody: parsed.jsonBody,
-        url: parsed.url,
-        method: parsed.method
-      };
-
-      // 应用过滤规则
-      const result = filterEngine.applyFilters(context);
       setFilterResult(result);
-
-      // 重新构建cURL命令
-      const filteredParsed = {
-        ...parsed,
-        headers: result.headers,
-        queryParams: result.queryParams,
-        formData: result.formData,
-        jsonBody: result.jsonBody
-      };
-
-      const newCurl = buildCurlFromContext(filteredParsed);
       setOutputCurl(newCurl);
+      setFilteredParsed(filteredParsed);
       setError('');
       setSuccess(t('messages.filterComplete', { count: result.appliedRules.length }));
 
@@ -163,28 +176,35 @@ const CurlFilter: React.FC = () => {
         console.warn('过滤警告:', result.warnings);
       }
     } catch (err) {
+      // 被新的过滤取消时由新的过滤更新结果
+      if (isFilterJobCancelled(err)) {
+        return;
+      }
+      setIsFiltering(false);
       setError(t('messages.parseError', { error: (err as Error).message }));
     }
-  }, [inputCurl, filterEngine, t]);
+  }, [inputCurl, filterService, t]);
 
   // 自动过滤函数（带防抖）
   const autoFilter = useCallback((curlText: string) => {
-    // 清除之前的定时器
+    // 清除之前的定时器，输入已变化，仍在执行的过滤结果已过时
     if (debounceTimerRef.current) {
       window.clearTimeout(debounceTimerRef.current);
     }
+    filterService.cancel();
+    setIsFiltering(false);
 
     // 设置新的防抖定时器
     debounceTimerRef.current = window.setTimeout(async () => {
       // 检查是否有有效的cURL命令和启用的规则
       if (curlText.trim() && rules && Array.isArray(rules) && rules.filter(r => r.enabled).length > 0) {
-        // 检查是否看起来像cURL命令
-        if (curlText.trim().toLowerCase().startsWith('curl')) {
+        // 检查是否看起来像cURL、PowerShell命令或原始HTTP请求
+        if (isSupportedCommand(curlText)) {
           await handleFilter(curlText);
         }
       }
     }, 800); // 800ms防抖延迟
-  }, [handleFilter, rules]);
+  }, [handleFilter, rules, filterService]);
 
   // 清理定时器
   useEffect(() => {
@@ -198,77 +218,73 @@ const CurlFilter: React.FC = () => {
   // 处理规则变更
   const handleRulesChange = useCallback(async (newRules: FilterRule[]) => {
     setRules(newRules);
-    filterEngine.setRules(newRules);
+    filterService.setRules(newRules);
     // 如果有输入内容，自动重新过滤
     if (inputCurl.trim()) {
       // 直接调用handleFilter而不是autoFilter，避免循环依赖
       await handleFilter(inputCurl);
     }
-  }, [filterEngine, inputCurl, handleFilter]);
+  }, [filterService, inputCurl, handleFilter]);
 
-  // 从过滤上下文构建cURL命令
-  const buildCurlFromContext = (parsed: ParsedCurl): string => {
-    let command = 'curl';
-
-    // 添加方法
-    if (parsed.method !== 'GET') {
-      command += ` -X ${parsed.method}`;
+  // 处理冲突解决策略变更
+  // 规则管理器加载设置时也会通知，策略未变化时不重新过滤
+  const handleResolutionStrategyChange = useCallback(async (strategy: ResolutionStrategy) => {
+    if (strategy === resolutionStrategy) {
+      return;
     }
-
-    // 添加请求头
-    Object.entries(parsed.headers).forEach(([key, value]) => {
-      command += ` -H "${key}: ${value}"`;
-    });
-
-    // 添加查询参数到URL
-    let url = parsed.url;
-    const queryString = Object.entries(parsed.queryParams)
-      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value as string)}`)
-      .join('&');
-
-    if (queryString) {
-      url += (url.includes('?') ? '&' : '?') + queryString;
+    setResolutionStrategy(strategy);
+    filterService.setResolutionStrategy(strategy);
+    if (inputCurl.trim()) {
+      await handleFilter(inputCurl);
     }
+  }, [resolutionStrategy, filterService, inputCurl, handleFilter]);
 
-    // 添加请求体数据
-    if (parsed.jsonBody && Object.keys(parsed.jsonBody).length > 0) {
-      command += ` -d '${JSON.stringify(parsed.jsonBody)}'`;
-    } else if (parsed.formData && Object.keys(parsed.formData).length > 0) {
-      const formString = Object.entries(parsed.formData)
-        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value as string)}`)
-        .join('&');
-      command += ` -d "${formString}"`;
-    } else if (parsed.data) {
-      command += ` -d "${parsed.data}"`;
+  // 按选中的输出格式生成代码
+  const outputCode = useMemo(() => {
+    if (!filteredParsed) {
+      return outputCurl;
     }
-
-    // 添加URL
-    command += ` "${url}"`;
-
-    return command;
-  };
+    try {
+      return outputTarget === CodeTarget.CURL
+        ? formatCurl(filteredParsed, formatOptions)
+        : generateCode(filteredParsed, outputTarget);
+    } catch (error) {
+      console.error('生成代码失败:', error);
+      return outputCurl;
+    }
+  }, [filteredParsed, outputTarget, outputCurl, formatOptions]);
 
   const handleCopy = useCallback(async () => {
     try {
-      await navigator.clipboard.writeText(outputCurl);
+      await navigator.clipboard.writeText(outputCode);
       setSuccess(t('messages.copySuccess'));
     } catch (error) {
       console.error('复制失败:', error);
       setError(t('messages.copyFailed'));
     }
-  }, [outputCurl, t]);
+  }, [outputCode, t]);
+
+  // 导出为 Postman / Insomnia 导入文件
+  const handleExportCollection = useCallback((format: CollectionFormat) => {
+    if (!filteredParsed) return;
+    const { content, filename } = exportCollection([{ parsed: filteredParsed }], format, 'curl-filter');
+    downloadText(content, filename, 'application/json');
+  }, [filteredParsed]);
 
   const handleClear = useCallback(() => {
     setInputCurl('');
     setOutputCurl('');
+    setFilteredParsed(null);
     setFilterResult(null);
     setError('');
     setSuccess('');
-    // 清除防抖定时器
+    // 清除防抖定时器，取消仍在执行的过滤
     if (debounceTimerRef.current) {
       window.clearTimeout(debounceTimerRef.current);
     }
-  }, []);
+    filterService.cancel();
+    setIsFiltering(false);
+  }, [filterService]);
 
   // 验证cURL输入
   const validateCurlInput = useCallback((value: string) => {
@@ -279,15 +295,35 @@ const CurlFilter: React.FC = () => {
 
     const trimmedValue = value.trim();
 
-    if (!trimmedValue.startsWith('curl')) {
+    if (!isSupportedCommand(trimmedValue)) {
       setInputValidation({
         isValid: false,
-        message: '输入应该以 "curl" 开头',
+        message: '输入应该以 "curl" 开头，或是 PowerShell 的 Invoke-WebRequest 命令、原始HTTP请求',
         severity: 'error'
       });
       return;
     }
 
+    const dialect = detectCommandDialect(trimmedValue);
+
+    if (dialect === CommandDialect.RAW_HTTP) {
+      setInputValidation({
+        isValid: true,
+        message: '检测到原始HTTP请求',
+        severity: 'info'
+      });
+      return;
+    }
+
+    if (dialect === CommandDialect.POWERSHELL) {
+      setInputValidation({
+        isValid: true,
+        message: '检测到 PowerShell Invoke-WebRequest 命令',
+        severity: 'info'
+      });
+      return;
+    }
+
     if (!trimmedValue.includes('http')) {
       setInputValidation({
         isValid: false,
@@ -312,7 +348,11 @@ const CurlFilter: React.FC = () => {
 
     setInputValidation({
       isValid: true,
-      message: '检测到有效的cURL命令',
+      message: dialect === CommandDialect.CMD
+        ? '检测到有效的cURL命令（Windows cmd 格式）'
+        : dialect === CommandDialect.POWERSHELL_CURL
+          ? '检测到有效的cURL命令（PowerShell 格式）'
+          : '检测到有效的cURL命令',
       severity: 'info'
     });
   }, []);
@@ -440,6 +480,16 @@ const CurlFilter: React.FC = () => {
                 {t('buttons.historyRecord')}
               </Button>
             </Tooltip>
+            <Tooltip title="导入HAR文件，批量过滤其中的请求">
+              <Button
+                variant="outlined"
+                startIcon={<UploadFile />}
+                onClick={() => setIsHarImportOpen(true)}
+                size="small"
+              >
+                {t('buttons.harImport')}
+              </Button>
+            </Tooltip>
           </Box>
         </Box>
 
@@ -530,7 +580,7 @@ const CurlFilter: React.FC = () => {
                     disabled={!inputCurl.trim() || !rules || !Array.isArray(rules) || rules.filter(r => r.enabled).length === 0}
                     className="filter-button"
                   >
-                    <FilterList className="button-icon" />
+                    {isFiltering ? <CircularProgress size={16} className="button-icon" /> : <FilterList className="button-icon" />}
                     {t('buttons.applyFilter')}
                   </Button>
                 </span>
@@ -594,28 +644,66 @@ const CurlFilter: React.FC = () => {
                   <Typography variant="h6" className="section-title">
                     {t('input.filteredCommand')}
                   </Typography>
-                  <Tooltip title={t('tooltips.copyToClipboard')}>
-                    <IconButton
-                      onClick={handleCopy}
-                      color="primary"
-                      className="copy-button"
-                    >
-                      <ContentCopy />
-                    </IconButton>
-                  </Tooltip>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Tooltip title={t('tooltips.copyToClipboard')}>
+                      <IconButton
+                        onClick={handleCopy}
+                        color="primary"
+                        className="copy-button"
+                      >
+                        <ContentCopy />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="导出为 Postman Collection v2.1">
+                      <Button size="small" onClick={() => handleExportCollection(CollectionFormat.POSTMAN)}>
+                        Postman
+                      </Button>
+                    </Tooltip>
+                    <Tooltip title="导出为 Insomnia v4 导入文件">
+                      <Button size="small" onClick={() => handleExportCollection(CollectionFormat.INSOMNIA)}>
+                        Insomnia
+                      </Button>
+                    </Tooltip>
+                    <Tooltip title="生成 OpenAPI 3 文档，可作为 Coze 插件工具导入">
+                      <Button size="small" onClick={() => setIsOpenApiExportOpen(true)}>
+                        OpenAPI
+                      </Button>
+                    </Tooltip>
+                  </Box>
                 </Box>
+                <Tabs
+                  value={outputTarget}
+                  onChange={(_, newValue: CodeTarget) => setOutputTarget(newValue)}
+                  variant="scrollable"
+                  scrollButtons="auto"
+                  sx={{ mb: 1 }}
+                >
+                  {CODE_GENERATORS.map(generator => (
+                    <Tab
+                      key={generator.target}
+                      value={generator.target}
+                      label={generator.label}
+                      sx={{ textTransform: 'none' }}
+                    />
+                  ))}
+                </Tabs>
+                {outputTarget === CodeTarget.CURL && (
+                  <CurlFormatOptions options={formatOptions} onChange={setFormatOptions} />
+                )}
                 <TextField
                   multiline
-                  rows={6}
+                  rows={outputTarget === CodeTarget.CURL && !formatOptions.multiline ? 6 : 12}
                   fullWidth
                   variant="outlined"
-                  value={outputCurl}
+                  value={outputCode}
                   InputProps={{
                     readOnly: true,
                   }}
                   className="output-field"
                 />
 
+                {filteredParsed?.auth && <AuthInfo auth={filteredParsed.auth} />}
+
                 {filterResult && (
                   <Box className="filter-summary" sx={{ mt: 2 }}>
                     <Typography variant="body2" color="text.secondary">
@@ -679,7 +767,10 @@ const CurlFilter: React.FC = () => {
       >
         <DialogTitle>{t('dialogs.filterRuleManagement')}</DialogTitle>
         <DialogContent sx={{ p: 0 }}>
-          <RuleManager onRulesChange={handleRulesChange} />
+          <RuleManager
+            onRulesChange={handleRulesChange}
+            onResolutionStrategyChange={handleResolutionStrategyChange}
+          />
         </DialogContent>
       </Dialog>
 
@@ -696,6 +787,7 @@ const CurlFilter: React.FC = () => {
             <RulePreview
               curlCommand={inputCurl}
               rules={rules && Array.isArray(rules) ? rules.filter(r => r.enabled) : []}
+              resolutionStrategy={resolutionStrategy}
             />
           )}
         </DialogContent>
@@ -723,6 +815,32 @@ const CurlFilter: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      {/* HAR导入对话框 */}
+      <Dialog
+        open={isHarImportOpen}
+        onClose={() => setIsHarImportOpen(false)}
+        maxWidth="lg"
+        fullWidth
+      >
+        <DialogTitle>HAR导入</DialogTitle>
+        <DialogContent sx={{ p: 0 }}>
+          <HarImport rules={enabledRules} resolutionStrategy={resolutionStrategy} />
+        </DialogContent>
+      </Dialog>
+
+      {/* OpenAPI / Coze 插件导出对话框 */}
+      <Dialog
+        open={isOpenApiExportOpen && !!filteredParsed}
+        onClose={() => setIsOpenApiExportOpen(false)}
+        maxWidth="lg"
+        fullWidth
+      >
+        <DialogTitle>生成 OpenAPI / Coze 插件工具</DialogTitle>
+        <DialogContent sx={{ p: 0 }}>
+          {filteredParsed && <OpenApiExport parsed={filteredParsed} />}
+        </DialogContent>
+      </Dialog>
+
       <Snackbar
         open={!!error}
         autoHideDuration={6000}
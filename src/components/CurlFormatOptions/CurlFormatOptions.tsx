@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+  Box,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch
+} from '@mui/material';
+import {
+  ShellTarget,
+  QuoteStyle,
+  HeaderOrder,
+  type CurlFormatOptions as FormatOptions
+} from '../../utils/curlFormatter';
+import { AuthStyle } from '../../utils/auth';
+
+interface CurlFormatOptionsProps {
+  options: FormatOptions;
+  onChange: (options: FormatOptions) => void;
+}
+
+// 目标shell的显示名称
+const SHELL_LABELS: Record<ShellTarget, string> = {
+  [ShellTarget.BASH]: 'bash',
+  [ShellTarget.ZSH]: 'zsh',
+  [ShellTarget.CMD]: 'cmd',
+  [ShellTarget.POWERSHELL]: 'PowerShell'
+};
+
+// cURL 输出格式设置
+const CurlFormatOptions: React.FC<CurlFormatOptionsProps> = ({ options, onChange }) => {
+  const update = (changes: Partial<FormatOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap', mb: 1 }}>
+      <FormControl size="small" sx={{ minWidth: 120 }}>
+        <InputLabel>Shell</InputLabel>
+        <Select
+          label="Shell"
+          value={options.shell}
+          onChange={(e) => update({ shell: e.target.value as ShellTarget })}
+        >
+          {Object.values(ShellTarget).map(shell => (
+            <MenuItem key={shell} value={shell}>{SHELL_LABELS[shell]}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <FormControl size="small" sx={{ minWidth: 100 }} disabled={options.shell === ShellTarget.CMD}>
+        <InputLabel>引号</InputLabel>
+        <Select
+          label="引号"
+          value={options.quoteStyle}
+          onChange={(e) => update({ quoteStyle: e.target.value as QuoteStyle })}
+        >
+          <MenuItem value={QuoteStyle.SINGLE}>单引号</MenuItem>
+          <MenuItem value={QuoteStyle.DOUBLE}>双引号</MenuItem>
+        </Select>
+      </FormControl>
+      <FormControl size="small" sx={{ minWidth: 120 }}>
+        <InputLabel>请求头顺序</InputLabel>
+        <Select
+          label="请求头顺序"
+          value={options.headerOrder}
+          onChange={(e) => update({ headerOrder: e.target.value as HeaderOrder })}
+        >
+          <MenuItem value={HeaderOrder.ORIGINAL}>原始顺序</MenuItem>
+          <MenuItem value={HeaderOrder.ALPHABETICAL}>按名称排序</MenuItem>
+        </Select>
+      </FormControl>
+      <FormControl size="small" sx={{ minWidth: 140 }}>
+        <InputLabel>认证写法</InputLabel>
+        <Select
+          label="认证写法"
+          value={options.authStyle}
+          onChange={(e) => update({ authStyle: e.target.value as AuthStyle })}
+        >
+          <MenuItem value={AuthStyle.ORIGINAL}>保持原样</MenuItem>
+          <MenuItem value={AuthStyle.OPTION}>-u / --oauth2-bearer</MenuItem>
+          <MenuItem value={AuthStyle.HEADER}>Authorization请求头</MenuItem>
+        </Select>
+      </FormControl>
+      <FormControlLabel
+        control={<Switch size="small" checked={options.multiline} onChange={(e) => update({ multiline: e.target.checked })} />}
+        label="多行"
+      />
+      <FormControlLabel
+        control={<Switch size="small" checked={options.longFlags} onChange={(e) => update({ longFlags: e.target.checked })} />}
+        label="长选项名"
+      />
+      <FormControlLabel
+        control={<Switch size="small" checked={options.prettyJson} onChange={(e) => update({ prettyJson: e.target.checked })} />}
+        label="格式化JSON"
+      />
+    </Box>
+  );
+};
+
+export default CurlFormatOptions;
@@ -0,0 +1,312 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  Snackbar,
+  LinearProgress
+} from '@mui/material';
+import {
+  UploadFile,
+  Download,
+  Save
+} from '@mui/icons-material';
+import type { FilterRule, ResolutionStrategy } from '../../types/filterRules';
+import { DEFAULT_SETTINGS } from '../../types/filterRules';
+import type { HarFile } from '../../types/har';
+import { FilterService, isFilterJobCancelled } from '../../utils/filterService';
+import type { FilterProgress } from '../../utils/filterJobs';
+import { saveHistoryEntry } from '../../utils/indexedDBStorage';
+import { buildCurlFromContext } from '../../utils/curlBuilder';
+import { downloadText } from '../../utils/download';
+import {
+  parseHar,
+  matchesHarItemFilter,
+  buildCurlScript,
+  buildHarFromItems,
+  type HarBatchItem,
+  type HarItemFilter
+} from '../../utils/har';
+
+interface HarImportProps {
+  rules: FilterRule[];  // 启用的过滤规则
+  resolutionStrategy?: ResolutionStrategy;  // 删除/保留规则的冲突解决策略
+}
+
+// 状态码筛选选项
+const STATUS_OPTIONS = ['2xx', '3xx', '4xx', '5xx', '0'];
+
+/**
+ * 状态码对应的标签颜色
+ */
+function statusColor(status: number): 'success' | 'info' | 'warning' | 'error' | 'default' {
+  if (status >= 500) return 'error';
+  if (status >= 400) return 'warning';
+  if (status >= 300) return 'info';
+  if (status >= 200) return 'success';
+  return 'default';
+}
+
+const HarImport: React.FC<HarImportProps> = ({ rules, resolutionStrategy }) => {
+  const [har, setHar] = useState<HarFile | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [filter, setFilter] = useState<HarItemFilter>({});
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [filterService] = useState<FilterService>(() => new FilterService());
+  const [items, setItems] = useState<HarBatchItem[]>([]);
+  const [progress, setProgress] = useState<FilterProgress | null>(null);
+
+  // 规则变化时在 Worker 中重新过滤所有请求，未完成的过滤会被新的过滤取消
+  useEffect(() => {
+    if (!har) {
+      setItems([]);
+      return;
+    }
+
+    filterService.setRules(rules);
+    filterService.setResolutionStrategy(resolutionStrategy ?? DEFAULT_SETTINGS.resolutionStrategy);
+    setProgress({ completed: 0, total: har.log.entries.length });
+    filterService.filterHar(har, setProgress)
+      .then(filteredItems => {
+        setItems(filteredItems);
+        setProgress(null);
+      })
+      .catch(err => {
+        if (isFilterJobCancelled(err)) return;
+        setProgress(null);
+        setError('HAR文件过滤失败: ' + (err as Error).message);
+      });
+
+    return () => filterService.cancel();
+  }, [har, rules, resolutionStrategy, filterService]);
+
+  // 卸载时释放 Worker
+  useEffect(() => {
+    return () => filterService.dispose();
+  }, [filterService]);
+  const visibleItems = useMemo(() => items.filter(item => matchesHarItemFilter(item, filter)), [items, filter]);
+  const selectedItems = useMemo(() => items.filter(item => selected.has(item.index)), [items, selected]);
+  const methods = useMemo(() => Array.from(new Set(items.map(item => item.method))).sort(), [items]);
+
+  const baseName = fileName.replace(/\.har$/i, '') || 'requests';
+
+  // 选择HAR文件
+  const handleOpenFile = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.har,.json';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        try {
+          const parsed = parseHar(e.target?.result as string);
+          setHar(parsed);
+          setItems([]);
+          setFileName(file.name);
+          setSelected(new Set(parsed.log.entries.map((_, index) => index)));
+          setFilter({});
+          setSuccess(`已导入 ${parsed.log.entries.length} 个请求`);
+        } catch (err) {
+          setError('HAR文件导入失败: ' + (err as Error).message);
+        }
+      };
+      reader.readAsText(file);
+    };
+    input.click();
+  };
+
+  const toggleItem = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  // 选中或取消选中所有满足筛选条件的请求
+  const setVisibleSelected = (value: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      visibleItems.forEach(item => value ? next.add(item.index) : next.delete(item.index));
+      return next;
+    });
+  };
+
+  const handleExportScript = () => {
+    downloadText(buildCurlScript(selectedItems), `${baseName}.sh`, 'text/x-shellscript');
+    setSuccess(`已导出 ${selectedItems.length} 条cURL命令`);
+  };
+
+  const handleExportHar = () => {
+    if (!har) return;
+    downloadText(JSON.stringify(buildHarFromItems(har, selectedItems), null, 2), `${baseName}.filtered.har`, 'application/json');
+    setSuccess(`已导出 ${selectedItems.length} 个请求`);
+  };
+
+  const handleSaveHistory = async () => {
+    let saved = 0;
+    for (const item of selectedItems) {
+      try {
+        const ok = await saveHistoryEntry(
+          buildCurlFromContext(item.parsed),
+          item.outputCurl,
+          item.result.appliedRules,
+          item.result,
+          `${item.method} ${item.url}`,
+          ['HAR']
+        );
+        if (ok) saved++;
+      } catch (err) {
+        console.warn('保存历史记录失败:', err);
+      }
+    }
+
+    if (saved === selectedItems.length) {
+      setSuccess(`已保存 ${saved} 条历史记录`);
+    } else {
+      setError(`${selectedItems.length - saved} 条历史记录保存失败`);
+    }
+  };
+
+  return (
+    <Box sx={{ p: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Button variant="contained" startIcon={<UploadFile />} onClick={handleOpenFile}>
+          选择HAR文件
+        </Button>
+        <Typography variant="body2" color="text.secondary">
+          {har
+            ? `${fileName}：共 ${items.length} 个请求，已选择 ${selectedItems.length} 个`
+            : '从浏览器开发者工具的网络面板导出 HAR 文件，按当前启用的规则批量过滤其中的请求'}
+        </Typography>
+      </Box>
+
+      {progress && (
+        <Box>
+          <LinearProgress
+            variant="determinate"
+            value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}
+          />
+          <Typography variant="caption" color="text.secondary">
+            正在过滤 {progress.completed} / {progress.total}
+          </Typography>
+        </Box>
+      )}
+
+      {har && (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+            <TextField
+              size="small"
+              label="URL包含"
+              value={filter.url || ''}
+              onChange={(e) => setFilter({ ...filter, url: e.target.value })}
+              sx={{ minWidth: 260 }}
+            />
+            <FormControl size="small" sx={{ minWidth: 120 }}>
+              <InputLabel>方法</InputLabel>
+              <Select
+                label="方法"
+                value={filter.method || ''}
+                onChange={(e) => setFilter({ ...filter, method: e.target.value })}
+              >
+                <MenuItem value="">全部</MenuItem>
+                {methods.map(method => (
+                  <MenuItem key={method} value={method}>{method}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 120 }}>
+              <InputLabel>状态码</InputLabel>
+              <Select
+                label="状态码"
+                value={filter.status || ''}
+                onChange={(e) => setFilter({ ...filter, status: e.target.value })}
+              >
+                <MenuItem value="">全部</MenuItem>
+                {STATUS_OPTIONS.map(status => (
+                  <MenuItem key={status} value={status}>{status === '0' ? '无响应' : status}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button size="small" onClick={() => setVisibleSelected(true)}>
+              选择匹配的 {visibleItems.length} 项
+            </Button>
+            <Button size="small" onClick={() => setVisibleSelected(false)}>
+              取消选择匹配项
+            </Button>
+          </Box>
+
+          <List dense sx={{ maxHeight: '50vh', overflow: 'auto', border: 1, borderColor: 'divider', borderRadius: 1 }}>
+            {visibleItems.map(item => (
+              <ListItem key={item.index} onClick={() => toggleItem(item.index)} sx={{ cursor: 'pointer' }}>
+                <ListItemIcon sx={{ minWidth: 36 }}>
+                  <Checkbox edge="start" size="small" checked={selected.has(item.index)} tabIndex={-1} disableRipple />
+                </ListItemIcon>
+                <Chip label={item.method} size="small" variant="outlined" sx={{ mr: 1, minWidth: 64 }} />
+                <Chip label={item.status || '—'} size="small" color={statusColor(item.status)} sx={{ mr: 1, minWidth: 48 }} />
+                <ListItemText
+                  primary={item.url}
+                  secondary={item.result.appliedRules.length > 0 ? `应用了 ${item.result.appliedRules.length} 条规则` : '未应用规则'}
+                  primaryTypographyProps={{ noWrap: true, sx: { fontFamily: 'monospace' } }}
+                />
+              </ListItem>
+            ))}
+            {visibleItems.length === 0 && (
+              <ListItem>
+                <ListItemText secondary="没有满足条件的请求" />
+              </ListItem>
+            )}
+          </List>
+
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button variant="outlined" startIcon={<Download />} onClick={handleExportScript} disabled={selectedItems.length === 0}>
+              导出cURL脚本
+            </Button>
+            <Button variant="outlined" startIcon={<Download />} onClick={handleExportHar} disabled={selectedItems.length === 0}>
+              导出HAR
+            </Button>
+            <Button variant="outlined" startIcon={<Save />} onClick={handleSaveHistory} disabled={selectedItems.length === 0}>
+              保存到历史记录
+            </Button>
+          </Box>
+        </>
+      )}
+
+      <Snackbar open={!!error} autoHideDuration={6000} onClose={() => setError('')}>
+        <Alert onClose={() => setError('')} severity="error">
+          {error}
+        </Alert>
+      </Snackbar>
+
+      <Snackbar open={!!success} autoHideDuration={3000} onClose={() => setSuccess('')}>
+        <Alert onClose={() => setSuccess('')} severity="success">
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default HarImport;
@@ -7,6 +7,7 @@ import {
   Paper,
   List,
   ListItem,
+  ListItemIcon,
   ListItemText,
   ListItemSecondaryAction,
   IconButton,
@@ -38,10 +39,13 @@ import {
   Visibility,
   Edit,
   History as HistoryIcon,
-  Star
+  Star,
+  Download
 } from '@mui/icons-material';
 import type { HistoryEntry, HistoryQueryOptions, HistoryStats } from '../../types/filterRules';
 import { indexedDBStorageManager } from '../../utils/indexedDBStorage';
+import { CollectionFormat, exportCollection, historyEntriesToRequests } from '../../utils/collectionExport';
+import { downloadText } from '../../utils/download';
 import { useTranslation } from 'react-i18next';
 import './HistoryManager.css';
 
@@ -92,6 +96,9 @@ const HistoryManager: React.FC<HistoryManagerProps> = ({ onSelectEntry }) => {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedEntry, setSelectedEntry] = useState<HistoryEntry | null>(null);
 
+  // 勾选的记录（用于批量导出）
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+
   // 编辑状态
   const [editTitle, setEditTitle] = useState('');
   const [editTags, setEditTags] = useState('');
@@ -177,6 +184,32 @@ const HistoryManager: React.FC<HistoryManagerProps> = ({ onSelectEntry }) => {
     }
   }, []);
 
+  // 勾选或取消勾选记录
+  const toggleChecked = useCallback((id: string) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  // 把勾选的记录导出为 Postman / Insomnia 导入文件
+  const exportChecked = useCallback((format: CollectionFormat) => {
+    const requests = historyEntriesToRequests(entries.filter(entry => checkedIds.has(entry.id)));
+    if (requests.length === 0) {
+      setError('所选记录中没有可导出的请求');
+      return;
+    }
+
+    const { content, filename } = exportCollection(requests, format, 'curl-filter-history');
+    downloadText(content, filename, 'application/json');
+    setSuccess(`已导出 ${requests.length} 个请求`);
+  }, [entries, checkedIds]);
+
   // 打开查看对话框
   const openViewDialog = useCallback((entry: HistoryEntry) => {
     setSelectedEntry(entry);
@@ -265,70 +298,107 @@ const HistoryManager: React.FC<HistoryManagerProps> = ({ onSelectEntry }) => {
           ) : entries.length === 0 ? (
             <Alert severity="info">{t('messages.noHistory')}</Alert>
           ) : (
-            <List className="history-list">
-              {entries.map((entry) => (
-                <ListItem key={entry.id} className="history-item">
-                  <ListItemText
-                    primary={
-                      <Box className="history-item-header">
-                        <Typography variant="subtitle1" className="history-title">
-                          {entry.title || t('history.untitledRecord')}
-                        </Typography>
-                        <Box className="history-item-actions">
-                          {entry.favorite && <Star className="favorite-icon" />}
-                          <Typography variant="caption" color="text.secondary">
-                            {formatTime(entry.timestamp)}
+            <>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Checkbox
+                  size="small"
+                  checked={entries.length > 0 && entries.every(entry => checkedIds.has(entry.id))}
+                  indeterminate={checkedIds.size > 0 && !entries.every(entry => checkedIds.has(entry.id))}
+                  onChange={(e) => setCheckedIds(e.target.checked ? new Set(entries.map(entry => entry.id)) : new Set())}
+                />
+                <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+                  已选择 {entries.filter(entry => checkedIds.has(entry.id)).length} 条
+                </Typography>
+                <Button
+                  size="small"
+                  startIcon={<Download />}
+                  disabled={checkedIds.size === 0}
+                  onClick={() => exportChecked(CollectionFormat.POSTMAN)}
+                >
+                  导出Postman
+                </Button>
+                <Button
+                  size="small"
+                  startIcon={<Download />}
+                  disabled={checkedIds.size === 0}
+                  onClick={() => exportChecked(CollectionFormat.INSOMNIA)}
+                >
+                  导出Insomnia
+                </Button>
+              </Box>
+              <List className="history-list">
+                {entries.map((entry) => (
+                  <ListItem key={entry.id} className="history-item">
+                    <ListItemIcon sx={{ minWidth: 36 }}>
+                      <Checkbox
+                        edge="start"
+                        size="small"
+                        checked={checkedIds.has(entry.id)}
+                        onChange={() => toggleChecked(entry.id)}
+                      />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={
+                        <Box className="history-item-header">
+                          <Typography variant="subtitle1" className="history-title">
+                            {entry.title || t('history.untitledRecord')}
                           </Typography>
-                        </Box>
-                      </Box>
-                    }
-                    secondary={
-                      <Box className="history-item-content">
-                        <Typography variant="body2" className="curl-preview" noWrap>
-                          {entry.inputCurl}
-                        </Typography>
-                        {entry.tags && entry.tags.length > 0 && (
-                          <Box className="history-tags">
-                            {entry.tags.map((tag) => (
-                              <Chip key={tag} label={tag} size="small" variant="outlined" />
-                            ))}
+                          <Box className="history-item-actions">
+                            {entry.favorite && <Star className="favorite-icon" />}
+                            <Typography variant="caption" color="text.secondary">
+                              {formatTime(entry.timestamp)}
+                            </Typography>
                           </Box>
-                        )}
-                      </Box>
-                    }
-                  />
-                  <ListItemSecondaryAction>
-                    <Tooltip title={entry.favorite ? '取消收藏' : '添加收藏'}>
-                      <IconButton onClick={() => toggleFavorite(entry)} size="small">
-                        {entry.favorite ? <Favorite color="primary" /> : <FavoriteBorder />}
-                      </IconButton>
-                    </Tooltip>
-                    <Tooltip title="查看详情">
-                      <IconButton onClick={() => openViewDialog(entry)} size="small">
-                        <Visibility />
-                      </IconButton>
-                    </Tooltip>
-                    <Tooltip title="编辑">
-                      <IconButton onClick={() => openEditDialog(entry)} size="small">
-                        <Edit />
-                      </IconButton>
-                    </Tooltip>
-                    <Tooltip title="删除">
-                      <IconButton 
-                        onClick={() => {
-                          setSelectedEntry(entry);
-                          setDeleteDialogOpen(true);
-                        }} 
-                        size="small"
-                        color="error"
-                      >
-                        <Delete />
-                      </IconButton>
-                    </Tooltip>
-                  </ListItemSecondaryAction>
-                </ListItem>
-              ))}
-            </List>
+                        </Box>
+                      }
+                      secondary={
+                        <Box className="history-item-content">
+                          <Typography variant="body2" className="curl-preview" noWrap>
+                            {entry.inputCurl}
+                          </Typography>
+                          {entry.tags && entry.tags.length > 0 && (
+                            <Box className="history-tags">
+                              {entry.tags.map((tag) => (
+                                <Chip key={tag} label={tag} size="small" variant="outlined" />
+                              ))}
+                            </Box>
+                          )}
+                        </Box>
+                      }
+                    />
+                    <ListItemSecondaryAction>
+                      <Tooltip title={entry.favorite ? '取消收藏' : '添加收藏'}>
+                        <IconButton onClick={() => toggleFavorite(entry)} size="small">
+                          {entry.favorite ? <Favorite color="primary" /> : <FavoriteBorder />}
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="查看详情">
+                        <IconButton onClick={() => openViewDialog(entry)} size="small">
+                          <Visibility />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="编辑">
+                        <IconButton onClick={() => openEditDialog(entry)} size="small">
+                          <Edit />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="删除">
+                        <IconButton 
+                          onClick={() => {
+                            setSelectedEntry(entry);
+                            setDeleteDialogOpen(true);
+                          }} 
+                          size="small"
+                          color="error"
+                        >
+                          <Delete />
+                        </IconButton>
+                      </Tooltip>
+                    </ListItemSecondaryAction>
+                  </ListItem>
+                ))}
+              </List>
+            </>
           )}
         </Box>
       </TabPanel>
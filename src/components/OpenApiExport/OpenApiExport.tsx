@@ -0,0 +1,203 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Chip,
+  Switch,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Tabs,
+  Tab,
+  Alert,
+  Snackbar
+} from '@mui/material';
+import {
+  ContentCopy,
+  Download
+} from '@mui/icons-material';
+import type { ParsedCurl } from '../../utils/curlParser';
+import {
+  extractOpenApiFields,
+  generateOpenApiDocument,
+  buildOperationId,
+  toYaml,
+  FieldLocation,
+  type OpenApiField
+} from '../../utils/openApiGenerator';
+import { downloadText } from '../../utils/download';
+
+interface OpenApiExportProps {
+  parsed: ParsedCurl;  // 过滤后的请求
+}
+
+// 字段位置的显示名称
+const LOCATION_LABELS: Record<FieldLocation, string> = {
+  [FieldLocation.QUERY]: '查询参数',
+  [FieldLocation.HEADER]: '请求头',
+  [FieldLocation.BODY]: '请求体'
+};
+
+/**
+ * 字段值的预览文本
+ */
+function previewValue(value: unknown): string {
+  if (value === undefined) return '(文件)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * 默认工具名称
+ */
+function defaultOperationId(parsed: ParsedCurl): string {
+  try {
+    return buildOperationId(parsed.method, new URL(parsed.url).pathname);
+  } catch {
+    return buildOperationId(parsed.method, '');
+  }
+}
+
+// 对话框每次打开时重新挂载，字段按当时的请求提取
+const OpenApiExport: React.FC<OpenApiExportProps> = ({ parsed }) => {
+  const [fields, setFields] = useState<OpenApiField[]>(() => extractOpenApiFields(parsed));
+  const [title, setTitle] = useState('');
+  const [operationId, setOperationId] = useState(() => defaultOperationId(parsed));
+  const [summary, setSummary] = useState('');
+  const [format, setFormat] = useState<'yaml' | 'json'>('yaml');
+  const [message, setMessage] = useState('');
+
+  const spec = useMemo(() => generateOpenApiDocument(parsed, fields, {
+    title: title || operationId,
+    operationId,
+    summary
+  }), [parsed, fields, title, operationId, summary]);
+
+  const output = useMemo(
+    () => format === 'yaml' ? toYaml(spec) + '\n' : JSON.stringify(spec, null, 2),
+    [spec, format]
+  );
+
+  const updateField = (index: number, changes: Partial<OpenApiField>) => {
+    setFields(prev => prev.map((field, i) => i === index ? { ...field, ...changes } : field));
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(output);
+      setMessage('已复制到剪贴板');
+    } catch (error) {
+      console.error('复制失败:', error);
+    }
+  };
+
+  const handleDownload = () => {
+    const filename = `${operationId || 'openapi'}.${format}`;
+    downloadText(output, filename, format === 'yaml' ? 'application/yaml' : 'application/json');
+  };
+
+  return (
+    <Box sx={{ p: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+        <TextField
+          size="small"
+          label="插件名称"
+          value={title}
+          placeholder={operationId}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <TextField
+          size="small"
+          label="工具名称 (operationId)"
+          value={operationId}
+          onChange={(e) => setOperationId(e.target.value.replace(/[^A-Za-z0-9_]/g, '_'))}
+          helperText="只能包含字母、数字和下划线"
+        />
+        <TextField
+          size="small"
+          label="工具说明"
+          value={summary}
+          onChange={(e) => setSummary(e.target.value)}
+          sx={{ flexGrow: 1 }}
+        />
+      </Box>
+
+      {fields.length > 0 ? (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>位置</TableCell>
+              <TableCell>名称</TableCell>
+              <TableCell>请求中的值</TableCell>
+              <TableCell>用户输入</TableCell>
+              <TableCell>参数说明</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {fields.map((field, index) => (
+              <TableRow key={`${field.location}:${field.name}`}>
+                <TableCell>
+                  <Chip label={LOCATION_LABELS[field.location]} size="small" variant="outlined" />
+                </TableCell>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{field.name}</TableCell>
+                <TableCell sx={{ fontFamily: 'monospace', maxWidth: 240, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {previewValue(field.value)}
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    size="small"
+                    checked={field.isInput}
+                    onChange={(e) => updateField(index, { isInput: e.target.checked })}
+                  />
+                  <Typography variant="caption" color="text.secondary">
+                    {field.isInput ? '输入' : '常量'}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    variant="standard"
+                    fullWidth
+                    value={field.description || ''}
+                    onChange={(e) => updateField(index, { description: e.target.value })}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <Alert severity="info">请求中没有查询参数、请求头或请求体字段</Alert>
+      )}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Tabs value={format} onChange={(_, value: 'yaml' | 'json') => setFormat(value)}>
+          <Tab value="yaml" label="YAML" />
+          <Tab value="json" label="JSON" />
+        </Tabs>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button size="small" startIcon={<ContentCopy />} onClick={handleCopy}>复制</Button>
+          <Button size="small" startIcon={<Download />} onClick={handleDownload}>下载</Button>
+        </Box>
+      </Box>
+      <TextField
+        multiline
+        rows={16}
+        fullWidth
+        value={output}
+        InputProps={{ readOnly: true, sx: { fontFamily: 'monospace', fontSize: 13 } }}
+      />
+
+      <Snackbar open={!!message} autoHideDuration={3000} onClose={() => setMessage('')}>
+        <Alert onClose={() => setMessage('')} severity="success">
+          {message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default OpenApiExport;
@@ -20,14 +20,23 @@ import {
   Cancel as CancelIcon
 } from '@mui/icons-material';
 
-import type { FilterRule } from '../../types/filterRules';
+import type { FilterRule, RuleCondition } from '../../types/filterRules';
 import {
   FilterAction,
   FilterTarget,
   MatchMode,
-  PRIORITY_RANGE
+  MatchScope,
+  MaskStrategy,
+  PRIORITY_RANGE,
+  requiresMatchValue,
+  requiresReplacement
 } from '../../types/filterRules';
 import { validateRule, updateRuleTimestamp } from '../../utils/ruleValidation';
+import { DEFAULT_REDACTION } from '../../utils/redaction';
+import { isEmptyCondition } from '../../utils/ruleConditions';
+import { isCaseSensitive } from '../../utils/ruleMatching';
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
 
 interface RuleEditorProps {
   rule: FilterRule;
@@ -56,6 +65,19 @@ const RuleEditor: React.FC<RuleEditorProps> = ({
     }));
   };
 
+  const handleConditionChange = (field: keyof RuleCondition, value: string | string[]) => {
+    setEditedRule(prev => {
+      const condition: RuleCondition = { ...prev.condition, [field]: value };
+      if (!value || value.length === 0) {
+        delete condition[field];
+      }
+      return {
+        ...prev,
+        condition: isEmptyCondition(condition) ? undefined : condition
+      };
+    });
+  };
+
   const handleSave = () => {
     if (validation.isValid) {
       const updatedRule = updateRuleTimestamp(editedRule);
@@ -63,14 +85,21 @@ const RuleEditor: React.FC<RuleEditorProps> = ({
     }
   };
 
-  const needsMatchValue = editedRule.action === FilterAction.DELETE || editedRule.action === FilterAction.KEEP;
+  const needsMatchValue = requiresMatchValue(editedRule.action);
+  const supportsMatchOptions = needsMatchValue && editedRule.matchMode !== MatchMode.JSON_PATH;
+  const supportsNegate = supportsMatchOptions &&
+    editedRule.action !== FilterAction.ADD && editedRule.action !== FilterAction.RENAME;
 
   const getActionDescription = (action: FilterAction): string => {
     const descriptions = {
       [FilterAction.DELETE]: '删除匹配的项目',
       [FilterAction.DELETE_ALL]: '删除所有项目（忽略匹配值）',
       [FilterAction.KEEP]: '保留匹配的项目',
-      [FilterAction.KEEP_ALL]: '保留所有项目（忽略匹配值）'
+      [FilterAction.KEEP_ALL]: '保留所有项目（忽略匹配值）',
+      [FilterAction.REDACT]: '保留匹配的项目，但把值替换为占位符',
+      [FilterAction.SET]: '把匹配项目的值改为新值；精确匹配且项目不存在时新增',
+      [FilterAction.ADD]: '项目不存在时新增（匹配值为键名，需使用精确匹配或JSON路径）',
+      [FilterAction.RENAME]: '把匹配的键名改为新键名，值保持不变'
     };
     return descriptions[action];
   };
@@ -80,7 +109,11 @@ const RuleEditor: React.FC<RuleEditorProps> = ({
       [FilterTarget.HEADERS]: 'HTTP请求头字段',
       [FilterTarget.QUERY_PARAMS]: 'URL查询参数',
       [FilterTarget.FORM_DATA]: '表单数据字段',
-      [FilterTarget.JSON_BODY]: 'JSON请求体字段'
+      [FilterTarget.JSON_BODY]: 'JSON请求体字段',
+      [FilterTarget.MULTIPART]: 'multipart表单字段（-F/--form）',
+      [FilterTarget.COOKIES]: '单个Cookie（Cookie请求头和 -b/--cookie）',
+      [FilterTarget.OPTIONS]: '其他curl选项，可按长选项名或命令中的写法匹配（如 --insecure 或 -k），带参数的选项可按值匹配',
+      [FilterTarget.AUTH]: '认证信息（-u、--oauth2-bearer 或 Authorization 请求头），字段名为 username、password 或 token'
     };
     return descriptions[target];
   };
@@ -91,11 +124,23 @@ const RuleEditor: React.FC<RuleEditorProps> = ({
       [MatchMode.CONTAINS]: '字段名包含指定文本',
       [MatchMode.REGEX]: '使用正则表达式匹配',
       [MatchMode.STARTS_WITH]: '字段名以指定文本开头',
-      [MatchMode.ENDS_WITH]: '字段名以指定文本结尾'
+      [MatchMode.ENDS_WITH]: '字段名以指定文本结尾',
+      [MatchMode.GLOB]: '通配符匹配，* 匹配任意字符，? 匹配单个字符，如 sec-ch-*、x-*-id',
+      [MatchMode.ONE_OF]: '与逗号分隔的任一名称相同，如 accept, content-type',
+      [MatchMode.JSON_PATH]: '按路径匹配任意深度的JSON节点，如 data.user.password、items[*].id、..token'
     };
     return descriptions[mode];
   };
 
+  const getMatchScopeDescription = (scope: MatchScope): string => {
+    const descriptions = {
+      [MatchScope.KEY]: '匹配值作用于字段名',
+      [MatchScope.VALUE]: '匹配值作用于字段值，如删除值包含 localhost 的请求头',
+      [MatchScope.BOTH]: '字段名或字段值任一匹配即可'
+    };
+    return descriptions[scope];
+  };
+
   const getPriorityDescription = (priority: number): string => {
     if (priority >= 80) return '高优先级 - 最先执行';
     if (priority >= 60) return '中高优先级';
@@ -190,6 +235,10 @@ const RuleEditor: React.FC<RuleEditorProps> = ({
               <MenuItem value={FilterAction.DELETE_ALL}>删除全部</MenuItem>
               <MenuItem value={FilterAction.KEEP}>保留</MenuItem>
               <MenuItem value={FilterAction.KEEP_ALL}>保留全部</MenuItem>
+              <MenuItem value={FilterAction.REDACT}>脱敏</MenuItem>
+              <MenuItem value={FilterAction.SET}>设置值</MenuItem>
+              <MenuItem value={FilterAction.ADD}>新增</MenuItem>
+              <MenuItem value={FilterAction.RENAME}>重命名</MenuItem>
             </Select>
             <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
               {getActionDescription(editedRule.action)}
@@ -209,6 +258,10 @@ const RuleEditor: React.FC<RuleEditorProps> = ({
               <MenuItem value={FilterTarget.QUERY_PARAMS}>查询参数</MenuItem>
               <MenuItem value={FilterTarget.FORM_DATA}>表单数据</MenuItem>
               <MenuItem value={FilterTarget.JSON_BODY}>JSON请求体</MenuItem>
+              <MenuItem value={FilterTarget.MULTIPART}>Multipart表单</MenuItem>
+              <MenuItem value={FilterTarget.COOKIES}>Cookie</MenuItem>
+              <MenuItem value={FilterTarget.OPTIONS}>curl选项</MenuItem>
+              <MenuItem value={FilterTarget.AUTH}>认证信息</MenuItem>
             </Select>
             <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
               {getTargetDescription(editedRule.target)}
@@ -228,7 +281,12 @@ const RuleEditor: React.FC<RuleEditorProps> = ({
               <MenuItem value={MatchMode.CONTAINS}>包含匹配</MenuItem>
               <MenuItem value={MatchMode.STARTS_WITH}>开头匹配</MenuItem>
               <MenuItem value={MatchMode.ENDS_WITH}>结尾匹配</MenuItem>
+              <MenuItem value={MatchMode.GLOB}>通配符</MenuItem>
+              <MenuItem value={MatchMode.ONE_OF}>列表匹配</MenuItem>
               <MenuItem value={MatchMode.REGEX}>正则表达式</MenuItem>
+              <MenuItem value={MatchMode.JSON_PATH} disabled={editedRule.target !== FilterTarget.JSON_BODY}>
+                JSON路径
+              </MenuItem>
             </Select>
             <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
               {getMatchModeDescription(editedRule.matchMode)}
@@ -252,11 +310,188 @@ const RuleEditor: React.FC<RuleEditorProps> = ({
                 ? '该动作需要指定匹配值'
                 : editedRule.matchMode === MatchMode.REGEX
                 ? '请输入有效的正则表达式'
+                : editedRule.matchMode === MatchMode.JSON_PATH
+                ? '支持 a.b、[0]、[*]、* 和 ..key'
+                : editedRule.matchMode === MatchMode.GLOB
+                ? '* 匹配任意字符，? 匹配单个字符'
+                : editedRule.matchMode === MatchMode.ONE_OF
+                ? '多个名称用逗号分隔'
                 : '要匹配的字段名或模式'
             }
           />
         </Grid>
 
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <FormControl fullWidth disabled={!needsMatchValue || editedRule.matchMode === MatchMode.JSON_PATH}>
+            <InputLabel>匹配范围</InputLabel>
+            <Select
+              value={editedRule.matchScope || MatchScope.KEY}
+              onChange={(e) => handleFieldChange('matchScope', e.target.value)}
+              label="匹配范围"
+            >
+              <MenuItem value={MatchScope.KEY}>字段名</MenuItem>
+              <MenuItem value={MatchScope.VALUE}>字段值</MenuItem>
+              <MenuItem value={MatchScope.BOTH}>字段名或字段值</MenuItem>
+            </Select>
+            <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
+              {getMatchScopeDescription(editedRule.matchScope || MatchScope.KEY)}
+            </Typography>
+          </FormControl>
+        </Grid>
+
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={isCaseSensitive(editedRule)}
+                onChange={(e) => handleFieldChange('caseSensitive', e.target.checked)}
+                disabled={!supportsMatchOptions}
+              />
+            }
+            label="区分大小写"
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={!!editedRule.negate && supportsNegate}
+                onChange={(e) => handleFieldChange('negate', e.target.checked)}
+                disabled={!supportsNegate}
+              />
+            }
+            label="取反"
+          />
+          <Typography variant="caption" color="text.secondary" component="div">
+            {editedRule.negate && supportsNegate
+              ? '规则作用于不符合匹配值的项目，如删除除指定字段以外的全部字段'
+              : '默认请求头不区分大小写；其他目标的精确、通配符和列表匹配区分大小写'}
+          </Typography>
+        </Grid>
+
+        {requiresReplacement(editedRule.action) && (
+          <Grid size={{ xs: 12, sm: 6 }}>
+            <TextField
+              fullWidth
+              required
+              label={editedRule.action === FilterAction.RENAME ? '新键名' : '新值'}
+              value={editedRule.replacement || ''}
+              onChange={(e) => handleFieldChange('replacement', e.target.value)}
+              error={!editedRule.replacement}
+              helperText={
+                editedRule.action === FilterAction.RENAME
+                  ? '匹配的键将被重命名为此名称'
+                  : 'JSON请求体中合法的JSON字面量（如 1、true、{"a":1}）按JSON写入，其余按字符串写入'
+              }
+            />
+          </Grid>
+        )}
+
+        {editedRule.action === FilterAction.REDACT && (
+          <>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <FormControl fullWidth>
+                <InputLabel>脱敏方式</InputLabel>
+                <Select
+                  value={editedRule.maskStrategy || MaskStrategy.FIXED}
+                  onChange={(e) => handleFieldChange('maskStrategy', e.target.value)}
+                  label="脱敏方式"
+                >
+                  <MenuItem value={MaskStrategy.FIXED}>固定字符串</MenuItem>
+                  <MenuItem value={MaskStrategy.PARTIAL}>部分隐藏（保留末尾4位）</MenuItem>
+                  <MenuItem value={MaskStrategy.HASH}>哈希</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label="替换文本"
+                value={editedRule.maskValue || ''}
+                onChange={(e) => handleFieldChange('maskValue', e.target.value)}
+                disabled={(editedRule.maskStrategy || MaskStrategy.FIXED) !== MaskStrategy.FIXED}
+                placeholder={DEFAULT_REDACTION}
+                helperText="固定字符串脱敏使用的占位符，留空时为 <REDACTED>"
+              />
+            </Grid>
+          </>
+        )}
+
+        <Grid size={12}>
+          <Divider />
+        </Grid>
+
+        {/* 适用条件 */}
+        <Grid size={12}>
+          <Typography variant="h6" gutterBottom>
+            适用条件
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            可选：只有满足全部已填写条件的请求才会应用此规则，留空表示对所有请求生效
+          </Typography>
+        </Grid>
+
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <TextField
+            fullWidth
+            label="主机"
+            value={editedRule.condition?.host || ''}
+            onChange={(e) => handleConditionChange('host', e.target.value)}
+            placeholder="*.staging.example.com"
+            helperText="主机名通配符，* 匹配任意字符"
+          />
+        </Grid>
+
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <TextField
+            fullWidth
+            label="路径"
+            value={editedRule.condition?.path || ''}
+            onChange={(e) => handleConditionChange('path', e.target.value)}
+            placeholder="/api/*"
+            helperText="URL路径通配符，不含查询字符串"
+          />
+        </Grid>
+
+        <Grid size={{ xs: 12, sm: 4 }}>
+          <FormControl fullWidth>
+            <InputLabel>请求方法</InputLabel>
+            <Select
+              multiple
+              value={editedRule.condition?.methods || []}
+              onChange={(e) => handleConditionChange(
+                'methods',
+                typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value
+              )}
+              label="请求方法"
+              renderValue={(selected) => selected.join(', ')}
+            >
+              {HTTP_METHODS.map(method => (
+                <MenuItem key={method} value={method}>{method}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+
+        <Grid size={{ xs: 12, sm: 4 }}>
+          <TextField
+            fullWidth
+            label="Content-Type 包含"
+            value={editedRule.condition?.contentType || ''}
+            onChange={(e) => handleConditionChange('contentType', e.target.value)}
+            placeholder="json"
+          />
+        </Grid>
+
+        <Grid size={{ xs: 12, sm: 4 }}>
+          <TextField
+            fullWidth
+            label="存在请求头"
+            value={editedRule.condition?.hasHeader || ''}
+            onChange={(e) => handleConditionChange('hasHeader', e.target.value)}
+            placeholder="x-tenant-id"
+          />
+        </Grid>
+
         <Grid size={12}>
           <Divider />
         </Grid>
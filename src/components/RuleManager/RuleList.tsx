@@ -24,7 +24,8 @@ import {
 } from '@mui/icons-material';
 
 import type { FilterRule } from '../../types/filterRules';
-import { FilterAction, FilterTarget, MatchMode } from '../../types/filterRules';
+import { FilterAction, FilterTarget, MatchMode, MatchScope } from '../../types/filterRules';
+import { isEmptyCondition, describeRuleCondition } from '../../utils/ruleConditions';
 
 interface RuleListProps {
   rules: FilterRule[];
@@ -71,7 +72,11 @@ const RuleList: React.FC<RuleListProps> = ({
       [FilterAction.DELETE]: '删除',
       [FilterAction.DELETE_ALL]: '删除全部',
       [FilterAction.KEEP]: '保留',
-      [FilterAction.KEEP_ALL]: '保留全部'
+      [FilterAction.KEEP_ALL]: '保留全部',
+      [FilterAction.REDACT]: '脱敏',
+      [FilterAction.SET]: '设置',
+      [FilterAction.ADD]: '新增',
+      [FilterAction.RENAME]: '重命名'
     };
     return names[action];
   };
@@ -81,7 +86,11 @@ const RuleList: React.FC<RuleListProps> = ({
       [FilterTarget.HEADERS]: '请求头',
       [FilterTarget.QUERY_PARAMS]: '查询参数',
       [FilterTarget.FORM_DATA]: '表单数据',
-      [FilterTarget.JSON_BODY]: 'JSON请求体'
+      [FilterTarget.JSON_BODY]: 'JSON请求体',
+      [FilterTarget.MULTIPART]: 'Multipart表单',
+      [FilterTarget.COOKIES]: 'Cookie',
+      [FilterTarget.OPTIONS]: 'curl选项',
+      [FilterTarget.AUTH]: '认证信息'
     };
     return names[target];
   };
@@ -92,7 +101,10 @@ const RuleList: React.FC<RuleListProps> = ({
       [MatchMode.CONTAINS]: '包含',
       [MatchMode.REGEX]: '正则表达式',
       [MatchMode.STARTS_WITH]: '开头匹配',
-      [MatchMode.ENDS_WITH]: '结尾匹配'
+      [MatchMode.ENDS_WITH]: '结尾匹配',
+      [MatchMode.GLOB]: '通配符',
+      [MatchMode.ONE_OF]: '列表匹配',
+      [MatchMode.JSON_PATH]: 'JSON路径'
     };
     return names[mode];
   };
@@ -105,6 +117,12 @@ const RuleList: React.FC<RuleListProps> = ({
       case FilterAction.KEEP:
       case FilterAction.KEEP_ALL:
         return 'success';
+      case FilterAction.REDACT:
+        return 'warning';
+      case FilterAction.SET:
+      case FilterAction.ADD:
+      case FilterAction.RENAME:
+        return 'info';
       default:
         return 'default';
     }
@@ -182,6 +200,11 @@ const RuleList: React.FC<RuleListProps> = ({
                         {rule.description}
                       </Typography>
                     )}
+                    {!isEmptyCondition(rule.condition) && (
+                      <Typography variant="caption" color="info.main" display="block">
+                        适用于：{describeRuleCondition(rule.condition)}
+                      </Typography>
+                    )}
                   </Box>
                 </TableCell>
                 
@@ -203,6 +226,10 @@ const RuleList: React.FC<RuleListProps> = ({
                 <TableCell>
                   <Typography variant="body2" color="text.secondary">
                     {getMatchModeDisplayName(rule.matchMode)}
+                    {rule.matchScope === MatchScope.VALUE && '（值）'}
+                    {rule.matchScope === MatchScope.BOTH && '（键名或值）'}
+                    {rule.caseSensitive !== undefined && (rule.caseSensitive ? '（区分大小写）' : '（不区分大小写）')}
+                    {rule.negate && '（取反）'}
                   </Typography>
                 </TableCell>
                 
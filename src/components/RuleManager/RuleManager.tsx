@@ -13,7 +13,12 @@ import {
   Tab,
   IconButton,
   Tooltip,
-  Divider
+  Divider,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormHelperText
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -24,7 +29,8 @@ import {
 } from '@mui/icons-material';
 
 import type { FilterRule, RuleTemplate } from '../../types/filterRules';
-import { storageManager, saveRules, loadRules } from '../../utils/ruleStorage';
+import { ResolutionStrategy, DEFAULT_SETTINGS } from '../../types/filterRules';
+import { storageManager, saveRules, loadRules, loadSettings, saveSettings } from '../../utils/ruleStorage';
 import { validateRules } from '../../utils/ruleValidation';
 import { BUILT_IN_TEMPLATES } from '../../utils/ruleTemplates';
 import { createDefaultRule } from '../../utils/ruleValidation';
@@ -59,11 +65,29 @@ function TabPanel(props: TabPanelProps) {
 
 interface RuleManagerProps {
   onRulesChange?: (rules: FilterRule[]) => void;
+  onResolutionStrategyChange?: (strategy: ResolutionStrategy) => void;
 }
 
-const RuleManager: React.FC<RuleManagerProps> = ({ onRulesChange }) => {
+// 冲突解决策略的名称和说明
+const RESOLUTION_STRATEGIES: Record<ResolutionStrategy, { label: string; description: string }> = {
+  [ResolutionStrategy.FIRST_MATCH]: {
+    label: '优先级最高的规则生效',
+    description: '一项匹配多条删除/保留规则时，由优先级最高的规则决定去留'
+  },
+  [ResolutionStrategy.LAST_MATCH]: {
+    label: '优先级最低的规则生效',
+    description: '规则按优先级从高到低依次执行，后执行的规则覆盖先执行的规则'
+  },
+  [ResolutionStrategy.DENY_OVERRIDES]: {
+    label: '删除优先',
+    description: '只要有一条删除规则匹配就删除，否则保留'
+  }
+};
+
+const RuleManager: React.FC<RuleManagerProps> = ({ onRulesChange, onResolutionStrategyChange }) => {
   const { t } = useTranslation();
   const [rules, setRules] = useState<FilterRule[]>([]);
+  const [resolutionStrategy, setResolutionStrategy] = useState<ResolutionStrategy>(DEFAULT_SETTINGS.resolutionStrategy);
   const [selectedRule, setSelectedRule] = useState<FilterRule | null>(null);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
@@ -82,13 +106,16 @@ const RuleManager: React.FC<RuleManagerProps> = ({ onRulesChange }) => {
   const loadRulesFromStorage = useCallback(async () => {
     try {
       const loadedRules = await loadRules();
+      const settings = await loadSettings();
       setRules(loadedRules);
+      setResolutionStrategy(settings.resolutionStrategy);
       onRulesChange?.(loadedRules);
+      onResolutionStrategyChange?.(settings.resolutionStrategy);
     } catch (error) {
       console.error('加载规则失败:', error);
       showNotification(t('messages.loadFailed'), 'error');
     }
-  }, [onRulesChange, t]);
+  }, [onRulesChange, onResolutionStrategyChange, t]);
 
   // 保存规则
   const saveRulesToStorage = useCallback(async (newRules: FilterRule[]) => {
@@ -107,6 +134,23 @@ const RuleManager: React.FC<RuleManagerProps> = ({ onRulesChange }) => {
     }
   }, [onRulesChange, t]);
 
+  // 切换冲突解决策略
+  const handleResolutionStrategyChange = async (strategy: ResolutionStrategy) => {
+    const success = await saveSettings({ resolutionStrategy: strategy });
+    if (!success) {
+      showNotification(t('messages.saveFailed'), 'error');
+      return;
+    }
+
+    setResolutionStrategy(strategy);
+    onResolutionStrategyChange?.(strategy);
+
+    const conflicts = validateRules(rules, strategy).warnings;
+    if (conflicts.length > 0) {
+      showNotification(`警告: ${conflicts.join(', ')}`, 'warning');
+    }
+  };
+
   // 显示通知
   const showNotification = (message: string, severity: 'success' | 'error' | 'warning' | 'info') => {
     setNotification({ open: true, message, severity });
@@ -158,7 +202,7 @@ const RuleManager: React.FC<RuleManagerProps> = ({ onRulesChange }) => {
     }
 
     // 验证规则
-    const validation = validateRules(newRules);
+    const validation = validateRules(newRules, resolutionStrategy);
     if (!validation.isValid) {
       showNotification(`规则验证失败: ${validation.errors.join(', ')}`, 'error');
       return;
@@ -303,6 +347,19 @@ const RuleManager: React.FC<RuleManagerProps> = ({ onRulesChange }) => {
           </Tabs>
 
           <TabPanel value={currentTab} index={0}>
+            <FormControl size="small" sx={{ mb: 2, minWidth: 240 }}>
+              <InputLabel>冲突解决策略</InputLabel>
+              <Select
+                value={resolutionStrategy}
+                label="冲突解决策略"
+                onChange={(e) => handleResolutionStrategyChange(e.target.value as ResolutionStrategy)}
+              >
+                {Object.entries(RESOLUTION_STRATEGIES).map(([strategy, { label }]) => (
+                  <MenuItem key={strategy} value={strategy}>{label}</MenuItem>
+                ))}
+              </Select>
+              <FormHelperText>{RESOLUTION_STRATEGIES[resolutionStrategy].description}</FormHelperText>
+            </FormControl>
             <RuleList
               rules={rules}
               onEdit={handleEditRule}
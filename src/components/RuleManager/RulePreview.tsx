@@ -13,26 +13,136 @@ import {
   TableRow,
   Alert,
   Divider,
-  TextField
+  TextField,
+  Tooltip
 } from '@mui/material';
 import {
   CheckCircle as CheckIcon,
   Cancel as CancelIcon,
-  Warning as WarningIcon
+  Warning as WarningIcon,
+  Lock as LockIcon,
+  Edit as EditIcon
 } from '@mui/icons-material';
 
-import type { FilterRule, FilterContext, FilterResult } from '../../types/filterRules';
+import type { FilterRule, FilterContext, FilterResult, MultipartField, CurlOption, FieldTrace, ResolutionStrategy } from '../../types/filterRules';
+import { FilterTarget, TraceDecision } from '../../types/filterRules';
 import { parseCurl } from '../../utils/curlParser';
 import { FilterEngine } from '../../utils/filterEngine';
+import { formatJsonPath } from '../../utils/jsonPath';
+import { authToRecord } from '../../utils/auth';
+import type { JsonLocation } from '../../utils/jsonPath';
+
+/**
+ * 将multipart字段转换为便于对比展示的键值对，重名字段追加序号
+ */
+function multipartToRecord(fields: MultipartField[] = []): Record<string, string> {
+  const record: Record<string, string> = {};
+  const counts: Record<string, number> = {};
+
+  fields.forEach(field => {
+    counts[field.name] = (counts[field.name] || 0) + 1;
+    const key = counts[field.name] > 1 ? `${field.name} (${counts[field.name]})` : field.name;
+    const prefix = field.isFile ? '@' : field.isFileContent ? '<' : '';
+    const suffix = field.contentType ? ` (${field.contentType})` : '';
+    record[key] = `${prefix}${field.value}${suffix}`;
+  });
+
+  return record;
+}
+
+/**
+ * 将curl选项转换为以长选项名为键的键值对，重复的选项追加序号
+ */
+function optionsToRecord(options: CurlOption[] = []): Record<string, string> {
+  const record: Record<string, string> = {};
+  const counts: Record<string, number> = {};
+
+  options.forEach(option => {
+    counts[option.name] = (counts[option.name] || 0) + 1;
+    const key = counts[option.name] > 1 ? `${option.name} (${counts[option.name]})` : option.name;
+    record[key] = option.value ?? '';
+  });
+
+  return record;
+}
+
+// 解释面板中各目标的标题
+const TRACE_TARGET_LABELS: Record<FilterTarget, string> = {
+  [FilterTarget.HEADERS]: '请求头',
+  [FilterTarget.QUERY_PARAMS]: '查询参数',
+  [FilterTarget.FORM_DATA]: '表单数据',
+  [FilterTarget.JSON_BODY]: 'JSON请求体',
+  [FilterTarget.MULTIPART]: 'Multipart表单',
+  [FilterTarget.COOKIES]: 'Cookie',
+  [FilterTarget.OPTIONS]: 'curl选项',
+  [FilterTarget.AUTH]: '认证信息'
+};
+
+// 最终结果的显示名称和颜色
+const TRACE_DECISIONS: Record<TraceDecision, { label: string; color: 'success' | 'error' | 'secondary' | 'info' | 'warning' }> = {
+  [TraceDecision.KEPT]: { label: '保留', color: 'success' },
+  [TraceDecision.DELETED]: { label: '删除', color: 'error' },
+  [TraceDecision.REDACTED]: { label: '脱敏', color: 'secondary' },
+  [TraceDecision.MODIFIED]: { label: '修改', color: 'info' },
+  [TraceDecision.ADDED]: { label: '新增', color: 'warning' },
+  [TraceDecision.RENAMED]: { label: '重命名', color: 'info' }
+};
+
+interface JsonLine {
+  text: string;
+  status?: 'removed' | 'redacted';
+}
+
+/**
+ * 将JSON格式化为逐行文本，并标记被删除或脱敏的节点（包括其全部子节点）所在的行
+ */
+function formatJsonLines(value: unknown, removedPaths: Set<string>, redactedPaths: Set<string>): JsonLine[] {
+  const lines: JsonLine[] = [];
+
+  const walk = (node: unknown, location: JsonLocation, prefix: string, suffix: string, indent: string, parentStatus: JsonLine['status']) => {
+    const path = formatJsonPath(location);
+    const status = parentStatus
+      || (removedPaths.has(path) ? 'removed' : redactedPaths.has(path) ? 'redacted' : undefined);
+
+    if (node === null || typeof node !== 'object') {
+      lines.push({ text: `${indent}${prefix}${JSON.stringify(node)}${suffix}`, status });
+      return;
+    }
+
+    const isArray = Array.isArray(node);
+    const entries: Array<[string | number, unknown]> = isArray
+      ? node.map((item, index) => [index, item])
+      : Object.entries(node);
+    const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+
+    if (entries.length === 0) {
+      lines.push({ text: `${indent}${prefix}${open}${close}${suffix}`, status });
+      return;
+    }
+
+    lines.push({ text: `${indent}${prefix}${open}`, status });
+    entries.forEach(([key, child], index) => {
+      const childPrefix = isArray ? '' : `${JSON.stringify(key)}: `;
+      const childSuffix = index < entries.length - 1 ? ',' : '';
+      walk(child, [...location, key], childPrefix, childSuffix, indent + '  ', status);
+    });
+    lines.push({ text: `${indent}${close}${suffix}`, status });
+  };
+
+  walk(value, [], '', '', '', undefined);
+  return lines;
+}
 
 interface RulePreviewProps {
   curlCommand: string;
   rules: FilterRule[];
+  resolutionStrategy?: ResolutionStrategy;  // 删除/保留规则的冲突解决策略
 }
 
 const RulePreview: React.FC<RulePreviewProps> = ({
   curlCommand,
-  rules
+  rules,
+  resolutionStrategy
 }) => {
   const [originalContext, setOriginalContext] = useState<FilterContext | null>(null);
   const [filterResult, setFilterResult] = useState<FilterResult | null>(null);
@@ -57,6 +167,11 @@ const RulePreview: React.FC<RulePreviewProps> = ({
         queryParams: parsed.queryParams,
         formData: parsed.formData,
         jsonBody: parsed.jsonBody,
+        multipartData: parsed.multipartData,
+        cookies: parsed.cookies,
+        optionCookies: parsed.optionCookies,
+        options: parsed.options,
+        auth: parsed.auth,
         url: parsed.url,
         method: parsed.method
       };
@@ -64,19 +179,20 @@ const RulePreview: React.FC<RulePreviewProps> = ({
       setOriginalContext(context);
 
       // 应用过滤规则
-      const engine = new FilterEngine(rules);
-      const result = engine.applyFilters(context);
+      const engine = new FilterEngine(rules, resolutionStrategy);
+      const result = engine.applyFilters(context, { explain: true });
       setFilterResult(result);
       setError('');
     } catch (err) {
       setError('解析cURL命令时出错: ' + (err as Error).message);
     }
-  }, [curlCommand, rules]);
+  }, [curlCommand, rules, resolutionStrategy]);
 
   const renderDataComparison = (
     title: string,
     originalData: Record<string, any>,
-    filteredData: Record<string, any>
+    filteredData: Record<string, any>,
+    redactedKeys: Set<string> = new Set()
   ) => {
     const originalKeys = Object.keys(originalData);
     const filteredKeys = Object.keys(filteredData);
@@ -114,7 +230,10 @@ const RulePreview: React.FC<RulePreviewProps> = ({
               {allKeys.map((key) => {
                 const originalValue = originalData[key];
                 const filteredValue = filteredData[key];
-                const isKept = filteredValue !== undefined;
+                const isRedacted = redactedKeys.has(key) && filteredValue !== undefined;
+                const isModified = !isRedacted && originalValue !== undefined && filteredValue !== undefined &&
+                  String(originalValue) !== String(filteredValue);
+                const isKept = filteredValue !== undefined && !isRedacted && !isModified;
                 const isRemoved = originalValue !== undefined && filteredValue === undefined;
                 const isAdded = originalValue === undefined && filteredValue !== undefined;
 
@@ -161,6 +280,24 @@ const RulePreview: React.FC<RulePreviewProps> = ({
                           variant="outlined"
                         />
                       )}
+                      {isModified && (
+                        <Chip
+                          icon={<EditIcon />}
+                          label="修改"
+                          color="info"
+                          size="small"
+                          variant="outlined"
+                        />
+                      )}
+                      {isRedacted && (
+                        <Chip
+                          icon={<LockIcon />}
+                          label="脱敏"
+                          color="secondary"
+                          size="small"
+                          variant="outlined"
+                        />
+                      )}
                       {isRemoved && (
                         <Chip
                           icon={<CancelIcon />}
@@ -190,7 +327,12 @@ const RulePreview: React.FC<RulePreviewProps> = ({
     );
   };
 
-  const renderJsonComparison = (originalJson: any, filteredJson: any) => {
+  const renderJsonComparison = (
+    originalJson: any,
+    filteredJson: any,
+    removedPaths: string[] = [],
+    redactedPaths: string[] = []
+  ) => {
     if (!originalJson && !filteredJson) {
       return (
         <Box sx={{ mb: 3 }}>
@@ -212,17 +354,25 @@ const RulePreview: React.FC<RulePreviewProps> = ({
         <Grid container spacing={2}>
           <Grid size={6}>
             <Typography variant="subtitle2" gutterBottom>
-              原始JSON
+              原始JSON（删除和脱敏的节点已标出）
             </Typography>
-            <TextField
-              multiline
-              rows={6}
-              fullWidth
-              variant="outlined"
-              value={originalJson ? JSON.stringify(originalJson, null, 2) : ''}
-              InputProps={{ readOnly: true }}
-              size="small"
-            />
+            <Paper variant="outlined" sx={{ p: 1, height: 160, overflow: 'auto' }}>
+              <Box component="pre" sx={{ m: 0, fontFamily: 'monospace', fontSize: '0.8125rem' }}>
+                {originalJson && formatJsonLines(originalJson, new Set(removedPaths), new Set(redactedPaths)).map((line, index) => (
+                  <Box
+                    key={index}
+                    component="span"
+                    sx={line.status === 'removed'
+                      ? { display: 'block', color: 'error.main', bgcolor: 'action.hover', textDecoration: 'line-through' }
+                      : line.status === 'redacted'
+                        ? { display: 'block', color: 'secondary.main', bgcolor: 'action.hover' }
+                        : { display: 'block' }}
+                  >
+                    {line.text}
+                  </Box>
+                ))}
+              </Box>
+            </Paper>
           </Grid>
           <Grid size={6}>
             <Typography variant="subtitle2" gutterBottom>
@@ -239,6 +389,110 @@ const RulePreview: React.FC<RulePreviewProps> = ({
             />
           </Grid>
         </Grid>
+        {(removedPaths.length > 0 || redactedPaths.length > 0) && (
+          <Box sx={{ mt: 1, display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            {removedPaths.map(path => (
+              <Chip key={path} icon={<CancelIcon />} label={path} size="small" color="error" variant="outlined" />
+            ))}
+            {redactedPaths.map(path => (
+              <Chip key={path} icon={<LockIcon />} label={path} size="small" color="secondary" variant="outlined" />
+            ))}
+          </Box>
+        )}
+      </Box>
+    );
+  };
+
+  // 按字段列出每条规则的匹配情况和起决定作用的规则，只列出有规则评估过的字段
+  const renderTrace = (trace: FieldTrace[] = []) => {
+    const targets = Object.values(FilterTarget)
+      .map(target => [target, trace.filter(entry => entry.target === target && entry.evaluations.length > 0)] as const)
+      .filter(([, entries]) => entries.length > 0);
+
+    if (targets.length === 0) {
+      return null;
+    }
+
+    return (
+      <Box sx={{ mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          规则执行说明
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          规则按优先级从高到低执行；删除/保留规则中，后执行（优先级较低）的匹配规则覆盖先执行的规则
+        </Typography>
+        {targets.map(([target, entries]) => (
+          <Box key={target} sx={{ mb: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              {TRACE_TARGET_LABELS[target]}
+            </Typography>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>字段名</TableCell>
+                    <TableCell width="90px">结果</TableCell>
+                    <TableCell>决定规则</TableCell>
+                    <TableCell>评估的规则</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {entries.map(entry => {
+                    const deciding = entry.evaluations.find(evaluation => evaluation.ruleId === entry.decidingRuleId);
+                    return (
+                      <TableRow key={entry.key}>
+                        <TableCell>
+                          <Typography variant="body2" fontWeight="medium" sx={{ wordBreak: 'break-all' }}>
+                            {entry.key}
+                          </Typography>
+                        </TableCell>
+                        <TableCell>
+                          <Chip
+                            label={TRACE_DECISIONS[entry.decision].label}
+                            color={TRACE_DECISIONS[entry.decision].color}
+                            size="small"
+                            variant="outlined"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Typography variant="body2">
+                            {deciding ? deciding.ruleName : '-'}
+                          </Typography>
+                          {entry.note && (
+                            <Typography variant="caption" color="warning.main">
+                              {entry.note}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                            {entry.evaluations.map((evaluation, index) => (
+                              <Tooltip
+                                key={`${evaluation.ruleId}-${index}`}
+                                title={`${evaluation.action}，优先级 ${evaluation.priority}，${
+                                  !evaluation.conditionMet ? '适用条件不满足' : evaluation.matched ? '匹配' : '不匹配'
+                                }`}
+                              >
+                                <Chip
+                                  icon={evaluation.matched ? <CheckIcon /> : <CancelIcon />}
+                                  label={evaluation.ruleName}
+                                  size="small"
+                                  color={evaluation.ruleId === entry.decidingRuleId ? 'primary' : 'default'}
+                                  variant={evaluation.matched ? 'filled' : 'outlined'}
+                                  sx={evaluation.conditionMet ? undefined : { opacity: 0.5 }}
+                                />
+                              </Tooltip>
+                            ))}
+                          </Box>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        ))}
       </Box>
     );
   };
@@ -259,6 +513,12 @@ const RulePreview: React.FC<RulePreviewProps> = ({
     );
   }
 
+  const getRedactedKeys = (target: FilterTarget): Set<string> => new Set(
+    (filterResult.redactedEntries || [])
+      .filter(entry => entry.target === target)
+      .map(entry => entry.key)
+  );
+
   return (
     <Box className="rule-preview">
       {/* 过滤摘要 */}
@@ -322,10 +582,49 @@ const RulePreview: React.FC<RulePreviewProps> = ({
       <Divider sx={{ mb: 3 }} />
 
       {/* 详细对比 */}
-      {renderDataComparison('请求头', originalContext.headers, filterResult.headers)}
-      {renderDataComparison('查询参数', originalContext.queryParams, filterResult.queryParams)}
-      {renderDataComparison('表单数据', originalContext.formData, filterResult.formData)}
-      {renderJsonComparison(originalContext.jsonBody, filterResult.jsonBody)}
+      {renderDataComparison('请求头', originalContext.headers, filterResult.headers, getRedactedKeys(FilterTarget.HEADERS))}
+      {renderDataComparison(
+        '查询参数',
+        originalContext.queryParams,
+        filterResult.queryParams,
+        getRedactedKeys(FilterTarget.QUERY_PARAMS)
+      )}
+      {renderDataComparison('表单数据', originalContext.formData, filterResult.formData, getRedactedKeys(FilterTarget.FORM_DATA))}
+      {renderDataComparison(
+        'Cookie',
+        originalContext.cookies || {},
+        filterResult.cookies || {},
+        getRedactedKeys(FilterTarget.COOKIES)
+      )}
+      {renderDataComparison(
+        'Multipart表单',
+        multipartToRecord(originalContext.multipartData),
+        multipartToRecord(filterResult.multipartData),
+        getRedactedKeys(FilterTarget.MULTIPART)
+      )}
+      {renderDataComparison(
+        'curl选项',
+        optionsToRecord(originalContext.options),
+        optionsToRecord(filterResult.options),
+        getRedactedKeys(FilterTarget.OPTIONS)
+      )}
+      {renderDataComparison(
+        '认证信息',
+        authToRecord(originalContext.auth),
+        authToRecord(filterResult.auth),
+        getRedactedKeys(FilterTarget.AUTH)
+      )}
+      {renderJsonComparison(
+        originalContext.jsonBody,
+        filterResult.jsonBody,
+        filterResult.removedJsonPaths,
+        Array.from(getRedactedKeys(FilterTarget.JSON_BODY))
+      )}
+
+      <Divider sx={{ mb: 3 }} />
+
+      {/* 规则执行说明 */}
+      {renderTrace(filterResult.trace)}
     </Box>
   );
 };
@@ -102,7 +102,11 @@ const TemplateSelector: React.FC<TemplateSelectorProps> = ({
       [FilterAction.DELETE]: '删除',
       [FilterAction.DELETE_ALL]: '删除全部',
       [FilterAction.KEEP]: '保留',
-      [FilterAction.KEEP_ALL]: '保留全部'
+      [FilterAction.KEEP_ALL]: '保留全部',
+      [FilterAction.REDACT]: '脱敏',
+      [FilterAction.SET]: '设置',
+      [FilterAction.ADD]: '新增',
+      [FilterAction.RENAME]: '重命名'
     };
     return names[action];
   };
@@ -112,7 +116,11 @@ const TemplateSelector: React.FC<TemplateSelectorProps> = ({
       [FilterTarget.HEADERS]: '请求头',
       [FilterTarget.QUERY_PARAMS]: '查询参数',
       [FilterTarget.FORM_DATA]: '表单数据',
-      [FilterTarget.JSON_BODY]: 'JSON请求体'
+      [FilterTarget.JSON_BODY]: 'JSON请求体',
+      [FilterTarget.MULTIPART]: 'Multipart表单',
+      [FilterTarget.COOKIES]: 'Cookie',
+      [FilterTarget.OPTIONS]: 'curl选项',
+      [FilterTarget.AUTH]: '认证信息'
     };
     return names[target];
   };
@@ -125,6 +133,12 @@ const TemplateSelector: React.FC<TemplateSelectorProps> = ({
       case FilterAction.KEEP:
       case FilterAction.KEEP_ALL:
         return 'success';
+      case FilterAction.REDACT:
+        return 'warning';
+      case FilterAction.SET:
+      case FilterAction.ADD:
+      case FilterAction.RENAME:
+        return 'info';
       default:
         return 'default';
     }
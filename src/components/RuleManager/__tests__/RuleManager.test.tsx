@@ -7,6 +7,8 @@ import type { FilterRule } from '../../../types/filterRules'
 vi.mock('../../../utils/ruleStorage', () => ({
   loadRules: vi.fn(),
   saveRules: vi.fn(),
+  loadSettings: vi.fn(),
+  saveSettings: vi.fn(),
 }))
 
 vi.mock('../../../utils/indexedDBStorage', () => ({
@@ -23,10 +25,12 @@ vi.mock('react-i18next', () => ({
   }),
 }))
 
-import { loadRules, saveRules } from '../../../utils/ruleStorage'
+import { loadRules, saveRules, loadSettings } from '../../../utils/ruleStorage'
+import { DEFAULT_SETTINGS } from '../../../types/filterRules'
 
 const mockLoadRules = loadRules as any
 const mockSaveRules = saveRules as any
+const mockLoadSettings = vi.mocked(loadSettings)
 
 describe('RuleManager - Rule Deletion', () => {
   const mockRules: FilterRule[] = [
@@ -60,6 +64,7 @@ describe('RuleManager - Rule Deletion', () => {
     vi.clearAllMocks()
     mockLoadRules.mockResolvedValue(mockRules)
     mockSaveRules.mockResolvedValue(true)
+    mockLoadSettings.mockResolvedValue({ ...DEFAULT_SETTINGS })
   })
 
   it('should delete a rule and update the list', async () => {
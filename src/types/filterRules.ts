@@ -7,11 +7,26 @@ export const FilterAction = {
   DELETE: 'delete',           // 删除匹配的项
   DELETE_ALL: 'delete_all',   // 删除所有项（忽略匹配值）
   KEEP: 'keep',               // 保留匹配的项
-  KEEP_ALL: 'keep_all'        // 保留所有项（忽略匹配值）
+  KEEP_ALL: 'keep_all',       // 保留所有项（忽略匹配值）
+  REDACT: 'redact',           // 保留匹配的项，但对值脱敏
+  SET: 'set',                 // 把匹配项的值改为替换值；精确匹配且不存在时新增
+  ADD: 'add',                 // 不存在时新增键（匹配值为键名，替换值为值）
+  RENAME: 'rename'            // 把匹配的键重命名为替换值
 } as const;
 
 export type FilterAction = typeof FilterAction[keyof typeof FilterAction];
 
+/**
+ * 脱敏方式（用于REDACT动作）
+ */
+export const MaskStrategy = {
+  FIXED: 'fixed',             // 替换为固定字符串，如 <REDACTED>
+  PARTIAL: 'partial',         // 只保留末尾4个字符，如 ****abcd
+  HASH: 'hash'                // 替换为值的短哈希，如 <hash:1a2b3c4d>
+} as const;
+
+export type MaskStrategy = typeof MaskStrategy[keyof typeof MaskStrategy];
+
 /**
  * 过滤目标类型
  */
@@ -19,7 +34,11 @@ export const FilterTarget = {
   HEADERS: 'headers',         // 请求头
   QUERY_PARAMS: 'query_params', // URL查询参数
   FORM_DATA: 'form_data',     // 表单数据
-  JSON_BODY: 'json_body'      // JSON请求体
+  JSON_BODY: 'json_body',     // JSON请求体
+  MULTIPART: 'multipart',     // multipart表单字段（-F/--form）
+  COOKIES: 'cookies',         // Cookie（Cookie请求头和 -b/--cookie）
+  OPTIONS: 'options',         // 其他curl选项（--compressed、-k、--proxy 等）
+  AUTH: 'auth'                // 认证信息（-u、--oauth2-bearer、Authorization请求头）
 } as const;
 
 export type FilterTarget = typeof FilterTarget[keyof typeof FilterTarget];
@@ -32,11 +51,37 @@ export const MatchMode = {
   CONTAINS: 'contains',       // 包含匹配
   REGEX: 'regex',             // 正则表达式
   STARTS_WITH: 'starts_with', // 开头匹配
-  ENDS_WITH: 'ends_with'      // 结尾匹配
+  ENDS_WITH: 'ends_with',     // 结尾匹配
+  GLOB: 'glob',               // 通配符匹配，* 匹配任意字符，? 匹配单个字符（如 sec-ch-*、x-*-id）
+  ONE_OF: 'one_of',           // 列表匹配，与逗号分隔的任一名称相同即可（如 accept, content-type）
+  JSON_PATH: 'json_path'      // JSON路径（仅用于JSON请求体，如 data.user.password、items[*].id、..token）
 } as const;
 
 export type MatchMode = typeof MatchMode[keyof typeof MatchMode];
 
+/**
+ * 匹配范围：匹配值作用于键名、值，还是两者
+ */
+export const MatchScope = {
+  KEY: 'key',                 // 匹配键名（默认）
+  VALUE: 'value',             // 匹配值
+  BOTH: 'both'                // 键名或值任一匹配即可
+} as const;
+
+export type MatchScope = typeof MatchScope[keyof typeof MatchScope];
+
+/**
+ * 冲突解决策略：一项同时匹配多条删除/保留规则时，由哪一条决定去留
+ * 全局规则（删除全部/保留全部）视为匹配所有项，与具体规则一起按优先级从高到低排列，优先级相同时按规则列表中的顺序
+ */
+export const ResolutionStrategy = {
+  FIRST_MATCH: 'first_match',       // 优先级最高的匹配规则决定（默认）
+  LAST_MATCH: 'last_match',         // 优先级最低的匹配规则决定，即按优先级依次执行、后执行的覆盖先执行的
+  DENY_OVERRIDES: 'deny_overrides'  // 任一删除规则匹配即删除，没有删除规则匹配时保留
+} as const;
+
+export type ResolutionStrategy = typeof ResolutionStrategy[keyof typeof ResolutionStrategy];
+
 /**
  * 过滤规则
  */
@@ -47,6 +92,13 @@ export interface FilterRule {
   target: FilterTarget;        // 目标类型
   matchMode: MatchMode;        // 匹配模式
   matchValue: string;          // 匹配值（对于DELETE_ALL和KEEP_ALL可为空）
+  matchScope?: MatchScope;     // 匹配范围，未设置时匹配键名
+  caseSensitive?: boolean;     // 是否区分大小写，未设置时按目标和匹配模式取默认值
+  negate?: boolean;            // 取反：匹配不符合匹配值的项（不能用于JSON路径、新增和重命名）
+  maskStrategy?: MaskStrategy; // 脱敏方式（仅REDACT动作），未设置时使用固定字符串
+  maskValue?: string;          // 固定字符串脱敏的替换文本，未设置时为 <REDACTED>
+  replacement?: string;        // SET/ADD 的新值，RENAME 的新键名；JSON请求体中可以是JSON字面量
+  condition?: RuleCondition;   // 适用条件，未设置时对所有请求生效
   priority: number;            // 优先级 [0-100]，数字越大优先级越高
   enabled: boolean;            // 是否启用
   description?: string;        // 规则描述
@@ -54,6 +106,17 @@ export interface FilterRule {
   updatedAt: string;           // 更新时间
 }
 
+/**
+ * 规则适用条件，所有已设置的条件都满足时规则才会执行
+ */
+export interface RuleCondition {
+  host?: string;               // 主机名通配符，如 *.staging.example.com（不区分大小写）
+  path?: string;               // 路径通配符，如 /api/v1/*
+  methods?: string[];          // HTTP方法列表，满足其一即可
+  contentType?: string;        // Content-Type 需包含的文本，如 json
+  hasHeader?: string;          // 请求中必须存在的请求头（不区分大小写）
+}
+
 /**
  * 规则模板
  */
@@ -66,6 +129,63 @@ export interface RuleTemplate {
   isBuiltIn: boolean;          // 是否为内置模板
 }
 
+/**
+ * multipart表单字段（对应 curl 的 -F/--form 参数）
+ */
+export interface MultipartField {
+  name: string;                // 字段名
+  value: string;               // 文本值；上传文件时为文件路径
+  isFile: boolean;             // 是否为文件上传（name=@file）
+  isFileContent?: boolean;     // 是否读取文件内容作为文本值（name=<file）
+  isString?: boolean;          // 是否来自 --form-string（值不做任何解析）
+  contentType?: string;        // ;type= 指定的内容类型
+  filename?: string;           // ;filename= 指定的文件名
+  headers?: string[];          // ;headers= 指定的额外头部
+}
+
+/**
+ * 命令中的一个curl选项（请求方法、请求头、请求体、multipart、Cookie和URL之外的选项）
+ */
+export interface CurlOption {
+  name: string;                // 长选项名，如 --insecure；未知选项为命令中的写法
+  flag: string;                // 命令中的写法，如 -k
+  value?: string;              // 参数值，只有带参数的选项才有
+}
+
+/**
+ * 认证方式
+ */
+export const AuthScheme = {
+  BASIC: 'basic',             // 用户名和密码，Basic认证
+  DIGEST: 'digest',           // 用户名和密码，--digest
+  NTLM: 'ntlm',               // 用户名和密码，--ntlm
+  BEARER: 'bearer'            // 令牌，如 OAuth 2.0 access token 或 JWT
+} as const;
+
+export type AuthScheme = typeof AuthScheme[keyof typeof AuthScheme];
+
+/**
+ * 认证信息在命令中的来源
+ */
+export const AuthSource = {
+  OPTION: 'option',           // -u/--user 或 --oauth2-bearer
+  HEADER: 'header'            // Authorization 请求头
+} as const;
+
+export type AuthSource = typeof AuthSource[keyof typeof AuthSource];
+
+/**
+ * 请求的认证信息
+ * 过滤规则把它看作字段 username、password（用户名密码认证）或 token（令牌认证）
+ */
+export interface CurlAuth {
+  scheme: AuthScheme;          // 认证方式
+  source: AuthSource;          // 来源
+  username?: string;           // 用户名
+  password?: string;           // 密码；-u 只给出用户名时没有
+  token?: string;              // Bearer令牌
+}
+
 /**
  * 过滤上下文
  */
@@ -74,10 +194,62 @@ export interface FilterContext {
   queryParams: Record<string, string>;  // 查询参数
   formData: Record<string, string>;     // 表单数据
   jsonBody: any;                        // JSON请求体
+  multipartData?: MultipartField[];     // multipart表单字段
+  cookies?: Record<string, string>;     // Cookie（按名称拆分）
+  optionCookies?: Record<string, string>; // 其中来自 -b/--cookie 的Cookie
+  options?: CurlOption[];               // 其他curl选项
+  auth?: CurlAuth | null;               // 认证信息
   url: string;                          // 原始URL
   method: string;                       // HTTP方法
 }
 
+/**
+ * 被脱敏的项
+ */
+export interface RedactedEntry {
+  target: FilterTarget;                 // 目标类型
+  key: string;                          // 键名；JSON请求体为节点路径（如 $.data.token）
+  ruleId: string;                       // 执行脱敏的规则ID
+}
+
+/**
+ * 字段的最终处理结果（解释模式）
+ */
+export const TraceDecision = {
+  KEPT: 'kept',               // 保留
+  DELETED: 'deleted',         // 删除
+  REDACTED: 'redacted',       // 脱敏
+  MODIFIED: 'modified',       // 值被 SET 规则修改
+  ADDED: 'added',             // 由 ADD/SET 规则新增
+  RENAMED: 'renamed'          // 被 RENAME 规则重命名
+} as const;
+
+export type TraceDecision = typeof TraceDecision[keyof typeof TraceDecision];
+
+/**
+ * 一条规则对一个字段的评估结果
+ */
+export interface RuleEvaluation {
+  ruleId: string;               // 规则ID
+  ruleName: string;             // 规则名称
+  action: FilterAction;         // 过滤动作
+  priority: number;             // 优先级
+  conditionMet: boolean;        // 适用条件是否满足，不满足的规则不会执行
+  matched: boolean;             // 是否匹配该字段；全局规则匹配所有字段
+}
+
+/**
+ * 一个字段的决策记录
+ */
+export interface FieldTrace {
+  target: FilterTarget;         // 目标类型
+  key: string;                  // 字段名；JSON请求体为节点路径，重名的multipart字段和curl选项追加序号
+  evaluations: RuleEvaluation[]; // 该目标的全部启用规则，按执行顺序排列
+  decision: TraceDecision;      // 最终结果
+  decidingRuleId?: string;      // 决定最终结果的规则，没有规则作用时为空
+  note?: string;                // 补充说明（如重命名因新键名已存在被跳过）
+}
+
 /**
  * 过滤结果
  */
@@ -86,8 +258,16 @@ export interface FilterResult {
   queryParams: Record<string, string>;  // 过滤后的查询参数
   formData: Record<string, string>;     // 过滤后的表单数据
   jsonBody: any;                        // 过滤后的JSON请求体
+  multipartData?: MultipartField[];     // 过滤后的multipart表单字段
+  cookies?: Record<string, string>;     // 过滤后的Cookie
+  optionCookies?: Record<string, string>; // 过滤后来自 -b/--cookie 的Cookie
+  options?: CurlOption[];               // 过滤后的curl选项
+  auth?: CurlAuth | null;               // 过滤后的认证信息，凭据全部删除时为 null
+  removedJsonPaths?: string[];          // JSON请求体中被删除的节点路径（如 $.data.user.password）
+  redactedEntries?: RedactedEntry[];    // 被脱敏的项
   appliedRules: string[];               // 应用的规则ID列表
-  warnings: string[];                   // 警告信息
+  warnings: string[];                   // 警告信息（如无效的正则表达式）
+  trace?: FieldTrace[];                 // 解释模式下每个字段的决策记录
 }
 
 /**
@@ -111,6 +291,7 @@ export interface StoredConfig {
     showPreview: boolean;      // 显示预览
     enableValidation: boolean; // 启用验证
     defaultPriority: number;   // 默认优先级
+    resolutionStrategy: ResolutionStrategy; // 删除/保留规则的冲突解决策略
   };
   lastModified: string;        // 最后修改时间
 }
@@ -135,7 +316,8 @@ export const DEFAULT_SETTINGS = {
   autoSave: true,
   showPreview: true,
   enableValidation: true,
-  defaultPriority: 50
+  defaultPriority: 50,
+  resolutionStrategy: ResolutionStrategy.FIRST_MATCH
 } as const;
 
 /**
@@ -183,6 +365,41 @@ export function isValidMatchMode(mode: string): mode is MatchMode {
   return Object.values(MatchMode).includes(mode as MatchMode);
 }
 
+/**
+ * 检查是否为有效的匹配范围
+ */
+export function isValidMatchScope(scope: string): scope is MatchScope {
+  return Object.values(MatchScope).includes(scope as MatchScope);
+}
+
+/**
+ * 检查是否为有效的脱敏方式
+ */
+export function isValidMaskStrategy(strategy: string): strategy is MaskStrategy {
+  return Object.values(MaskStrategy).includes(strategy as MaskStrategy);
+}
+
+/**
+ * 检查动作是否需要匹配值（DELETE_ALL 和 KEEP_ALL 忽略匹配值）
+ */
+export function requiresMatchValue(action: FilterAction): boolean {
+  return action !== FilterAction.DELETE_ALL && action !== FilterAction.KEEP_ALL;
+}
+
+/**
+ * 检查动作是否为需要替换值的改写动作（SET/ADD/RENAME）
+ */
+export function requiresReplacement(action: FilterAction): boolean {
+  return action === FilterAction.SET || action === FilterAction.ADD || action === FilterAction.RENAME;
+}
+
+/**
+ * 检查是否为有效的冲突解决策略
+ */
+export function isValidResolutionStrategy(strategy: string): strategy is ResolutionStrategy {
+  return Object.values(ResolutionStrategy).includes(strategy as ResolutionStrategy);
+}
+
 /**
  * 检查是否为有效的优先级
  */
@@ -0,0 +1,89 @@
+// HAR 1.2（HTTP Archive）格式的类型定义，只包含导入导出用到的字段
+// 规范：http://www.softwareishard.com/blog/har-12-spec/
+
+/**
+ * 名称/值对（请求头、查询参数、Cookie）
+ */
+export interface HarNameValue {
+  name: string;
+  value: string;
+  comment?: string;
+}
+
+/**
+ * POST 请求体中的表单参数
+ */
+export interface HarParam {
+  name: string;
+  value?: string;
+  fileName?: string;
+  contentType?: string;
+  comment?: string;
+}
+
+/**
+ * 请求体
+ */
+export interface HarPostData {
+  mimeType: string;
+  text?: string;
+  params?: HarParam[];
+  comment?: string;
+}
+
+/**
+ * 请求
+ */
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: HarPostData;
+  headersSize: number;
+  bodySize: number;
+  comment?: string;
+}
+
+/**
+ * 响应（导入时只读取状态码，导出时按Cookie规则过滤 Set-Cookie 和 cookies，其余原样保留）
+ */
+export interface HarResponse {
+  status: number;
+  statusText?: string;
+  headers?: HarNameValue[];
+  cookies?: HarNameValue[];
+  [key: string]: unknown;
+}
+
+/**
+ * 一次请求/响应记录
+ */
+export interface HarEntry {
+  startedDateTime?: string;
+  time?: number;
+  request: HarRequest;
+  response?: HarResponse;
+  [key: string]: unknown;
+}
+
+/**
+ * 日志根节点
+ */
+export interface HarLog {
+  version: string;
+  creator: { name: string; version: string; comment?: string };
+  browser?: { name: string; version: string; comment?: string };
+  pages?: unknown[];
+  entries: HarEntry[];
+  comment?: string;
+}
+
+/**
+ * HAR 文件
+ */
+export interface HarFile {
+  log: HarLog;
+}
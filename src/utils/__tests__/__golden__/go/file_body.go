@@ -0,0 +1,36 @@
+package main
+
+import (
+	"bytes"
+	"fmt"
+	"io"
+	"net/http"
+	"os"
+)
+
+func main() {
+	content, err := os.ReadFile("body.json")
+	if err != nil {
+		panic(err)
+	}
+	body := bytes.NewReader(content)
+
+	req, err := http.NewRequest("POST", "https://api.example.com/import", body)
+	if err != nil {
+		panic(err)
+	}
+	req.Header.Set("content-type", "application/json")
+
+	resp, err := http.DefaultClient.Do(req)
+	if err != nil {
+		panic(err)
+	}
+	defer resp.Body.Close()
+
+	respBody, err := io.ReadAll(resp.Body)
+	if err != nil {
+		panic(err)
+	}
+	fmt.Println(resp.StatusCode)
+	fmt.Println(string(respBody))
+}
@@ -0,0 +1,35 @@
+package main
+
+import (
+	"fmt"
+	"io"
+	"net/http"
+	"net/url"
+	"strings"
+)
+
+func main() {
+	form := url.Values{}
+	form.Set("user", "alice")
+	form.Set("pass", "p&ss word")
+	body := strings.NewReader(form.Encode())
+
+	req, err := http.NewRequest("POST", "https://api.example.com/login", body)
+	if err != nil {
+		panic(err)
+	}
+	req.Header.Set("Content-Type", "application/x-www-form-urlencoded")
+
+	resp, err := http.DefaultClient.Do(req)
+	if err != nil {
+		panic(err)
+	}
+	defer resp.Body.Close()
+
+	respBody, err := io.ReadAll(resp.Body)
+	if err != nil {
+		panic(err)
+	}
+	fmt.Println(resp.StatusCode)
+	fmt.Println(string(respBody))
+}
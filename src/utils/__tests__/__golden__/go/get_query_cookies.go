@@ -0,0 +1,29 @@
+package main
+
+import (
+	"fmt"
+	"io"
+	"net/http"
+)
+
+func main() {
+	req, err := http.NewRequest("GET", "https://api.example.com/users?page=1&q=a%20b", nil)
+	if err != nil {
+		panic(err)
+	}
+	req.Header.Set("accept", "application/json")
+	req.Header.Set("Cookie", "sid=abc; theme=dark")
+
+	resp, err := http.DefaultClient.Do(req)
+	if err != nil {
+		panic(err)
+	}
+	defer resp.Body.Close()
+
+	respBody, err := io.ReadAll(resp.Body)
+	if err != nil {
+		panic(err)
+	}
+	fmt.Println(resp.StatusCode)
+	fmt.Println(string(respBody))
+}
@@ -0,0 +1,32 @@
+package main
+
+import (
+	"fmt"
+	"io"
+	"net/http"
+	"strings"
+)
+
+func main() {
+	body := strings.NewReader(`{"name":"O'Brien \"Bob\" 中文","tags":["a","b"],"age":30,"active":true,"meta":null}`)
+
+	req, err := http.NewRequest("POST", "https://api.example.com/users", body)
+	if err != nil {
+		panic(err)
+	}
+	req.Header.Set("content-type", "application/json")
+	req.Header.Set("authorization", "Bearer t0k\"en")
+
+	resp, err := http.DefaultClient.Do(req)
+	if err != nil {
+		panic(err)
+	}
+	defer resp.Body.Close()
+
+	respBody, err := io.ReadAll(resp.Body)
+	if err != nil {
+		panic(err)
+	}
+	fmt.Println(resp.StatusCode)
+	fmt.Println(string(respBody))
+}
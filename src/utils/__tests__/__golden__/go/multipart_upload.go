@@ -0,0 +1,75 @@
+package main
+
+import (
+	"bytes"
+	"fmt"
+	"io"
+	"mime/multipart"
+	"net/http"
+	"net/textproto"
+	"os"
+)
+
+func main() {
+	body := &bytes.Buffer{}
+	writer := multipart.NewWriter(body)
+	{
+		file, err := os.Open("/tmp/me.png")
+		if err != nil {
+			panic(err)
+		}
+		defer file.Close()
+		partHeader := make(textproto.MIMEHeader)
+		partHeader.Set("Content-Disposition", fmt.Sprintf(`form-data; name="%s"; filename="%s"`, "avatar", "me.png"))
+		partHeader.Set("Content-Type", "image/png")
+		part, err := writer.CreatePart(partHeader)
+		if err != nil {
+			panic(err)
+		}
+		if _, err := io.Copy(part, file); err != nil {
+			panic(err)
+		}
+	}
+	{
+		file, err := os.Open("report.pdf")
+		if err != nil {
+			panic(err)
+		}
+		defer file.Close()
+		part, err := writer.CreateFormFile("doc", "report.pdf")
+		if err != nil {
+			panic(err)
+		}
+		if _, err := io.Copy(part, file); err != nil {
+			panic(err)
+		}
+	}
+	writer.WriteField("note", "hello world")
+	{
+		content, err := os.ReadFile("bio.txt")
+		if err != nil {
+			panic(err)
+		}
+		writer.WriteField("bio", string(content))
+	}
+	writer.Close()
+
+	req, err := http.NewRequest("POST", "https://api.example.com/upload", body)
+	if err != nil {
+		panic(err)
+	}
+	req.Header.Set("Content-Type", writer.FormDataContentType())
+
+	resp, err := http.DefaultClient.Do(req)
+	if err != nil {
+		panic(err)
+	}
+	defer resp.Body.Close()
+
+	respBody, err := io.ReadAll(resp.Body)
+	if err != nil {
+		panic(err)
+	}
+	fmt.Println(resp.StatusCode)
+	fmt.Println(string(respBody))
+}
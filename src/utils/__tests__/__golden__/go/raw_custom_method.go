@@ -0,0 +1,31 @@
+package main
+
+import (
+	"fmt"
+	"io"
+	"net/http"
+	"strings"
+)
+
+func main() {
+	body := strings.NewReader("line1\nline2\ttab \"quoted\" \x01")
+
+	req, err := http.NewRequest("PURGE", "https://cdn.example.com/asset", body)
+	if err != nil {
+		panic(err)
+	}
+	req.Header.Set("content-type", "text/plain")
+
+	resp, err := http.DefaultClient.Do(req)
+	if err != nil {
+		panic(err)
+	}
+	defer resp.Body.Close()
+
+	respBody, err := io.ReadAll(resp.Body)
+	if err != nil {
+		panic(err)
+	}
+	fmt.Println(resp.StatusCode)
+	fmt.Println(string(respBody))
+}
@@ -0,0 +1,41 @@
+package main
+
+import (
+	"bytes"
+	"fmt"
+	"io"
+	"net/http"
+	"net/url"
+	"os"
+)
+
+func main() {
+	body := &bytes.Buffer{}
+	body.WriteString("channel=ops&msg=")
+	{
+		content, err := os.ReadFile("message.txt")
+		if err != nil {
+			panic(err)
+		}
+		body.WriteString(url.QueryEscape(string(content)))
+	}
+
+	req, err := http.NewRequest("POST", "https://api.example.com/notify", body)
+	if err != nil {
+		panic(err)
+	}
+	req.Header.Set("content-type", "application/x-www-form-urlencoded")
+
+	resp, err := http.DefaultClient.Do(req)
+	if err != nil {
+		panic(err)
+	}
+	defer resp.Body.Close()
+
+	respBody, err := io.ReadAll(resp.Body)
+	if err != nil {
+		panic(err)
+	}
+	fmt.Println(resp.StatusCode)
+	fmt.Println(string(respBody))
+}
@@ -0,0 +1,25 @@
+import java.io.IOException;
+import okhttp3.MediaType;
+import okhttp3.OkHttpClient;
+import okhttp3.Request;
+import okhttp3.RequestBody;
+import okhttp3.Response;
+
+public class Main {
+    public static void main(String[] args) throws IOException {
+        OkHttpClient client = new OkHttpClient();
+
+        RequestBody body = RequestBody.create("{\"name\":\"O'Brien \\\"Bob\\\" 中文\",\"tags\":[\"a\",\"b\"],\"age\":30,\"active\":true,\"meta\":null}", MediaType.parse("application/json"));
+
+        Request request = new Request.Builder()
+                .url("https://api.example.com/users")
+                .method("POST", body)
+                .addHeader("authorization", "Bearer t0k\"en")
+                .build();
+
+        try (Response response = client.newCall(request).execute()) {
+            System.out.println(response.code());
+            System.out.println(response.body().string());
+        }
+    }
+}
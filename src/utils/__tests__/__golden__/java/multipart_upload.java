@@ -0,0 +1,34 @@
+import java.io.File;
+import java.io.IOException;
+import java.nio.file.Files;
+import java.nio.file.Path;
+import okhttp3.MediaType;
+import okhttp3.MultipartBody;
+import okhttp3.OkHttpClient;
+import okhttp3.Request;
+import okhttp3.RequestBody;
+import okhttp3.Response;
+
+public class Main {
+    public static void main(String[] args) throws IOException {
+        OkHttpClient client = new OkHttpClient();
+
+        RequestBody body = new MultipartBody.Builder()
+                .setType(MultipartBody.FORM)
+                .addFormDataPart("avatar", "me.png", RequestBody.create(new File("/tmp/me.png"), MediaType.parse("image/png")))
+                .addFormDataPart("doc", "report.pdf", RequestBody.create(new File("report.pdf"), null))
+                .addFormDataPart("note", "hello world")
+                .addFormDataPart("bio", Files.readString(Path.of("bio.txt")))
+                .build();
+
+        Request request = new Request.Builder()
+                .url("https://api.example.com/upload")
+                .method("POST", body)
+                .build();
+
+        try (Response response = client.newCall(request).execute()) {
+            System.out.println(response.code());
+            System.out.println(response.body().string());
+        }
+    }
+}
@@ -0,0 +1,24 @@
+import java.io.IOException;
+import okhttp3.MediaType;
+import okhttp3.OkHttpClient;
+import okhttp3.Request;
+import okhttp3.RequestBody;
+import okhttp3.Response;
+
+public class Main {
+    public static void main(String[] args) throws IOException {
+        OkHttpClient client = new OkHttpClient();
+
+        RequestBody body = RequestBody.create("line1\nline2\ttab \"quoted\" \001", MediaType.parse("text/plain"));
+
+        Request request = new Request.Builder()
+                .url("https://cdn.example.com/asset")
+                .method("PURGE", body)
+                .build();
+
+        try (Response response = client.newCall(request).execute()) {
+            System.out.println(response.code());
+            System.out.println(response.body().string());
+        }
+    }
+}
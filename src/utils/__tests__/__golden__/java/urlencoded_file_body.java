@@ -0,0 +1,32 @@
+import java.io.ByteArrayOutputStream;
+import java.io.IOException;
+import java.net.URLEncoder;
+import java.nio.charset.StandardCharsets;
+import java.nio.file.Files;
+import java.nio.file.Path;
+import okhttp3.MediaType;
+import okhttp3.OkHttpClient;
+import okhttp3.Request;
+import okhttp3.RequestBody;
+import okhttp3.Response;
+
+public class Main {
+    public static void main(String[] args) throws IOException {
+        OkHttpClient client = new OkHttpClient();
+
+        ByteArrayOutputStream content = new ByteArrayOutputStream();
+        content.write("channel=ops&msg=".getBytes(StandardCharsets.UTF_8));
+        content.write(URLEncoder.encode(Files.readString(Path.of("message.txt")), StandardCharsets.UTF_8).getBytes(StandardCharsets.UTF_8));
+        RequestBody body = RequestBody.create(content.toByteArray(), MediaType.parse("application/x-www-form-urlencoded"));
+
+        Request request = new Request.Builder()
+                .url("https://api.example.com/notify")
+                .method("POST", body)
+                .build();
+
+        try (Response response = client.newCall(request).execute()) {
+            System.out.println(response.code());
+            System.out.println(response.body().string());
+        }
+    }
+}
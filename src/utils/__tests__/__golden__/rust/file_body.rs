@@ -0,0 +1,17 @@
+// Cargo.toml: reqwest = { version = "0.12", features = ["blocking"] }
+use reqwest::blocking::Client;
+
+fn main() -> Result<(), Box<dyn std::error::Error>> {
+    let client = Client::new();
+
+    let response = client
+        .post("https://api.example.com/import")
+        .header("content-type", "application/json")
+        .body(std::fs::read("body.json")?)
+        .send()?;
+
+    println!("{}", response.status());
+    println!("{}", response.text()?);
+
+    Ok(())
+}
@@ -0,0 +1,19 @@
+// Cargo.toml: reqwest = { version = "0.12", features = ["blocking"] }
+use reqwest::blocking::Client;
+
+fn main() -> Result<(), Box<dyn std::error::Error>> {
+    let client = Client::new();
+
+    let response = client
+        .post("https://api.example.com/login")
+        .form(&[
+            ("user", "alice"),
+            ("pass", "p&ss word"),
+        ])
+        .send()?;
+
+    println!("{}", response.status());
+    println!("{}", response.text()?);
+
+    Ok(())
+}
@@ -0,0 +1,17 @@
+// Cargo.toml: reqwest = { version = "0.12", features = ["blocking"] }
+use reqwest::blocking::Client;
+
+fn main() -> Result<(), Box<dyn std::error::Error>> {
+    let client = Client::new();
+
+    let response = client
+        .get("https://api.example.com/users?page=1&q=a%20b")
+        .header("accept", "application/json")
+        .header("cookie", "sid=abc; theme=dark")
+        .send()?;
+
+    println!("{}", response.status());
+    println!("{}", response.text()?);
+
+    Ok(())
+}
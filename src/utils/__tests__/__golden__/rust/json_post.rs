@@ -0,0 +1,18 @@
+// Cargo.toml: reqwest = { version = "0.12", features = ["blocking"] }
+use reqwest::blocking::Client;
+
+fn main() -> Result<(), Box<dyn std::error::Error>> {
+    let client = Client::new();
+
+    let response = client
+        .post("https://api.example.com/users")
+        .header("content-type", "application/json")
+        .header("authorization", "Bearer t0k\"en")
+        .body(r#"{"name":"O'Brien \"Bob\" 中文","tags":["a","b"],"age":30,"active":true,"meta":null}"#)
+        .send()?;
+
+    println!("{}", response.status());
+    println!("{}", response.text()?);
+
+    Ok(())
+}
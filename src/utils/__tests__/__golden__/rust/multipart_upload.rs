@@ -0,0 +1,22 @@
+// Cargo.toml: reqwest = { version = "0.12", features = ["blocking", "multipart"] }
+use reqwest::blocking::{multipart, Client};
+
+fn main() -> Result<(), Box<dyn std::error::Error>> {
+    let client = Client::new();
+
+    let form = multipart::Form::new()
+        .part("avatar", multipart::Part::file("/tmp/me.png")?.mime_str("image/png")?)
+        .file("doc", "report.pdf")?
+        .text("note", "hello world")
+        .text("bio", std::fs::read_to_string("bio.txt")?);
+
+    let response = client
+        .post("https://api.example.com/upload")
+        .multipart(form)
+        .send()?;
+
+    println!("{}", response.status());
+    println!("{}", response.text()?);
+
+    Ok(())
+}
@@ -0,0 +1,18 @@
+// Cargo.toml: reqwest = { version = "0.12", features = ["blocking"] }
+use reqwest::blocking::Client;
+use reqwest::Method;
+
+fn main() -> Result<(), Box<dyn std::error::Error>> {
+    let client = Client::new();
+
+    let response = client
+        .request(Method::from_bytes(b"PURGE")?, "https://cdn.example.com/asset")
+        .header("content-type", "text/plain")
+        .body("line1\nline2\ttab \"quoted\" \x01")
+        .send()?;
+
+    println!("{}", response.status());
+    println!("{}", response.text()?);
+
+    Ok(())
+}
@@ -0,0 +1,18 @@
+// Cargo.toml: reqwest = { version = "0.12", features = ["blocking"] }
+// Cargo.toml: urlencoding = "2"
+use reqwest::blocking::Client;
+
+fn main() -> Result<(), Box<dyn std::error::Error>> {
+    let client = Client::new();
+
+    let response = client
+        .post("https://api.example.com/notify")
+        .header("content-type", "application/x-www-form-urlencoded")
+        .body(["channel=ops&msg=".as_bytes().to_vec(), urlencoding::encode_binary(&std::fs::read("message.txt")?).into_owned().into_bytes()].concat())
+        .send()?;
+
+    println!("{}", response.status());
+    println!("{}", response.text()?);
+
+    Ok(())
+}
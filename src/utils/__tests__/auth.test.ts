@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import {
+  encodeBase64,
+  decodeBase64,
+  parseAuthorizationHeader,
+  formatAuthorizationHeader,
+  extractAuth,
+  decodeJwt
+} from '../auth'
+
+describe('auth', () => {
+  describe('base64', () => {
+    it('should round-trip UTF-8 text', () => {
+      expect(encodeBase64('用户:pässword')).toBe('55So5oi3OnDDpHNzd29yZA==')
+      expect(decodeBase64('55So5oi3OnDDpHNzd29yZA==')).toBe('用户:pässword')
+    })
+
+    it('should accept base64url without padding and reject invalid input', () => {
+      expect(decodeBase64('eyJzdWIiOiIxIn0')).toBe('{"sub":"1"}')
+      expect(decodeBase64('not base64!')).toBeNull()
+      expect(decodeBase64('/w==')).toBeNull()
+    })
+  })
+
+  describe('parseAuthorizationHeader', () => {
+    it('should decode Basic credentials and keep colons in the password', () => {
+      const auth = parseAuthorizationHeader(`Basic ${encodeBase64('admin:p:w')}`)
+
+      expect(auth).toEqual({ scheme: 'basic', source: 'header', username: 'admin', password: 'p:w' })
+      expect(formatAuthorizationHeader(auth!)).toBe(`Basic ${encodeBase64('admin:p:w')}`)
+    })
+
+    it('should read Bearer tokens case-insensitively', () => {
+      expect(parseAuthorizationHeader('bearer abc.def')).toEqual({ scheme: 'bearer', source: 'header', token: 'abc.def' })
+    })
+
+    it('should ignore other schemes', () => {
+      expect(parseAuthorizationHeader('AWS4-HMAC-SHA256 Credential=x')).toBeNull()
+      expect(parseAuthorizationHeader('Basic !!!')).toBeNull()
+    })
+  })
+
+  describe('extractAuth', () => {
+    it('should use the last -u option and remove it from the options', () => {
+      const { auth, options } = extractAuth({}, [
+        { name: '--user', flag: '-u', value: 'old:1' },
+        { name: '--digest', flag: '--digest' },
+        { name: '--user', flag: '--user', value: 'new' }
+      ])
+
+      expect(auth).toEqual({ scheme: 'digest', source: 'option', username: 'new' })
+      expect(options).toEqual([{ name: '--digest', flag: '--digest' }])
+    })
+
+    it('should prefer the Authorization header and leave -u in the options', () => {
+      const userOption = { name: '--user', flag: '-u', value: 'a:b' }
+      const { auth, options } = extractAuth({ authorization: 'Bearer t' }, [userOption])
+
+      expect(auth?.token).toBe('t')
+      expect(options).toEqual([userOption])
+    })
+  })
+
+  describe('decodeJwt', () => {
+    it('should decode the header and payload', () => {
+      const token = `${encodeBase64('{"alg":"HS256"}')}.${encodeBase64('{"sub":"42","exp":1700000000}').replace(/=+$/, '')}.sig`
+
+      expect(decodeJwt(token)).toEqual({ header: { alg: 'HS256' }, payload: { sub: '42', exp: 1700000000 } })
+    })
+
+    it('should return null for opaque tokens', () => {
+      expect(decodeJwt('opaque-token')).toBeNull()
+      expect(decodeJwt('a.b.c')).toBeNull()
+    })
+  })
+})
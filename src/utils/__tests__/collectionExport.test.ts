@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildPostmanCollection,
+  buildInsomniaExport,
+  historyEntriesToRequests,
+  exportCollection,
+  CollectionFormat,
+  POSTMAN_SCHEMA,
+  type ExportableRequest
+} from '../collectionExport'
+import { parseCurl } from '../curlParser'
+import type { HistoryEntry } from '../../types/filterRules'
+
+const REQUESTS: ExportableRequest[] = [
+  {
+    name: 'List users',
+    parsed: parseCurl(`curl 'https://api.example.com/v1/users?page=1&q=a%20b' -H 'Accept: application/json' -b 'sid=1'`)
+  },
+  {
+    parsed: parseCurl(`curl 'https://api.example.com/v1/login' -H 'Content-Type: application/json' --data-raw '{"user":"a"}'`)
+  },
+  {
+    parsed: parseCurl(`curl 'http://localhost:8080/upload' -F 'note=hi' -F 'file=@/tmp/a.png;type=image/png'`)
+  },
+  {
+    parsed: parseCurl(`curl 'http://localhost:8080/form' -d 'a=1&b=2'`)
+  }
+]
+
+function entry(outputCurl: string, title?: string): HistoryEntry {
+  return {
+    id: 'h',
+    inputCurl: outputCurl,
+    outputCurl,
+    appliedRules: [],
+    filterResult: { headers: {}, queryParams: {}, formData: {}, jsonBody: null, appliedRules: [], warnings: [] },
+    timestamp: '',
+    title,
+    favorite: false
+  }
+}
+
+describe('collectionExport', () => {
+  describe('buildPostmanCollection', () => {
+    const collection = buildPostmanCollection(REQUESTS, 'Demo')
+
+    it('should group requests into folders by host with base URL variables', () => {
+      expect(collection.info).toEqual({ name: 'Demo', schema: POSTMAN_SCHEMA })
+      expect(collection.item.map(folder => folder.name)).toEqual(['api.example.com', 'localhost:8080'])
+      expect(collection.variable).toEqual([
+        { key: 'baseUrl_api_example_com', value: 'https://api.example.com' },
+        { key: 'baseUrl_localhost_8080', value: 'http://localhost:8080' }
+      ])
+    })
+
+    it('should use the variable in request URLs and keep encoded query values', () => {
+      const request = collection.item[0].item[0]
+
+      expect(request.name).toBe('List users')
+      expect(request.request.url).toEqual({
+        raw: '{{baseUrl_api_example_com}}/v1/users?page=1&q=a%20b',
+        host: ['{{baseUrl_api_example_com}}'],
+        path: ['v1', 'users'],
+        query: [{ key: 'page', value: '1' }, { key: 'q', value: 'a%20b' }]
+      })
+      expect(request.request.header).toEqual([
+        { key: 'accept', value: 'application/json' },
+        { key: 'Cookie', value: 'sid=1' }
+      ])
+      expect(request.request.body).toBeUndefined()
+    })
+
+    it('should map each body type', () => {
+      const [login] = collection.item[0].item.slice(1)
+      const [upload, form] = collection.item[1].item
+
+      expect(login.name).toBe('POST /v1/login')
+      expect(login.request.body).toEqual({ mode: 'raw', raw: '{\n  "user": "a"\n}', options: { raw: { language: 'json' } } })
+      expect(upload.request.body).toEqual({
+        mode: 'formdata',
+        formdata: [
+          { key: 'note', type: 'text', value: 'hi' },
+          { key: 'file', type: 'file', src: '/tmp/a.png', contentType: 'image/png' }
+        ]
+      })
+      expect(form.request.body).toEqual({ mode: 'urlencoded', urlencoded: [{ key: 'a', value: '1' }, { key: 'b', value: '2' }] })
+    })
+
+    it('should replace file contents with placeholders and list the files', () => {
+      const [data, form] = buildPostmanCollection([
+        { parsed: parseCurl(`curl 'https://x.com/a' -d 'a=1' -d @data.txt`) },
+        { parsed: parseCurl(`curl 'https://x.com/b' -F 'note=<note.txt' -F 'img=@a.png'`) }
+      ], 'Demo').item[0].item
+
+      expect(data.request.body).toEqual({ mode: 'raw', raw: 'a=1&<data.txt 的内容>' })
+      expect(data.request.description).toBe('请求体中以下文件的内容没有包含在导出中，请替换占位符：data.txt')
+      expect(buildPostmanCollection([{ parsed: parseCurl(`curl 'https://x.com/a' --data-urlencode msg@m.txt`) }], 'Demo')
+        .item[0].item[0].request.body).toEqual({ mode: 'raw', raw: 'msg=<m.txt 的内容（URL编码后）>' })
+      expect(form.request.body?.formdata).toEqual([
+        { key: 'note', type: 'text', value: '<note.txt 的内容>' },
+        { key: 'img', type: 'file', src: 'a.png' }
+      ])
+      expect(form.request.description).toBe('请求体中以下文件的内容没有包含在导出中，请替换占位符：note.txt')
+    })
+
+    it('should export a single file body as a file', () => {
+      const [item] = buildPostmanCollection([{ parsed: parseCurl(`curl 'https://x.com/a' --data-binary @body.bin`) }], 'Demo').item[0].item
+
+      expect(item.request.body).toEqual({ mode: 'file', file: { src: 'body.bin' } })
+      expect(item.request.description).toBeUndefined()
+    })
+
+    it('should name the variable baseUrl when there is one host', () => {
+      const single = buildPostmanCollection(REQUESTS.slice(0, 2), 'Demo')
+      expect(single.variable).toEqual([{ key: 'baseUrl', value: 'https://api.example.com' }])
+      expect(single.item[0].item[1].request.url.raw).toBe('{{baseUrl}}/v1/login')
+    })
+  })
+
+  describe('buildInsomniaExport', () => {
+    const data = buildInsomniaExport(REQUESTS, 'Demo')
+    const byType = (type: string) => data.resources.filter(resource => resource._type === type)
+
+    it('should create a workspace, folders with environments and requests', () => {
+      const [workspace] = byType('workspace')
+      const folders = byType('request_group')
+      const requests = byType('request')
+
+      expect(data._type).toBe('export')
+      expect(data.__export_format).toBe(4)
+      expect(workspace.name).toBe('Demo')
+      expect(folders.map(folder => [folder.name, folder.environment, folder.parentId])).toEqual([
+        ['api.example.com', { base_url: 'https://api.example.com' }, workspace._id],
+        ['localhost:8080', { base_url: 'http://localhost:8080' }, workspace._id]
+      ])
+      expect(requests.map(request => request.parentId)).toEqual([folders[0]._id, folders[0]._id, folders[1]._id, folders[1]._id])
+      expect(new Set(data.resources.map(resource => resource._id)).size).toBe(data.resources.length)
+    })
+
+    it('should put decoded query params in parameters', () => {
+      const [request] = byType('request')
+
+      expect(request.url).toBe('{{ _.base_url }}/v1/users')
+      expect(request.parameters).toEqual([{ name: 'page', value: '1' }, { name: 'q', value: 'a b' }])
+      expect(request.headers).toEqual([{ name: 'accept', value: 'application/json' }, { name: 'Cookie', value: 'sid=1' }])
+      expect(request.body).toEqual({})
+    })
+
+    it('should map each body type', () => {
+      const [, login, upload, form] = byType('request')
+
+      expect(login.body).toEqual({ mimeType: 'application/json', text: '{\n  "user": "a"\n}' })
+      expect(upload.body).toEqual({
+        mimeType: 'multipart/form-data',
+        params: [
+          { name: 'note', value: 'hi' },
+          { name: 'file', value: '', type: 'file', fileName: '/tmp/a.png' }
+        ]
+      })
+      expect(form.body).toEqual({ mimeType: 'application/x-www-form-urlencoded', params: [{ name: 'a', value: '1' }, { name: 'b', value: '2' }] })
+    })
+
+    it('should replace file contents with placeholders and list the files', () => {
+      const [data, form] = buildInsomniaExport([
+        { parsed: parseCurl(`curl 'https://x.com/a' -d 'a=1' -d @data.txt`) },
+        { parsed: parseCurl(`curl 'https://x.com/b' -F 'note=<note.txt'`) }
+      ], 'Demo').resources.filter(resource => resource._type === 'request')
+
+      expect(data.body).toEqual({ mimeType: 'application/x-www-form-urlencoded', text: 'a=1&<data.txt 的内容>' })
+      expect(data.description).toBe('请求体中以下文件的内容没有包含在导出中，请替换占位符：data.txt')
+      expect(form.body).toEqual({ mimeType: 'multipart/form-data', params: [{ name: 'note', value: '<note.txt 的内容>' }] })
+      expect(form.description).toBe('请求体中以下文件的内容没有包含在导出中，请替换占位符：note.txt')
+    })
+  })
+
+  describe('exportCollection', () => {
+    it('should serialise each format with a matching file name', () => {
+      const postman = exportCollection(REQUESTS, CollectionFormat.POSTMAN, 'demo')
+      const insomnia = exportCollection(REQUESTS, CollectionFormat.INSOMNIA, 'demo')
+
+      expect(postman.filename).toBe('demo.postman_collection.json')
+      expect(JSON.parse(postman.content).info.schema).toBe(POSTMAN_SCHEMA)
+      expect(insomnia.filename).toBe('demo.insomnia.json')
+      expect(JSON.parse(insomnia.content).__export_format).toBe(4)
+    })
+  })
+
+  describe('historyEntriesToRequests', () => {
+    it('should parse the filtered commands and keep titles', () => {
+      const requests = historyEntriesToRequests([
+        entry(`curl 'https://a.com/x'`, 'X'),
+        entry('not a command')
+      ])
+
+      expect(requests).toHaveLength(1)
+      expect(requests[0].name).toBe('X')
+      expect(requests[0].parsed.url).toBe('https://a.com/x')
+    })
+  })
+})
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest'
+import { buildCurlFromContext } from '../curlBuilder'
+import { parseCurl, type ParsedCurl } from '../curlParser'
+import { splitShellArgs } from '../shellLexer'
+import { FilterEngine, filterParsedCurl } from '../filterEngine'
+import type { FilterRule } from '../../types/filterRules'
+
+describe('curlBuilder', () => {
+  describe('buildCurlFromContext', () => {
+    it('should reproduce an unfiltered request', () => {
+      const parsed = parseCurl(`curl 'https://a.com/x?b=2&a=1' -H 'Accept: */*' --data-binary 'x=1' -d @file.txt`)
+      const args = splitShellArgs(buildCurlFromContext(parsed))
+
+      expect(args).toEqual([
+        'curl', '-X', 'POST', '-H', 'accept: */*',
+        '--data-binary', 'x=1', '-d', '@file.txt',
+        'https://a.com/x?b=2&a=1'
+      ])
+    })
+
+    it('should not duplicate query parameters already present in the URL', () => {
+      const parsed = parseCurl(`curl 'https://a.com/x?page=1&limit=10'`)
+      expect(buildCurlFromContext(parsed)).toBe('curl \'https://a.com/x?page=1&limit=10\'')
+    })
+
+    it('should rebuild the query string after parameters are removed', () => {
+      const parsed = parseCurl(`curl 'https://a.com/x?page=1&limit=10&q=a%20b#frag'`)
+      const filtered: ParsedCurl = { ...parsed, queryParams: { q: 'a b' } }
+
+      expect(splitShellArgs(buildCurlFromContext(filtered)).pop()).toBe('https://a.com/x?q=a%20b')
+    })
+
+    it('should serialise filtered JSON bodies safely', () => {
+      const parsed = parseCurl(`curl https://a.com -H 'content-type: application/json' -d $'{"a":"it\\'s $HOME","b":1}'`)
+      const filtered: ParsedCurl = { ...parsed, jsonBody: { a: parsed.jsonBody.a } }
+      const reparsed = parseCurl(buildCurlFromContext(filtered))
+
+      expect(reparsed.jsonBody).toEqual({ a: "it's $HOME" })
+      expect(reparsed.method).toBe('POST')
+    })
+
+    it('should emit an empty JSON object when every key was removed', () => {
+      const parsed = parseCurl(`curl https://a.com --json '{"a":1}'`)
+      const filtered: ParsedCurl = { ...parsed, jsonBody: {} }
+      const args = splitShellArgs(buildCurlFromContext(filtered))
+
+      expect(args).toContain('{}')
+    })
+
+    it('should replace --json with --data-raw so headers come only from -H', () => {
+      const parsed = parseCurl(`curl https://a.com --json '{"a":1}'`)
+      const filtered: ParsedCurl = { ...parsed, headers: {} }
+      const args = splitShellArgs(buildCurlFromContext(filtered))
+
+      expect(args).toEqual(['curl', '-X', 'POST', '--data-raw', '{"a":1}', 'https://a.com'])
+    })
+
+    it('should re-encode filtered form data', () => {
+      const parsed = parseCurl(`curl https://a.com -d 'a=1&b=x+y&c=3'`)
+      const filtered: ParsedCurl = { ...parsed, formData: { b: 'x y' } }
+      const args = splitShellArgs(buildCurlFromContext(filtered))
+
+      expect(args).toContain('b=x%20y')
+    })
+
+    it('should round-trip -G data through the URL', () => {
+      const parsed = parseCurl(`curl -G https://a.com/s -d 'q=1'`)
+      expect(splitShellArgs(buildCurlFromContext(parsed))).toEqual(['curl', 'https://a.com/s?q=1'])
+    })
+
+    it('should regenerate multipart fields', () => {
+      const parsed = parseCurl(`curl https://a.com -F 'file=@a b.jpg;type=image/jpeg' -F 'note=hi'`)
+      const reparsed = parseCurl(buildCurlFromContext(parsed))
+
+      expect(reparsed.multipartData).toEqual(parsed.multipartData)
+      expect(reparsed.method).toBe('POST')
+    })
+
+    it('should emit -b for filtered cookies without a Cookie header', () => {
+      const parsed = parseCurl(`curl https://a.com -b 'a=1; b=2'`)
+      const filtered: ParsedCurl = { ...parsed, cookies: { b: '2' } }
+
+      expect(splitShellArgs(buildCurlFromContext(filtered))).toEqual(['curl', '-b', 'b=2', 'https://a.com'])
+    })
+
+    it('should not repeat cookies that are already in the Cookie header', () => {
+      const parsed = parseCurl(`curl https://a.com -H 'Cookie: a=1'`)
+      expect(splitShellArgs(buildCurlFromContext(parsed))).not.toContain('-b')
+    })
+
+    it('should keep header files given with -H @file', () => {
+      const parsed = parseCurl(`curl https://a.com -H @headers.txt -H 'X-Id: 1'`)
+
+      expect(parsed.headers).toEqual({ 'x-id': '1' })
+      expect(parsed.options).toEqual([{ name: '--header', flag: '-H', value: '@headers.txt' }])
+      expect(splitShellArgs(buildCurlFromContext(parsed))).toEqual(['curl', '-H', 'x-id: 1', '-H', '@headers.txt', 'https://a.com'])
+    })
+
+    describe('when the Cookie header is deleted', () => {
+      const createRule = (overrides: Partial<FilterRule>): FilterRule => ({
+        id: 'rule',
+        name: 'rule',
+        action: 'delete',
+        target: 'headers',
+        matchMode: 'exact',
+        matchValue: 'cookie',
+        priority: 50,
+        enabled: true,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        ...overrides
+      })
+      const rewriteRules: Partial<FilterRule>[] = [
+        { action: 'rename', replacement: 'session' },
+        { action: 'set', replacement: 'new' },
+        { action: 'redact' }
+      ]
+      const rebuild = (command: string, rewrite: Partial<FilterRule>) => {
+        const engine = new FilterEngine([
+          createRule({ id: 'drop-header' }),
+          createRule({ id: 'rewrite', target: 'cookies', matchValue: 'sid', ...rewrite })
+        ])
+        return splitShellArgs(buildCurlFromContext(filterParsedCurl(engine, parseCurl(command)).filtered))
+      }
+
+      rewriteRules.forEach(rewrite => {
+        it(`should not bring back header cookies changed by a ${rewrite.action} rule`, () => {
+          expect(rebuild(`curl https://x.com -H 'Cookie: _ga=GA1; sid=abc'`, rewrite)).toEqual(['curl', 'https://x.com'])
+        })
+      })
+
+      it('should keep -b cookies changed by rewrite rules', () => {
+        expect(rebuild(`curl https://x.com -H 'Cookie: _ga=GA1' -b 'sid=abc'`, rewriteRules[0]))
+          .toEqual(['curl', '-b', 'session=abc', 'https://x.com'])
+      })
+    })
+
+    it('should keep -b cookies alongside a Cookie header', () => {
+      const parsed = parseCurl(`curl https://x.com -b 'a=1; _ga=2' -H 'Cookie: c=3'`)
+      const output = buildCurlFromContext(filterParsedCurl(new FilterEngine(), parsed).filtered)
+
+      expect(splitShellArgs(output)).toEqual(['curl', '-H', 'cookie: c=3', '-b', 'a=1; _ga=2', 'https://x.com'])
+      expect(parseCurl(output).cookies).toEqual({ c: '3', a: '1', _ga: '2' })
+    })
+
+    it('should reproduce kept curl options before the URL', () => {
+      const parsed = parseCurl(`curl -sk https://a.com -e 'https://ref.example/a b' --max-time 10`)
+      const engine = new FilterEngine([{
+        id: 'drop-silent',
+        name: 'drop silent',
+        action: 'delete',
+        target: 'options',
+        matchMode: 'exact',
+        matchValue: '--silent',
+        priority: 50,
+        enabled: true,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+      }])
+      const { filtered } = filterParsedCurl(engine, parsed)
+
+      expect(filtered.otherOptions).toEqual(['-k', '-e', 'https://ref.example/a b', '--max-time', '10'])
+      expect(splitShellArgs(buildCurlFromContext(filtered))).toEqual([
+        'curl', '-k', '-e', 'https://ref.example/a b', '--max-time', '10', 'https://a.com'
+      ])
+    })
+  })
+})
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest'
-import { parseCurl, type ParsedCurl } from '../curlParser'
+import {
+  parseCurl,
+  detectCommandDialect,
+  isSupportedCommand,
+  parseMultipartField,
+  formatMultipartField,
+  type ParsedCurl
+} from '../curlParser'
 
 describe('curlParser', () => {
   describe('parseCurl', () => {
@@ -135,6 +142,43 @@ describe('curlParser', () => {
       expect(result.headers['x-custom-header']).toBe('value')
     })
 
+    it('should preserve escaped quotes in single-quoted bodies', () => {
+      const curl = `curl 'https://api.example.com/notes' \\
+        -H 'content-type: application/json' \\
+        --data-raw '{"text":"it'\\''s done"}'`
+
+      const result = parseCurl(curl)
+
+      expect(result.data).toBe('{"text":"it\'s done"}')
+      expect(result.jsonBody).toEqual({ text: "it's done" })
+    })
+
+    it('should decode ANSI-C quoted bodies from Chrome', () => {
+      const curl = `curl 'https://api.example.com/notes' \\
+        -H 'content-type: application/json' \\
+        --data-raw $'{\\n  "text": "a\\\\nb",\\n  "quote": "\\'"\\n}'`
+
+      const result = parseCurl(curl)
+
+      expect(result.data).toBe('{\n  "text": "a\\nb",\n  "quote": "\'"\n}')
+      expect(result.jsonBody).toEqual({ text: 'a\nb', quote: "'" })
+    })
+
+    it('should keep whitespace inside quoted JSON bodies', () => {
+      const curl = `curl https://api.example.com -d '{"a":  "x   y"}'`
+      const result = parseCurl(curl)
+
+      expect(result.data).toBe('{"a":  "x   y"}')
+      expect(result.jsonBody).toEqual({ a: 'x   y' })
+    })
+
+    it('should handle header values containing quotes', () => {
+      const curl = `curl https://api.example.com -H 'sec-ch-ua: "Chrome";v="120"'`
+      const result = parseCurl(curl)
+
+      expect(result.headers['sec-ch-ua']).toBe('"Chrome";v="120"')
+    })
+
     it('should handle quoted URLs with spaces', () => {
       const curl = 'curl "https://api.example.com/search?q=hello world&type=all"'
       const result = parseCurl(curl)
@@ -146,4 +190,317 @@ describe('curlParser', () => {
       })
     })
   })
+
+  describe('Windows dialects', () => {
+    it('should detect command dialects', () => {
+      expect(detectCommandDialect(`curl 'https://a.com' -H 'a: b'`)).toBe('bash')
+      expect(detectCommandDialect('curl ^"https://a.com/^" ^\n  -H ^"a: b^"')).toBe('cmd')
+      expect(detectCommandDialect('Invoke-WebRequest -Uri "https://a.com"')).toBe('powershell')
+    })
+
+    it('should accept curl and PowerShell commands as supported input', () => {
+      expect(isSupportedCommand('curl https://a.com')).toBe(true)
+      expect(isSupportedCommand('curl.exe https://a.com')).toBe(true)
+      expect(isSupportedCommand('Invoke-WebRequest -Uri "https://a.com"')).toBe(true)
+      expect(isSupportedCommand('wget https://a.com')).toBe(false)
+    })
+
+    it('should parse Chrome "Copy as cURL (cmd)" output', () => {
+      const curl = [
+        'curl ^"https://api.example.com/users?page=1^&limit=10^" ^',
+        '  -H ^"accept: application/json^" ^',
+        '  -H ^"sec-ch-ua: ^\\^"Chromium^\\^";v=^\\^"120^\\^"^" ^',
+        '  -H ^"content-type: application/json^" ^',
+        '  --data-raw ^"^{^\\^"name^\\^":^\\^"John^\\^",^\\^"note^\\^":^\\^"100%^off ^& more^\\^"^}^" ^',
+        '  --compressed'
+      ].join('\n')
+
+      const result = parseCurl(curl)
+
+      expect(result.url).toBe('https://api.example.com/users?page=1&limit=10')
+      expect(result.queryParams).toEqual({ page: '1', limit: '10' })
+      expect(result.headers['sec-ch-ua']).toBe('"Chromium";v="120"')
+      expect(result.jsonBody).toEqual({ name: 'John', note: '100%off & more' })
+      expect(result.otherOptions).toContain('--compressed')
+    })
+
+    it('should decode literal newlines in cmd bodies', () => {
+      const curl = 'curl ^"https://a.com^" --data-raw ^"a=1^\n\nb=2^"'
+      const result = parseCurl(curl)
+
+      expect(result.data).toBe('a=1\nb=2')
+    })
+
+    it('should parse Chrome "Copy as PowerShell" output', () => {
+      const command = [
+        '$session = New-Object Microsoft.PowerShell.Commands.WebRequestSession',
+        '$session.UserAgent = "Mozilla/5.0 (Windows NT 10.0; Win64; x64)"',
+        '$session.Cookies.Add((New-Object System.Net.Cookie("session_id", "abc123", "/", "api.example.com")))',
+        '$session.Cookies.Add((New-Object System.Net.Cookie("_ga", "GA1.1", "/", ".example.com")))',
+        'Invoke-WebRequest -UseBasicParsing -Uri "https://api.example.com/users?page=1" `',
+        '-Method "POST" `',
+        '-WebSession $session `',
+        '-Headers @{',
+        '"authority"="api.example.com"',
+        '  "method"="POST"',
+        '  "accept"="application/json"',
+        '  "sec-ch-ua"="`"Chromium`";v=`"120`""',
+        '} `',
+        '-ContentType "application/json" `',
+        '-Body "{`"name`":`"John`",`"price`":`"`$5`"}"'
+      ].join('\n')
+
+      const result = parseCurl(command)
+
+      expect(result.url).toBe('https://api.example.com/users?page=1')
+      expect(result.method).toBe('POST')
+      expect(result.queryParams).toEqual({ page: '1' })
+      expect(result.headers).toEqual({
+        'accept': 'application/json',
+        'sec-ch-ua': '"Chromium";v="120"',
+        'content-type': 'application/json',
+        'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)',
+        'cookie': 'session_id=abc123; _ga=GA1.1'
+      })
+      expect(result.jsonBody).toEqual({ name: 'John', price: '$5' })
+    })
+
+    it('should bind the first positional argument to -Uri', () => {
+      const result = parseCurl('Invoke-RestMethod https://x.com/a?b=1 -Method Post')
+
+      expect(result.url).toBe('https://x.com/a?b=1')
+      expect(result.method).toBe('POST')
+      expect(parseCurl("iwr -UseBasicParsing 'https://x.com/' -Method Put").url).toBe('https://x.com/')
+    })
+
+    it('should parse PowerShell bodies wrapped in UTF8.GetBytes', () => {
+      const command = `Invoke-WebRequest -Uri 'https://a.com/form' -Method 'POST' ` +
+        `-ContentType 'application/x-www-form-urlencoded' ` +
+        `-Body ([System.Text.Encoding]::UTF8.GetBytes("name=%E5%BC%A0&it's=1"))`
+
+      const result = parseCurl(command)
+
+      expect(result.method).toBe('POST')
+      expect(result.formData).toEqual({ name: '张', "it's": '1' })
+    })
+
+    it('should parse curl.exe commands written for PowerShell', () => {
+      const command = [
+        `& curl.exe 'https://a.com/x?a=1' \``,
+        `  -H "X-Price: \`$5 \`"cheap\`"" \``,
+        `  -H 'X-Name: O''Brien' \``,
+        `  --data-raw a=1'&b=2'`
+      ].join('\n')
+
+      const result = parseCurl(command)
+
+      expect(detectCommandDialect(command)).toBe('powershell_curl')
+      expect(result.url).toBe('https://a.com/x?a=1')
+      expect(result.headers).toEqual({ 'x-price': '$5 "cheap"', 'x-name': "O'Brien" })
+      expect(result.data).toBe('a=1&b=2')
+    })
+  })
+
+  describe('multipart form fields', () => {
+    it('should parse -F and --form into structured fields', () => {
+      const curl = `curl https://api.example.com/upload \
+        -F 'title=Holiday' \
+        -F 'photo=@/tmp/a.jpg;type=image/jpeg;filename=beach.jpg' \
+        --form 'notes=<notes.txt' \
+        --form-string 'raw=@not-a-file;type=x'`
+
+      const result = parseCurl(curl)
+
+      expect(result.method).toBe('POST')
+      expect(result.multipartData).toEqual([
+        { name: 'title', value: 'Holiday', isFile: false },
+        { name: 'photo', value: '/tmp/a.jpg', isFile: true, contentType: 'image/jpeg', filename: 'beach.jpg' },
+        { name: 'notes', value: 'notes.txt', isFile: false, isFileContent: true },
+        { name: 'raw', value: '@not-a-file;type=x', isFile: false, isString: true }
+      ])
+      expect(result.otherOptions).toEqual([])
+    })
+
+    it('should keep an explicit method with -F', () => {
+      const result = parseCurl(`curl -X PUT https://a.com -F 'a=1'`)
+      expect(result.method).toBe('PUT')
+    })
+
+    it('should handle quoted values and unknown parameters', () => {
+      expect(parseMultipartField('a="x;y \\"z\\"";type=text/plain')).toEqual({
+        name: 'a', value: 'x;y "z"', isFile: false, contentType: 'text/plain'
+      })
+      expect(parseMultipartField('a=b;c')).toEqual({ name: 'a', value: 'b;c', isFile: false })
+      expect(parseMultipartField('novalue')).toBeNull()
+    })
+
+    it('should round-trip fields through formatMultipartField', () => {
+      const args = [
+        'title=Holiday',
+        'photo=@/tmp/a.jpg;type=image/jpeg;filename=beach.jpg',
+        'a="x;y \\"z\\"";type=text/plain'
+      ]
+
+      args.forEach(arg => {
+        const field = parseMultipartField(arg)!
+        const [option, value] = formatMultipartField(field)
+        expect(option).toBe('-F')
+        expect(parseMultipartField(value)).toEqual(field)
+      })
+
+      expect(formatMultipartField({ name: 'a', value: '@literal', isFile: false }))
+        .toEqual(['--form-string', 'a=@literal'])
+    })
+  })
+
+  describe('data flags', () => {
+    it('should default to POST when data is given without -X', () => {
+      const result = parseCurl(`curl https://a.com -d 'a=1'`)
+      expect(result.method).toBe('POST')
+    })
+
+    it('should join multiple data arguments with &', () => {
+      const result = parseCurl(`curl https://a.com -d 'a=1' --data-binary 'b=2' --data-ascii 'c=3'`)
+
+      expect(result.data).toBe('a=1&b=2&c=3')
+      expect(result.formData).toEqual({ a: '1', b: '2', c: '3' })
+      expect(result.dataParts.map(part => part.option)).toEqual(['-d', '--data-binary', '--data-ascii'])
+    })
+
+    it('should url-encode --data-urlencode values', () => {
+      const result = parseCurl(
+        `curl https://a.com --data-urlencode 'q=a b&c' --data-urlencode '=x/y' --data-urlencode "it's"`
+      )
+
+      expect(result.data).toBe('q=a%20b%26c&x%2Fy&it%27s')
+      expect(result.formData.q).toBe('a b&c')
+    })
+
+    it('should treat @ as a file reference except for --data-raw', () => {
+      const result = parseCurl(`curl https://a.com -d @body.json --data-raw '@literal'`)
+
+      expect(result.dataParts[0].fileRef).toBe('body.json')
+      expect(result.dataParts[1].fileRef).toBeUndefined()
+      expect(result.dataParts[1].content).toBe('@literal')
+      // 文件内容未知，不解析请求体
+      expect(result.jsonBody).toBeNull()
+      expect(result.formData).toEqual({})
+    })
+
+    it('should recognise name@file in --data-urlencode', () => {
+      const result = parseCurl(`curl https://a.com --data-urlencode 'msg@message.txt'`)
+      expect(result.dataParts[0].fileRef).toBe('message.txt')
+    })
+
+    it('should set JSON headers and concatenate --json data', () => {
+      const result = parseCurl(`curl https://a.com --json '{"a":' --json '1}'`)
+
+      expect(result.method).toBe('POST')
+      expect(result.headers['content-type']).toBe('application/json')
+      expect(result.headers['accept']).toBe('application/json')
+      expect(result.jsonBody).toEqual({ a: 1 })
+    })
+
+    it('should not override explicit headers with --json', () => {
+      const result = parseCurl(`curl https://a.com -H 'Accept: text/plain' --json '{}'`)
+      expect(result.headers['accept']).toBe('text/plain')
+    })
+
+    it('should move data into the query string with -G', () => {
+      const result = parseCurl(`curl -G 'https://a.com/search?x=1#top' -d 'q=test' --data-urlencode 'name=a b'`)
+
+      expect(result.method).toBe('GET')
+      expect(result.url).toBe('https://a.com/search?x=1&q=test&name=a%20b')
+      expect(result.queryParams).toEqual({ x: '1', q: 'test', name: 'a b' })
+      expect(result.data).toBeUndefined()
+      expect(result.dataParts).toEqual([])
+    })
+
+    it('should keep values containing = in form data', () => {
+      const result = parseCurl(`curl https://a.com -d 'token=abc==&next=/a?b=c'`)
+      expect(result.formData).toEqual({ token: 'abc==', next: '/a?b=c' })
+    })
+  })
+
+  describe('cookies', () => {
+    it('should split the Cookie header into individual cookies', () => {
+      const result = parseCurl(`curl https://a.com -H 'Cookie: sid=abc; _ga=GA1.2.3; theme=dark'`)
+
+      expect(result.cookies).toEqual({ sid: 'abc', _ga: 'GA1.2.3', theme: 'dark' })
+      expect(result.headers['cookie']).toBe('sid=abc; _ga=GA1.2.3; theme=dark')
+    })
+
+    it('should merge -b cookie strings with the Cookie header', () => {
+      const result = parseCurl(`curl https://a.com -H 'Cookie: a=1' -b 'b=2' --cookie 'c=3; a=4'`)
+      expect(result.cookies).toEqual({ a: '4', b: '2', c: '3' })
+    })
+
+    it('should keep cookie files as other options', () => {
+      const result = parseCurl(`curl https://a.com -b cookies.txt`)
+
+      expect(result.cookies).toEqual({})
+      expect(result.otherOptions).toEqual(['-b', 'cookies.txt'])
+    })
+  })
+
+  describe('curl options', () => {
+    it('should parse options into typed entries using the catalog arity', () => {
+      const result = parseCurl(`curl https://a.com --max-time 10 -k -x proxy:8080 --compressed -o out.txt`)
+
+      expect(result.options).toEqual([
+        { name: '--max-time', flag: '--max-time', value: '10' },
+        { name: '--insecure', flag: '-k' },
+        { name: '--proxy', flag: '-x', value: 'proxy:8080' },
+        { name: '--compressed', flag: '--compressed' },
+        { name: '--output', flag: '-o', value: 'out.txt' }
+      ])
+      expect(result.url).toBe('https://a.com')
+      expect(result.otherOptions).toEqual(['--max-time', '10', '-k', '-x', 'proxy:8080', '--compressed', '-o', 'out.txt'])
+    })
+
+    it('should not take the URL as the value of a flag option', () => {
+      const result = parseCurl(`curl -k https://a.com -L`)
+
+      expect(result.url).toBe('https://a.com')
+      expect(result.options.map(option => option.name)).toEqual(['--insecure', '--location'])
+    })
+
+    it('should expand combined short options', () => {
+      const result = parseCurl(`curl -sSLXPOST https://a.com -H 'A: 1'`)
+
+      expect(result.method).toBe('POST')
+      expect(result.options.map(option => option.flag)).toEqual(['-s', '-S', '-L'])
+    })
+
+    it('should recognise --no- prefixed flags', () => {
+      const result = parseCurl(`curl --no-location --no-progress-meter https://a.com`)
+
+      expect(result.options).toEqual([
+        { name: '--no-location', flag: '--no-location' },
+        { name: '--no-progress-meter', flag: '--no-progress-meter' }
+      ])
+      expect(result.url).toBe('https://a.com')
+    })
+
+    it('should move -u and --oauth2-bearer into the auth model', () => {
+      const basic = parseCurl(`curl -k -u 'admin:p w' https://a.com`)
+      const bearer = parseCurl(`curl --oauth2-bearer abc https://a.com`)
+
+      expect(basic.auth).toEqual({ scheme: 'basic', source: 'option', username: 'admin', password: 'p w' })
+      expect(basic.otherOptions).toEqual(['-k'])
+      expect(bearer.auth).toEqual({ scheme: 'bearer', source: 'option', token: 'abc' })
+    })
+
+    it('should decode Basic credentials from the Authorization header', () => {
+      const result = parseCurl(`curl https://a.com -H 'Authorization: Basic YWRtaW46c2VjcmV0'`)
+
+      expect(result.auth).toEqual({ scheme: 'basic', source: 'header', username: 'admin', password: 'secret' })
+      expect(result.headers['authorization']).toBe('Basic YWRtaW46c2VjcmV0')
+    })
+
+    it('should keep unknown options with the previous heuristic', () => {
+      const result = parseCurl(`curl --some-future-flag value https://a.com`)
+      expect(result.options).toEqual([{ name: '--some-future-flag', flag: '--some-future-flag', value: 'value' }])
+    })
+  })
 })
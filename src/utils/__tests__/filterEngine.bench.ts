@@ -0,0 +1,132 @@
+import { describe, bench } from 'vitest'
+import { FilterEngine } from '../filterEngine'
+import { CompiledRuleSet } from '../ruleCompiler'
+import { matchesPattern } from '../ruleMatching'
+import { parseJsonPath } from '../jsonPath'
+import type { JsonPathSegment } from '../jsonPath'
+import type { FilterRule, FilterContext, MatchMode, FilterTarget } from '../../types/filterRules'
+
+// 编译规则集之前的匹配方式：每次匹配都重新计算匹配值，不缓存结果，每个键都检查目标的全部规则
+class UncompiledRuleSet extends CompiledRuleSet {
+  override matchesKey(rule: FilterRule, key: string): boolean {
+    return matchesPattern(key, rule)
+  }
+
+  override matchesValue(rule: FilterRule, value: string): boolean {
+    return matchesPattern(value, rule)
+  }
+
+  override getJsonPath(rule: FilterRule): JsonPathSegment[] | null {
+    try {
+      return rule.matchValue ? parseJsonPath(rule.matchValue) : null
+    } catch {
+      return null
+    }
+  }
+
+  override candidateRules(target: FilterTarget): FilterRule[] {
+    return this.rules.filter(rule => rule.target === target)
+  }
+}
+
+class PreviousFilterEngine extends FilterEngine {
+  protected override compileRules(rules: FilterRule[]): CompiledRuleSet {
+    return new UncompiledRuleSet(rules)
+  }
+}
+
+// 模拟一次HAR导入：大量请求共用少量请求头、查询参数名，规则集包含数百条各种匹配模式的规则
+const REQUEST_COUNT = 300
+const RULE_COUNT = 300
+
+const MODES: MatchMode[] = ['exact', 'one_of', 'starts_with', 'contains', 'ends_with', 'glob', 'regex']
+const TARGETS: FilterTarget[] = ['headers', 'query_params', 'cookies', 'json_body']
+
+const createRule = (index: number): FilterRule => {
+  const matchMode = MODES[index % MODES.length]
+  const name = `x-field-${index}`
+  const matchValue = {
+    exact: name,
+    one_of: `${name}, ${name}-alt`,
+    starts_with: `x-field-${index % 40}`,
+    contains: `field-${index}`,
+    ends_with: `-${index}`,
+    glob: `x-*-${index}`,
+    regex: `^x-field-${index}\\d*$`
+  }[matchMode as string] ?? name
+
+  return {
+    id: `rule-${index}`,
+    name: `Rule ${index}`,
+    action: index % 5 === 0 ? 'keep' : 'delete',
+    target: TARGETS[index % TARGETS.length],
+    matchMode,
+    matchValue,
+    priority: index % 100,
+    enabled: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  }
+}
+
+const createContext = (index: number): FilterContext => {
+  const fields = (prefix: string) => Object.fromEntries(
+    Array.from({ length: 20 }, (_, field) => [`${prefix}-${(index + field * 7) % 60}`, `value-${index}-${field}`])
+  )
+
+  return {
+    headers: { ...fields('x-field'), 'user-agent': 'Mozilla/5.0', accept: 'application/json' },
+    queryParams: fields('x-field'),
+    formData: {},
+    cookies: fields('x-field'),
+    jsonBody: { ...fields('x-field'), data: { items: [{ id: index }] } },
+    url: `https://api.example.com/v1/items/${index}`,
+    method: 'POST'
+  }
+}
+
+const rules = Array.from({ length: RULE_COUNT }, (_, index) => createRule(index))
+const contexts = Array.from({ length: REQUEST_COUNT }, (_, index) => createContext(index))
+const keys = contexts.flatMap(context => Object.keys(context.headers))
+const options = { time: 1000, iterations: 3 }
+
+describe('batch filtering', () => {
+  const engine = new FilterEngine(rules)
+  const previousEngine = new PreviousFilterEngine(rules)
+
+  // 两个引擎的过滤结果必须一致，比较速度才有意义
+  contexts.forEach((context, index) => {
+    if (JSON.stringify(engine.applyFilters(context)) !== JSON.stringify(previousEngine.applyFilters(context))) {
+      throw new Error(`request ${index}: the compiled engine differs from the previous engine`)
+    }
+  })
+
+  bench('compiled engine reused for the batch', () => {
+    contexts.forEach(context => engine.applyFilters(context))
+  }, options)
+
+  bench('previous engine without compiled rules', () => {
+    contexts.forEach(context => previousEngine.applyFilters(context))
+  }, options)
+
+  bench('engine recompiled for every request', () => {
+    contexts.forEach(context => new FilterEngine(rules).applyFilters(context))
+  }, options)
+})
+
+describe('key matching', () => {
+  const headerRules = rules.filter(rule => rule.target === 'headers')
+  const compiled = new CompiledRuleSet(headerRules)
+
+  bench('candidate rules from the key index', () => {
+    keys.forEach(key => compiled.candidateRules('headers', key).forEach(rule => compiled.matchesKey(rule, key)))
+  }, options)
+
+  bench('compiled key index for every rule', () => {
+    keys.forEach(key => headerRules.forEach(rule => compiled.matchesKey(rule, key)))
+  }, options)
+
+  bench('uncompiled matchesPattern', () => {
+    keys.forEach(key => headerRules.forEach(rule => matchesPattern(key, rule)))
+  }, options)
+})
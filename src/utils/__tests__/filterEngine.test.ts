@@ -43,9 +43,9 @@ describe('FilterEngine', () => {
   describe('setRules', () => {
     it('should set and sort rules by priority', () => {
       const rules = [
-        createMockRule({ id: 'rule1', priority: 30 }),
-        createMockRule({ id: 'rule2', priority: 70 }),
-        createMockRule({ id: 'rule3', priority: 50 })
+        createMockRule({ id: 'rule1', priority: 30, matchValue: 'user-agent' }),
+        createMockRule({ id: 'rule2', priority: 70, matchValue: 'accept' }),
+        createMockRule({ id: 'rule3', priority: 50, matchValue: 'content-type' })
       ]
       
       filterEngine.setRules(rules)
@@ -241,6 +241,441 @@ describe('FilterEngine', () => {
     })
   })
 
+  describe('applyFilters - JSON paths', () => {
+    const nestedContext = () => createMockContext({
+      jsonBody: {
+        data: { user: { name: 'John', password: 'secret' } },
+        items: [
+          { id: 1, trackingId: 't1' },
+          { id: 2, trackingId: 't2' }
+        ],
+        variables: { input: { token: 'abc', nested: [{ token: 'def' }] } }
+      }
+    })
+
+    const pathRule = (matchValue: string, overrides: Partial<FilterRule> = {}) => createMockRule({
+      target: 'json_body',
+      matchMode: 'json_path',
+      matchValue,
+      ...overrides
+    })
+
+    it('should delete a nested field by dot path', () => {
+      filterEngine.setRules([pathRule('data.user.password')])
+      const result = filterEngine.applyFilters(nestedContext())
+
+      expect(result.jsonBody.data.user).toEqual({ name: 'John' })
+      expect(result.removedJsonPaths).toEqual(['$.data.user.password'])
+    })
+
+    it('should delete fields of every array element with a wildcard', () => {
+      filterEngine.setRules([pathRule('$.items[*].trackingId')])
+      const result = filterEngine.applyFilters(nestedContext())
+
+      expect(result.jsonBody.items).toEqual([{ id: 1 }, { id: 2 }])
+    })
+
+    it('should delete keys at any depth with recursive descent', () => {
+      filterEngine.setRules([pathRule('..token')])
+      const result = filterEngine.applyFilters(nestedContext())
+
+      expect(result.jsonBody.variables).toEqual({ input: { nested: [{}] } })
+      expect(result.removedJsonPaths).toEqual([
+        '$.variables.input.token',
+        '$.variables.input.nested[0].token'
+      ])
+    })
+
+    it('should remove array elements without shifting later matches', () => {
+      filterEngine.setRules([
+        pathRule('items[0]', { id: 'first' }),
+        pathRule('items[1].trackingId', { id: 'second' })
+      ])
+      const result = filterEngine.applyFilters(nestedContext())
+
+      expect(result.jsonBody.items).toEqual([{ id: 2 }])
+    })
+
+    it('should restore nested fields kept after delete_all', () => {
+      filterEngine.setRules([
+        createMockRule({ id: 'drop', action: 'delete_all', target: 'json_body', matchValue: '', priority: 10 }),
+        pathRule('items[*].id', { id: 'keep', action: 'keep', priority: 90 })
+      ])
+      const result = filterEngine.applyFilters(nestedContext())
+
+      expect(result.jsonBody).toEqual({ items: [{ id: 1 }, { id: 2 }] })
+    })
+
+    it('should ignore invalid paths', () => {
+      filterEngine.setRules([pathRule('items[')])
+      const result = filterEngine.applyFilters(nestedContext())
+
+      expect(result.appliedRules).not.toContain('test-rule')
+      expect(result.removedJsonPaths).toEqual([])
+    })
+
+    it('should leave the input body untouched when reusing compiled rules', () => {
+      const context = nestedContext()
+      const original = JSON.parse(JSON.stringify(context.jsonBody))
+      filterEngine.setRules([pathRule('..token'), pathRule('items[*].id', { id: 'rename', action: 'rename', replacement: 'key' })])
+
+      const first = filterEngine.applyFilters(context)
+      const second = filterEngine.applyFilters(context)
+
+      expect(context.jsonBody).toEqual(original)
+      expect(second.jsonBody).toEqual(first.jsonBody)
+      expect(first.jsonBody.items).toEqual([{ key: 1, trackingId: 't1' }, { key: 2, trackingId: 't2' }])
+    })
+  })
+
+  describe('match scopes', () => {
+    it('should delete query params whose value looks like a timestamp', () => {
+      const context = createMockContext({
+        queryParams: { page: '1', _: '1718000000000', t: '1718000000' }
+      })
+      const rule = createMockRule({
+        target: 'query_params',
+        matchMode: 'regex',
+        matchValue: '^\\d{10}(\\d{3})?$',
+        matchScope: 'value'
+      })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.queryParams).toEqual({ page: '1' })
+    })
+
+    it('should drop headers whose value contains a text', () => {
+      const context = createMockContext({
+        headers: { origin: 'http://localhost:3000', referer: 'http://localhost:3000/a', accept: '*/*' }
+      })
+      const rule = createMockRule({ matchMode: 'contains', matchValue: 'localhost', matchScope: 'value' })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.headers).toEqual({ accept: '*/*' })
+    })
+
+    it('should not match keys when scope is value', () => {
+      const rule = createMockRule({ matchValue: 'user-agent', matchScope: 'value' })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(createMockContext())
+
+      expect(result.headers).toHaveProperty('user-agent')
+      expect(result.appliedRules).not.toContain('test-rule')
+    })
+
+    it('should match either key or value when scope is both', () => {
+      const context = createMockContext({
+        formData: { token: 'abc', note: 'token expired', other: 'x' }
+      })
+      const rule = createMockRule({
+        target: 'form_data',
+        matchMode: 'contains',
+        matchValue: 'token',
+        matchScope: 'both'
+      })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.formData).toEqual({ other: 'x' })
+    })
+
+    it('should match primitive JSON values but not nested objects', () => {
+      const context = createMockContext({
+        jsonBody: { debug: true, nested: { debug: true }, name: 'x' }
+      })
+      const rule = createMockRule({
+        target: 'json_body',
+        matchValue: 'true',
+        matchScope: 'value'
+      })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.jsonBody).toEqual({ nested: { debug: true }, name: 'x' })
+    })
+
+    it('should match multipart fields by value individually', () => {
+      const context = createMockContext({
+        multipartData: [
+          { name: 'file', value: '/tmp/a.jpg', isFile: true },
+          { name: 'file', value: '/tmp/b.png', isFile: true }
+        ]
+      })
+      const rule = createMockRule({
+        target: 'multipart',
+        matchMode: 'ends_with',
+        matchValue: '.png',
+        matchScope: 'value'
+      })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.multipartData?.map(field => field.value)).toEqual(['/tmp/a.jpg'])
+    })
+  })
+
+  describe('applyFilters - redact', () => {
+    it('should keep the key but replace the value', () => {
+      const context = createMockContext({
+        headers: { authorization: 'Bearer sk-1234567890abcd', accept: '*/*' }
+      })
+      const rule = createMockRule({ action: 'redact', matchValue: 'authorization' })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.headers).toEqual({ authorization: '<REDACTED>', accept: '*/*' })
+      expect(result.redactedEntries).toEqual([{ target: 'headers', key: 'authorization', ruleId: 'test-rule' }])
+      expect(result.appliedRules).toContain('test-rule')
+    })
+
+    it('should use the configured mask strategy', () => {
+      const context = createMockContext({ queryParams: { api_key: 'abcdef123456' } })
+      const rules = [
+        createMockRule({
+          target: 'query_params',
+          action: 'redact',
+          matchValue: 'api_key',
+          maskStrategy: 'partial'
+        })
+      ]
+
+      filterEngine.setRules(rules)
+      expect(filterEngine.applyFilters(context).queryParams.api_key).toBe('****3456')
+    })
+
+    it('should not be undone by lower priority keep rules', () => {
+      const context = createMockContext({ formData: { password: 'secret', name: 'x' } })
+      const rules = [
+        createMockRule({ id: 'redact', target: 'form_data', action: 'redact', matchValue: 'password', priority: 90 }),
+        createMockRule({ id: 'keep', target: 'form_data', action: 'keep', matchValue: 'password', priority: 10 })
+      ]
+
+      filterEngine.setRules(rules)
+      expect(filterEngine.applyFilters(context).formData.password).toBe('<REDACTED>')
+    })
+
+    it('should not redact entries that were deleted', () => {
+      const context = createMockContext({ headers: { authorization: 'x' } })
+      const rules = [
+        createMockRule({ id: 'drop', action: 'delete', matchValue: 'authorization' }),
+        createMockRule({ id: 'redact', action: 'redact', matchValue: 'authorization' })
+      ]
+
+      filterEngine.setRules(rules)
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.headers).toEqual({})
+      expect(result.redactedEntries).toEqual([])
+    })
+
+    it('should redact cookies and rebuild the Cookie header', () => {
+      const context = createMockContext({
+        headers: { cookie: 'sid=abc; theme=dark' },
+        cookies: { sid: 'abc', theme: 'dark' }
+      })
+      const rule = createMockRule({ target: 'cookies', action: 'redact', matchValue: 'sid', maskValue: 'xxx' })
+
+      filterEngine.setRules([rule])
+      expect(filterEngine.applyFilters(context).headers.cookie).toBe('sid=xxx; theme=dark')
+    })
+
+    it('should redact nested JSON nodes selected by path', () => {
+      const context = createMockContext({
+        jsonBody: { items: [{ token: 'a', id: 1 }, { token: 'b', id: 2 }] }
+      })
+      const rule = createMockRule({
+        target: 'json_body',
+        action: 'redact',
+        matchMode: 'json_path',
+        matchValue: '..token',
+        maskStrategy: 'hash'
+      })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.jsonBody.items[0].token).toMatch(/^<hash:[0-9a-f]{8}>$/)
+      expect(result.jsonBody.items[0].id).toBe(1)
+      expect(result.redactedEntries?.map(entry => entry.key)).toEqual(['$.items[0].token', '$.items[1].token'])
+    })
+
+    it('should leave multipart file fields untouched', () => {
+      const context = createMockContext({
+        multipartData: [
+          { name: 'token', value: 'abc', isFile: false },
+          { name: 'upload', value: '/tmp/a.txt', isFile: true }
+        ]
+      })
+      const rule = createMockRule({ target: 'multipart', action: 'redact', matchMode: 'regex', matchValue: '.' })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.multipartData?.map(field => field.value)).toEqual(['<REDACTED>', '/tmp/a.txt'])
+    })
+  })
+
+  describe('applyFilters - rewrite actions', () => {
+    it('should add a header only when it is missing', () => {
+      const rules = [
+        createMockRule({ id: 'debug', action: 'add', matchValue: 'X-Debug', replacement: '1' }),
+        createMockRule({ id: 'accept', action: 'add', matchValue: 'Accept', replacement: 'text/html' })
+      ]
+
+      filterEngine.setRules(rules)
+      const result = filterEngine.applyFilters(createMockContext())
+
+      expect(result.headers['X-Debug']).toBe('1')
+      expect(result.headers.accept).toBe('application/json')
+      expect(result.headers).not.toHaveProperty('Accept')
+      expect(result.appliedRules).toEqual(['debug'])
+    })
+
+    it('should overwrite an existing header case-insensitively with set', () => {
+      const rule = createMockRule({ action: 'set', matchValue: 'Accept', replacement: 'application/xml' })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(createMockContext())
+
+      expect(result.headers.accept).toBe('application/xml')
+      expect(result.headers).not.toHaveProperty('Accept')
+    })
+
+    it('should set every matching entry for pattern rules', () => {
+      const context = createMockContext({ queryParams: { utm_source: 'a', utm_medium: 'b', page: '1' } })
+      const rule = createMockRule({
+        target: 'query_params',
+        action: 'set',
+        matchMode: 'starts_with',
+        matchValue: 'utm_',
+        replacement: 'test'
+      })
+
+      filterEngine.setRules([rule])
+      expect(filterEngine.applyFilters(context).queryParams).toEqual({ utm_source: 'test', utm_medium: 'test', page: '1' })
+    })
+
+    it('should rename keys and keep their values and order', () => {
+      const context = createMockContext({ headers: { 'x-csrftoken': 'abc', accept: '*/*' } })
+      const rule = createMockRule({ action: 'rename', matchValue: 'x-csrftoken', replacement: 'X-CSRF-Token' })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context)
+
+      expect(Object.entries(result.headers)).toEqual([['X-CSRF-Token', 'abc'], ['accept', '*/*']])
+    })
+
+    it('should skip renames onto an existing key instead of overwriting it', () => {
+      const context = createMockContext({ queryParams: { a: '1', b: '2' } })
+      const rule = createMockRule({ id: 'rename', name: 'a to b', action: 'rename', target: 'query_params', matchValue: 'a', replacement: 'b' })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context, { explain: true })
+
+      expect(result.queryParams).toEqual({ a: '1', b: '2' })
+      expect(result.appliedRules).toEqual([])
+      expect(result.warnings).toEqual(['规则「a to b」未把 a 重命名为 b：b 已存在'])
+      expect(result.trace?.find(entry => entry.target === 'query_params' && entry.key === 'a'))
+        .toMatchObject({ decision: 'kept', note: '未重命名为 b：同名字段已存在' })
+    })
+
+    it('should rename only the first of several matching keys', () => {
+      const context = createMockContext({ headers: { 'x-token-a': '1', 'x-token-b': '2' } })
+      const rule = createMockRule({ name: 'merge tokens', action: 'rename', matchMode: 'starts_with', matchValue: 'x-token-', replacement: 'x-token' })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.headers).toEqual({ 'x-token': '1', 'x-token-b': '2' })
+      expect(result.warnings).toEqual(['规则「merge tokens」未把 x-token-b 重命名为 x-token：x-token 已存在'])
+    })
+
+    it('should compare renamed header names case-insensitively', () => {
+      const context = createMockContext({ headers: { 'x-csrftoken': 'a', 'x-csrf-token': 'b' } })
+      const rule = createMockRule({ name: 'csrf', action: 'rename', matchValue: 'x-csrftoken', replacement: 'X-CSRF-Token' })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.headers).toEqual({ 'x-csrftoken': 'a', 'x-csrf-token': 'b' })
+      expect(result.warnings).toEqual(['规则「csrf」未把 x-csrftoken 重命名为 X-CSRF-Token：x-csrf-token 已存在'])
+      expect(filterEngine.applyFilters(createMockContext({ headers: { 'x-csrftoken': 'a' } })).headers)
+        .toEqual({ 'X-CSRF-Token': 'a' })
+    })
+
+    it('should apply rewrite rules after delete_all', () => {
+      const rules = [
+        createMockRule({ id: 'drop', action: 'delete_all', matchValue: '', priority: 90 }),
+        createMockRule({ id: 'add', action: 'add', matchValue: 'accept', replacement: 'application/json', priority: 10 })
+      ]
+
+      filterEngine.setRules(rules)
+      expect(filterEngine.applyFilters(createMockContext()).headers).toEqual({ accept: 'application/json' })
+    })
+
+    it('should set, add and rename nested JSON nodes', () => {
+      const context = createMockContext({
+        jsonBody: { data: { user_name: 'x', debug: false } }
+      })
+      const rules = [
+        createMockRule({ id: 'set', target: 'json_body', action: 'set', matchMode: 'json_path', matchValue: 'data.debug', replacement: 'true' }),
+        createMockRule({ id: 'add', target: 'json_body', action: 'add', matchMode: 'json_path', matchValue: 'meta.version', replacement: '2' }),
+        createMockRule({ id: 'rename', target: 'json_body', action: 'rename', matchMode: 'json_path', matchValue: 'data.user_name', replacement: 'userName' })
+      ]
+
+      filterEngine.setRules(rules)
+      const result = filterEngine.applyFilters(context)
+
+      expect(result.jsonBody).toEqual({
+        data: { userName: 'x', debug: true },
+        meta: { version: 2 }
+      })
+    })
+
+    it('should add and rename multipart fields', () => {
+      const context = createMockContext({
+        multipartData: [{ name: 'file', value: '/tmp/a.jpg', isFile: true }]
+      })
+      const rules = [
+        createMockRule({ id: 'rename', target: 'multipart', action: 'rename', matchValue: 'file', replacement: 'upload' }),
+        createMockRule({ id: 'add', target: 'multipart', action: 'add', matchValue: 'token', replacement: 'abc' })
+      ]
+
+      filterEngine.setRules(rules)
+      expect(filterEngine.applyFilters(context).multipartData).toEqual([
+        { name: 'upload', value: '/tmp/a.jpg', isFile: true },
+        { name: 'token', value: 'abc', isFile: false }
+      ])
+    })
+  })
+
+  describe('conditional rules', () => {
+    it('should only apply rules whose condition matches the request', () => {
+      const rules = [
+        createMockRule({ id: 'staging', matchValue: 'user-agent', condition: { host: '*.staging.example.com' } }),
+        createMockRule({ id: 'post-only', matchValue: 'accept', condition: { methods: ['POST'] } })
+      ]
+
+      filterEngine.setRules(rules)
+      const staging = filterEngine.applyFilters(createMockContext({ url: 'https://api.staging.example.com/data' }))
+      const production = filterEngine.applyFilters(createMockContext())
+
+      expect(staging.headers).not.toHaveProperty('user-agent')
+      expect(staging.headers).toHaveProperty('accept')
+      expect(production.headers).toHaveProperty('user-agent')
+      expect(production.appliedRules).toEqual([])
+    })
+  })
+
   describe('match modes', () => {
     it('should match with contains mode', () => {
       const rule = createMockRule({
@@ -303,6 +738,423 @@ describe('FilterEngine', () => {
       // Headers should remain unchanged
       expect(result.headers).toHaveProperty('user-agent')
     })
+
+    it('should match with glob mode', () => {
+      filterEngine.setRules([createMockRule({ matchMode: 'glob', matchValue: 'sec-ch-*' })])
+      const result = filterEngine.applyFilters(createMockContext({
+        headers: { 'sec-ch-ua': 'x', 'Sec-CH-UA-Mobile': '?0', 'x-sec-ch': 'y' }
+      }))
+
+      expect(result.headers).toEqual({ 'x-sec-ch': 'y' })
+    })
+
+    it('should match with one_of mode', () => {
+      filterEngine.setRules([createMockRule({ target: 'query_params', matchMode: 'one_of', matchValue: 'page, limit,' })])
+      const result = filterEngine.applyFilters(createMockContext({ queryParams: { page: '1', limit: '10', pages: '3' } }))
+
+      expect(result.queryParams).toEqual({ pages: '3' })
+    })
+
+    it('should ignore case for header names and respect it elsewhere by default', () => {
+      filterEngine.setRules([
+        createMockRule({ id: 'header', matchValue: 'User-Agent' }),
+        createMockRule({ id: 'json', target: 'json_body', matchValue: 'Token' })
+      ])
+      const result = filterEngine.applyFilters(createMockContext({ jsonBody: { token: 't', Token: 'T' } }))
+
+      expect(result.headers).not.toHaveProperty('user-agent')
+      expect(result.jsonBody).toEqual({ token: 't' })
+    })
+
+    it('should follow an explicit case-sensitivity flag', () => {
+      filterEngine.setRules([
+        createMockRule({ id: 'header', matchValue: 'User-Agent', caseSensitive: true }),
+        createMockRule({ id: 'query', target: 'query_params', matchMode: 'contains', matchValue: 'PAGE', caseSensitive: true }),
+        createMockRule({ id: 'json', target: 'json_body', matchMode: 'glob', matchValue: 'to*', caseSensitive: false })
+      ])
+      const result = filterEngine.applyFilters(createMockContext({ jsonBody: { token: 't', Token: 'T', id: 1 } }))
+
+      expect(result.headers).toHaveProperty('user-agent')
+      expect(result.queryParams).toHaveProperty('page')
+      expect(result.jsonBody).toEqual({ id: 1 })
+    })
+
+    it('should apply negated rules to entries that do not match', () => {
+      filterEngine.setRules([
+        createMockRule({ matchMode: 'one_of', matchValue: 'accept, content-type', negate: true }),
+        createMockRule({ id: 'options', target: 'options', matchValue: '-k', negate: true })
+      ])
+      const result = filterEngine.applyFilters(createMockContext({
+        options: [{ name: '--insecure', flag: '-k' }, { name: '--verbose', flag: '-v' }]
+      }))
+
+      expect(result.headers).toEqual({ accept: 'application/json', 'content-type': 'application/json' })
+      expect(result.options).toEqual([{ name: '--insecure', flag: '-k' }])
+    })
+
+    it('should not create entries for negated set rules', () => {
+      filterEngine.setRules([createMockRule({ action: 'set', matchValue: 'x-missing', replacement: '1', negate: true })])
+      const result = filterEngine.applyFilters(createMockContext())
+
+      expect(result.headers).toEqual({ 'user-agent': '1', accept: '1', 'content-type': '1' })
+    })
+  })
+
+  describe('applyFilters - multipart', () => {
+    const multipartContext = () => createMockContext({
+      multipartData: [
+        { name: 'file', value: '/tmp/a.jpg', isFile: true },
+        { name: 'token', value: 'abc', isFile: false },
+        { name: 'file', value: '/tmp/b.jpg', isFile: true }
+      ]
+    })
+
+    it('should delete every field with a matching name', () => {
+      const rule = createMockRule({
+        action: 'delete',
+        target: 'multipart',
+        matchMode: 'exact',
+        matchValue: 'file'
+      })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(multipartContext())
+
+      expect(result.multipartData).toEqual([{ name: 'token', value: 'abc', isFile: false }])
+      expect(result.appliedRules).toContain('test-rule')
+    })
+
+    it('should restore kept fields in original order after delete_all', () => {
+      const rules = [
+        createMockRule({ id: 'drop', action: 'delete_all', target: 'multipart', matchValue: '', priority: 10 }),
+        createMockRule({ id: 'keep', action: 'keep', target: 'multipart', matchValue: 'file', priority: 90 })
+      ]
+
+      filterEngine.setRules(rules)
+      const result = filterEngine.applyFilters(multipartContext())
+
+      expect(result.multipartData?.map(field => field.value)).toEqual(['/tmp/a.jpg', '/tmp/b.jpg'])
+    })
+
+    it('should not modify the original context', () => {
+      const context = multipartContext()
+      filterEngine.setRules([createMockRule({ action: 'delete_all', target: 'multipart', matchValue: '' })])
+      filterEngine.applyFilters(context)
+
+      expect(context.multipartData).toHaveLength(3)
+    })
+  })
+
+  describe('applyFilters - cookies', () => {
+    const cookieContext = () => createMockContext({
+      headers: { 'cookie': 'sid=abc; _ga=GA1.2.3; _gid=GA1.4.5' },
+      cookies: { sid: 'abc', _ga: 'GA1.2.3', _gid: 'GA1.4.5' }
+    })
+
+    it('should delete matching cookies and rewrite the Cookie header', () => {
+      const rule = createMockRule({
+        target: 'cookies',
+        matchMode: 'regex',
+        matchValue: '^_ga|^_gid$'
+      })
+
+      filterEngine.setRules([rule])
+      const result = filterEngine.applyFilters(cookieContext())
+
+      expect(result.cookies).toEqual({ sid: 'abc' })
+      expect(result.headers['cookie']).toBe('sid=abc')
+      expect(result.appliedRules).toContain('test-rule')
+    })
+
+    it('should remove the Cookie header when no cookies remain', () => {
+      filterEngine.setRules([createMockRule({ action: 'delete_all', target: 'cookies', matchValue: '' })])
+      const result = filterEngine.applyFilters(cookieContext())
+
+      expect(result.cookies).toEqual({})
+      expect(result.headers).not.toHaveProperty('cookie')
+    })
+
+    it('should keep only whitelisted cookies after delete_all', () => {
+      const rules = [
+        createMockRule({ id: 'drop', action: 'delete_all', target: 'cookies', matchValue: '', priority: 10 }),
+        createMockRule({ id: 'keep', action: 'keep', target: 'cookies', matchValue: 'sid', priority: 90 })
+      ]
+
+      filterEngine.setRules(rules)
+      const result = filterEngine.applyFilters(cookieContext())
+
+      expect(result.headers['cookie']).toBe('sid=abc')
+    })
+
+    it('should leave the Cookie header untouched when no cookie rule applies', () => {
+      const result = filterEngine.applyFilters(cookieContext())
+      expect(result.headers['cookie']).toBe('sid=abc; _ga=GA1.2.3; _gid=GA1.4.5')
+    })
+
+    it('should drop all cookies when the Cookie header is deleted', () => {
+      filterEngine.setRules([createMockRule({ target: 'headers', matchValue: 'cookie' })])
+      const result = filterEngine.applyFilters(cookieContext())
+
+      expect(result.cookies).toEqual({})
+    })
+
+    it('should keep -b cookies when the Cookie header is deleted', () => {
+      filterEngine.setRules([createMockRule({ target: 'headers', matchValue: 'cookie' })])
+      const result = filterEngine.applyFilters(createMockContext({
+        headers: { 'cookie': 'c=3' },
+        cookies: { c: '3', a: '1' },
+        optionCookies: { a: '1' }
+      }))
+
+      expect(result.headers).toEqual({})
+      expect(result.cookies).toEqual({ a: '1' })
+    })
+  })
+
+  describe('applyFilters - options', () => {
+    const optionContext = () => createMockContext({
+      options: [
+        { name: '--insecure', flag: '-k' },
+        { name: '--proxy-user', flag: '-U', value: 'admin:secret' },
+        { name: '--verbose', flag: '-v' },
+        { name: '--max-time', flag: '--max-time', value: '10' }
+      ]
+    })
+
+    it('should match options by long name or by the flag used in the command', () => {
+      const rules = [
+        createMockRule({ id: 'by-name', target: 'options', matchValue: '--insecure' }),
+        createMockRule({ id: 'by-flag', target: 'options', matchValue: '-v' })
+      ]
+
+      filterEngine.setRules(rules)
+      const result = filterEngine.applyFilters(optionContext())
+
+      expect(result.options?.map(option => option.name)).toEqual(['--proxy-user', '--max-time'])
+      expect(result.appliedRules).toEqual(['by-name', 'by-flag'])
+    })
+
+    it('should keep whitelisted options after delete_all', () => {
+      const rules = [
+        createMockRule({ id: 'drop', action: 'delete_all', target: 'options', matchValue: '', priority: 10 }),
+        createMockRule({ id: 'keep', action: 'keep', target: 'options', matchValue: '--max-time', priority: 90 })
+      ]
+
+      filterEngine.setRules(rules)
+      const result = filterEngine.applyFilters(optionContext())
+
+      expect(result.options).toEqual([{ name: '--max-time', flag: '--max-time', value: '10' }])
+    })
+
+    it('should only redact options that take a value', () => {
+      filterEngine.setRules([createMockRule({ action: 'redact', target: 'options', matchMode: 'regex', matchValue: '^--(proxy-user|insecure)$' })])
+      const result = filterEngine.applyFilters(optionContext())
+
+      expect(result.options?.[0]).toEqual({ name: '--insecure', flag: '-k' })
+      expect(result.options?.[1].value).not.toBe('admin:secret')
+      expect(result.redactedEntries).toEqual([{ target: 'options', key: '--proxy-user', ruleId: 'test-rule' }])
+    })
+
+    it('should add options with a value only when the option takes one', () => {
+      const rules = [
+        createMockRule({ id: 'flag', action: 'add', target: 'options', matchValue: '--compressed', replacement: 'ignored' }),
+        createMockRule({ id: 'value', action: 'add', target: 'options', matchValue: '-x', replacement: 'http://proxy:8080' }),
+        createMockRule({ id: 'exists', action: 'add', target: 'options', matchValue: '-k' })
+      ]
+
+      filterEngine.setRules(rules)
+      const result = filterEngine.applyFilters(optionContext())
+
+      expect(result.options?.slice(4)).toEqual([
+        { name: '--compressed', flag: '--compressed' },
+        { name: '--proxy', flag: '-x', value: 'http://proxy:8080' }
+      ])
+      expect(result.appliedRules).not.toContain('exists')
+    })
+  })
+
+  describe('applyFilters - auth', () => {
+    const headerAuthContext = () => createMockContext({
+      headers: { 'authorization': 'Basic YWRtaW46c2VjcmV0' },
+      auth: { scheme: 'basic', source: 'header', username: 'admin', password: 'secret' }
+    })
+
+    it('should redact only the password and rebuild the Authorization header', () => {
+      filterEngine.setRules([createMockRule({ action: 'redact', target: 'auth', matchValue: 'password', maskValue: 'x' })])
+      const result = filterEngine.applyFilters(headerAuthContext())
+
+      expect(result.auth).toEqual({ scheme: 'basic', source: 'header', username: 'admin', password: 'x' })
+      expect(result.headers['authorization']).toBe('Basic YWRtaW46eA==')
+      expect(result.redactedEntries).toEqual([{ target: 'auth', key: 'password', ruleId: 'test-rule' }])
+    })
+
+    it('should drop -u credentials with delete_all', () => {
+      filterEngine.setRules([createMockRule({ action: 'delete_all', target: 'auth', matchValue: '' })])
+      const result = filterEngine.applyFilters(createMockContext({
+        auth: { scheme: 'bearer', source: 'option', token: 'abc' }
+      }))
+
+      expect(result.auth).toBeNull()
+      expect(result.appliedRules).toContain('test-rule')
+    })
+
+    describe('with both an Authorization header and -u', () => {
+      const bothContext = () => createMockContext({
+        headers: { 'authorization': 'Basic YWRtaW46c2VjcmV0' },
+        auth: { scheme: 'basic', source: 'header', username: 'admin', password: 'secret' },
+        options: [{ name: '--user', flag: '-u', value: 'a:b' }, { name: '--insecure', flag: '-k' }]
+      })
+
+      it('should remove the -u option with delete_all', () => {
+        filterEngine.setRules([createMockRule({ action: 'delete_all', target: 'auth', matchValue: '' })])
+        const result = filterEngine.applyFilters(bothContext())
+
+        expect(result.auth).toBeNull()
+        expect(result.headers).toEqual({})
+        expect(result.options).toEqual([{ name: '--insecure', flag: '-k' }])
+        expect(result.appliedRules).toEqual(['test-rule'])
+      })
+
+      it('should mask the password in the header and the -u option', () => {
+        filterEngine.setRules([createMockRule({ action: 'redact', target: 'auth', matchValue: 'password', maskValue: 'x' })])
+        const result = filterEngine.applyFilters(bothContext())
+
+        expect(result.headers['authorization']).toBe('Basic YWRtaW46eA==')
+        expect(result.options).toEqual([{ name: '--user', flag: '-u', value: 'a:x' }, { name: '--insecure', flag: '-k' }])
+        expect(result.redactedEntries).toEqual([{ target: 'auth', key: 'password', ruleId: 'test-rule' }])
+      })
+    })
+
+    it('should follow header rules that remove or change the Authorization header', () => {
+      filterEngine.setRules([createMockRule({ target: 'headers', matchValue: 'authorization' })])
+      expect(filterEngine.applyFilters(headerAuthContext()).auth).toBeNull()
+
+      filterEngine.setRules([createMockRule({ action: 'set', target: 'headers', matchValue: 'authorization', replacement: 'Bearer t' })])
+      expect(filterEngine.applyFilters(headerAuthContext()).auth).toEqual({ scheme: 'bearer', source: 'header', token: 't' })
+    })
+  })
+
+  describe('applyFilters - explain', () => {
+    it('should only return a trace in explain mode', () => {
+      expect(filterEngine.applyFilters(createMockContext()).trace).toBeUndefined()
+      expect(filterEngine.applyFilters(createMockContext(), { explain: true }).trace).toHaveLength(5)
+    })
+
+    it('should name the rule that kept or deleted each header', () => {
+      filterEngine.setRules([
+        createMockRule({ id: 'drop', name: 'Drop all', action: 'delete_all', matchValue: '', priority: 10 }),
+        createMockRule({ id: 'keep', name: 'Keep accept', action: 'keep', matchValue: 'accept', priority: 90 }),
+        createMockRule({ id: 'staging', name: 'Staging only', action: 'keep', matchValue: 'user-agent', condition: { host: 'staging.*' } })
+      ])
+      const trace = filterEngine.applyFilters(createMockContext(), { explain: true }).trace || []
+      const accept = trace.find(entry => entry.target === 'headers' && entry.key === 'accept')
+      const userAgent = trace.find(entry => entry.target === 'headers' && entry.key === 'user-agent')
+
+      expect(accept).toMatchObject({ decision: 'kept', decidingRuleId: 'keep' })
+      expect(accept?.evaluations.map(evaluation => [evaluation.ruleId, evaluation.matched])).toEqual([
+        ['keep', true], ['staging', false], ['drop', true]
+      ])
+      expect(userAgent).toMatchObject({ decision: 'deleted', decidingRuleId: 'drop' })
+      expect(userAgent?.evaluations[1]).toMatchObject({ ruleId: 'staging', conditionMet: false, matched: false })
+    })
+
+    it('should report redacted, renamed and added fields', () => {
+      filterEngine.setRules([
+        createMockRule({ id: 'mask', action: 'redact', matchValue: 'user-agent' }),
+        createMockRule({ id: 'rename', action: 'rename', target: 'query_params', matchValue: 'page', replacement: 'p' }),
+        createMockRule({ id: 'add', action: 'add', matchValue: 'x-trace', replacement: '1' })
+      ])
+      const trace = filterEngine.applyFilters(createMockContext(), { explain: true }).trace || []
+      const decisionOf = (target: string, key: string) => trace.find(entry => entry.target === target && entry.key === key)
+
+      expect(decisionOf('headers', 'user-agent')).toMatchObject({ decision: 'redacted', decidingRuleId: 'mask' })
+      expect(decisionOf('headers', 'x-trace')).toMatchObject({ decision: 'added', decidingRuleId: 'add' })
+      expect(decisionOf('query_params', 'page')).toMatchObject({ decision: 'renamed', decidingRuleId: 'rename' })
+      expect(decisionOf('query_params', 'p')).toMatchObject({ decision: 'renamed', decidingRuleId: 'rename' })
+    })
+
+    it('should trace JSON nodes by path', () => {
+      filterEngine.setRules([createMockRule({ target: 'json_body', matchMode: 'json_path', matchValue: 'user.password' })])
+      const trace = filterEngine.applyFilters(createMockContext({
+        jsonBody: { user: { name: 'a', password: 'b' } }
+      }), { explain: true }).trace || []
+
+      expect(trace.filter(entry => entry.target === 'json_body').map(entry => [entry.key, entry.decision])).toEqual([
+        ['$.user', 'kept'],
+        ['$.user.password', 'deleted']
+      ])
+    })
+
+    it('should warn about rules with invalid patterns', () => {
+      filterEngine.setRules([createMockRule({ name: 'Broken', matchMode: 'regex', matchValue: '[oops' })])
+      expect(filterEngine.applyFilters(createMockContext()).warnings).toEqual(['规则「Broken」的正则表达式无效，不会匹配任何内容'])
+    })
+  })
+
+  describe('resolution strategies', () => {
+    const conflictingRules = () => [
+      createMockRule({ id: 'drop', action: 'delete', matchValue: 'accept', priority: 90 }),
+      createMockRule({ id: 'keep', action: 'keep', matchValue: 'accept', priority: 10 })
+    ]
+
+    it('should let the highest priority matching rule decide by default', () => {
+      filterEngine.setRules(conflictingRules())
+      const result = filterEngine.applyFilters(createMockContext())
+
+      expect(result.headers).not.toHaveProperty('accept')
+      expect(result.appliedRules).toEqual(['drop'])
+    })
+
+    it('should let the lowest priority matching rule decide with last_match', () => {
+      const engine = new FilterEngine(conflictingRules(), 'last_match')
+      const result = engine.applyFilters(createMockContext(), { explain: true })
+
+      expect(result.headers).toHaveProperty('accept')
+      expect(result.appliedRules).toEqual(['keep'])
+      expect(result.trace?.find(entry => entry.key === 'accept')).toMatchObject({ decision: 'kept', decidingRuleId: 'keep' })
+    })
+
+    it('should delete whenever a delete rule matches with deny_overrides', () => {
+      const engine = new FilterEngine([
+        createMockRule({ id: 'keep', action: 'keep', matchValue: 'accept', priority: 90 }),
+        createMockRule({ id: 'drop', action: 'delete', matchValue: 'accept', priority: 10 })
+      ], 'deny_overrides')
+      const result = engine.applyFilters(createMockContext(), { explain: true })
+
+      expect(result.headers).not.toHaveProperty('accept')
+      expect(result.trace?.find(entry => entry.key === 'accept')).toMatchObject({ decision: 'deleted', decidingRuleId: 'drop' })
+    })
+
+    it('should rank global rules by priority like specific rules', () => {
+      const rules = [
+        createMockRule({ id: 'drop-all', action: 'delete_all', matchValue: '', priority: 90 }),
+        createMockRule({ id: 'keep', action: 'keep', matchValue: 'accept', priority: 10 })
+      ]
+
+      expect(new FilterEngine(rules).applyFilters(createMockContext()).headers).toEqual({})
+      expect(new FilterEngine(rules, 'last_match').applyFilters(createMockContext()).headers).toEqual({ accept: 'application/json' })
+    })
+
+    it('should apply the same strategy to nested JSON nodes and list targets', () => {
+      const rules = [
+        createMockRule({ id: 'drop-all', action: 'delete_all', target: 'json_body', matchValue: '', priority: 10 }),
+        createMockRule({ id: 'keep-name', action: 'keep', target: 'json_body', matchMode: 'json_path', matchValue: '$.user.name', priority: 90 }),
+        createMockRule({ id: 'keep-k', action: 'keep', target: 'options', matchValue: '-k', priority: 90 }),
+        createMockRule({ id: 'drop-options', action: 'delete_all', target: 'options', matchValue: '', priority: 10 })
+      ]
+      const context = createMockContext({
+        jsonBody: { user: { name: 'a', password: 'p' }, debug: true },
+        options: [{ name: '--insecure', flag: '-k' }, { name: '--verbose', flag: '-v' }]
+      })
+
+      const firstMatch = new FilterEngine(rules).applyFilters(context)
+      expect(firstMatch.jsonBody).toEqual({ user: { name: 'a' } })
+      expect(firstMatch.options).toEqual([{ name: '--insecure', flag: '-k' }])
+
+      const denyOverrides = new FilterEngine(rules, 'deny_overrides').applyFilters(context)
+      expect(denyOverrides.jsonBody).toEqual({})
+      expect(denyOverrides.options).toEqual([])
+    })
   })
 
   describe('multiple rules', () => {
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { FilterService, isFilterJobCancelled } from '../filterService'
+import { FilterEngine } from '../filterEngine'
+import { runFilterJob, type FilterWorkerRequest, type FilterWorkerResponse } from '../filterJobs'
+import type { FilterRule } from '../../types/filterRules'
+import type { HarFile } from '../../types/har'
+
+// 在同一线程中模拟过滤 Worker；hang 为 true 时收到任务后不再响应（如正则表达式灾难性回溯）
+class FakeWorker {
+  private engine = new FilterEngine()
+  private listeners: Array<(event: MessageEvent<FilterWorkerResponse>) => void> = []
+  terminated = false
+
+  constructor(private hang = false) {}
+
+  addEventListener(type: string, listener: (event: MessageEvent<FilterWorkerResponse>) => void): void {
+    if (type === 'message') this.listeners.push(listener)
+  }
+
+  postMessage(request: FilterWorkerRequest): void {
+    if (request.type === 'configure') {
+      this.engine.setRules(request.rules)
+      this.engine.setResolutionStrategy(request.resolutionStrategy)
+      return
+    }
+    if (this.hang) return
+
+    setTimeout(() => {
+      if (this.terminated) return
+      const output = runFilterJob(this.engine, request.job, progress => this.emit({ type: 'progress', jobId: request.jobId, progress }))
+      this.emit({ type: 'done', jobId: request.jobId, output })
+    })
+  }
+
+  terminate(): void {
+    this.terminated = true
+  }
+
+  private emit(message: FilterWorkerResponse): void {
+    this.listeners.forEach(listener => listener({ data: message } as MessageEvent<FilterWorkerResponse>))
+  }
+}
+
+describe('FilterService', () => {
+  const rule: FilterRule = {
+    id: 'drop-ua',
+    name: 'Drop UA',
+    action: 'delete',
+    target: 'headers',
+    matchMode: 'regex',
+    matchValue: '^user-agent$',
+    priority: 50,
+    enabled: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  }
+  const curl = "curl 'https://api.example.com/a' -H 'User-Agent: x' -H 'Accept: */*'"
+
+  const createService = (workers: FakeWorker[], timeout?: number) => {
+    const service = new FilterService({
+      timeout,
+      createWorker: () => {
+        const worker = workers.shift()!
+        return worker as unknown as Worker
+      }
+    })
+    service.setRules([rule])
+    return service
+  }
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should filter on the main thread without a worker', async () => {
+    const service = new FilterService({ createWorker: null })
+    service.setRules([rule])
+
+    const { result, filtered, outputCurl } = await service.filterCurl(curl)
+
+    expect(result.appliedRules).toEqual(['drop-ua'])
+    expect(filtered.headers).toEqual({ accept: '*/*' })
+    expect(outputCurl).not.toContain('user-agent')
+  })
+
+  it('should run jobs in the worker and report batch progress', async () => {
+    const service = createService([new FakeWorker()])
+    const har: HarFile = {
+      log: {
+        version: '1.2',
+        creator: { name: 'test', version: '1' },
+        entries: ['a', 'b'].map(path => ({
+          startedDateTime: '2024-01-01T00:00:00.000Z',
+          time: 1,
+          request: {
+            method: 'GET',
+            url: `https://api.example.com/${path}`,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: [{ name: 'User-Agent', value: 'x' }],
+            queryString: [],
+            headersSize: -1,
+            bodySize: 0
+          }
+        }))
+      }
+    }
+    const onProgress = vi.fn()
+
+    const items = await service.filterHar(har, onProgress)
+
+    expect(items.map(item => item.filtered.headers)).toEqual([{}, {}])
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { completed: 1, total: 2 },
+      { completed: 2, total: 2 }
+    ])
+  })
+
+  it('should cancel the in-flight job when a new one starts', async () => {
+    const busy = new FakeWorker(true)
+    const service = createService([busy, new FakeWorker()])
+
+    const stale = service.filterCurl(curl)
+    const latest = service.filterCurl(curl)
+
+    await expect(stale).rejects.toSatisfy(isFilterJobCancelled)
+    expect(busy.terminated).toBe(true)
+    expect((await latest).result.appliedRules).toEqual(['drop-ua'])
+  })
+
+  it('should terminate the worker when a job times out', async () => {
+    vi.useFakeTimers()
+    const worker = new FakeWorker(true)
+    const service = createService([worker], 1000)
+
+    const job = service.filterCurl(curl)
+    vi.advanceTimersByTime(1000)
+
+    await expect(job).rejects.toThrow('过滤超时（超过 1 秒），请检查正则表达式规则「Drop UA」是否存在灾难性回溯')
+    expect(worker.terminated).toBe(true)
+  })
+})
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest'
+import { parseCurl } from '../curlParser'
+import { buildRequestModel } from '../requestModel'
+import { generateGo } from '../goCodeGenerator'
+import { GOLDEN_CASES } from './goldenCases'
+
+describe('goCodeGenerator', () => {
+  describe('generateGo', () => {
+    GOLDEN_CASES.forEach(({ name, command }) => {
+      it(`should match the golden file for ${name}`, async () => {
+        const code = generateGo(buildRequestModel(parseCurl(command)))
+        await expect(code).toMatchFileSnapshot(`./__golden__/go/${name}.go`)
+      })
+    })
+  })
+})
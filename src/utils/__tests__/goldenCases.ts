@@ -0,0 +1,32 @@
+// 代码生成器黄金文件测试共用的请求样例，生成结果保存在 __golden__/<语言>/<样例名>.<扩展名>
+
+export const GOLDEN_CASES: Array<{ name: string; command: string }> = [
+  {
+    name: 'get_query_cookies',
+    command: `curl 'https://api.example.com/users?page=1&q=a%20b' -H 'Accept: application/json' -H 'Cookie: sid=abc; theme=dark'`
+  },
+  {
+    name: 'json_post',
+    command: `curl https://api.example.com/users -H 'Content-Type: application/json' -H 'Authorization: Bearer t0k"en' -d $'{"name":"O\\'Brien \\\\"Bob\\\\" 中文","tags":["a","b"],"age":30,"active":true,"meta":null}'`
+  },
+  {
+    name: 'form_post',
+    command: `curl https://api.example.com/login -d 'user=alice&pass=p%26ss+word'`
+  },
+  {
+    name: 'multipart_upload',
+    command: `curl https://api.example.com/upload -F 'avatar=@/tmp/me.png;type=image/png' -F 'doc=@report.pdf' -F 'note=hello world' -F 'bio=<bio.txt'`
+  },
+  {
+    name: 'raw_custom_method',
+    command: `curl -X PURGE https://cdn.example.com/asset -H 'Content-Type: text/plain' -d $'line1\\nline2\\ttab "quoted" \\x01'`
+  },
+  {
+    name: 'file_body',
+    command: `curl https://api.example.com/import -H 'Content-Type: application/json' --data-binary @body.json`
+  },
+  {
+    name: 'urlencoded_file_body',
+    command: `curl https://api.example.com/notify -d 'channel=ops' --data-urlencode 'msg@message.txt'`
+  }
+]
@@ -0,0 +1,298 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseHar,
+  harRequestToParsedCurl,
+  filterHarEntries,
+  matchesHarItemFilter,
+  buildCurlScript,
+  buildHarFromItems,
+  parsedCurlToHarRequest
+} from '../har'
+import { parseCurl } from '../curlParser'
+import { FilterEngine } from '../filterEngine'
+import { FilterAction, FilterTarget, MatchMode, type FilterRule } from '../../types/filterRules'
+import type { HarEntry, HarFile, HarRequest } from '../../types/har'
+
+function request(overrides: Partial<HarRequest>): HarRequest {
+  return {
+    method: 'GET',
+    url: 'https://api.example.com/',
+    httpVersion: 'HTTP/1.1',
+    cookies: [],
+    headers: [],
+    queryString: [],
+    headersSize: -1,
+    bodySize: 0,
+    ...overrides
+  }
+}
+
+function entry(req: Partial<HarRequest>, status = 200): HarEntry {
+  return { startedDateTime: '2024-01-01T00:00:00.000Z', time: 12, request: request(req), response: { status, statusText: '' } }
+}
+
+const HAR: HarFile = {
+  log: {
+    version: '1.2',
+    creator: { name: 'WebInspector', version: '537.36' },
+    entries: [
+      entry({
+        url: 'https://api.example.com/users?page=1&token=abc',
+        headers: [
+          { name: ':authority', value: 'api.example.com' },
+          { name: 'Accept', value: 'application/json' },
+          { name: 'Cookie', value: 'sid=1' },
+          { name: 'cookie', value: 'theme=dark' },
+          { name: 'User-Agent', value: 'Mozilla/5.0' }
+        ]
+      }),
+      entry({
+        method: 'POST',
+        url: 'https://api.example.com/login',
+        headers: [
+          { name: 'Content-Type', value: 'application/json' },
+          { name: 'Content-Length', value: '33' }
+        ],
+        postData: { mimeType: 'application/json', text: '{"user":"a","password":"secret"}' }
+      }, 401),
+      entry({
+        method: 'POST',
+        url: 'https://static.example.com/upload',
+        headers: [{ name: 'Content-Type', value: 'multipart/form-data; boundary=xyz' }],
+        postData: {
+          mimeType: 'multipart/form-data; boundary=xyz',
+          params: [
+            { name: 'note', value: 'hi' },
+            { name: 'file', fileName: 'a.png', contentType: 'image/png' }
+          ]
+        }
+      }, 0)
+    ]
+  }
+}
+
+function rule(overrides: Partial<FilterRule>): FilterRule {
+  return {
+    id: 'r1',
+    name: 'rule',
+    action: FilterAction.DELETE,
+    target: FilterTarget.HEADERS,
+    matchMode: MatchMode.EXACT,
+    matchValue: '',
+    priority: 50,
+    enabled: true,
+    createdAt: '',
+    updatedAt: '',
+    ...overrides
+  }
+}
+
+function createEngine(): FilterEngine {
+  const engine = new FilterEngine()
+  engine.setRules([
+    rule({ id: 'ua', matchValue: 'user-agent' }),
+    rule({ id: 'token', target: FilterTarget.QUERY_PARAMS, matchValue: 'token' }),
+    rule({ id: 'password', target: FilterTarget.JSON_BODY, matchValue: 'password' })
+  ])
+  return engine
+}
+
+describe('har', () => {
+  describe('parseHar', () => {
+    it('should parse a HAR file', () => {
+      expect(parseHar(JSON.stringify(HAR)).log.entries).toHaveLength(3)
+    })
+
+    it('should reject invalid files', () => {
+      expect(() => parseHar('not json')).toThrow('JSON')
+      expect(() => parseHar('{"log":{}}')).toThrow('log.entries')
+      expect(() => parseHar('{"log":{"entries":[{"request":{"method":"GET"}}]}}')).toThrow('第 1 条')
+    })
+  })
+
+  describe('harRequestToParsedCurl', () => {
+    it('should merge headers and skip pseudo-headers', () => {
+      const parsed = harRequestToParsedCurl(HAR.log.entries[0].request)
+
+      expect(parsed.headers).toEqual({
+        accept: 'application/json',
+        cookie: 'sid=1; theme=dark',
+        'user-agent': 'Mozilla/5.0'
+      })
+      expect(parsed.cookies).toEqual({ sid: '1', theme: 'dark' })
+      expect(parsed.queryParams).toEqual({ page: '1', token: 'abc' })
+    })
+
+    it('should use the cookies list when there is no Cookie header', () => {
+      const parsed = harRequestToParsedCurl(request({ cookies: [{ name: 'a', value: '1' }, { name: 'b', value: '2' }] }))
+      expect(parsed.cookies).toEqual({ a: '1', b: '2' })
+    })
+
+    it('should parse the JSON body and drop Content-Length', () => {
+      const parsed = harRequestToParsedCurl(HAR.log.entries[1].request)
+
+      expect(parsed.method).toBe('POST')
+      expect(parsed.headers).toEqual({ 'content-type': 'application/json' })
+      expect(parsed.jsonBody).toEqual({ user: 'a', password: 'secret' })
+    })
+
+    it('should convert multipart params into form fields', () => {
+      const parsed = harRequestToParsedCurl(HAR.log.entries[2].request)
+
+      expect(parsed.headers).toEqual({})
+      expect(parsed.multipartData).toEqual([
+        { name: 'note', value: 'hi', isFile: false, isString: true },
+        { name: 'file', value: 'a.png', isFile: true, contentType: 'image/png' }
+      ])
+    })
+
+    it('should split multipart text when there are no params', () => {
+      const parsed = harRequestToParsedCurl(request({
+        method: 'POST',
+        postData: {
+          mimeType: 'multipart/form-data; boundary=xyz',
+          text: '--xyz\r\nContent-Disposition: form-data; name="a"\r\n\r\n1\r\n--xyz--\r\n'
+        }
+      }))
+      expect(parsed.multipartData).toEqual([{ name: 'a', value: '1', isFile: false, isString: true }])
+    })
+
+    it('should encode form params when there is no text and take the type from mimeType', () => {
+      const parsed = harRequestToParsedCurl(request({
+        method: 'POST',
+        postData: { mimeType: 'application/x-www-form-urlencoded', params: [{ name: 'q', value: 'a b' }] }
+      }))
+
+      expect(parsed.data).toBe('q=a%20b')
+      expect(parsed.headers['content-type']).toBe('application/x-www-form-urlencoded')
+      expect(parsed.formData).toEqual({ q: 'a b' })
+    })
+  })
+
+  describe('filterHarEntries', () => {
+    it('should filter every entry', () => {
+      const items = filterHarEntries(HAR, createEngine())
+
+      expect(items.map(item => [item.method, item.status])).toEqual([['GET', 200], ['POST', 401], ['POST', 0]])
+      expect(items[0].filtered.headers['user-agent']).toBeUndefined()
+      expect(items[0].outputCurl).toContain('https://api.example.com/users?page=1')
+      expect(items[0].outputCurl).not.toContain('token')
+      expect(items[1].result.appliedRules).toEqual(['password'])
+      expect(items[1].outputCurl).not.toContain('secret')
+    })
+  })
+
+  describe('matchesHarItemFilter', () => {
+    const items = filterHarEntries(HAR, createEngine())
+    const select = (filter: Parameters<typeof matchesHarItemFilter>[1]) =>
+      items.filter(item => matchesHarItemFilter(item, filter)).map(item => item.index)
+
+    it('should match by URL text, method and status', () => {
+      expect(select({})).toEqual([0, 1, 2])
+      expect(select({ url: 'API.example' })).toEqual([0, 1])
+      expect(select({ method: 'post' })).toEqual([1, 2])
+      expect(select({ status: '4xx' })).toEqual([1])
+      expect(select({ status: '200' })).toEqual([0])
+      expect(select({ method: 'POST', status: '0' })).toEqual([2])
+    })
+  })
+
+  describe('buildCurlScript', () => {
+    it('should list the filtered commands with comments', () => {
+      const items = filterHarEntries(HAR, createEngine()).slice(0, 2)
+      const script = buildCurlScript(items)
+
+      expect(script.startsWith('#!/bin/sh\n\n# 1. GET https://api.example.com/users?page=1\ncurl ')).toBe(true)
+      expect(script).toContain('# 2. POST https://api.example.com/login\n')
+      expect(script.endsWith(items[1].outputCurl + '\n')).toBe(true)
+    })
+  })
+
+  describe('buildHarFromItems', () => {
+    it('should keep only selected entries with filtered requests', () => {
+      const items = filterHarEntries(HAR, createEngine())
+      const har = buildHarFromItems(HAR, [items[1]])
+      const exported = har.log.entries[0]
+
+      expect(har.log.entries).toHaveLength(1)
+      expect(har.log.version).toBe('1.2')
+      expect(exported.response).toEqual(HAR.log.entries[1].response)
+      expect(exported.request.postData).toEqual({ mimeType: 'application/json', text: '{"user":"a"}' })
+      expect(exported.request.bodySize).toBe(12)
+      expect(exported.request.headers).toEqual([{ name: 'content-type', value: 'application/json' }])
+    })
+
+    it('should not leak cookies or params removed by the rules into the exported HAR', () => {
+      const source: HarFile = {
+        log: {
+          version: '1.2',
+          creator: { name: 'test', version: '1' },
+          entries: [{
+            request: request({
+              url: 'https://api.example.com/me?token=secret-token&page=1',
+              headers: [{ name: 'Cookie', value: 'sid=secret-sid; theme=dark; csrf=secret-csrf' }],
+              cookies: [{ name: 'sid', value: 'secret-sid' }, { name: 'theme', value: 'dark' }, { name: 'csrf', value: 'secret-csrf' }],
+              queryString: [{ name: 'token', value: 'secret-token' }, { name: 'page', value: '1' }]
+            }),
+            response: {
+              status: 200,
+              headers: [
+                { name: 'Set-Cookie', value: 'sid=secret-new-sid; Path=/; HttpOnly' },
+                { name: 'set-cookie', value: 'csrf=secret-new-csrf; Path=/' },
+                { name: 'Set-Cookie', value: 'theme=light; Path=/' },
+                { name: 'Content-Type', value: 'text/html' }
+              ],
+              cookies: [
+                { name: 'sid', value: 'secret-new-sid', path: '/', httpOnly: true },
+                { name: 'csrf', value: 'secret-new-csrf' },
+                { name: 'theme', value: 'light' }
+              ]
+            }
+          }]
+        }
+      }
+      const engine = new FilterEngine([
+        rule({ id: 'sid', target: FilterTarget.COOKIES, matchValue: 'sid' }),
+        rule({ id: 'csrf', target: FilterTarget.COOKIES, action: FilterAction.REDACT, matchValue: 'csrf' }),
+        rule({ id: 'token', target: FilterTarget.QUERY_PARAMS, matchValue: 'token' })
+      ])
+
+      const [exported] = buildHarFromItems(source, filterHarEntries(source, engine)).log.entries
+
+      expect(JSON.stringify(exported)).not.toContain('secret')
+      expect(exported.request.cookies).toEqual([{ name: 'theme', value: 'dark' }, { name: 'csrf', value: '<REDACTED>' }])
+      expect(exported.request.queryString).toEqual([{ name: 'page', value: '1' }])
+      expect(exported.response?.headers).toEqual([
+        { name: 'set-cookie', value: 'csrf=<REDACTED>; Path=/' },
+        { name: 'Set-Cookie', value: 'theme=light; Path=/' },
+        { name: 'Content-Type', value: 'text/html' }
+      ])
+      expect(exported.response?.cookies).toEqual([{ name: 'csrf', value: '<REDACTED>' }, { name: 'theme', value: 'light' }])
+    })
+
+    it('should re-import to the same filtered request', () => {
+      const items = filterHarEntries(HAR, createEngine())
+      const reimported = parseHar(JSON.stringify(buildHarFromItems(HAR, items)))
+
+      reimported.log.entries.forEach((item, i) => {
+        const parsed = harRequestToParsedCurl(item.request)
+        expect(parsed.headers).toEqual(items[i].filtered.headers)
+        expect(parsed.queryParams).toEqual(items[i].filtered.queryParams)
+        expect(parsed.jsonBody).toEqual(items[i].filtered.jsonBody)
+        expect(parsed.multipartData).toEqual(items[i].filtered.multipartData)
+      })
+    })
+  })
+
+  describe('parsedCurlToHarRequest', () => {
+    it('should add a Cookie header for -b cookies and list query params', () => {
+      const har = parsedCurlToHarRequest(parseCurl(`curl 'https://a.com/x?q=1' -b 'sid=1' -d 'a=1'`))
+
+      expect(har.method).toBe('POST')
+      expect(har.headers).toEqual([{ name: 'cookie', value: 'sid=1' }])
+      expect(har.cookies).toEqual([{ name: 'sid', value: '1' }])
+      expect(har.queryString).toEqual([{ name: 'q', value: '1' }])
+      expect(har.postData).toEqual({ mimeType: 'application/x-www-form-urlencoded', text: 'a=1' })
+    })
+  })
+})
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest'
+import { parseCurl } from '../curlParser'
+import { buildRequestModel } from '../requestModel'
+import { generateJavaOkHttp } from '../javaCodeGenerator'
+import { GOLDEN_CASES } from './goldenCases'
+
+describe('javaCodeGenerator', () => {
+  describe('generateJavaOkHttp', () => {
+    GOLDEN_CASES.forEach(({ name, command }) => {
+      it(`should match the golden file for ${name}`, async () => {
+        const code = generateJavaOkHttp(buildRequestModel(parseCurl(command)))
+        await expect(code).toMatchFileSnapshot(`./__golden__/java/${name}.java`)
+      })
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from 'vitest'
+import { parseCurl, type ParsedCurl } from '../curlParser'
+import { buildRequestModel, hasControlChars, RequestBodyKind } from '../requestModel'
+import { generateBrowserFetch, generateNodeFetch, generateUndici, generateAxios, jsString } from '../jsCodeGenerator'
+import { CODE_GENERATORS, CodeTarget, generateCode } from '../codeGenerator'
+
+// 执行生成的浏览器 fetch 代码，返回传给 fetch 的参数
+async function runFetchCode(code: string): Promise<[string, RequestInit | undefined]> {
+  const fetch = vi.fn().mockResolvedValue({ status: 200, text: async () => '' })
+  const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor
+  await new AsyncFunction('fetch', 'console', code)(fetch, { log: () => {} })
+  return fetch.mock.calls[0]
+}
+
+describe('jsCodeGenerator', () => {
+  describe('buildRequestModel', () => {
+    it('should classify request bodies', () => {
+      expect(buildRequestModel(parseCurl(`curl https://a.com`)).body.kind).toBe(RequestBodyKind.NONE)
+      expect(buildRequestModel(parseCurl(`curl https://a.com --json '{"a":1}'`)).body.kind).toBe(RequestBodyKind.JSON)
+      expect(buildRequestModel(parseCurl(`curl https://a.com -d 'a=1'`)).body.kind).toBe(RequestBodyKind.FORM)
+      expect(buildRequestModel(parseCurl(`curl https://a.com -F 'a=1'`)).body.kind).toBe(RequestBodyKind.MULTIPART)
+      expect(buildRequestModel(parseCurl(`curl https://a.com -H 'content-type: text/plain' -d 'a=1'`)).body)
+        .toEqual({ kind: RequestBodyKind.RAW, content: 'a=1' })
+      expect(buildRequestModel(parseCurl(`curl https://a.com -d @body.json`)).body)
+        .toEqual({ kind: RequestBodyKind.FILE, parts: [{ file: 'body.json' }], content: '@body.json' })
+    })
+
+    it('should split file data into file and text parts', () => {
+      const body = buildRequestModel(parseCurl(`curl https://a.com -d a=1 --data-binary @b.bin --data-urlencode name@c.txt`)).body
+
+      expect(body).toEqual({
+        kind: RequestBodyKind.FILE,
+        parts: [{ text: 'a=1&' }, { file: 'b.bin' }, { text: '&name=' }, { file: 'c.txt', urlencode: true }],
+        content: 'a=1&@b.bin&name@c.txt'
+      })
+    })
+
+    it('should detect control characters other than the allowed ones', () => {
+      expect(hasControlChars('a\tb\nc', '\t\n')).toBe(false)
+      expect(hasControlChars('a\r\n', '\t\n')).toBe(true)
+      expect(hasControlChars('a\x7f')).toBe(true)
+      expect(hasControlChars('中文 "quoted"')).toBe(false)
+    })
+
+    it('should move cookies out of the headers and drop Content-Length', () => {
+      const model = buildRequestModel(parseCurl(`curl https://a.com -H 'Cookie: a=1; b=2' -H 'Content-Length: 3' -H 'X-Id: 1'`))
+
+      expect(model.headers).toEqual({ 'x-id': '1' })
+      expect(model.cookies).toEqual({ a: '1', b: '2' })
+    })
+
+    it('should drop the multipart Content-Type so the boundary is regenerated', () => {
+      const model = buildRequestModel(parseCurl(`curl https://a.com -H 'Content-Type: multipart/form-data; boundary=x' -F 'a=1'`))
+      expect(model.headers).toEqual({})
+    })
+
+    it('should use the filtered query string and body', () => {
+      const parsed = parseCurl(`curl 'https://a.com/x?a=1&b=2#top' -d 'c=3&d=4'`)
+      const filtered: ParsedCurl = { ...parsed, queryParams: { b: '2' }, formData: { d: '4' } }
+      const model = buildRequestModel(filtered)
+
+      expect(model.url).toBe('https://a.com/x?b=2')
+      expect(model.baseUrl).toBe('https://a.com/x')
+      expect(model.body).toEqual({ kind: RequestBodyKind.FORM, fields: { d: '4' } })
+    })
+
+    it('should drop a form body whose fields were all removed', () => {
+      const parsed = parseCurl(`curl https://a.com -d 'secret=1'`)
+      const model = buildRequestModel({ ...parsed, formData: {} })
+
+      expect(model.body.kind).toBe(RequestBodyKind.NONE)
+    })
+  })
+
+  describe('jsString', () => {
+    it('should escape quotes, backslashes and control characters', () => {
+      expect(jsString(`it's a\\b\n\u0001\u2028`)).toBe(`'it\\'s a\\\\b\\n\\u0001\\u2028'`)
+    })
+  })
+
+  describe('generateBrowserFetch', () => {
+    it('should produce runnable code that sends the same JSON body', async () => {
+      const parsed = parseCurl(`curl 'https://a.com/x?q=1' -H 'content-type: application/json' -d $'{"a":"it\\'s $HOME","b":[1,null]}'`)
+      const [url, init] = await runFetchCode(generateBrowserFetch(buildRequestModel(parsed)))
+
+      expect(url).toBe('https://a.com/x?q=1')
+      expect(init?.method).toBe('POST')
+      expect(init?.headers).toEqual({ 'content-type': 'application/json' })
+      expect(JSON.parse(init?.body as string)).toEqual({ a: "it's $HOME", b: [1, null] })
+    })
+
+    it('should send form bodies as URLSearchParams', async () => {
+      const [, init] = await runFetchCode(generateBrowserFetch(buildRequestModel(parseCurl(`curl https://a.com -d 'a=1&b=x+y'`))))
+      expect(String(init?.body)).toBe('a=1&b=x+y')
+    })
+
+    it('should omit headers and cookies the browser does not allow scripts to set', async () => {
+      const parsed = parseCurl(`curl https://a.com -H 'Cookie: sid=1' -H 'sec-fetch-mode: cors' -H 'Referer: https://b.com' -H 'X-Id: 1'`)
+      const code = generateBrowserFetch(buildRequestModel(parsed))
+      const [, init] = await runFetchCode(code)
+
+      expect(code).toContain('已省略：sec-fetch-mode, referer')
+      expect(init?.headers).toEqual({ 'x-id': '1' })
+      expect(init?.credentials).toBe('include')
+    })
+
+    it('should leave out the options object for a plain GET request', () => {
+      expect(generateBrowserFetch(buildRequestModel(parseCurl(`curl https://a.com`))))
+        .toContain(`const response = await fetch('https://a.com');`)
+    })
+
+    it('should build FormData with a placeholder for files', () => {
+      const code = generateBrowserFetch(buildRequestModel(parseCurl(`curl https://a.com -F 'file=@a b.jpg;type=image/jpeg' -F 'note=hi'`)))
+
+      expect(code).toContain(`formData.append('file', new File([], 'a b.jpg', { type: 'image/jpeg' }));`)
+      expect(code).toContain(`formData.append('note', 'hi');`)
+      expect(code).toContain('body: formData')
+    })
+
+    it('should leave a placeholder for file bodies instead of sending the file name', async () => {
+      const code = generateBrowserFetch(buildRequestModel(parseCurl(`curl https://a.com --data-binary @body.json`)))
+      const [, init] = await runFetchCode(code)
+
+      expect(code).toContain('// 浏览器中无法按路径读取文件，请替换为文件内容：body.json')
+      expect(init?.body).toBe('')
+    })
+  })
+
+  describe('Node.js generators', () => {
+    const multipart = parseCurl(`curl https://a.com -H 'Cookie: sid=1' -F 'file=@/tmp/a.png' -F 'text=<notes.txt'`)
+
+    it('should read multipart files from disk', () => {
+      const code = generateNodeFetch(buildRequestModel(multipart))
+
+      expect(code).toContain(`import { openAsBlob } from 'node:fs';`)
+      expect(code).toContain(`formData.append('file', await openAsBlob('/tmp/a.png'), 'a.png');`)
+      expect(code).toContain(`formData.append('text', await readFile('notes.txt', 'utf8'));`)
+      expect(code).toContain(`'cookie': 'sid=1'`)
+    })
+
+    it('should read file bodies from disk', () => {
+      const single = generateNodeFetch(buildRequestModel(parseCurl(`curl https://a.com --data-binary @body.json`)))
+      const mixed = generateAxios(buildRequestModel(parseCurl(`curl https://a.com -d a=1 -d @b.txt`)))
+
+      expect(single).toContain(`import { readFile } from 'node:fs/promises';`)
+      expect(single).toContain(`const content = await readFile('body.json');`)
+      expect(single).toContain('body: content')
+      expect(mixed).toContain(`const content = Buffer.concat([\n  Buffer.from('a=1&'),\n  await readFile('b.txt')\n]);`)
+      expect(mixed).toContain('data: content')
+      expect(generateUndici(buildRequestModel(parseCurl(`curl https://a.com -d @b.txt`)))).toContain('body: content')
+    })
+
+    it('should url-encode --data-urlencode file contents', () => {
+      const code = generateNodeFetch(buildRequestModel(parseCurl(`curl https://a.com -d a=1 --data-urlencode msg@m.txt`)))
+
+      expect(code).toContain(
+        `const content = Buffer.concat([\n  Buffer.from('a=1&msg='),\n  Buffer.from(encodeURIComponent(await readFile('m.txt', 'utf8')))\n]);`
+      )
+    })
+
+    it('should add a form Content-Type for undici and serialise the body', () => {
+      const code = generateUndici(buildRequestModel(parseCurl(`curl https://a.com -d 'a=1'`)))
+
+      expect(code).toContain(`import { request } from 'undici';`)
+      expect(code).toContain(`'content-type': 'application/x-www-form-urlencoded'`)
+      expect(code).toContain('}).toString()')
+    })
+
+    it('should pass JSON bodies to axios as objects', () => {
+      const code = generateAxios(buildRequestModel(parseCurl(`curl -X PUT https://a.com --json '{"a":1}'`)))
+
+      expect(code).toContain(`method: 'put'`)
+      expect(code).toContain('data: {\n    "a": 1\n  }')
+      expect(code).not.toContain('JSON.stringify')
+    })
+  })
+
+  describe('generateCode', () => {
+    it('should generate every registered target', () => {
+      const parsed = parseCurl(`curl https://a.com -H 'X-Id: 1'`)
+      CODE_GENERATORS.forEach(generator => {
+        expect(generateCode(parsed, generator.target)).toContain('a.com')
+      })
+    })
+
+    it('should keep cURL output identical to buildCurlFromContext', () => {
+      expect(generateCode(parseCurl(`curl https://a.com -d 'a=1'`), CodeTarget.CURL)).toBe(`curl -X POST -d a=1 https://a.com`)
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseJsonPath,
+  findJsonPaths,
+  formatJsonPath,
+  collectRemovedPaths
+} from '../jsonPath'
+
+describe('jsonPath', () => {
+  describe('parseJsonPath', () => {
+    it('should parse dot paths with or without a $ prefix', () => {
+      const expected = [
+        { key: 'data', descendant: false },
+        { key: 'user', descendant: false }
+      ]
+      expect(parseJsonPath('data.user')).toEqual(expected)
+      expect(parseJsonPath('$.data.user')).toEqual(expected)
+    })
+
+    it('should parse indexes, wildcards, quoted keys and recursive descent', () => {
+      expect(parseJsonPath(`items[0][*].*['a.b']..token`)).toEqual([
+        { key: 'items', descendant: false },
+        { key: 0, descendant: false },
+        { key: null, descendant: false },
+        { key: null, descendant: false },
+        { key: 'a.b', descendant: false },
+        { key: 'token', descendant: true }
+      ])
+    })
+
+    it('should reject malformed paths', () => {
+      expect(() => parseJsonPath('')).toThrow()
+      expect(() => parseJsonPath('a..')).toThrow()
+      expect(() => parseJsonPath('a[')).toThrow()
+      expect(() => parseJsonPath('a[-1]')).toThrow()
+      expect(() => parseJsonPath(`a['b`)).toThrow()
+    })
+  })
+
+  describe('findJsonPaths', () => {
+    const body = {
+      token: 'root',
+      items: [{ id: 1, token: 'a' }, { id: 2 }],
+      meta: { auth: { token: 'b' } }
+    }
+
+    it('should expand wildcards over array elements', () => {
+      expect(findJsonPaths(body, parseJsonPath('items[*].id'))).toEqual([
+        ['items', 0, 'id'],
+        ['items', 1, 'id']
+      ])
+    })
+
+    it('should find keys at every depth with recursive descent', () => {
+      expect(findJsonPaths(body, parseJsonPath('..token'))).toEqual([
+        ['token'],
+        ['items', 0, 'token'],
+        ['meta', 'auth', 'token']
+      ])
+    })
+
+    it('should return nothing for missing paths', () => {
+      expect(findJsonPaths(body, parseJsonPath('meta.missing.token'))).toEqual([])
+    })
+  })
+
+  describe('formatJsonPath', () => {
+    it('should quote keys that are not identifiers', () => {
+      expect(formatJsonPath(['items', 0, 'a.b', "it's"])).toBe(`$.items[0]['a.b']['it\\'s']`)
+    })
+  })
+
+  describe('collectRemovedPaths', () => {
+    it('should list only the outermost removed nodes', () => {
+      const original = { a: { b: 1, c: 2 }, d: [1, 2, 3] }
+      const filtered: { a: { c: number }; d: number[] } = { a: { c: 2 }, d: [1, 2, 3] }
+      delete filtered.d[1]
+
+      expect(collectRemovedPaths(original, filtered)).toEqual(['$.a.b', '$.d[1]'])
+      expect(collectRemovedPaths(original, {})).toEqual(['$.a', '$.d'])
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractOpenApiFields,
+  generateOpenApiDocument,
+  inferSchema,
+  buildOperationId,
+  toYaml,
+  FieldLocation
+} from '../openApiGenerator'
+import { parseCurl } from '../curlParser'
+
+const JSON_CURL = `curl 'https://api.example.com/v1/users/search?q=tom' -H 'Authorization: Bearer x' -H 'Content-Type: application/json' -b 'sid=1' --data-raw '{"name":"tom","age":3,"tags":["a"]}'`
+
+type Operation = {
+  operationId: string
+  parameters?: { name: string; in: string; required: boolean; schema: Record<string, unknown> }[]
+  requestBody?: { content: Record<string, { schema: { properties?: Record<string, unknown>; required?: string[] } }> }
+}
+
+function getOperation(doc: Record<string, unknown>, path: string, method: string): Operation {
+  return (doc.paths as Record<string, Record<string, Operation>>)[path][method]
+}
+
+describe('openApiGenerator', () => {
+  describe('inferSchema', () => {
+    it('should infer types from JSON values', () => {
+      expect(inferSchema('a')).toEqual({ type: 'string' })
+      expect(inferSchema(1)).toEqual({ type: 'integer' })
+      expect(inferSchema(1.5)).toEqual({ type: 'number' })
+      expect(inferSchema(true)).toEqual({ type: 'boolean' })
+      expect(inferSchema(null)).toEqual({ type: 'string', nullable: true })
+      expect(inferSchema([{ id: 1 }])).toEqual({
+        type: 'array',
+        items: { type: 'object', properties: { id: { type: 'integer' } } }
+      })
+    })
+  })
+
+  describe('extractOpenApiFields', () => {
+    it('should list query params and body fields as inputs and headers as constants', () => {
+      expect(extractOpenApiFields(parseCurl(JSON_CURL))).toEqual([
+        { location: FieldLocation.QUERY, name: 'q', value: 'tom', isInput: true },
+        { location: FieldLocation.HEADER, name: 'authorization', value: 'Bearer x', isInput: false },
+        { location: FieldLocation.HEADER, name: 'Cookie', value: 'sid=1', isInput: false },
+        { location: FieldLocation.BODY, name: 'name', value: 'tom', isInput: true },
+        { location: FieldLocation.BODY, name: 'age', value: 3, isInput: true },
+        { location: FieldLocation.BODY, name: 'tags', value: ['a'], isInput: true }
+      ])
+    })
+  })
+
+  describe('generateOpenApiDocument', () => {
+    it('should build an operation with parameters and a JSON body schema', () => {
+      const parsed = parseCurl(JSON_CURL)
+      const doc = generateOpenApiDocument(parsed, extractOpenApiFields(parsed), { title: 'Users' })
+      const operation = getOperation(doc, '/v1/users/search', 'post')
+
+      expect(doc.openapi).toBe('3.0.1')
+      expect(doc.servers).toEqual([{ url: 'https://api.example.com' }])
+      expect(operation.operationId).toBe('post_v1_users_search')
+      expect(operation.parameters).toEqual([
+        { name: 'q', in: 'query', required: true, schema: { type: 'string', example: 'tom' } },
+        { name: 'authorization', in: 'header', required: false, schema: { type: 'string', enum: ['Bearer x'], default: 'Bearer x' } },
+        { name: 'Cookie', in: 'header', required: false, schema: { type: 'string', enum: ['sid=1'], default: 'sid=1' } }
+      ])
+      expect(operation.requestBody?.content['application/json'].schema).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string', example: 'tom' },
+          age: { type: 'integer', example: 3 },
+          tags: { type: 'array', items: { type: 'string' }, example: ['a'] }
+        },
+        required: ['name', 'age', 'tags']
+      })
+    })
+
+    it('should turn fields marked as constants into single-value enums and keep descriptions', () => {
+      const parsed = parseCurl(JSON_CURL)
+      const fields = extractOpenApiFields(parsed).map(field =>
+        field.name === 'age' ? { ...field, isInput: false } : field.name === 'q' ? { ...field, description: '搜索词' } : field)
+      const operation = getOperation(generateOpenApiDocument(parsed, fields, { title: 'Users', operationId: 'search' }), '/v1/users/search', 'post')
+      const schema = operation.requestBody?.content['application/json'].schema
+
+      expect(operation.operationId).toBe('search')
+      expect(operation.parameters?.[0]).toEqual({ name: 'q', in: 'query', required: true, description: '搜索词', schema: { type: 'string', example: 'tom' } })
+      expect(schema?.properties?.age).toEqual({ type: 'integer', enum: [3], default: 3 })
+      expect(schema?.required).toEqual(['name', 'tags'])
+    })
+
+    it('should describe form and multipart bodies', () => {
+      const form = parseCurl(`curl https://a.com/login -d 'user=a'`)
+      const upload = parseCurl(`curl https://a.com/up -F 'note=hi' -F 'file=@a.png'`)
+
+      expect(getOperation(generateOpenApiDocument(form, extractOpenApiFields(form), { title: 't' }), '/login', 'post').requestBody?.content)
+        .toEqual({ 'application/x-www-form-urlencoded': { schema: { type: 'object', properties: { user: { type: 'string', example: 'a' } }, required: ['user'] } } })
+      expect(getOperation(generateOpenApiDocument(upload, extractOpenApiFields(upload), { title: 't' }), '/up', 'post').requestBody?.content)
+        .toEqual({
+          'multipart/form-data': {
+            schema: {
+              type: 'object',
+              properties: { note: { type: 'string', example: 'hi' }, file: { type: 'string', format: 'binary' } },
+              required: ['note', 'file']
+            }
+          }
+        })
+    })
+
+    it('should omit parameters and the body for a plain GET', () => {
+      const parsed = parseCurl('curl https://a.com/')
+      const operation = getOperation(generateOpenApiDocument(parsed, [], { title: 't' }), '/', 'get')
+
+      expect(operation).toEqual({ operationId: 'get', summary: 'GET /', responses: { '200': { description: 'OK' } } })
+    })
+  })
+
+  describe('buildOperationId', () => {
+    it('should only use letters, digits and underscores', () => {
+      expect(buildOperationId('GET', '/api/v2/user-info.json')).toBe('get_api_v2_user_info_json')
+    })
+  })
+
+  describe('toYaml', () => {
+    it('should write block style YAML and quote strings when needed', () => {
+      expect(toYaml({
+        openapi: '3.0.1',
+        info: { title: 'a: b', version: 'v1' },
+        list: [{ name: 'q', required: true }, 'yes'],
+        empty: [],
+        none: {}
+      })).toBe([
+        'openapi: "3.0.1"',
+        'info:',
+        '  title: "a: b"',
+        '  version: v1',
+        'list:',
+        '  - name: q',
+        '    required: true',
+        '  - "yes"',
+        'empty: []',
+        'none: {}'
+      ].join('\n'))
+    })
+  })
+})
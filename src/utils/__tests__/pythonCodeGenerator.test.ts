@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { parseCurl } from '../curlParser'
+import { buildRequestModel } from '../requestModel'
+import { generatePythonRequests, generatePythonHttpx, generatePythonHttpxAsync, pyString, pyLiteral } from '../pythonCodeGenerator'
+
+const model = (command: string) => buildRequestModel(parseCurl(command))
+
+describe('pythonCodeGenerator', () => {
+  describe('pyString', () => {
+    it('should escape quotes, backslashes and control characters', () => {
+      expect(pyString(`it's a\\b\n\u0001`)).toBe(`'it\\'s a\\\\b\\n\\x01'`)
+    })
+  })
+
+  describe('pyLiteral', () => {
+    it('should convert JSON values to Python literals', () => {
+      expect(pyLiteral({ a: true, b: [null, 1.5], c: {} })).toBe(
+        `{\n    'a': True,\n    'b': [\n        None,\n        1.5,\n    ],\n    'c': {},\n}`
+      )
+    })
+  })
+
+  describe('generatePythonRequests', () => {
+    it('should pass query parameters, headers and cookies as dicts', () => {
+      const code = generatePythonRequests(model(`curl 'https://a.com/x?q=a%20b' -H 'X-Id: 1' -H 'Cookie: sid=1'`))
+
+      expect(code).toContain(`url = 'https://a.com/x'`)
+      expect(code).toContain(`params = {\n    'q': 'a b',\n}`)
+      expect(code).toContain(`headers = {\n    'x-id': '1',\n}`)
+      expect(code).toContain(`cookies = {\n    'sid': '1',\n}`)
+      expect(code).toContain('response = requests.get(url, params=params, headers=headers, cookies=cookies)')
+    })
+
+    it('should send -u credentials as an Authorization header', () => {
+      const code = generatePythonRequests(model(`curl https://a.com -u admin:secret`))
+      expect(code).toContain(`headers = {\n    'authorization': 'Basic YWRtaW46c2VjcmV0',\n}`)
+    })
+
+    it('should send JSON bodies with json=', () => {
+      const code = generatePythonRequests(model(`curl https://a.com --json '{"a":null}'`))
+
+      expect(code).toContain(`json_data = {\n    'a': None,\n}`)
+      expect(code).toContain('json=json_data')
+    })
+
+    it('should send form bodies with data=', () => {
+      const code = generatePythonRequests(model(`curl https://a.com -d 'a=1&b=x+y'`))
+
+      expect(code).toContain(`data = {\n    'a': '1',\n    'b': 'x y',\n}`)
+      expect(code).toContain('requests.post(url, data=data)')
+    })
+
+    it('should send raw bodies as a string', () => {
+      expect(generatePythonRequests(model(`curl https://a.com -H 'Content-Type: text/plain' -d 'hello'`)))
+        .toContain(`data = 'hello'`)
+    })
+
+    it('should read file bodies instead of sending the file name', () => {
+      expect(generatePythonRequests(model(`curl https://a.com --data-binary @body.json`)))
+        .toContain(`data = open('body.json', 'rb').read()`)
+      expect(generatePythonHttpx(model(`curl https://a.com -d a=1 -d @b.txt`)))
+        .toContain(`content = 'a=1&'.encode() + open('b.txt', 'rb').read()`)
+    })
+
+    it('should url-encode --data-urlencode file contents', () => {
+      const code = generatePythonRequests(model(`curl https://a.com --data-urlencode msg@m.txt`))
+
+      expect(code.startsWith('from urllib.parse import quote\n\nimport requests\n')).toBe(true)
+      expect(code).toContain(`data = 'msg='.encode() + quote(open('m.txt', 'rb').read(), safe='').encode()`)
+      expect(generatePythonHttpxAsync(model(`curl https://a.com --data-urlencode @m.txt`)))
+        .toContain('import asyncio\nfrom urllib.parse import quote\n\nimport httpx')
+    })
+
+    it('should send multipart fields with files=', () => {
+      const code = generatePythonRequests(model(`curl https://a.com -F 'file=@/tmp/a.png;type=image/png' -F 'note=hi' -F 'note=again'`))
+
+      expect(code).toContain(`    ('file', ('a.png', open('/tmp/a.png', 'rb'), 'image/png')),`)
+      expect(code).toContain(`    ('note', (None, 'hi')),\n    ('note', (None, 'again')),`)
+      expect(code).toContain('requests.post(url, files=files)')
+    })
+
+    it('should use request() for methods without a shortcut', () => {
+      expect(generatePythonRequests(model(`curl -X PURGE https://a.com`))).toContain(`requests.request('PURGE', url)`)
+    })
+  })
+
+  describe('generatePythonHttpx', () => {
+    it('should pass raw bodies with content= and cookies to the client', () => {
+      const code = generatePythonHttpx(model(`curl https://a.com -b 'sid=1' -H 'Content-Type: text/plain' -d 'hello'`))
+
+      expect(code).toContain(`content = 'hello'`)
+      expect(code).toContain('with httpx.Client(cookies=cookies) as client:\n    response = client.post(url, headers=headers, content=content)')
+    })
+
+    it('should wrap the async version in a coroutine', () => {
+      const code = generatePythonHttpxAsync(model(`curl -X DELETE https://a.com/x`))
+
+      expect(code).toBe([
+        'import asyncio',
+        '',
+        'import httpx',
+        '',
+        '',
+        'async def main():',
+        `    url = 'https://a.com/x'`,
+        '',
+        '    async with httpx.AsyncClient() as client:',
+        '        response = await client.delete(url)',
+        '',
+        '    print(response.status_code)',
+        '    print(response.text)',
+        '',
+        '',
+        'asyncio.run(main())',
+        ''
+      ].join('\n'))
+    })
+  })
+})
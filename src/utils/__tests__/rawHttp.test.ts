@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest'
+import { isRawHttpRequest, parseRawHttp } from '../rawHttpParser'
+import { buildRawHttpFromContext, MULTIPART_BOUNDARY } from '../rawHttpBuilder'
+import { parseCurl, detectCommandDialect, isSupportedCommand, CommandDialect, type ParsedCurl } from '../curlParser'
+import { buildCurlFromContext } from '../curlBuilder'
+import { FilterEngine } from '../filterEngine'
+import { FilterAction, FilterTarget, MatchMode, type FilterRule } from '../../types/filterRules'
+
+const JSON_REQUEST = [
+  'POST /api/users?page=1 HTTP/1.1',
+  'Host: api.example.com',
+  'Content-Type: application/json',
+  'Authorization: Bearer abc',
+  'Cookie: sid=1; theme=dark',
+  'Content-Length: 33',
+  '',
+  '{"name":"张三","password":"x"}'
+].join('\r\n')
+
+describe('rawHttp', () => {
+  describe('isRawHttpRequest', () => {
+    it('should recognise request lines', () => {
+      expect(isRawHttpRequest('GET / HTTP/1.1\nHost: a.com')).toBe(true)
+      expect(isRawHttpRequest('\n  POST https://a.com/x')).toBe(true)
+      expect(isRawHttpRequest('GET /x')).toBe(true)
+      expect(isRawHttpRequest(`curl 'https://a.com'`)).toBe(false)
+      expect(isRawHttpRequest('GET something')).toBe(false)
+    })
+
+    it('should match standard methods case-insensitively', () => {
+      expect(isRawHttpRequest('post /api HTTP/1.1\nHost: a.com')).toBe(true)
+      expect(parseRawHttp('post /api HTTP/1.1\nHost: a.com').method).toBe('POST')
+      expect(isRawHttpRequest('curl https://a.com/x')).toBe(false)
+      expect(isRawHttpRequest('purge /x HTTP/1.1')).toBe(false)
+    })
+
+    it('should be detected as its own dialect', () => {
+      expect(detectCommandDialect(JSON_REQUEST)).toBe(CommandDialect.RAW_HTTP)
+      expect(isSupportedCommand(JSON_REQUEST)).toBe(true)
+    })
+  })
+
+  describe('parseRawHttp', () => {
+    it('should build the URL from the Host header and drop generated headers', () => {
+      const request = parseRawHttp(JSON_REQUEST)
+
+      expect(request.url).toBe('https://api.example.com/api/users?page=1')
+      expect(request.method).toBe('POST')
+      expect(request.headers).toEqual({
+        'content-type': 'application/json',
+        authorization: 'Bearer abc',
+        cookie: 'sid=1; theme=dark'
+      })
+      expect(request.body).toBe('{"name":"张三","password":"x"}')
+    })
+
+    it('should use http for port 80 and keep absolute request targets', () => {
+      expect(parseRawHttp('GET /x HTTP/1.1\nHost: a.com:80').url).toBe('http://a.com:80/x')
+      expect(parseRawHttp('GET http://b.com/y HTTP/1.1\nHost: a.com').url).toBe('http://b.com/y')
+    })
+
+    it('should truncate the body to Content-Length in bytes', () => {
+      const request = parseRawHttp('POST / HTTP/1.1\nHost: a.com\nContent-Length: 6\n\n张三\nGET / HTTP/1.1')
+      expect(request.body).toBe('张三')
+    })
+
+    it('should strip trailing line breaks when there is no Content-Length', () => {
+      expect(parseRawHttp('POST / HTTP/1.1\nHost: a.com\n\na=1\n\n').body).toBe('a=1')
+    })
+
+    it('should decode chunked bodies', () => {
+      const request = parseRawHttp('POST / HTTP/1.1\r\nHost: a.com\r\nTransfer-Encoding: chunked\r\n\r\n3\r\na=1\r\n4\r\n&b=2\r\n0\r\n\r\n')
+
+      expect(request.body).toBe('a=1&b=2')
+      expect(request.headers).toEqual({})
+    })
+
+    it('should unfold continued header lines and skip HTTP/2 pseudo-headers', () => {
+      const request = parseRawHttp('GET / HTTP/1.1\nHost: a.com\n:authority: a.com\nX-Long: a\n  b')
+      expect(request.headers).toEqual({ 'x-long': 'a b' })
+    })
+
+    it('should split multipart bodies into fields', () => {
+      const request = parseRawHttp([
+        'POST /upload HTTP/1.1',
+        'Host: a.com',
+        'Content-Type: multipart/form-data; boundary=xyz',
+        '',
+        '--xyz',
+        'Content-Disposition: form-data; name="note"',
+        '',
+        'hello',
+        '--xyz',
+        'Content-Disposition: form-data; name="file"; filename="a.png"',
+        'Content-Type: image/png',
+        '',
+        'PNGDATA',
+        '--xyz--',
+        ''
+      ].join('\r\n'))
+
+      expect(request.body).toBeUndefined()
+      expect(request.headers).toEqual({})
+      expect(request.multipartData).toEqual([
+        { name: 'note', value: 'hello', isFile: false, isString: true },
+        { name: 'file', value: 'a.png', isFile: true, contentType: 'image/png' }
+      ])
+    })
+
+    it('should reject requests without a Host', () => {
+      expect(() => parseRawHttp('GET /x HTTP/1.1\n\n')).toThrow('Host')
+    })
+  })
+
+  describe('parseCurl with raw HTTP input', () => {
+    it('should fill query params, cookies and the JSON body', () => {
+      const parsed = parseCurl(JSON_REQUEST)
+
+      expect(parsed.queryParams).toEqual({ page: '1' })
+      expect(parsed.cookies).toEqual({ sid: '1', theme: 'dark' })
+      expect(parsed.jsonBody).toEqual({ name: '张三', password: 'x' })
+    })
+
+    it('should convert to an equivalent cURL command', () => {
+      const reparsed = parseCurl(buildCurlFromContext(parseCurl(JSON_REQUEST)))
+
+      expect(reparsed.url).toBe('https://api.example.com/api/users?page=1')
+      expect(reparsed.method).toBe('POST')
+      expect(reparsed.jsonBody).toEqual({ name: '张三', password: 'x' })
+    })
+  })
+
+  describe('buildRawHttpFromContext', () => {
+    it('should serialise a cURL command as HTTP/1.1', () => {
+      const parsed = parseCurl(`curl 'https://a.com/x?q=1#top' -H 'X-Id: 1' -b 'sid=1' -d 'a=1'`)
+
+      expect(buildRawHttpFromContext(parsed)).toBe([
+        'POST /x?q=1 HTTP/1.1',
+        'host: a.com',
+        'x-id: 1',
+        'cookie: sid=1',
+        'content-type: application/x-www-form-urlencoded',
+        'content-length: 3',
+        '',
+        'a=1'
+      ].join('\r\n'))
+    })
+
+    it('should merge -b cookies into the Cookie header', () => {
+      const output = buildRawHttpFromContext(parseCurl(`curl https://x.com -b 'a=1; _ga=2' -H 'Cookie: c=3'`))
+      expect(output).toBe('GET / HTTP/1.1\r\nhost: x.com\r\ncookie: c=3; a=1; _ga=2\r\n\r\n')
+    })
+
+    it('should recalculate Content-Length after the body is filtered', () => {
+      const rule: FilterRule = {
+        id: 'r1',
+        name: 'remove password',
+        action: FilterAction.DELETE,
+        target: FilterTarget.JSON_BODY,
+        matchMode: MatchMode.EXACT,
+        matchValue: 'password',
+        priority: 50,
+        enabled: true,
+        createdAt: '',
+        updatedAt: ''
+      }
+      const engine = new FilterEngine()
+      engine.setRules([rule])
+
+      const parsed = parseCurl(JSON_REQUEST)
+      const result = engine.applyFilters({ ...parsed, multipartData: parsed.multipartData })
+      const filtered: ParsedCurl = { ...parsed, jsonBody: result.jsonBody, headers: result.headers }
+      const output = buildRawHttpFromContext(filtered)
+
+      expect(output).toContain('content-length: 17\r\n')
+      expect(output.endsWith('\r\n\r\n{"name":"张三"}')).toBe(true)
+      expect(parseRawHttp(output).body).toBe('{"name":"张三"}')
+    })
+
+    it('should keep an explicit Host header and omit Content-Length without a body', () => {
+      const output = buildRawHttpFromContext(parseCurl(`curl http://10.0.0.1/x -H 'Host: internal.example.com' -H 'Content-Length: 99'`))
+      expect(output).toBe('GET /x HTTP/1.1\r\nhost: internal.example.com\r\n\r\n')
+    })
+
+    it('should not compute Content-Length from a file reference', () => {
+      const output = buildRawHttpFromContext(parseCurl(`curl https://a.com/x -H 'Content-Type: application/json' --data-binary @body.json`))
+
+      expect(output).not.toContain('content-length')
+      expect(output.endsWith('\r\n\r\n@body.json')).toBe(true)
+    })
+
+    it('should regenerate multipart bodies with a fixed boundary', () => {
+      const output = buildRawHttpFromContext(parseCurl(`curl https://a.com/up -F 'note=hi' -F 'file=@/tmp/a.png;type=image/png'`))
+      const request = parseRawHttp(output)
+
+      expect(output).toContain(`content-type: multipart/form-data; boundary=${MULTIPART_BOUNDARY}`)
+      expect(request.multipartData).toEqual([
+        { name: 'note', value: 'hi', isFile: false, isString: true },
+        { name: 'file', value: 'a.png', isFile: true, contentType: 'image/png' }
+      ])
+    })
+
+    it('should round-trip raw HTTP input', () => {
+      const output = buildRawHttpFromContext(parseCurl(JSON_REQUEST))
+      expect(parseRawHttp(output)).toEqual(parseRawHttp(JSON_REQUEST))
+    })
+  })
+})
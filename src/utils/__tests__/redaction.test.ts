@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { maskValue, maskJsonValue, DEFAULT_REDACTION } from '../redaction'
+
+describe('redaction', () => {
+  describe('maskValue', () => {
+    it('should replace values with a fixed placeholder by default', () => {
+      expect(maskValue('secret')).toBe(DEFAULT_REDACTION)
+      expect(maskValue('secret', 'fixed', '***')).toBe('***')
+    })
+
+    it('should keep only the last four characters with partial masking', () => {
+      expect(maskValue('sk-1234567890abcd', 'partial')).toBe('****abcd')
+      expect(maskValue('abcd', 'partial')).toBe('****')
+    })
+
+    it('should produce stable hashes that differ between values', () => {
+      const hash = maskValue('token-a', 'hash')
+
+      expect(hash).toMatch(/^<hash:[0-9a-f]{8}>$/)
+      expect(maskValue('token-a', 'hash')).toBe(hash)
+      expect(maskValue('token-b', 'hash')).not.toBe(hash)
+    })
+  })
+
+  describe('maskJsonValue', () => {
+    it('should mask every leaf of nested objects and arrays', () => {
+      expect(maskJsonValue({ a: 'x', b: [1, { c: true }] })).toEqual({
+        a: DEFAULT_REDACTION,
+        b: [DEFAULT_REDACTION, { c: DEFAULT_REDACTION }]
+      })
+    })
+  })
+})
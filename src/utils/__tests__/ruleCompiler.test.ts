@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { CompiledRuleSet } from '../ruleCompiler'
+import { matchesPattern } from '../ruleMatching'
+import type { FilterRule } from '../../types/filterRules'
+
+describe('CompiledRuleSet', () => {
+  const createRule = (overrides: Partial<FilterRule> = {}): FilterRule => ({
+    id: 'rule',
+    name: 'Rule',
+    action: 'delete',
+    target: 'query_params',
+    matchMode: 'exact',
+    matchValue: 'token',
+    priority: 50,
+    enabled: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  })
+
+  it('should match keys the same way as matchesPattern in every mode', () => {
+    const rules = [
+      createRule({ id: 'exact', matchValue: 'Token' }),
+      createRule({ id: 'exact-i', matchValue: 'Token', caseSensitive: false }),
+      createRule({ id: 'one-of', matchMode: 'one_of', matchValue: 'a, session_id ,b' }),
+      createRule({ id: 'prefix', matchMode: 'starts_with', matchValue: 'utm_' }),
+      createRule({ id: 'prefix-cs', matchMode: 'starts_with', matchValue: 'X-', caseSensitive: true }),
+      createRule({ id: 'prefix-short', matchMode: 'starts_with', matchValue: 'u' }),
+      createRule({ id: 'contains', matchMode: 'contains', matchValue: 'SESS' }),
+      createRule({ id: 'suffix', matchMode: 'ends_with', matchValue: '_id' }),
+      createRule({ id: 'glob', matchMode: 'glob', matchValue: 'x-*-id' }),
+      createRule({ id: 'regex', matchMode: 'regex', matchValue: '^_\\d+$' }),
+      createRule({ id: 'bad-regex', matchMode: 'regex', matchValue: '[' }),
+      createRule({ id: 'headers', target: 'headers', matchValue: 'User-Agent' })
+    ]
+    const keys = ['Token', 'token', 'session_id', 'utm_source', 'UTM_medium', 'X-Trace', 'x-trace', 'x-user-id', '_123', 'user-agent', 'u']
+    const compiled = new CompiledRuleSet(rules)
+
+    rules.forEach(rule => {
+      keys.forEach(key => {
+        expect(compiled.matchesKey(rule, key), `${rule.id} / ${key}`).toBe(matchesPattern(key, rule))
+      })
+    })
+  })
+
+  it('should only compile enabled rules, in execution order', () => {
+    const compiled = new CompiledRuleSet([
+      createRule({ id: 'low', priority: 10 }),
+      createRule({ id: 'off', enabled: false }),
+      createRule({ id: 'high', priority: 90 })
+    ])
+
+    expect(compiled.rules.map(rule => rule.id)).toEqual(['high', 'low'])
+  })
+
+  it('should return only rules that can match a key as candidates, in execution order', () => {
+    const rules = [
+      createRule({ id: 'token', priority: 10 }),
+      createRule({ id: 'utm', matchMode: 'starts_with', matchValue: 'utm_', priority: 20 }),
+      createRule({ id: 'negated', matchValue: 'page', negate: true, priority: 30 }),
+      createRule({ id: 'by-value', matchValue: 'secret', matchScope: 'both', priority: 40 }),
+      createRule({ id: 'all', action: 'delete_all', matchValue: 'x', priority: 50 }),
+      createRule({ id: 'regex', matchMode: 'regex', matchValue: '^id$', priority: 60 }),
+      createRule({ id: 'header', target: 'headers', matchValue: 'token' })
+    ]
+    const compiled = new CompiledRuleSet(rules)
+    const ids = (key: string) => compiled.candidateRules('query_params', key).map(rule => rule.id)
+
+    expect(ids('token')).toEqual(['all', 'by-value', 'negated', 'token'])
+    expect(ids('utm_source')).toEqual(['all', 'by-value', 'negated', 'utm'])
+    expect(ids('id')).toEqual(['regex', 'all', 'by-value', 'negated'])
+    expect(compiled.candidateRules('cookies', 'token')).toEqual([])
+  })
+
+  it('should report invalid patterns once per rule', () => {
+    const regex = createRule({ name: 'R', matchMode: 'regex', matchValue: '(' })
+    const path = createRule({ name: 'P', target: 'json_body', matchMode: 'json_path', matchValue: 'items[' })
+    const compiled = new CompiledRuleSet([regex, path])
+
+    expect(compiled.getPatternWarning(regex)).toBe('规则「R」的正则表达式无效，不会匹配任何内容')
+    expect(compiled.getPatternWarning(path)).toBe('规则「P」的JSON路径无效，不会匹配任何内容')
+    expect(compiled.getJsonPath(path)).toBeNull()
+  })
+})
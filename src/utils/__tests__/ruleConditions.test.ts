@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { matchesRuleCondition, describeRuleCondition } from '../ruleConditions'
+import { getCompiledGlobCount, matchGlob, MAX_COMPILED_GLOBS } from '../glob'
+import type { FilterContext } from '../../types/filterRules'
+
+describe('ruleConditions', () => {
+  const createContext = (overrides: Partial<FilterContext> = {}): FilterContext => ({
+    headers: { 'content-type': 'application/json; charset=utf-8', 'x-tenant-id': 't1' },
+    queryParams: {},
+    formData: {},
+    jsonBody: null,
+    url: 'https://api.staging.example.com/v1/users?page=1',
+    method: 'POST',
+    ...overrides
+  })
+
+  describe('matchesRuleCondition', () => {
+    it('should match everything without a condition', () => {
+      expect(matchesRuleCondition(undefined, createContext())).toBe(true)
+      expect(matchesRuleCondition({}, createContext())).toBe(true)
+    })
+
+    it('should match host globs case-insensitively', () => {
+      expect(matchesRuleCondition({ host: '*.staging.example.com' }, createContext())).toBe(true)
+      expect(matchesRuleCondition({ host: '*.STAGING.example.com' }, createContext())).toBe(true)
+      expect(matchesRuleCondition({ host: '*.prod.example.com' }, createContext())).toBe(false)
+    })
+
+    it('should match path globs without the query string', () => {
+      expect(matchesRuleCondition({ path: '/v1/*' }, createContext())).toBe(true)
+      expect(matchesRuleCondition({ path: '/v2/*' }, createContext())).toBe(false)
+    })
+
+    it('should keep the compiled glob cache bounded', () => {
+      for (let i = 0; i < MAX_COMPILED_GLOBS + 50; i++) {
+        matchGlob('/v1/users', `/v${i}/*`)
+      }
+
+      expect(getCompiledGlobCount()).toBe(MAX_COMPILED_GLOBS)
+      expect(matchGlob('/v1/users', '/v1/*')).toBe(true)
+    })
+
+    it('should let glob wildcards match line breaks', () => {
+      expect(matchGlob('line1\nline2', 'line1*')).toBe(true)
+      expect(matchGlob('a\nb', 'a?b')).toBe(true)
+    })
+
+    it('should accept URLs without a scheme', () => {
+      expect(matchesRuleCondition({ host: 'example.com' }, createContext({ url: 'example.com/a' }))).toBe(true)
+    })
+
+    it('should match any of the listed methods', () => {
+      expect(matchesRuleCondition({ methods: ['get', 'POST'] }, createContext())).toBe(true)
+      expect(matchesRuleCondition({ methods: ['GET'] }, createContext())).toBe(false)
+    })
+
+    it('should match content type and header presence', () => {
+      expect(matchesRuleCondition({ contentType: 'JSON', hasHeader: 'X-Tenant-Id' }, createContext())).toBe(true)
+      expect(matchesRuleCondition({ hasHeader: 'authorization' }, createContext())).toBe(false)
+    })
+
+    it('should treat -F requests as multipart', () => {
+      const context = createContext({
+        headers: {},
+        multipartData: [{ name: 'a', value: 'b', isFile: false }]
+      })
+      expect(matchesRuleCondition({ contentType: 'multipart/form-data' }, context)).toBe(true)
+    })
+
+    it('should require every condition to hold', () => {
+      expect(matchesRuleCondition({ host: '*.example.com', methods: ['GET'] }, createContext())).toBe(false)
+    })
+  })
+
+  describe('describeRuleCondition', () => {
+    it('should list the configured conditions', () => {
+      expect(describeRuleCondition({ host: '*.example.com', methods: ['GET', 'POST'] }))
+        .toBe('主机 *.example.com，方法 GET/POST')
+    })
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { validateRule, validateRuleField } from '../ruleValidation'
+import { validateRule, validateRuleField, detectRuleConflicts } from '../ruleValidation'
 import type { FilterRule } from '../../types/filterRules'
 
 describe('ruleValidation', () => {
@@ -101,6 +101,68 @@ describe('ruleValidation', () => {
       expect(result.errors).toEqual([])
     })
 
+    it('should validate JSON path match mode', () => {
+      const rule = createValidRule({
+        target: 'json_body',
+        matchMode: 'json_path',
+        matchValue: 'items[abc].id'
+      })
+      const result = validateRule(rule)
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors.some(error => error.includes('JSON路径'))).toBe(true)
+    })
+
+    it('should only allow JSON path match mode for JSON body', () => {
+      const rule = createValidRule({ matchMode: 'json_path', matchValue: 'a.b' })
+      const result = validateRule(rule)
+
+      expect(result.errors).toContain('JSON路径匹配模式只能用于JSON请求体')
+    })
+
+    it('should reject unknown match scopes', () => {
+      const rule = createValidRule({ matchScope: 'name' as FilterRule['matchScope'] })
+      const result = validateRule(rule)
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors).toContain('无效的匹配范围')
+    })
+
+    it('should require a match value for redact action', () => {
+      const result = validateRule(createValidRule({ action: 'redact', matchValue: '' }))
+      expect(result.errors).toContain('该动作类型需要指定匹配值')
+    })
+
+    it('should reject unknown mask strategies', () => {
+      const rule = createValidRule({ action: 'redact', maskStrategy: 'blur' as FilterRule['maskStrategy'] })
+      expect(validateRule(rule).errors).toContain('无效的脱敏方式')
+    })
+
+    it('should require a replacement for rewrite actions', () => {
+      expect(validateRule(createValidRule({ action: 'set' })).errors).toContain('该动作类型需要指定新值')
+      expect(validateRule(createValidRule({ action: 'rename' })).errors).toContain('重命名动作需要指定新键名')
+      expect(validateRule(createValidRule({ action: 'set', replacement: '1' })).isValid).toBe(true)
+    })
+
+    it('should only allow literal keys for add action', () => {
+      const patternRule = createValidRule({ action: 'add', matchMode: 'contains', replacement: '1' })
+      const wildcardRule = createValidRule({
+        action: 'add',
+        target: 'json_body',
+        matchMode: 'json_path',
+        matchValue: 'items[*].id',
+        replacement: '1'
+      })
+
+      expect(validateRule(patternRule).isValid).toBe(false)
+      expect(validateRule(wildcardRule).errors).toContain('新增动作的JSON路径不能包含通配符或递归下降')
+    })
+
+    it('should reject invalid methods in conditions', () => {
+      const rule = createValidRule({ condition: { methods: ['GET', 'PO ST'] } })
+      expect(validateRule(rule).errors).toContain('适用条件中存在无效的HTTP方法')
+    })
+
     it('should validate priority range', () => {
       const lowPriorityRule = createValidRule({ priority: -1 })
       const highPriorityRule = createValidRule({ priority: 101 })
@@ -126,6 +188,22 @@ describe('ruleValidation', () => {
       expect(result.errors).toContain('该动作类型需要指定匹配值')
       expect(result.errors.some(error => error.includes('优先级'))).toBe(true)
     })
+
+    it('should require at least one name for one_of mode', () => {
+      const result = validateRule(createValidRule({ matchMode: 'one_of', matchValue: ' , ' }))
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors).toContain('列表匹配至少需要一个名称，多个名称用逗号分隔')
+    })
+
+    it('should reject negation for JSON paths, add and rename', () => {
+      const jsonPath = validateRule(createValidRule({ target: 'json_body', matchMode: 'json_path', matchValue: '$.a', negate: true }))
+      const rename = validateRule(createValidRule({ action: 'rename', replacement: 'x', negate: true }))
+
+      expect(jsonPath.errors).toContain('JSON路径匹配模式不支持取反')
+      expect(rename.errors).toContain('新增和重命名动作不支持取反')
+      expect(validateRule(createValidRule({ matchMode: 'glob', matchValue: 'sec-*', negate: true })).isValid).toBe(true)
+    })
   })
 
   describe('validateRuleField', () => {
@@ -174,6 +252,37 @@ describe('ruleValidation', () => {
     })
   })
 
+  describe('detectRuleConflicts', () => {
+    const rules = [
+      createValidRule({ id: 'keep', name: 'Keep accept', action: 'keep', matchValue: 'accept', priority: 90 }),
+      createValidRule({ id: 'drop-all', name: 'Drop all', action: 'delete_all', matchValue: '', priority: 50 }),
+      createValidRule({ id: 'drop', name: 'Drop agent', action: 'delete', matchValue: 'user-agent', priority: 10 })
+    ]
+
+    it('should report rules ranked after an unconditional global rule with first_match', () => {
+      expect(detectRuleConflicts(rules)).toEqual([
+        '请求头的全局规则「Drop all」决定所有项目的去留，执行顺序在它之后的规则「Drop agent」不会生效'
+      ])
+    })
+
+    it('should report rules ranked before the global rule with last_match', () => {
+      expect(detectRuleConflicts(rules, 'last_match')).toEqual([
+        '请求头的全局规则「Drop all」决定所有项目的去留，执行顺序在它之前的规则「Keep accept」不会生效'
+      ])
+    })
+
+    it('should report keep rules under a delete_all rule with deny_overrides', () => {
+      expect(detectRuleConflicts(rules, 'deny_overrides')).toEqual([
+        '请求头的"删除全部"规则「Drop all」会删除所有项目，保留规则「Keep accept」不会生效'
+      ])
+    })
+
+    it('should not treat conditional global rules as shadowing', () => {
+      const conditional = rules.map(rule => rule.id === 'drop-all' ? { ...rule, condition: { host: 'staging.*' } } : rule)
+      expect(detectRuleConflicts(conditional)).toEqual([])
+    })
+  })
+
   describe('complex validation scenarios', () => {
     it('should validate rule with all fields', () => {
       const rule = createValidRule({
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest'
+import { parseCurl } from '../curlParser'
+import { buildRequestModel } from '../requestModel'
+import { generateRustReqwest } from '../rustCodeGenerator'
+import { GOLDEN_CASES } from './goldenCases'
+
+describe('rustCodeGenerator', () => {
+  describe('generateRustReqwest', () => {
+    GOLDEN_CASES.forEach(({ name, command }) => {
+      it(`should match the golden file for ${name}`, async () => {
+        const code = generateRustReqwest(buildRequestModel(parseCurl(command)))
+        await expect(code).toMatchFileSnapshot(`./__golden__/rust/${name}.rs`)
+      })
+    })
+  })
+})
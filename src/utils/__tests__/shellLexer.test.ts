@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { splitShellWords, splitShellArgs, quoteShellArg } from '../shellLexer'
+
+describe('shellLexer', () => {
+  describe('splitShellWords', () => {
+    it('should split on unquoted whitespace', () => {
+      expect(splitShellArgs('curl  -X\tPOST\nhttps://a.com')).toEqual([
+        'curl', '-X', 'POST', 'https://a.com'
+      ])
+    })
+
+    it('should record source offsets for each token', () => {
+      const input = `curl 'https://a.com' -H "a: b"`
+      const tokens = splitShellWords(input)
+
+      expect(tokens.map(t => t.raw)).toEqual(['curl', `'https://a.com'`, '-H', '"a: b"'])
+      tokens.forEach(token => {
+        expect(input.slice(token.start, token.end)).toBe(token.raw)
+      })
+    })
+
+    it('should keep single-quoted content literally', () => {
+      expect(splitShellArgs(`'a "b" \\n $c'`)).toEqual(['a "b" \\n $c'])
+    })
+
+    it('should handle escaped single quotes inside single-quoted strings', () => {
+      expect(splitShellArgs(`'it'\\''s fine'`)).toEqual(["it's fine"])
+    })
+
+    it('should only unescape special characters inside double quotes', () => {
+      expect(splitShellArgs(`"a \\"b\\" \\$c \\\\ \\n"`)).toEqual(['a "b" $c \\ \\n'])
+    })
+
+    it('should decode ANSI-C quoted strings', () => {
+      expect(splitShellArgs(`$'line1\\nline2\\t\\'q\\' \\x41\\u00e9\\101'`)).toEqual([
+        "line1\nline2\t'q' AéA"
+      ])
+    })
+
+    it('should unescape backslashes outside quotes', () => {
+      expect(splitShellArgs('a\\ b c\\"d')).toEqual(['a b', 'c"d'])
+    })
+
+    it('should join backslash-newline continuations', () => {
+      expect(splitShellArgs('curl \\\n  -X POST \\\r\n  url')).toEqual(['curl', '-X', 'POST', 'url'])
+      expect(splitShellArgs('"ab\\\ncd"')).toEqual(['abcd'])
+    })
+
+    it('should concatenate adjacent quoted segments into one word', () => {
+      expect(splitShellArgs(`a'b c'"d e"$'f'`)).toEqual(['ab cd ef'])
+    })
+
+    it('should keep empty quoted strings as arguments', () => {
+      expect(splitShellArgs(`-d '' x`)).toEqual(['-d', '', 'x'])
+    })
+
+    it('should skip comments at word boundaries', () => {
+      expect(splitShellArgs('curl a#b # comment\nc')).toEqual(['curl', 'a#b', 'c'])
+    })
+
+    it('should mark control operators and stop argument list at them', () => {
+      const tokens = splitShellWords('curl a | jq .; echo done')
+      expect(tokens.filter(t => t.isOperator).map(t => t.value)).toEqual(['|', ';'])
+      expect(splitShellArgs('curl a | jq .')).toEqual(['curl', 'a'])
+    })
+
+    it('should treat & inside an unquoted URL literally', () => {
+      expect(splitShellArgs('curl https://a.com/?x=1&y=2')).toEqual(['curl', 'https://a.com/?x=1&y=2'])
+    })
+
+    it('should read unterminated quotes to the end of input', () => {
+      expect(splitShellArgs(`curl 'abc def`)).toEqual(['curl', 'abc def'])
+    })
+  })
+
+  describe('quoteShellArg', () => {
+    it('should leave safe arguments unquoted', () => {
+      expect(quoteShellArg('-F')).toBe('-F')
+      expect(quoteShellArg('https://a.com/x')).toBe('https://a.com/x')
+    })
+
+    it('should quote arguments that split back to the same value', () => {
+      const values = ['', 'a b', "it's", 'a=@b;type="x"', '$HOME `x` \\n', 'line1\nline2']
+      values.forEach(value => {
+        expect(splitShellArgs(quoteShellArg(value))).toEqual([value])
+      })
+    })
+  })
+})
@@ -0,0 +1,263 @@
+// 认证信息：-u/--user、--oauth2-bearer 和 Authorization 请求头的解析、转换与生成
+
+import type { CurlAuth, CurlOption } from '../types/filterRules';
+import { AuthScheme, AuthSource } from '../types/filterRules';
+import type { ParsedCurl } from './curlParser';
+
+/**
+ * 输出命令时认证信息的写法
+ */
+export const AuthStyle = {
+  ORIGINAL: 'original',       // 保持原命令的写法
+  OPTION: 'option',           // -u user:pass 或 --oauth2-bearer token
+  HEADER: 'header'            // Authorization 请求头
+} as const;
+
+export type AuthStyle = typeof AuthStyle[keyof typeof AuthStyle];
+
+/**
+ * JWT 的头部和载荷（不校验签名）
+ */
+export interface JwtPreview {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+}
+
+// 改变 -u 认证方式的选项，其余情况 curl 使用 Basic 认证
+const SCHEME_OPTIONS: Record<string, AuthScheme> = {
+  '--digest': AuthScheme.DIGEST,
+  '--ntlm': AuthScheme.NTLM
+};
+
+/**
+ * 按 UTF-8 编码为 Base64
+ */
+export function encodeBase64(text: string): string {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * 解码 Base64 或 Base64URL（可省略补位），结果不是合法的 UTF-8 文本时返回 null
+ */
+export function decodeBase64(encoded: string): string | null {
+  const normalized = encoded.trim().replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized + '='.repeat((4 - normalized.length % 4) % 4);
+
+  try {
+    const binary = atob(padded);
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 拆分 user:password，只有用户名时没有密码（curl 会提示输入）
+ */
+export function parseUserCredentials(value: string): Pick<CurlAuth, 'username' | 'password'> {
+  const colonIndex = value.indexOf(':');
+  if (colonIndex < 0) {
+    return { username: value };
+  }
+  return { username: value.substring(0, colonIndex), password: value.substring(colonIndex + 1) };
+}
+
+/**
+ * 生成 -u 的参数值 user:password
+ */
+export function formatUserCredentials(auth: CurlAuth): string {
+  const username = auth.username ?? '';
+  return auth.password !== undefined ? `${username}:${auth.password}` : username;
+}
+
+/**
+ * 解析 Authorization 请求头，只识别 Basic 和 Bearer
+ */
+export function parseAuthorizationHeader(value: string): CurlAuth | null {
+  const match = /^(\S+)\s+(\S.*)$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const scheme = match[1].toLowerCase();
+  const credentials = match[2].trim();
+
+  if (scheme === 'bearer') {
+    return { scheme: AuthScheme.BEARER, source: AuthSource.HEADER, token: credentials };
+  }
+
+  if (scheme === 'basic') {
+    const decoded = decodeBase64(credentials);
+    return decoded === null
+      ? null
+      : { scheme: AuthScheme.BASIC, source: AuthSource.HEADER, ...parseUserCredentials(decoded) };
+  }
+
+  return null;
+}
+
+/**
+ * 生成 Authorization 请求头的值；Digest 和 NTLM 需要服务器质询，无法写成请求头
+ */
+export function formatAuthorizationHeader(auth: CurlAuth): string | null {
+  switch (auth.scheme) {
+    case AuthScheme.BEARER:
+      return `Bearer ${auth.token ?? ''}`;
+    case AuthScheme.BASIC:
+      return `Basic ${encodeBase64(formatUserCredentials(auth))}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * 生成选项形式的认证参数
+ */
+export function formatAuthArgs(auth: CurlAuth): string[] {
+  return [auth.scheme === AuthScheme.BEARER ? '--oauth2-bearer' : '-u', formatAuthOptionValue(auth)];
+}
+
+/**
+ * 判断选项是否为带凭据的认证选项（-u/--user、--oauth2-bearer）
+ */
+export function isAuthOption(option: CurlOption): boolean {
+  return (option.name === '--user' || option.name === '--oauth2-bearer') && option.value !== undefined;
+}
+
+/**
+ * 从认证选项得到认证信息，-u 的认证方式由同一命令中的 --digest、--ntlm 等选项决定
+ */
+export function authFromOption(option: CurlOption, options: CurlOption[]): CurlAuth {
+  return option.name === '--oauth2-bearer'
+    ? { scheme: AuthScheme.BEARER, source: AuthSource.OPTION, token: option.value ?? '' }
+    : {
+      scheme: options.map(item => SCHEME_OPTIONS[item.name]).find(Boolean) ?? AuthScheme.BASIC,
+      source: AuthSource.OPTION,
+      ...parseUserCredentials(option.value ?? '')
+    };
+}
+
+/**
+ * 生成认证选项的参数值：-u 为 user:password，--oauth2-bearer 为令牌
+ */
+export function formatAuthOptionValue(auth: CurlAuth): string {
+  return auth.scheme === AuthScheme.BEARER ? auth.token ?? '' : formatUserCredentials(auth);
+}
+
+/**
+ * 从请求头和curl选项中提取认证信息
+ * 有 Authorization 请求头时以它为准（curl 发送的就是它），-u 等选项保留在选项中；
+ * 否则取最后一个 -u/--user 或 --oauth2-bearer，并从选项中移除同名选项
+ */
+export function extractAuth(
+  headers: Record<string, string>,
+  options: CurlOption[]
+): { auth: CurlAuth | null; options: CurlOption[] } {
+  const header = headers['authorization'];
+  if (header !== undefined) {
+    return { auth: parseAuthorizationHeader(header), options };
+  }
+
+  const authOptions = options.filter(isAuthOption);
+  const last = authOptions[authOptions.length - 1];
+  if (!last) {
+    return { auth: null, options };
+  }
+
+  return { auth: authFromOption(last, options), options: options.filter(option => option.name !== last.name) };
+}
+
+/**
+ * 把认证信息转换为过滤规则使用的字段：username、password 或 token
+ */
+export function authToRecord(auth: CurlAuth | null | undefined): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (!auth) {
+    return record;
+  }
+
+  const fields = auth.scheme === AuthScheme.BEARER
+    ? { token: auth.token }
+    : { username: auth.username, password: auth.password };
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined) {
+      record[key] = value;
+    }
+  });
+  return record;
+}
+
+/**
+ * 用过滤后的字段更新认证信息，凭据全部删除时返回 null
+ */
+export function authFromRecord(auth: CurlAuth, record: Record<string, string>): CurlAuth | null {
+  const updated: CurlAuth = { scheme: auth.scheme, source: auth.source };
+
+  if (auth.scheme === AuthScheme.BEARER) {
+    if (record.token === undefined) {
+      return null;
+    }
+    updated.token = record.token;
+    return updated;
+  }
+
+  if (record.username === undefined && record.password === undefined) {
+    return null;
+  }
+  updated.username = record.username ?? '';
+  if (record.password !== undefined) {
+    updated.password = record.password;
+  }
+  return updated;
+}
+
+/**
+ * 按指定写法改写请求中的认证信息
+ * 改为请求头时加入 Authorization 请求头；改为选项时移除 Authorization 请求头。Digest 和 NTLM 只能使用 -u
+ */
+export function applyAuthStyle(parsed: ParsedCurl, style: AuthStyle): ParsedCurl {
+  const auth = parsed.auth;
+  if (!auth || style === AuthStyle.ORIGINAL || style === auth.source) {
+    return parsed;
+  }
+
+  const headers = { ...parsed.headers };
+  const headerKey = Object.keys(headers).find(key => key.toLowerCase() === 'authorization');
+
+  if (style === AuthStyle.HEADER) {
+    const header = formatAuthorizationHeader(auth);
+    if (header === null) {
+      return parsed;
+    }
+    headers[headerKey ?? 'authorization'] = header;
+    return { ...parsed, headers, auth: { ...auth, source: AuthSource.HEADER } };
+  }
+
+  if (headerKey) {
+    delete headers[headerKey];
+  }
+  return { ...parsed, headers, auth: { ...auth, source: AuthSource.OPTION } };
+}
+
+/**
+ * 解码 JWT 的头部和载荷；不是 JWT 时返回 null
+ */
+export function decodeJwt(token: string): JwtPreview | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const [header, payload] = parts.slice(0, 2).map(part => JSON.parse(decodeBase64(part) ?? ''));
+    const isObject = (value: unknown) => value !== null && typeof value === 'object' && !Array.isArray(value);
+    return isObject(header) && isObject(payload) ? { header, payload } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,134 @@
+// 代码生成入口：把过滤后的请求转换为各种语言和HTTP库的代码
+
+import type { ParsedCurl } from './curlParser';
+import { buildCurlFromContext } from './curlBuilder';
+import { buildRawHttpFromContext } from './rawHttpBuilder';
+import { buildRequestModel, type RequestModel } from './requestModel';
+import { generateBrowserFetch, generateNodeFetch, generateUndici, generateAxios } from './jsCodeGenerator';
+import { generatePythonRequests, generatePythonHttpx, generatePythonHttpxAsync } from './pythonCodeGenerator';
+import { generateGo } from './goCodeGenerator';
+import { generateJavaOkHttp } from './javaCodeGenerator';
+import { generateRustReqwest } from './rustCodeGenerator';
+
+/**
+ * 输出格式
+ */
+export const CodeTarget = {
+  CURL: 'curl',
+  RAW_HTTP: 'http',
+  FETCH: 'fetch',
+  NODE_FETCH: 'node_fetch',
+  UNDICI: 'undici',
+  AXIOS: 'axios',
+  PYTHON_REQUESTS: 'python_requests',
+  PYTHON_HTTPX: 'python_httpx',
+  PYTHON_HTTPX_ASYNC: 'python_httpx_async',
+  GO: 'go',
+  JAVA_OKHTTP: 'java_okhttp',
+  RUST_REQWEST: 'rust_reqwest'
+} as const;
+
+export type CodeTarget = typeof CodeTarget[keyof typeof CodeTarget];
+
+export interface CodeGenerator {
+  target: CodeTarget;
+  label: string;      // 显示名称
+  language: string;   // 代码语言，如 shell、http、javascript、python
+  generate: (model: RequestModel, parsed: ParsedCurl) => string;
+}
+
+/**
+ * 全部代码生成器（按界面中的显示顺序）
+ */
+export const CODE_GENERATORS: CodeGenerator[] = [
+  {
+    target: CodeTarget.CURL,
+    label: 'cURL',
+    language: 'shell',
+    generate: (_, parsed) => buildCurlFromContext(parsed)
+  },
+  {
+    target: CodeTarget.RAW_HTTP,
+    label: 'HTTP',
+    language: 'http',
+    generate: (_, parsed) => buildRawHttpFromContext(parsed)
+  },
+  {
+    target: CodeTarget.FETCH,
+    label: 'fetch',
+    language: 'javascript',
+    generate: generateBrowserFetch
+  },
+  {
+    target: CodeTarget.NODE_FETCH,
+    label: 'Node.js fetch',
+    language: 'javascript',
+    generate: generateNodeFetch
+  },
+  {
+    target: CodeTarget.UNDICI,
+    label: 'undici',
+    language: 'javascript',
+    generate: generateUndici
+  },
+  {
+    target: CodeTarget.AXIOS,
+    label: 'axios',
+    language: 'javascript',
+    generate: generateAxios
+  },
+  {
+    target: CodeTarget.PYTHON_REQUESTS,
+    label: 'Python requests',
+    language: 'python',
+    generate: generatePythonRequests
+  },
+  {
+    target: CodeTarget.PYTHON_HTTPX,
+    label: 'Python httpx',
+    language: 'python',
+    generate: model => generatePythonHttpx(model)
+  },
+  {
+    target: CodeTarget.PYTHON_HTTPX_ASYNC,
+    label: 'Python httpx (async)',
+    language: 'python',
+    generate: generatePythonHttpxAsync
+  },
+  {
+    target: CodeTarget.GO,
+    label: 'Go net/http',
+    language: 'go',
+    generate: generateGo
+  },
+  {
+    target: CodeTarget.JAVA_OKHTTP,
+    label: 'Java OkHttp',
+    language: 'java',
+    generate: generateJavaOkHttp
+  },
+  {
+    target: CodeTarget.RUST_REQWEST,
+    label: 'Rust reqwest',
+    language: 'rust',
+    generate: generateRustReqwest
+  }
+];
+
+/**
+ * 查找输出格式对应的代码生成器
+ */
+export function getCodeGenerator(target: CodeTarget): CodeGenerator | undefined {
+  return CODE_GENERATORS.find(generator => generator.target === target);
+}
+
+/**
+ * 按输出格式生成代码
+ */
+export function generateCode(parsed: ParsedCurl, target: CodeTarget): string {
+  const generator = getCodeGenerator(target);
+  if (!generator) {
+    throw new Error(`不支持的输出格式: ${target}`);
+  }
+  return generator.generate(buildRequestModel(parsed), parsed);
+}
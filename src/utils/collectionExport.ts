@@ -0,0 +1,407 @@
+// 导出为 Postman Collection v2.1 和 Insomnia v4 导入文件
+// 请求按主机分组为文件夹，每个主机的 scheme://host[:port] 提取为变量
+
+import type { HistoryEntry } from '../types/filterRules';
+import { parseCurl, type ParsedCurl } from './curlParser';
+import { serializeCookies } from './cookies';
+import { RequestBodyKind, findHeader, buildRequestModel, type RequestModel, type RequestBodyPart } from './requestModel';
+
+export const POSTMAN_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+// Insomnia 中每个文件夹环境使用相同的变量名，请求按所在文件夹取值
+const INSOMNIA_BASE_URL_VARIABLE = 'base_url';
+
+/**
+ * 导出格式
+ */
+export const CollectionFormat = {
+  POSTMAN: 'postman',     // Postman Collection v2.1
+  INSOMNIA: 'insomnia'    // Insomnia v4 导入文件
+} as const;
+
+export type CollectionFormat = typeof CollectionFormat[keyof typeof CollectionFormat];
+
+/**
+ * 要导出的请求
+ */
+export interface ExportableRequest {
+  name?: string;       // 请求名称，默认为 "方法 路径"
+  parsed: ParsedCurl;  // 过滤后的请求
+}
+
+/**
+ * Postman 集合（只包含导出用到的字段）
+ */
+export interface PostmanCollection {
+  info: { name: string; schema: string };
+  item: PostmanFolder[];
+  variable: { key: string; value: string }[];
+}
+
+export interface PostmanFolder {
+  name: string;
+  item: PostmanItem[];
+}
+
+export interface PostmanItem {
+  name: string;
+  request: {
+    method: string;
+    header: { key: string; value: string }[];
+    url: { raw: string; host?: string[]; path?: string[]; query?: { key: string; value: string }[] };
+    body?: PostmanBody;
+    description?: string;
+  };
+}
+
+export interface PostmanBody {
+  mode: 'raw' | 'urlencoded' | 'formdata' | 'file';
+  raw?: string;
+  file?: { src: string };
+  options?: { raw: { language: string } };
+  urlencoded?: { key: string; value: string }[];
+  formdata?: { key: string; type: 'text' | 'file'; value?: string; src?: string; contentType?: string }[];
+}
+
+/**
+ * Insomnia 导入文件中的资源（工作区、文件夹、请求）
+ */
+export interface InsomniaResource {
+  _id: string;
+  _type: 'workspace' | 'request_group' | 'request';
+  parentId: string | null;
+  name: string;
+  [key: string]: unknown;
+}
+
+export interface InsomniaExport {
+  _type: 'export';
+  __export_format: 4;
+  __export_date: string;
+  __export_source: string;
+  resources: InsomniaResource[];
+}
+
+/**
+ * 同一主机下的请求
+ */
+interface HostGroup {
+  host: string;        // 主机名（含端口），无法解析的URL为空
+  origin: string;      // scheme://host[:port]
+  requests: { name: string; model: RequestModel; path: string; search: string }[];
+}
+
+/**
+ * 拆分URL为来源和路径，无法解析的URL整体作为路径
+ */
+function splitUrl(url: string): { host: string; origin: string; path: string; search: string } {
+  try {
+    const urlObj = new URL(url);
+    return { host: urlObj.host, origin: urlObj.origin, path: urlObj.pathname, search: urlObj.search };
+  } catch {
+    return { host: '', origin: '', path: url, search: '' };
+  }
+}
+
+/**
+ * 按主机分组，保持请求首次出现的顺序
+ */
+function groupByHost(requests: ExportableRequest[]): HostGroup[] {
+  const groups = new Map<string, HostGroup>();
+
+  requests.forEach(request => {
+    const model = buildRequestModel(request.parsed);
+    const { host, origin, path, search } = splitUrl(model.url);
+
+    let group = groups.get(origin);
+    if (!group) {
+      group = { host, origin, requests: [] };
+      groups.set(origin, group);
+    }
+    group.requests.push({ name: request.name || `${model.method} ${path}`, model, path, search });
+  });
+
+  return Array.from(groups.values());
+}
+
+/**
+ * 拆分查询字符串，保留重复的参数
+ */
+function splitQuery(search: string, decode: boolean): { name: string; value: string }[] {
+  if (!search || search === '?') return [];
+
+  return search.slice(1).split('&').filter(part => part).map(part => {
+    const index = part.indexOf('=');
+    const name = index < 0 ? part : part.slice(0, index);
+    const value = index < 0 ? '' : part.slice(index + 1);
+    if (!decode) return { name, value };
+    try {
+      return { name: decodeURIComponent(name.replace(/\+/g, ' ')), value: decodeURIComponent(value.replace(/\+/g, ' ')) };
+    } catch {
+      return { name, value };
+    }
+  });
+}
+
+/**
+ * 请求头列表（Cookie 合并为一个请求头）
+ */
+function headerList(model: RequestModel): { name: string; value: string }[] {
+  const headers = Object.entries(model.headers).map(([name, value]) => ({ name, value }));
+  if (Object.keys(model.cookies).length > 0) {
+    headers.push({ name: 'Cookie', value: serializeCookies(model.cookies) });
+  }
+  return headers;
+}
+
+/**
+ * 导入工具不能按路径读取文件作为文本，文件内容在请求体中以占位符代替
+ */
+function fileContentPlaceholder(path: string, urlencode = false): string {
+  return `<${path} 的内容${urlencode ? '（URL编码后）' : ''}>`;
+}
+
+/**
+ * 引用文件的请求体是否只有一个文件，这时可以直接以文件作为请求体
+ */
+function isSingleFile(parts: RequestBodyPart[]): parts is [{ file: string }] {
+  return parts.length === 1 && 'file' in parts[0];
+}
+
+/**
+ * 按片段拼出引用文件的请求体，文件内容以占位符代替
+ */
+function fileBodyText(parts: RequestBodyPart[]): string {
+  return parts.map(part => 'file' in part ? fileContentPlaceholder(part.file, part.urlencode) : part.text).join('');
+}
+
+/**
+ * 请求说明：列出内容没有包含在导出中、需要手动填入的文件
+ */
+function missingFilesDescription(model: RequestModel): string | undefined {
+  const body = model.body;
+  const files = body.kind === RequestBodyKind.FILE && !isSingleFile(body.parts)
+    ? body.parts.flatMap(part => 'file' in part ? [part.file] : [])
+    : body.kind === RequestBodyKind.MULTIPART
+      ? body.fields.filter(field => field.isFileContent).map(field => field.value)
+      : [];
+
+  return files.length > 0 ? `请求体中以下文件的内容没有包含在导出中，请替换占位符：${files.join(', ')}` : undefined;
+}
+
+/**
+ * 生成 Postman 变量名：只有一个主机时为 baseUrl，否则按主机区分
+ */
+function postmanVariableName(group: HostGroup, groups: HostGroup[]): string {
+  return groups.filter(g => g.origin).length > 1
+    ? 'baseUrl_' + group.host.replace(/[^A-Za-z0-9]+/g, '_')
+    : 'baseUrl';
+}
+
+/**
+ * 生成 Postman 请求体
+ */
+function postmanBody(model: RequestModel): PostmanBody | undefined {
+  const body = model.body;
+  switch (body.kind) {
+    case RequestBodyKind.JSON:
+      return { mode: 'raw', raw: JSON.stringify(body.value, null, 2), options: { raw: { language: 'json' } } };
+    case RequestBodyKind.FORM:
+      return { mode: 'urlencoded', urlencoded: Object.entries(body.fields).map(([key, value]) => ({ key, value })) };
+    case RequestBodyKind.MULTIPART:
+      return {
+        mode: 'formdata',
+        // name=<file 以文件内容作为文本字段发送，不是文件上传
+        formdata: body.fields.map(field => field.isFile
+          ? { key: field.name, type: 'file', src: field.value, ...(field.contentType ? { contentType: field.contentType } : {}) }
+          : {
+            key: field.name,
+            type: 'text',
+            value: field.isFileContent ? fileContentPlaceholder(field.value) : field.value,
+            ...(field.contentType ? { contentType: field.contentType } : {})
+          })
+      };
+    case RequestBodyKind.FILE:
+      // 只有一个文件时以文件作为请求体，否则按片段拼出请求体，文件内容以占位符代替
+      return isSingleFile(body.parts)
+        ? { mode: 'file', file: { src: body.parts[0].file } }
+        : { mode: 'raw', raw: fileBodyText(body.parts) };
+    case RequestBodyKind.RAW:
+      return { mode: 'raw', raw: body.content };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 生成 Postman Collection v2.1
+ * 每个主机一个文件夹，请求URL以集合变量 {{baseUrl}} 开头，查询参数保留原始编码
+ */
+export function buildPostmanCollection(requests: ExportableRequest[], name: string): PostmanCollection {
+  const groups = groupByHost(requests);
+  const variables: { key: string; value: string }[] = [];
+
+  const folders = groups.map((group): PostmanFolder => {
+    const variable = group.origin ? postmanVariableName(group, groups) : '';
+    if (variable) {
+      variables.push({ key: variable, value: group.origin });
+    }
+
+    const items = group.requests.map(({ name, model, path, search }): PostmanItem => {
+      const host = variable ? `{{${variable}}}` : '';
+      const url = variable
+        ? {
+          raw: host + path + search,
+          host: [host],
+          path: path.split('/').filter(segment => segment),
+          ...(search ? { query: splitQuery(search, false).map(({ name, value }) => ({ key: name, value })) } : {})
+        }
+        : { raw: model.url };
+      const body = postmanBody(model);
+      const description = missingFilesDescription(model);
+
+      return {
+        name,
+        request: {
+          method: model.method,
+          header: headerList(model).map(({ name, value }) => ({ key: name, value })),
+          url,
+          ...(body ? { body } : {}),
+          ...(description ? { description } : {})
+        }
+      };
+    });
+
+    return { name: group.host || '其他', item: items };
+  });
+
+  return {
+    info: { name, schema: POSTMAN_SCHEMA },
+    item: folders,
+    variable: variables
+  };
+}
+
+/**
+ * 生成 Insomnia 请求体
+ */
+function insomniaBody(model: RequestModel): Record<string, unknown> {
+  const body = model.body;
+  switch (body.kind) {
+    case RequestBodyKind.JSON:
+      return { mimeType: 'application/json', text: JSON.stringify(body.value, null, 2) };
+    case RequestBodyKind.FORM:
+      return {
+        mimeType: 'application/x-www-form-urlencoded',
+        params: Object.entries(body.fields).map(([name, value]) => ({ name, value }))
+      };
+    case RequestBodyKind.MULTIPART:
+      return {
+        mimeType: 'multipart/form-data',
+        params: body.fields.map(field => field.isFile
+          ? { name: field.name, value: '', type: 'file', fileName: field.value }
+          : { name: field.name, value: field.isFileContent ? fileContentPlaceholder(field.value) : field.value })
+      };
+    case RequestBodyKind.FILE:
+      return isSingleFile(body.parts)
+        ? { mimeType: findHeader(model.headers, 'content-type') || '', fileName: body.parts[0].file }
+        : { mimeType: findHeader(model.headers, 'content-type') || '', text: fileBodyText(body.parts) };
+    case RequestBodyKind.RAW:
+      return { mimeType: findHeader(model.headers, 'content-type') || '', text: body.content };
+    default:
+      return {};
+  }
+}
+
+/**
+ * 生成 Insomnia 资源ID，同一次导出内唯一，不同导出之间不会相互覆盖
+ */
+function createIdFactory(): (type: string) => string {
+  const seed = Math.random().toString(16).slice(2, 10).padEnd(8, '0');
+  let count = 0;
+  return type => `${type}_${seed}${(++count).toString(16).padStart(4, '0')}`;
+}
+
+/**
+ * 生成 Insomnia v4 导入文件
+ * 每个主机一个文件夹，文件夹环境中的 base_url 为该主机的地址，请求URL为 {{ _.base_url }}/路径
+ */
+export function buildInsomniaExport(requests: ExportableRequest[], name: string): InsomniaExport {
+  const createId = createIdFactory();
+  const workspaceId = createId('wrk');
+  const resources: InsomniaResource[] = [
+    { _id: workspaceId, _type: 'workspace', parentId: null, name, description: '', scope: 'collection' }
+  ];
+
+  groupByHost(requests).forEach(group => {
+    const folderId = createId('fld');
+    resources.push({
+      _id: folderId,
+      _type: 'request_group',
+      parentId: workspaceId,
+      name: group.host || '其他',
+      environment: group.origin ? { [INSOMNIA_BASE_URL_VARIABLE]: group.origin } : {}
+    });
+
+    group.requests.forEach(({ name, model, path, search }) => {
+      resources.push({
+        _id: createId('req'),
+        _type: 'request',
+        parentId: folderId,
+        name,
+        method: model.method,
+        url: group.origin ? `{{ _.${INSOMNIA_BASE_URL_VARIABLE} }}${path}` : model.url,
+        parameters: group.origin ? splitQuery(search, true) : [],
+        headers: headerList(model),
+        body: insomniaBody(model),
+        description: missingFilesDescription(model) ?? '',
+        authentication: {}
+      });
+    });
+  });
+
+  return {
+    _type: 'export',
+    __export_format: 4,
+    __export_date: new Date().toISOString(),
+    __export_source: 'curl-filter',
+    resources
+  };
+}
+
+/**
+ * 按格式生成导入文件的内容和文件名
+ */
+export function exportCollection(requests: ExportableRequest[], format: CollectionFormat, name: string): { content: string; filename: string } {
+  if (format === CollectionFormat.POSTMAN) {
+    return {
+      content: JSON.stringify(buildPostmanCollection(requests, name), null, 2),
+      filename: `${name}.postman_collection.json`
+    };
+  }
+
+  return {
+    content: JSON.stringify(buildInsomniaExport(requests, name), null, 2),
+    filename: `${name}.insomnia.json`
+  };
+}
+
+/**
+ * 把历史记录中过滤后的命令转换为要导出的请求，无法解析的记录会被跳过
+ */
+export function historyEntriesToRequests(entries: HistoryEntry[]): ExportableRequest[] {
+  const requests: ExportableRequest[] = [];
+
+  entries.forEach(entry => {
+    try {
+      const parsed = parseCurl(entry.outputCurl);
+      if (parsed.url) {
+        requests.push({ name: entry.title, parsed });
+      }
+    } catch (error) {
+      console.warn('历史记录解析失败:', error);
+    }
+  });
+
+  return requests;
+}
@@ -0,0 +1,48 @@
+// Cookie 字符串解析与序列化
+
+/**
+ * 解析 Cookie 字符串（如 "a=1; b=2"），重名时保留最后一个值
+ */
+export function parseCookieString(cookieString: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  cookieString.split(';').forEach(pair => {
+    const equalIndex = pair.indexOf('=');
+    if (equalIndex < 0) return;
+
+    const name = pair.substring(0, equalIndex).trim();
+    if (name) {
+      cookies[name] = pair.substring(equalIndex + 1).trim();
+    }
+  });
+
+  return cookies;
+}
+
+/**
+ * 将 cookies 序列化为 Cookie 请求头的值
+ */
+export function serializeCookies(cookies: Record<string, string>): string {
+  return Object.entries(cookies)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('; ');
+}
+
+/**
+ * 判断 -b/--cookie 的参数是否为 Cookie 字符串（否则为 cookie 文件）
+ */
+export function isCookieString(value: string): boolean {
+  return value.includes('=');
+}
+
+/**
+ * 取得不在 Cookie 请求头中发送的 Cookie：有 Cookie 请求头时为 -b/--cookie 中的 Cookie，否则为全部 Cookie
+ */
+export function getCookiesOutsideHeader(
+  headers: Record<string, string>,
+  cookies: Record<string, string>,
+  optionCookies: Record<string, string>
+): Record<string, string> {
+  const hasCookieHeader = Object.keys(headers).some(key => key.toLowerCase() === 'cookie');
+  return hasCookieHeader ? optionCookies : cookies;
+}
@@ -0,0 +1,187 @@
+// 根据（过滤后的）解析结果重新生成cURL命令
+
+import type { ParsedCurl, CurlDataPart } from './curlParser';
+import {
+  parseQueryParams,
+  parseRequestBody,
+  formatMultipartField,
+  curlEscape
+} from './curlParser';
+import { quoteShellArg } from './shellLexer';
+import { getCookiesOutsideHeader, serializeCookies } from './cookies';
+import { formatCurlOption } from './curlOptions';
+import { formatAuthArgs } from './auth';
+import { AuthSource } from '../types/filterRules';
+
+/**
+ * 比较两个值序列化后是否相同
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 将键值对编码为 application/x-www-form-urlencoded 字符串
+ */
+function encodeFormData(data: Record<string, string>): string {
+  return Object.entries(data)
+    .map(([key, value]) => `${curlEscape(key)}=${curlEscape(value)}`)
+    .join('&');
+}
+
+/**
+ * 生成请求URL：查询参数未被修改时保留原始URL，否则按过滤后的参数重建
+ */
+export function buildRequestUrl(parsed: ParsedCurl): string {
+  let originalParams: Record<string, string> = {};
+  try {
+    originalParams = parseQueryParams(parsed.url);
+  } catch {
+    return parsed.url;
+  }
+
+  if (isSameValue(originalParams, parsed.queryParams)) {
+    return parsed.url;
+  }
+
+  // curl 不会发送片段标识，重建时去掉查询字符串和片段
+  const base = parsed.url.split('#')[0].split('?')[0];
+  const queryString = encodeFormData(parsed.queryParams);
+
+  return queryString ? `${base}?${queryString}` : base;
+}
+
+/**
+ * 将原始数据参数还原为命令行参数
+ * --json 会改写为 --data-raw/--data-binary，使请求头完全由 -H 决定
+ */
+function formatDataPart(part: CurlDataPart): string[] {
+  if (part.option === '--json') {
+    return part.fileRef !== undefined ? ['--data-binary', part.value] : ['--data-raw', part.value];
+  }
+  return [part.option, part.value];
+}
+
+/**
+ * 判断请求体是否未被规则修改
+ * 引用文件的数据无法解析，也就无法过滤，同样视为未修改
+ */
+function isBodyUnchanged(parsed: ParsedCurl): boolean {
+  if (parsed.dataParts.some(part => part.fileRef !== undefined)) {
+    return true;
+  }
+  const original = parseRequestBody(parsed.data || '', parsed.headers['content-type'] || '');
+  return isSameValue(original.jsonBody, parsed.jsonBody) && isSameValue(original.formData, parsed.formData);
+}
+
+/**
+ * 生成请求体参数
+ * 请求体未被规则修改时原样输出原始的数据参数，否则按过滤后的内容重新序列化
+ */
+export function buildDataArgs(parsed: ParsedCurl): string[] {
+  const parts: CurlDataPart[] = parsed.dataParts.length > 0
+    ? parsed.dataParts
+    : parsed.data !== undefined
+      ? [{ option: '--data-raw', value: parsed.data, content: parsed.data }]
+      : [];
+
+  if (parts.length === 0) {
+    return [];
+  }
+
+  if (isBodyUnchanged(parsed)) {
+    return parts.flatMap(formatDataPart);
+  }
+
+  if (parsed.jsonBody !== null && parsed.jsonBody !== undefined) {
+    return ['--data-raw', JSON.stringify(parsed.jsonBody)];
+  }
+
+  const formString = encodeFormData(parsed.formData);
+  return formString ? ['--data-raw', formString] : [];
+}
+
+/**
+ * 生成实际发送的请求体内容（不含multipart字段），没有请求体时返回 undefined
+ * 与 buildDataArgs 的判断一致：请求体未被修改时保留原始内容，否则按过滤后的内容重新序列化
+ */
+export function buildRequestBody(parsed: ParsedCurl): string | undefined {
+  if (parsed.data === undefined) {
+    return undefined;
+  }
+
+  if (isBodyUnchanged(parsed)) {
+    return parsed.data;
+  }
+
+  if (parsed.jsonBody !== null && parsed.jsonBody !== undefined) {
+    return JSON.stringify(parsed.jsonBody);
+  }
+
+  return encodeFormData(parsed.formData) || undefined;
+}
+
+/**
+ * 命令中的一组参数：选项及其值，URL单独一组
+ */
+export interface CurlArgGroup {
+  kind: 'method' | 'header' | 'cookie' | 'auth' | 'data' | 'form' | 'option' | 'url';
+  args: string[];
+}
+
+/**
+ * 按输出顺序生成命令参数（不含命令名 curl）
+ */
+export function buildCurlArgGroups(parsed: ParsedCurl): CurlArgGroup[] {
+  const groups: CurlArgGroup[] = [];
+
+  // 添加方法
+  if (parsed.method !== 'GET') {
+    groups.push({ kind: 'method', args: ['-X', parsed.method] });
+  }
+
+  // 添加请求头
+  Object.entries(parsed.headers).forEach(([key, value]) => {
+    groups.push({ kind: 'header', args: ['-H', `${key}: ${value}`] });
+  });
+
+  // 添加Cookie：有Cookie请求头时其中的Cookie已包含在请求头中，-b 中的Cookie仍用 -b 发送
+  const extraCookies = getCookiesOutsideHeader(parsed.headers, parsed.cookies, parsed.optionCookies);
+  if (Object.keys(extraCookies).length > 0) {
+    groups.push({ kind: 'cookie', args: ['-b', serializeCookies(extraCookies)] });
+  }
+
+  // 添加认证信息：来自 Authorization 请求头时已包含在请求头中
+  if (parsed.auth && parsed.auth.source === AuthSource.OPTION) {
+    groups.push({ kind: 'auth', args: formatAuthArgs(parsed.auth) });
+  }
+
+  // 添加请求体数据，每个数据选项都带一个参数值
+  const dataArgs = buildDataArgs(parsed);
+  for (let i = 0; i < dataArgs.length; i += 2) {
+    groups.push({ kind: 'data', args: dataArgs.slice(i, i + 2) });
+  }
+
+  // 添加multipart表单字段
+  parsed.multipartData.forEach(field => {
+    groups.push({ kind: 'form', args: formatMultipartField(field) });
+  });
+
+  // 添加其他curl选项
+  parsed.options.forEach(option => {
+    groups.push({ kind: 'option', args: formatCurlOption(option) });
+  });
+
+  // 添加URL
+  groups.push({ kind: 'url', args: [buildRequestUrl(parsed)] });
+
+  return groups;
+}
+
+/**
+ * 从过滤上下文构建cURL命令
+ */
+export function buildCurlFromContext(parsed: ParsedCurl): string {
+  const args = ['curl', ...buildCurlArgGroups(parsed).flatMap(group => group.args)];
+  return args.map(quoteShellArg).join(' ');
+}
@@ -0,0 +1,183 @@
+// 按可配置的风格输出cURL命令：多行续行、引号风格、长短选项名、请求头排序、JSON美化、认证写法和目标shell
+// 任何选项组合的输出重新解析后都与 buildCurlFromContext 的输出得到相同的请求
+
+import type { ParsedCurl } from './curlParser';
+import { buildCurlArgGroups, type CurlArgGroup } from './curlBuilder';
+import { quoteShellArg, quoteShellArgDouble } from './shellLexer';
+import { findCurlOption } from './curlOptions';
+import { applyAuthStyle, AuthStyle } from './auth';
+
+/**
+ * 目标shell
+ */
+export const ShellTarget = {
+  BASH: 'bash',
+  ZSH: 'zsh',
+  CMD: 'cmd',               // Windows cmd，与 Chrome "Copy as cURL (cmd)" 相同的 ^ 转义
+  POWERSHELL: 'powershell'  // PowerShell 中调用 curl.exe
+} as const;
+
+export type ShellTarget = typeof ShellTarget[keyof typeof ShellTarget];
+
+/**
+ * 引号风格
+ */
+export const QuoteStyle = {
+  SINGLE: 'single',
+  DOUBLE: 'double'
+} as const;
+
+export type QuoteStyle = typeof QuoteStyle[keyof typeof QuoteStyle];
+
+/**
+ * 请求头顺序
+ */
+export const HeaderOrder = {
+  ORIGINAL: 'original',         // 原始命令中的顺序
+  ALPHABETICAL: 'alphabetical'  // 按请求头名称排序
+} as const;
+
+export type HeaderOrder = typeof HeaderOrder[keyof typeof HeaderOrder];
+
+/**
+ * 格式化选项
+ */
+export interface CurlFormatOptions {
+  multiline: boolean;       // 每个选项一行，行尾使用续行符
+  quoteStyle: QuoteStyle;   // 引号风格，cmd 只能使用双引号，忽略此项
+  longFlags: boolean;       // 使用长选项名，如 --header 代替 -H
+  headerOrder: HeaderOrder;
+  prettyJson: boolean;      // JSON请求体缩进两个空格
+  authStyle: AuthStyle;     // 认证信息写成 -u/--oauth2-bearer 还是 Authorization 请求头
+  shell: ShellTarget;
+}
+
+export const DEFAULT_FORMAT_OPTIONS: CurlFormatOptions = {
+  multiline: false,
+  quoteStyle: QuoteStyle.SINGLE,
+  longFlags: false,
+  headerOrder: HeaderOrder.ORIGINAL,
+  prettyJson: false,
+  authStyle: AuthStyle.ORIGINAL,
+  shell: ShellTarget.BASH
+};
+
+// 各shell的续行符（包含换行和下一行的缩进）
+const LINE_CONTINUATIONS: Record<ShellTarget, string> = {
+  [ShellTarget.BASH]: ' \\\n  ',
+  [ShellTarget.ZSH]: ' \\\n  ',
+  [ShellTarget.CMD]: ' ^\n  ',
+  [ShellTarget.POWERSHELL]: ' `\n  '
+};
+
+/**
+ * 按 cmd 的规则转义参数
+ *
+ * 先按 Windows C 运行库的规则加双引号（引号前和末尾的反斜杠加倍，引号写作 \"），
+ * 再用 ^ 转义全部特殊字符，包括外层的引号，这样 cmd 始终不会进入引号状态；
+ * % 后面的 ^ 用于阻止变量展开，字面换行写作 ^ 加两个换行。
+ */
+function quoteCmdArg(value: string): string {
+  const quoted = '"' + value.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\+)$/, '$1$1') + '"';
+  return quoted
+    .replace(/[^A-Za-z0-9 \t\n_\-:=+~'/.,?;*`\\]/g, '^$&')
+    .replace(/%(?=[A-Za-z0-9_])/g, '%^')
+    .replace(/\n/g, '^\n\n');
+}
+
+/**
+ * 按 PowerShell 的规则给参数加引号
+ * PowerShell 把弯引号也当作引号，需要一并转义。
+ * 注意 PowerShell 7.3 之前向原生命令传参时不会转义参数中的双引号，含双引号的参数需要 7.3 及以上版本。
+ */
+function quotePowerShellArg(value: string, quoteStyle: QuoteStyle): string {
+  if (quoteStyle === QuoteStyle.SINGLE) {
+    return `'${value.replace(/['‘’‚‛]/g, '$&$&')}'`;
+  }
+  return `"${value.replace(/[`$"“”„]/g, '`$&')}"`;
+}
+
+/**
+ * 给参数值加引号
+ */
+function quoteValue(value: string, options: CurlFormatOptions): string {
+  switch (options.shell) {
+    case ShellTarget.CMD:
+      return quoteCmdArg(value);
+    case ShellTarget.POWERSHELL:
+      return quotePowerShellArg(value, options.quoteStyle);
+    default: {
+      const quoted = options.quoteStyle === QuoteStyle.DOUBLE ? quoteShellArgDouble(value) : quoteShellArg(value);
+      // zsh 会把以 = 开头的单词展开为命令路径
+      if (options.shell === ShellTarget.ZSH && quoted === value && value.startsWith('=')) {
+        return options.quoteStyle === QuoteStyle.DOUBLE ? `"${value}"` : `'${value}'`;
+      }
+      return quoted;
+    }
+  }
+}
+
+/**
+ * 获取请求头参数中的名称
+ */
+function headerName(group: CurlArgGroup): string {
+  return group.args[1].split(':')[0].trim().toLowerCase();
+}
+
+/**
+ * 按选项调整参数：认证写法、请求头排序、JSON请求体美化
+ */
+function arrangeGroups(parsed: ParsedCurl, options: CurlFormatOptions): CurlArgGroup[] {
+  let groups = buildCurlArgGroups(applyAuthStyle(parsed, options.authStyle));
+
+  if (options.headerOrder === HeaderOrder.ALPHABETICAL) {
+    const sorted = groups
+      .filter(group => group.kind === 'header')
+      .sort((a, b) => headerName(a) < headerName(b) ? -1 : headerName(a) > headerName(b) ? 1 : 0);
+    groups = groups.map(group => group.kind === 'header' ? sorted.shift() ?? group : group);
+  }
+
+  // 引用文件的请求体无法改写
+  const canPrettify = parsed.jsonBody !== null && typeof parsed.jsonBody === 'object'
+    && !parsed.dataParts.some(part => part.fileRef !== undefined);
+  if (options.prettyJson && canPrettify) {
+    const index = groups.findIndex(group => group.kind === 'data');
+    if (index >= 0) {
+      const body: CurlArgGroup = { kind: 'data', args: ['--data-raw', JSON.stringify(parsed.jsonBody, null, 2)] };
+      groups = groups.filter(group => group.kind !== 'data');
+      groups.splice(index, 0, body);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * 按指定风格输出cURL命令
+ * 多行格式中URL紧跟在命令名之后，其余选项各占一行
+ */
+export function formatCurl(parsed: ParsedCurl, formatOptions: Partial<CurlFormatOptions> = {}): string {
+  const options: CurlFormatOptions = { ...DEFAULT_FORMAT_OPTIONS, ...formatOptions };
+  const groups = arrangeGroups(parsed, options);
+
+  // 已知的选项名不需要引号；cmd 和 PowerShell 中的参数值全部加引号
+  const parts = groups.map(group => group.args.map((arg, index) => {
+    if (index === 0 && group.kind !== 'url') {
+      const spec = findCurlOption(arg);
+      if (!spec) {
+        return quoteValue(arg, options);
+      }
+      return options.longFlags ? spec.name : arg;
+    }
+    return quoteValue(arg, options);
+  }).join(' '));
+
+  const command = options.shell === ShellTarget.POWERSHELL ? 'curl.exe' : 'curl';
+  if (!options.multiline) {
+    return [command, ...parts].join(' ');
+  }
+
+  const urlIndex = groups.findIndex(group => group.kind === 'url');
+  const [url] = parts.splice(urlIndex, 1);
+  return `${command} ${url}` + parts.map(part => LINE_CONTINUATIONS[options.shell] + part).join('');
+}
@@ -0,0 +1,323 @@
+// curl 命令行选项目录：选项名、短选项名和是否带参数
+// 目录也包含请求方法、请求头、请求体等由解析器单独处理的选项，用于识别参数个数和长选项名；其余选项解析为 CurlOption
+
+import type { CurlOption } from '../types/filterRules';
+
+/**
+ * 选项目录中的一项
+ */
+export interface CurlOptionSpec {
+  name: string;       // 长选项名
+  short?: string;     // 短选项名
+  hasValue: boolean;  // 是否带一个参数
+}
+
+// 不带参数的选项：[长选项名, 短选项名]
+const FLAG_OPTIONS: Array<[string, string?]> = [
+  ['--get', '-G'],
+  ['--http1.0', '-0'],
+  ['--http1.1'],
+  ['--http2'],
+  ['--http2-prior-knowledge'],
+  ['--http3'],
+  ['--http3-only'],
+  ['--http0.9'],
+  ['--tlsv1', '-1'],
+  ['--tlsv1.0'],
+  ['--tlsv1.1'],
+  ['--tlsv1.2'],
+  ['--tlsv1.3'],
+  ['--sslv2', '-2'],
+  ['--sslv3', '-3'],
+  ['--ipv4', '-4'],
+  ['--ipv6', '-6'],
+  ['--progress-bar', '-#'],
+  ['--append', '-a'],
+  ['--use-ascii', '-B'],
+  ['--anyauth'],
+  ['--basic'],
+  ['--digest'],
+  ['--ntlm'],
+  ['--ntlm-wb'],
+  ['--negotiate'],
+  ['--compressed'],
+  ['--compressed-ssh'],
+  ['--create-dirs'],
+  ['--crlf'],
+  ['--disable', '-q'],
+  ['--disable-eprt'],
+  ['--disable-epsv'],
+  ['--disallow-username-in-url'],
+  ['--fail', '-f'],
+  ['--fail-early'],
+  ['--fail-with-body'],
+  ['--false-start'],
+  ['--form-escape'],
+  ['--ftp-create-dirs'],
+  ['--ftp-pasv'],
+  ['--ftp-skip-pasv-ip'],
+  ['--ftp-ssl-ccc'],
+  ['--globoff', '-g'],
+  ['--haproxy-protocol'],
+  ['--head', '-I'],
+  ['--help', '-h'],
+  ['--ignore-content-length'],
+  ['--include', '-i'],
+  ['--insecure', '-k'],
+  ['--junk-session-cookies', '-j'],
+  ['--list-only', '-l'],
+  ['--location', '-L'],
+  ['--location-trusted'],
+  ['--manual', '-M'],
+  ['--netrc', '-n'],
+  ['--netrc-optional'],
+  ['--no-alpn'],
+  ['--no-buffer', '-N'],
+  ['--no-keepalive'],
+  ['--no-npn'],
+  ['--no-progress-meter'],
+  ['--no-sessionid'],
+  ['--parallel', '-Z'],
+  ['--parallel-immediate'],
+  ['--path-as-is'],
+  ['--post301'],
+  ['--post302'],
+  ['--post303'],
+  ['--proxy-anyauth'],
+  ['--proxy-basic'],
+  ['--proxy-digest'],
+  ['--proxy-insecure'],
+  ['--proxy-negotiate'],
+  ['--proxy-ntlm'],
+  ['--proxytunnel', '-p'],
+  ['--raw'],
+  ['--remote-header-name', '-J'],
+  ['--remote-name', '-O'],
+  ['--remote-name-all'],
+  ['--remote-time', '-R'],
+  ['--remove-on-error'],
+  ['--retry-all-errors'],
+  ['--retry-connrefused'],
+  ['--sasl-ir'],
+  ['--show-error', '-S'],
+  ['--silent', '-s'],
+  ['--ssl'],
+  ['--ssl-allow-beast'],
+  ['--ssl-no-revoke'],
+  ['--ssl-reqd'],
+  ['--cert-status'],
+  ['--doh-insecure'],
+  ['--styled-output'],
+  ['--suppress-connect-headers'],
+  ['--tcp-fastopen'],
+  ['--tcp-nodelay'],
+  ['--tr-encoding'],
+  ['--trace-time'],
+  ['--verbose', '-v'],
+  ['--version', '-V'],
+  ['--xattr']
+];
+
+// 带一个参数的选项：[长选项名, 短选项名]
+const VALUE_OPTIONS: Array<[string, string?]> = [
+  ['--request', '-X'],
+  ['--header', '-H'],
+  ['--data', '-d'],
+  ['--data-ascii'],
+  ['--data-binary'],
+  ['--data-raw'],
+  ['--data-urlencode'],
+  ['--json'],
+  ['--form', '-F'],
+  ['--form-string'],
+  ['--cookie', '-b'],
+  ['--url'],
+  ['--user', '-u'],
+  ['--user-agent', '-A'],
+  ['--referer', '-e'],
+  ['--oauth2-bearer'],
+  ['--aws-sigv4'],
+  ['--proxy', '-x'],
+  ['--proxy-user', '-U'],
+  ['--proxy-header'],
+  ['--proxy-cacert'],
+  ['--proxy-cert'],
+  ['--proxy-key'],
+  ['--preproxy'],
+  ['--noproxy'],
+  ['--socks4'],
+  ['--socks4a'],
+  ['--socks5'],
+  ['--socks5-hostname'],
+  ['--max-time', '-m'],
+  ['--connect-timeout'],
+  ['--expect100-timeout'],
+  ['--happy-eyeballs-timeout-ms'],
+  ['--keepalive-time'],
+  ['--retry'],
+  ['--retry-delay'],
+  ['--retry-max-time'],
+  ['--max-redirs'],
+  ['--max-filesize'],
+  ['--limit-rate'],
+  ['--speed-limit', '-Y'],
+  ['--speed-time', '-y'],
+  ['--rate'],
+  ['--parallel-max'],
+  ['--output', '-o'],
+  ['--output-dir'],
+  ['--dump-header', '-D'],
+  ['--cookie-jar', '-c'],
+  ['--write-out', '-w'],
+  ['--stderr'],
+  ['--trace'],
+  ['--trace-ascii'],
+  ['--config', '-K'],
+  ['--netrc-file'],
+  ['--cert', '-E'],
+  ['--cert-type'],
+  ['--key'],
+  ['--key-type'],
+  ['--pass'],
+  ['--cacert'],
+  ['--capath'],
+  ['--crlfile'],
+  ['--ciphers'],
+  ['--tls13-ciphers'],
+  ['--tls-max'],
+  ['--curves'],
+  ['--pinnedpubkey'],
+  ['--resolve'],
+  ['--connect-to'],
+  ['--interface'],
+  ['--local-port'],
+  ['--dns-servers'],
+  ['--doh-url'],
+  ['--unix-socket'],
+  ['--abstract-unix-socket'],
+  ['--hsts'],
+  ['--alt-svc'],
+  ['--range', '-r'],
+  ['--continue-at', '-C'],
+  ['--upload-file', '-T'],
+  ['--time-cond', '-z'],
+  ['--url-query'],
+  ['--request-target'],
+  ['--variable'],
+  ['--proto'],
+  ['--proto-default'],
+  ['--proto-redir'],
+  ['--login-options'],
+  ['--sasl-authzid'],
+  ['--service-name'],
+  ['--delegation'],
+  ['--krb'],
+  ['--mail-from'],
+  ['--mail-rcpt'],
+  ['--mail-auth'],
+  ['--quote', '-Q'],
+  ['--ftp-port', '-P'],
+  ['--ftp-method'],
+  ['--ftp-account'],
+  ['--ftp-alternative-to-user'],
+  ['--telnet-option', '-t'],
+  ['--tftp-blksize']
+];
+
+/**
+ * 全部已知的curl选项
+ */
+export const CURL_OPTIONS: CurlOptionSpec[] = [
+  ...FLAG_OPTIONS.map(([name, short]) => ({ name, short, hasValue: false })),
+  ...VALUE_OPTIONS.map(([name, short]) => ({ name, short, hasValue: true }))
+];
+
+const OPTIONS_BY_FLAG = new Map<string, CurlOptionSpec>();
+CURL_OPTIONS.forEach(spec => {
+  OPTIONS_BY_FLAG.set(spec.name, spec);
+  if (spec.short) {
+    OPTIONS_BY_FLAG.set(spec.short, spec);
+  }
+});
+
+/**
+ * 按长选项名或短选项名查找选项
+ * 不带参数的选项可以加 --no- 前缀关闭（如 --no-location），返回的选项名保留前缀
+ */
+export function findCurlOption(flag: string): CurlOptionSpec | undefined {
+  const spec = OPTIONS_BY_FLAG.get(flag);
+  if (spec) {
+    return spec;
+  }
+
+  if (flag.startsWith('--no-')) {
+    const negated = OPTIONS_BY_FLAG.get('--' + flag.substring(5));
+    if (negated && !negated.hasValue) {
+      return { name: flag, hasValue: false };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 展开合并写法的短选项：-sSL 展开为 -s -S -L，-XPOST 展开为 -X POST
+ * 带参数的选项后面的参数不会被展开；含有未知字母的参数保持原样
+ */
+export function expandShortOptions(tokens: string[]): string[] {
+  const expanded: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const spec = findCurlOption(token);
+
+    // 带参数的选项，原样保留下一个参数
+    if (spec?.hasValue) {
+      expanded.push(token);
+      if (i + 1 < tokens.length) {
+        expanded.push(tokens[++i]);
+      }
+      continue;
+    }
+
+    if (spec || !/^-[^-]./.test(token)) {
+      expanded.push(token);
+      continue;
+    }
+
+    const parts: string[] = [];
+    for (let j = 1; j < token.length; j++) {
+      const letter = findCurlOption('-' + token[j]);
+      if (!letter) {
+        parts.length = 0;
+        break;
+      }
+      parts.push('-' + token[j]);
+      if (letter.hasValue) {
+        if (j + 1 < token.length) {
+          parts.push(token.substring(j + 1));
+        } else if (i + 1 < tokens.length) {
+          parts.push(tokens[++i]);
+        }
+        break;
+      }
+    }
+    expanded.push(...(parts.length > 0 ? parts : [token]));
+  }
+
+  return expanded;
+}
+
+/**
+ * 把选项转换为命令行参数
+ */
+export function formatCurlOption(option: CurlOption): string[] {
+  return option.value !== undefined ? [option.flag, option.value] : [option.flag];
+}
+
+/**
+ * 把选项列表转换为命令行参数
+ */
+export function curlOptionsToArgs(options: CurlOption[]): string[] {
+  return options.flatMap(formatCurlOption);
+}
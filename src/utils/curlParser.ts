@@ -1,5 +1,13 @@
 // cURL命令解析和过滤工具
 
+import { splitShellArgs, splitCmdArgs } from './shellLexer';
+import { isPowerShellCommand, parsePowerShell, splitPowerShellArgs } from './powershellParser';
+import { isRawHttpRequest, parseRawHttp } from './rawHttpParser';
+import { parseCookieString, isCookieString } from './cookies';
+import { findCurlOption, expandShortOptions, curlOptionsToArgs } from './curlOptions';
+import { extractAuth } from './auth';
+import type { MultipartField, CurlOption, CurlAuth } from '../types/filterRules';
+
 export interface ParsedCurl {
   url: string;
   method: string;
@@ -7,10 +15,39 @@ export interface ParsedCurl {
   queryParams: Record<string, string>;
   formData: Record<string, string>;
   jsonBody: any;
-  data?: string; // 原始数据，保持向后兼容
-  otherOptions: string[];
+  data?: string; // 原始数据，保持向后兼容（多个数据参数按 curl 规则拼接后的结果）
+  dataParts: CurlDataPart[]; // 命令行中的各个数据参数（-d、--data-binary、--json 等）
+  multipartData: MultipartField[]; // multipart表单字段（-F/--form）
+  cookies: Record<string, string>; // Cookie请求头和 -b/--cookie 中的全部Cookie
+  optionCookies: Record<string, string>; // 其中来自 -b/--cookie 的Cookie，输出时不写入Cookie请求头
+  options: CurlOption[]; // 其他curl选项（--compressed、-k、--proxy 等）
+  otherOptions: string[]; // 其他curl选项的原始参数，保持向后兼容（与 options 一致）
+  auth: CurlAuth | null; // 认证信息（-u、--oauth2-bearer 或 Authorization 请求头）
 }
 
+/**
+ * 命令行中的一个请求体数据参数
+ */
+export interface CurlDataPart {
+  option: string;    // 选项名（如 -d、--data-binary、--data-urlencode、--json）
+  value: string;     // 命令行中的参数值
+  content: string;   // curl 实际发送的内容（--data-urlencode 已编码）；引用文件时为空
+  fileRef?: string;  // 引用的文件（@file），浏览器中无法读取其内容
+}
+
+/**
+ * 命令格式
+ */
+export const CommandDialect = {
+  BASH: 'bash',             // Chrome "Copy as cURL (bash)"
+  CMD: 'cmd',               // Chrome "Copy as cURL (cmd)"，使用 ^ 转义
+  POWERSHELL: 'powershell', // Chrome "Copy as PowerShell"，Invoke-WebRequest
+  POWERSHELL_CURL: 'powershell_curl', // PowerShell 中调用 curl.exe，使用 PowerShell 的引号和反引号续行
+  RAW_HTTP: 'raw_http'      // 原始HTTP请求文本，如 "POST /path HTTP/1.1"
+} as const;
+
+export type CommandDialect = typeof CommandDialect[keyof typeof CommandDialect];
+
 // 需要保留的认证相关请求头
 const AUTH_HEADERS = [
   'authorization',
@@ -36,7 +73,7 @@ const CONTENT_HEADERS = [
 /**
  * 解析URL中的查询参数
  */
-function parseQueryParams(url: string): Record<string, string> {
+export function parseQueryParams(url: string): Record<string, string> {
   const queryParams: Record<string, string> = {};
   const urlObj = new URL(url);
 
@@ -47,6 +84,18 @@ function parseQueryParams(url: string): Record<string, string> {
   return queryParams;
 }
 
+/**
+ * 解码表单中的一个片段（+ 表示空格），非法的百分号编码保持原样
+ */
+function decodeFormComponent(value: string): string {
+  const text = value.replace(/\+/g, ' ');
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
 /**
  * 解析表单数据
  */
@@ -58,15 +107,217 @@ function parseFormData(data: string): Record<string, string> {
   // 处理URL编码的表单数据
   const pairs = data.split('&');
   pairs.forEach(pair => {
-    const [key, value] = pair.split('=');
+    const equalIndex = pair.indexOf('=');
+    const key = equalIndex < 0 ? pair : pair.substring(0, equalIndex);
+    const value = equalIndex < 0 ? '' : pair.substring(equalIndex + 1);
     if (key) {
-      formData[decodeURIComponent(key)] = value ? decodeURIComponent(value) : '';
+      formData[decodeFormComponent(key)] = decodeFormComponent(value);
     }
   });
 
   return formData;
 }
 
+/**
+ * 按照 curl_easy_escape 的规则进行URL编码（只保留 RFC 3986 非保留字符）
+ */
+export function curlEscape(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char =>
+    '%' + char.charCodeAt(0).toString(16).toUpperCase()
+  );
+}
+
+// 请求体数据相关选项
+const DATA_OPTIONS = ['-d', '--data', '--data-ascii', '--data-binary', '--data-raw', '--data-urlencode', '--json'];
+
+/**
+ * 按照 curl 的语义解析一个数据参数
+ * -d/--data/--data-ascii/--data-binary/--json 中以 @ 开头的值表示读取文件，--data-raw 按字面处理
+ */
+function createDataPart(option: string, value: string): CurlDataPart {
+  if (option === '--data-raw') {
+    return { option, value, content: value };
+  }
+
+  if (option === '--data-urlencode') {
+    // 格式：content、=content、name=content、@file、name@file
+    const separatorIndex = value.search(/[=@]/);
+    if (separatorIndex < 0) {
+      return { option, value, content: curlEscape(value) };
+    }
+    const name = value.substring(0, separatorIndex);
+    const rest = value.substring(separatorIndex + 1);
+    if (value[separatorIndex] === '@') {
+      return { option, value, content: '', fileRef: rest };
+    }
+    return { option, value, content: name ? `${name}=${curlEscape(rest)}` : curlEscape(rest) };
+  }
+
+  if (value.startsWith('@')) {
+    return { option, value, content: '', fileRef: value.substring(1) };
+  }
+
+  return { option, value, content: value };
+}
+
+/**
+ * 按照 curl 的规则拼接多个数据参数：一般用 & 连接，连续的 --json 直接拼接
+ */
+export function joinDataParts(parts: CurlDataPart[]): string {
+  return parts.reduce((joined, part, index) => {
+    const content = part.fileRef !== undefined ? part.value : part.content;
+    if (index === 0) return content;
+    const separator = part.option === '--json' && parts[index - 1].option === '--json' ? '' : '&';
+    return joined + separator + content;
+  }, '');
+}
+
+/**
+ * 将数据参数应用到解析结果：设置请求体、--json 的默认请求头，以及 -G 时移入查询字符串
+ */
+function applyDataParts(result: ParsedCurl, useGet: boolean): void {
+  if (result.dataParts.length === 0) return;
+
+  if (result.dataParts.some(part => part.option === '--json')) {
+    if (!result.headers['content-type']) {
+      result.headers['content-type'] = 'application/json';
+    }
+    if (!result.headers['accept']) {
+      result.headers['accept'] = 'application/json';
+    }
+  }
+
+  const data = joinDataParts(result.dataParts);
+  const hasFileRef = result.dataParts.some(part => part.fileRef !== undefined);
+
+  // -G：数据追加到URL查询字符串（引用文件时无法展开，保留 -G 原样输出）
+  if (useGet) {
+    if (hasFileRef) {
+      result.options.push({ name: '--get', flag: '-G' });
+    } else if (result.url) {
+      const hashIndex = result.url.indexOf('#');
+      const base = hashIndex < 0 ? result.url : result.url.substring(0, hashIndex);
+      result.url = base + (base.includes('?') ? '&' : '?') + data;
+      result.dataParts = [];
+      return;
+    }
+  }
+
+  result.data = data;
+}
+
+// -F 参数中可识别的字段属性
+const MULTIPART_PARAMS = ['type', 'filename', 'headers', 'encoder'];
+
+/**
+ * 读取 -F 参数中的一个值，支持双引号包裹（可包含分号）
+ * 返回读取到的值和结束位置
+ */
+function readFormWord(input: string, start: number): { word: string; end: number } {
+  if (input[start] === '"') {
+    let word = '';
+    let i = start + 1;
+    while (i < input.length && input[i] !== '"') {
+      if (input[i] === '\\' && (input[i + 1] === '"' || input[i + 1] === '\\')) {
+        i++;
+      }
+      word += input[i];
+      i++;
+    }
+    return { word, end: Math.min(i + 1, input.length) };
+  }
+
+  let end = start;
+  while (end < input.length && input[end] !== ';') end++;
+  return { word: input.slice(start, end), end };
+}
+
+/**
+ * 解析 -F/--form 参数，如 name=value、file=@photo.jpg;type=image/jpeg;filename=a.jpg
+ * 未识别的 ;xxx 片段会作为文本值的一部分保留
+ */
+export function parseMultipartField(arg: string, isString = false): MultipartField | null {
+  const equalIndex = arg.indexOf('=');
+  if (equalIndex <= 0) return null;
+
+  const name = arg.substring(0, equalIndex);
+  const rest = arg.substring(equalIndex + 1);
+
+  // --form-string 的值按字面处理
+  if (isString) {
+    return { name, value: rest, isFile: false, isString: true };
+  }
+
+  const field: MultipartField = { name, value: '', isFile: false };
+  let contentStart = 0;
+  if (rest.startsWith('@')) {
+    field.isFile = true;
+    contentStart = 1;
+  } else if (rest.startsWith('<')) {
+    field.isFileContent = true;
+    contentStart = 1;
+  }
+
+  const { word, end } = readFormWord(rest, contentStart);
+  field.value = word;
+
+  let i = end;
+  while (i < rest.length && rest[i] === ';') {
+    const paramMatch = /^\s*([a-z]+)=/i.exec(rest.slice(i + 1));
+    const paramName = paramMatch?.[1].toLowerCase();
+
+    if (!paramMatch || !paramName || !MULTIPART_PARAMS.includes(paramName)) {
+      // 未识别的属性作为值的一部分
+      const next = rest.indexOf(';', i + 1);
+      const segmentEnd = next < 0 ? rest.length : next;
+      field.value += rest.slice(i, segmentEnd);
+      i = segmentEnd;
+      continue;
+    }
+
+    const { word: paramValue, end: paramEnd } = readFormWord(rest, i + 1 + paramMatch[0].length);
+    if (paramName === 'type') {
+      field.contentType = paramValue;
+    } else if (paramName === 'filename') {
+      field.filename = paramValue;
+    } else if (paramName === 'headers') {
+      field.headers = [...(field.headers || []), paramValue];
+    }
+    i = paramEnd;
+  }
+
+  return field;
+}
+
+/**
+ * 为 -F 参数中的值添加双引号（值包含分号、引号或首尾空白时）
+ */
+function quoteFormWord(word: string): string {
+  if (!/[;"]|^\s|\s$/.test(word)) return word;
+  return '"' + word.replace(/(["\\])/g, '\\$1') + '"';
+}
+
+/**
+ * 将multipart字段还原为 curl 参数，返回 [选项名, 参数值]
+ */
+export function formatMultipartField(field: MultipartField): [string, string] {
+  // 以 @ 或 < 开头的文本值需要用 --form-string 避免被当作文件
+  const needsFormString = !field.isFile && !field.isFileContent && /^[@<]/.test(field.value);
+  if (field.isString || needsFormString) {
+    return ['--form-string', `${field.name}=${field.value}`];
+  }
+
+  const prefix = field.isFile ? '@' : field.isFileContent ? '<' : '';
+  let arg = `${field.name}=${prefix}${quoteFormWord(field.value)}`;
+  if (field.contentType) arg += `;type=${quoteFormWord(field.contentType)}`;
+  if (field.filename) arg += `;filename=${quoteFormWord(field.filename)}`;
+  (field.headers || []).forEach(header => {
+    arg += `;headers=${quoteFormWord(header)}`;
+  });
+
+  return ['-F', arg];
+}
+
 /**
  * 尝试解析JSON数据
  */
@@ -81,75 +332,161 @@ function parseJsonBody(data: string): any {
 }
 
 /**
- * 解析cURL命令
+ * 检测命令格式
  */
-export function parseCurl(curlCommand: string): ParsedCurl {
-  const result: ParsedCurl = {
+export function detectCommandDialect(command: string): CommandDialect {
+  if (isRawHttpRequest(command)) {
+    return CommandDialect.RAW_HTTP;
+  }
+
+  if (isPowerShellCommand(command)) {
+    return CommandDialect.POWERSHELL;
+  }
+
+  // cmd 格式的特征：行尾 ^ 续行，或参数以 ^" 开头
+  if (/\s\^\r?\n/.test(command) || /(^|\s)\^"/.test(command)) {
+    return CommandDialect.CMD;
+  }
+
+  // PowerShell 中 curl 是 Invoke-WebRequest 的别名，需要写成 curl.exe
+  if (/^\s*(&\s*)?curl\.exe(\s|$)/i.test(command)) {
+    return CommandDialect.POWERSHELL_CURL;
+  }
+
+  return CommandDialect.BASH;
+}
+
+/**
+ * 判断输入是否为可解析的请求命令（cURL、PowerShell 或原始HTTP请求）
+ */
+export function isSupportedCommand(command: string): boolean {
+  const trimmed = command.trim();
+  if (/^(&\s*)?curl(\.exe)?(\s|$)/i.test(trimmed)) {
+    return true;
+  }
+  const dialect = detectCommandDialect(trimmed);
+  return dialect === CommandDialect.POWERSHELL || dialect === CommandDialect.RAW_HTTP;
+}
+
+/**
+ * 创建空的解析结果
+ */
+function createEmptyParsedCurl(): ParsedCurl {
+  return {
     url: '',
     method: 'GET',
     headers: {},
     queryParams: {},
     formData: {},
     jsonBody: null,
-    otherOptions: []
+    dataParts: [],
+    multipartData: [],
+    cookies: {},
+    optionCookies: {},
+    options: [],
+    otherOptions: [],
+    auth: null
   };
+}
 
-  // 移除多余的空格和换行符，处理反斜杠换行
-  const cleanCommand = curlCommand.replace(/\\\s*\n/g, ' ').replace(/\s+/g, ' ').trim();
-  
-  // 使用正则表达式来正确解析带引号的参数
-  const tokens = [];
-  let current = '';
-  let inQuotes = false;
-  let quoteChar = '';
-  
-  for (let i = 0; i < cleanCommand.length; i++) {
-    const char = cleanCommand[i];
-    
-    if (!inQuotes && (char === '"' || char === "'")) {
-      inQuotes = true;
-      quoteChar = char;
-      current += char;
-    } else if (inQuotes && char === quoteChar) {
-      inQuotes = false;
-      current += char;
-      quoteChar = '';
-    } else if (!inQuotes && char === ' ') {
-      if (current.trim()) {
-        tokens.push(current.trim());
-        current = '';
-      }
-    } else {
-      current += char;
-    }
+/**
+ * 解析cURL命令，自动识别 bash、cmd、PowerShell 和原始HTTP请求格式
+ */
+export function parseCurl(curlCommand: string): ParsedCurl {
+  const dialect = detectCommandDialect(curlCommand);
+
+  if (dialect === CommandDialect.POWERSHELL) {
+    return parsePowerShellCommand(curlCommand);
   }
-  
-  if (current.trim()) {
-    tokens.push(current.trim());
+
+  if (dialect === CommandDialect.RAW_HTTP) {
+    return parseRawHttpRequest(curlCommand);
   }
-  
+
+  // 按shell规则拆分参数，遇到管道、分号等控制操作符即停止
+  const tokens = dialect === CommandDialect.CMD
+    ? splitCmdArgs(curlCommand)
+    : dialect === CommandDialect.POWERSHELL_CURL
+      ? splitPowerShellArgs(curlCommand)
+      : splitShellArgs(curlCommand);
+
+  return parseCurlArgs(tokens);
+}
+
+/**
+ * 其他格式（PowerShell、原始HTTP、HAR）中提取出的请求
+ */
+export interface RequestSource {
+  url: string;
+  method: string;
+  headers: Record<string, string>;  // 键名需为小写
+  body?: string;
+  multipartData?: MultipartField[];
+}
+
+/**
+ * 从其他格式的请求创建解析结果，查询参数、Cookie和请求体按与cURL命令相同的规则填充
+ */
+export function createParsedRequest(source: RequestSource): ParsedCurl {
+  const result = createEmptyParsedCurl();
+
+  result.url = source.url;
+  result.method = source.method;
+  result.headers = source.headers;
+  result.data = source.body;
+  result.multipartData = source.multipartData || [];
+
+  return fillDerivedFields(result);
+}
+
+/**
+ * 解析PowerShell命令
+ */
+function parsePowerShellCommand(command: string): ParsedCurl {
+  return createParsedRequest(parsePowerShell(command));
+}
+
+/**
+ * 解析原始HTTP请求
+ */
+function parseRawHttpRequest(text: string): ParsedCurl {
+  return createParsedRequest(parseRawHttp(text));
+}
+
+/**
+ * 解析拆分后的cURL参数
+ */
+function parseCurlArgs(args: string[]): ParsedCurl {
+  const result = createEmptyParsedCurl();
+  const tokens = expandShortOptions(args);
+  let methodSpecified = false;
+  let useGet = false;
+
   // 解析tokens
   for (let i = 0; i < tokens.length; i++) {
     const token = tokens[i];
-    
-    if (token === 'curl') {
+
+    if (i === 0 && /^curl(\.exe)?$/i.test(token)) {
       continue;
     }
-    
+
     // 解析方法
     if (token === '-X' || token === '--request') {
       if (i + 1 < tokens.length) {
-        result.method = tokens[++i].replace(/["']/g, '');
+        result.method = tokens[++i];
+        methodSpecified = true;
       }
       continue;
     }
-    
-    // 解析请求头
+
+    // 解析请求头，-H @file 表示从文件读取请求头，作为选项原样保留
     if (token === '-H' || token === '--header') {
       if (i + 1 < tokens.length) {
-        const headerValue = tokens[++i].replace(/^["']|["']$/g, '');
+        const headerValue = tokens[++i];
         const colonIndex = headerValue.indexOf(':');
-        if (colonIndex > 0) {
+        if (headerValue.startsWith('@')) {
+          result.options.push({ name: '--header', flag: token, value: headerValue });
+        } else if (colonIndex > 0) {
           const key = headerValue.substring(0, colonIndex).trim();
           const value = headerValue.substring(colonIndex + 1).trim();
           result.headers[key.toLowerCase()] = value;
@@ -157,34 +494,89 @@ export function parseCurl(curlCommand: string): ParsedCurl {
       }
       continue;
     }
-    
+
     // 解析数据
-    if (token === '-d' || token === '--data' || token === '--data-raw') {
+    if (DATA_OPTIONS.includes(token)) {
+      if (i + 1 < tokens.length) {
+        result.dataParts.push(createDataPart(token, tokens[++i]));
+      }
+      continue;
+    }
+
+    if (token === '-G' || token === '--get') {
+      useGet = true;
+      continue;
+    }
+
+    // 解析Cookie，-b 的参数不含 = 时表示 cookie 文件
+    if (token === '-b' || token === '--cookie') {
       if (i + 1 < tokens.length) {
-        result.data = tokens[++i].replace(/^["']|["']$/g, '');
+        const value = tokens[++i];
+        if (isCookieString(value)) {
+          Object.assign(result.cookies, parseCookieString(value));
+          Object.assign(result.optionCookies, parseCookieString(value));
+        } else {
+          result.options.push({ name: '--cookie', flag: token, value });
+        }
+      }
+      continue;
+    }
+
+    // 解析multipart表单字段
+    if (token === '-F' || token === '--form' || token === '--form-string') {
+      if (i + 1 < tokens.length) {
+        const field = parseMultipartField(tokens[++i], token === '--form-string');
+        if (field) {
+          result.multipartData.push(field);
+        }
       }
       continue;
     }
-    
+
     // 解析URL
+    if (token === '--url') {
+      if (i + 1 < tokens.length) {
+        result.url = tokens[++i];
+      }
+      continue;
+    }
+
     if (token.startsWith('http://') || token.startsWith('https://')) {
-      result.url = token.replace(/^["']|["']$/g, '');
+      result.url = token;
       continue;
     }
-    
-    // 其他选项
+
+    // 其他选项：按选项目录读取参数；未知选项的下一个参数不是选项或URL时视为它的参数
     if (token.startsWith('-')) {
-      result.otherOptions.push(token);
-      // 如果下一个参数不是选项，也加入
-      if (i + 1 < tokens.length && !tokens[i + 1].startsWith('-') && !tokens[i + 1].startsWith('http')) {
-        result.otherOptions.push(tokens[++i]);
+      const spec = findCurlOption(token);
+      const hasValue = spec
+        ? spec.hasValue
+        : i + 1 < tokens.length && !tokens[i + 1].startsWith('-') && !tokens[i + 1].startsWith('http');
+      const option: CurlOption = { name: spec?.name ?? token, flag: token };
+      if (hasValue && i + 1 < tokens.length) {
+        option.value = tokens[++i];
       }
-    } else if (!token.startsWith('-') && !result.url && (token.includes('.') || token.includes('/'))) {
+      result.options.push(option);
+    } else if (!result.url && (token.includes('.') || token.includes('/'))) {
       // 如果没有找到URL，但这个token看起来像URL，就当作URL处理
-      result.url = token.replace(/^["']|["']$/g, '');
+      result.url = token;
     }
   }
 
+  applyDataParts(result, useGet);
+
+  // 未指定方法时，有请求体（-d 或 -F）curl 使用 POST，-G 使用 GET
+  if (!methodSpecified && !useGet && (result.dataParts.length > 0 || result.multipartData.length > 0)) {
+    result.method = 'POST';
+  }
+
+  return fillDerivedFields(result);
+}
+
+/**
+ * 根据URL、请求头和原始数据填充查询参数、Cookie、认证信息、表单数据和JSON请求体
+ */
+function fillDerivedFields(result: ParsedCurl): ParsedCurl {
   // 解析URL中的查询参数
   if (result.url) {
     try {
@@ -196,30 +588,50 @@ export function parseCurl(curlCommand: string): ParsedCurl {
     }
   }
 
-  // 解析请求体数据
-  if (result.data) {
-    // 检查Content-Type来决定如何解析数据
-    const contentType = result.headers['content-type'] || '';
-
-    if (contentType.includes('application/json')) {
-      result.jsonBody = parseJsonBody(result.data);
-    } else if (contentType.includes('application/x-www-form-urlencoded')) {
-      result.formData = parseFormData(result.data);
-    } else {
-      // 尝试自动检测数据格式
-      const jsonBody = parseJsonBody(result.data);
-      if (jsonBody !== null) {
-        result.jsonBody = jsonBody;
-      } else {
-        // 尝试解析为表单数据
-        result.formData = parseFormData(result.data);
-      }
-    }
+  // 拆分Cookie请求头，与 -b 指定的Cookie合并
+  if (result.headers['cookie']) {
+    result.cookies = { ...parseCookieString(result.headers['cookie']), ...result.cookies };
+  }
+
+  // 提取认证信息，-u/--user 和 --oauth2-bearer 不再作为其他选项
+  const extracted = extractAuth(result.headers, result.options);
+  result.auth = extracted.auth;
+  result.options = extracted.options;
+  result.otherOptions = curlOptionsToArgs(result.options);
+
+  // 解析请求体数据（引用文件的数据无法得知内容，不做解析）
+  if (result.data && !result.dataParts.some(part => part.fileRef !== undefined)) {
+    const body = parseRequestBody(result.data, result.headers['content-type'] || '');
+    result.jsonBody = body.jsonBody;
+    result.formData = body.formData;
   }
 
   return result;
 }
 
+/**
+ * 根据Content-Type解析请求体，返回JSON请求体和表单数据
+ */
+export function parseRequestBody(data: string, contentType: string): { jsonBody: unknown; formData: Record<string, string> } {
+  // 检查Content-Type来决定如何解析数据
+  if (contentType.includes('application/json')) {
+    return { jsonBody: parseJsonBody(data), formData: {} };
+  }
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return { jsonBody: null, formData: parseFormData(data) };
+  }
+
+  // 尝试自动检测数据格式
+  const jsonBody = parseJsonBody(data);
+  if (jsonBody !== null) {
+    return { jsonBody, formData: {} };
+  }
+
+  // 尝试解析为表单数据
+  return { jsonBody: null, formData: parseFormData(data) };
+}
+
 /**
  * 过滤请求头，只保留认证和内容相关的请求头
  */
@@ -0,0 +1,16 @@
+// 在浏览器中把生成的文本保存为文件
+
+/**
+ * 下载文本文件
+ */
+export function downloadText(content: string, filename: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
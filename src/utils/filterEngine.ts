@@ -2,74 +2,434 @@
 
 import type {
   FilterRule,
+  ResolutionStrategy,
   FilterContext,
-  FilterResult
+  FilterResult,
+  MultipartField,
+  CurlOption,
+  CurlAuth,
+  FieldTrace,
+  RuleEvaluation
 } from '../types/filterRules';
+import { serializeCookies } from './cookies';
+import { findCurlOption, curlOptionsToArgs } from './curlOptions';
+import {
+  authToRecord,
+  authFromRecord,
+  authFromOption,
+  formatAuthOptionValue,
+  isAuthOption,
+  parseAuthorizationHeader,
+  formatAuthorizationHeader
+} from './auth';
+import { maskValue, maskJsonValue } from './redaction';
+import { matchesRuleCondition } from './ruleConditions';
+import { isGlobalAction, isFilterAction, isKeepAction, resolveFilterRule } from './ruleResolution';
+import { CompiledRuleSet } from './ruleCompiler';
+import {
+  findJsonPaths,
+  getJsonValue,
+  setJsonValue,
+  hasJsonValue,
+  deleteJsonValue,
+  compactJsonArrays,
+  collectRemovedPaths,
+  formatJsonPath,
+  renameJsonKey,
+  toLiteralLocation
+} from './jsonPath';
+import type { JsonLocation } from './jsonPath';
+import type { ParsedCurl } from './curlParser';
 import {
   FilterAction,
   FilterTarget,
-  MatchMode
+  MatchMode,
+  MatchScope,
+  AuthSource,
+  TraceDecision,
+  DEFAULT_SETTINGS,
+  requiresMatchValue,
+  requiresReplacement
 } from '../types/filterRules';
 
+/**
+ * applyFilters 的选项
+ */
+export interface ApplyFiltersOptions {
+  explain?: boolean;  // 解释模式：在结果的 trace 中返回每个字段的决策记录
+}
+
+// 解释模式中的一个原始字段
+interface TraceField {
+  key: string;                              // 显示的字段名
+  name: string;                             // 脱敏记录使用的键名
+  matches: (rule: FilterRule) => boolean;   // 规则是否匹配该字段
+  present: boolean;                         // 过滤后是否仍以同一字段名存在
+  changed?: boolean;                        // 过滤后值是否改变；无法比较时为空，按规则推断
+}
+
+// 解释模式中一个目标的全部字段，added 为过滤后新出现的字段名
+interface TraceView {
+  fields: TraceField[];
+  added: string[];
+}
+
+/**
+ * 按名称为列表项生成字段名，重名的项追加序号（与规则预览中的显示一致）
+ */
+function keyByName<T>(items: T[], nameOf: (item: T) => string): Map<string, T> {
+  const keyed = new Map<string, T>();
+  const counts: Record<string, number> = {};
+
+  items.forEach(item => {
+    const name = nameOf(item);
+    counts[name] = (counts[name] || 0) + 1;
+    keyed.set(counts[name] > 1 ? `${name} (${counts[name]})` : name, item);
+  });
+
+  return keyed;
+}
+
+/**
+ * 判断JSON节点是否为另一节点本身或其子孙节点
+ */
+function isJsonLocationWithin(location: JsonLocation, ancestor: JsonLocation): boolean {
+  return ancestor.length <= location.length && ancestor.every((key, index) => String(key) === String(location[index]));
+}
+
+/**
+ * 重命名因新键名已存在而跳过时的说明
+ */
+function formatRenameConflict(rule: FilterRule, key: string, existing: string): string {
+  return `规则「${rule.name}」未把 ${key} 重命名为 ${rule.replacement ?? ''}：${existing} 已存在`;
+}
+
 /**
  * 过滤规则引擎
  */
 export class FilterEngine {
-  private rules: FilterRule[];
+  private compiled: CompiledRuleSet;
+  private resolutionStrategy: ResolutionStrategy;
 
-  constructor(rules: FilterRule[] = []) {
-    this.rules = rules;
+  constructor(rules: FilterRule[] = [], resolutionStrategy: ResolutionStrategy = DEFAULT_SETTINGS.resolutionStrategy) {
+    this.compiled = this.compileRules(rules);
+    this.resolutionStrategy = resolutionStrategy;
   }
 
   /**
-   * 设置规则
+   * 设置规则，规则在此时编译，之后可以反复用于过滤大量请求
    */
   setRules(rules: FilterRule[]): void {
-    this.rules = rules;
+    this.compiled = this.compileRules(rules);
+  }
+
+  /**
+   * 编译规则集，子类可以替换匹配方式（如基准测试中的未编译引擎）
+   */
+  protected compileRules(rules: FilterRule[]): CompiledRuleSet {
+    return new CompiledRuleSet(rules);
+  }
+
+  /**
+   * 设置删除/保留规则的冲突解决策略
+   */
+  setResolutionStrategy(strategy: ResolutionStrategy): void {
+    this.resolutionStrategy = strategy;
   }
 
   /**
    * 应用过滤规则
    */
-  applyFilters(context: FilterContext): FilterResult {
+  applyFilters(context: FilterContext, options: ApplyFiltersOptions = {}): FilterResult {
     const result: FilterResult = {
       headers: { ...context.headers },
       queryParams: { ...context.queryParams },
       formData: { ...context.formData },
-      jsonBody: context.jsonBody ? JSON.parse(JSON.stringify(context.jsonBody)) : null,
+      jsonBody: context.jsonBody || null,
+      multipartData: (context.multipartData || []).map(field => ({ ...field })),
+      cookies: { ...context.cookies },
+      optionCookies: { ...context.optionCookies },
+      options: (context.options || []).map(option => ({ ...option })),
+      auth: context.auth ? { ...context.auth } : null,
+      redactedEntries: [],
       appliedRules: [],
       warnings: []
     };
 
-    // 获取启用的规则并按优先级排序（优先级高的先执行）
-    const enabledRules = this.rules
-      .filter(rule => rule.enabled)
-      .sort((a, b) => b.priority - a.priority);
+    // 获取启用且适用于当前请求的规则，编译时已按优先级排序（优先级高的先执行）
+    const enabledRules = this.compiled.rules.filter(rule => matchesRuleCondition(rule.condition, context));
+
+    enabledRules.forEach(rule => {
+      const warning = this.compiled.getPatternWarning(rule);
+      if (warning) {
+        result.warnings.push(warning);
+      }
+    });
 
     // 按目标类型分组处理
     const rulesByTarget = this.groupRulesByTarget(enabledRules);
 
-    // 处理每种目标类型
-    Object.entries(rulesByTarget).forEach(([target, targetRules]) => {
+    // 处理每种目标类型，没有规则的目标保持原样
+    Object.entries(rulesByTarget).filter(([, targetRules]) => targetRules.length > 0).forEach(([target, targetRules]) => {
       switch (target as FilterTarget) {
         case FilterTarget.HEADERS:
-          this.applyHeaderRules(result, targetRules);
+          result.headers = this.applyRecordRules(result, targetRules, FilterTarget.HEADERS, result.headers);
           break;
         case FilterTarget.QUERY_PARAMS:
-          this.applyQueryParamRules(result, targetRules);
+          result.queryParams = this.applyRecordRules(result, targetRules, FilterTarget.QUERY_PARAMS, result.queryParams);
           break;
         case FilterTarget.FORM_DATA:
-          this.applyFormDataRules(result, targetRules);
+          result.formData = this.applyRecordRules(result, targetRules, FilterTarget.FORM_DATA, result.formData);
           break;
         case FilterTarget.JSON_BODY:
-          this.applyJsonBodyRules(result, targetRules);
+          this.applyJsonBodyRules(result, targetRules, context.jsonBody);
+          break;
+        case FilterTarget.MULTIPART:
+          this.applyMultipartRules(result, targetRules);
+          break;
+        case FilterTarget.COOKIES:
+          result.cookies = this.applyRecordRules(result, targetRules, FilterTarget.COOKIES, result.cookies || {});
+          this.applyOptionCookieRules(context, result, targetRules);
+          break;
+        case FilterTarget.OPTIONS:
+          this.applyOptionRules(result, targetRules);
+          break;
+        case FilterTarget.AUTH:
+          this.applyAuthRules(result, targetRules);
           break;
       }
     });
 
+    this.syncCookieHeader(context, result);
+    this.syncAuthHeader(context, result);
+
+    if (options.explain) {
+      result.trace = this.explainFilters(context, result);
+    }
+
     return result;
   }
 
+  /**
+   * 解释模式：按执行顺序重放每条规则对每个字段的匹配，结合过滤结果得出最终结果和起决定作用的规则
+   * 适用条件不满足的规则也会列出，但不参与决策
+   */
+  private explainFilters(context: FilterContext, result: FilterResult): FieldTrace[] {
+    const rules = this.compiled.rules;
+    const activeRules = new Set(rules.filter(rule => matchesRuleCondition(rule.condition, context)));
+
+    const views: Array<[FilterTarget, TraceView]> = [
+      [FilterTarget.HEADERS, this.recordTraceView(context.headers, result.headers)],
+      [FilterTarget.QUERY_PARAMS, this.recordTraceView(context.queryParams, result.queryParams)],
+      [FilterTarget.FORM_DATA, this.recordTraceView(context.formData, result.formData)],
+      [FilterTarget.JSON_BODY, this.jsonTraceView(
+        context,
+        result,
+        rules.filter(rule => rule.target === FilterTarget.JSON_BODY && activeRules.has(rule))
+      )],
+      [FilterTarget.MULTIPART, this.listTraceView(
+        context.multipartData || [],
+        result.multipartData || [],
+        field => field.name,
+        (field, rule) => this.isEntryMatch(field.name, field.value, rule)
+      )],
+      [FilterTarget.COOKIES, this.recordTraceView(context.cookies || {}, result.cookies || {})],
+      [FilterTarget.OPTIONS, this.listTraceView(
+        context.options || [],
+        result.options || [],
+        option => option.name,
+        (option, rule) => this.isOptionMatch(option, rule)
+      )],
+      [FilterTarget.AUTH, this.recordTraceView(authToRecord(context.auth), authToRecord(result.auth))]
+    ];
+
+    return views.flatMap(([target, view]) => this.traceTarget(
+      target,
+      rules.filter(rule => rule.target === target),
+      activeRules,
+      view,
+      result
+    ));
+  }
+
+  /**
+   * 键值对目标的解释视图
+   */
+  private recordTraceView(original: Record<string, unknown>, filtered: Record<string, unknown>): TraceView {
+    return {
+      fields: Object.entries(original).map(([key, value]) => ({
+        key,
+        name: key,
+        matches: rule => this.isEntryMatch(key, value, rule),
+        present: key in filtered,
+        changed: key in filtered && JSON.stringify(filtered[key]) !== JSON.stringify(value)
+      })),
+      added: Object.keys(filtered).filter(key => !(key in original))
+    };
+  }
+
+  /**
+   * 列表目标（multipart字段、curl选项）的解释视图，重名的项按出现顺序追加序号
+   */
+  private listTraceView<T>(
+    original: T[],
+    filtered: T[],
+    nameOf: (item: T) => string,
+    matches: (item: T, rule: FilterRule) => boolean
+  ): TraceView {
+    const originalItems = keyByName(original, nameOf);
+    const filteredItems = keyByName(filtered, nameOf);
+
+    return {
+      fields: Array.from(originalItems, ([key, item]) => ({
+        key,
+        name: nameOf(item),
+        matches: (rule: FilterRule) => matches(item, rule),
+        present: filteredItems.has(key),
+        changed: filteredItems.has(key) && JSON.stringify(filteredItems.get(key)) !== JSON.stringify(item)
+      })),
+      added: Array.from(filteredItems.keys()).filter(key => !originalItems.has(key))
+    };
+  }
+
+  /**
+   * JSON请求体的解释视图：顶层字段和任一规则匹配到的节点
+   * 与引擎一致，删除/保留规则匹配一个节点时也匹配它的子孙节点；
+   * 删除数组元素后后续元素的下标会变化，因此不比较节点的值，按规则推断是否被修改
+   */
+  private jsonTraceView(context: FilterContext, result: FilterResult, activeRules: FilterRule[]): TraceView {
+    const original = context.jsonBody;
+    if (!original || typeof original !== 'object') {
+      return { fields: [], added: [] };
+    }
+
+    const matchedLocations = new Map(activeRules.map(rule => [rule, this.findMatchingJsonLocations(original, rule)]));
+    const locations = new Map<string, JsonLocation>();
+    this.getTopLevelJsonLocations(original).forEach(location => locations.set(formatJsonPath(location), location));
+    matchedLocations.forEach(matched => {
+      matched.forEach(location => locations.set(formatJsonPath(location), location));
+    });
+
+    const removed = result.removedJsonPaths || [];
+    const isRemoved = (path: string) => removed.some(removedPath =>
+      path === removedPath || path.startsWith(removedPath + '.') || path.startsWith(removedPath + '[')
+    );
+
+    const added = activeRules
+      .filter(rule => rule.action === FilterAction.ADD || rule.action === FilterAction.SET)
+      .map(rule => this.getLiteralJsonLocation(rule))
+      .filter((location): location is JsonLocation => location !== null)
+      .filter(location => !locations.has(formatJsonPath(location)) && hasJsonValue(result.jsonBody, location))
+      .map(location => formatJsonPath(location));
+
+    return {
+      fields: Array.from(locations, ([path, location]) => ({
+        key: path,
+        name: path,
+        matches: (rule: FilterRule) => (matchedLocations.get(rule) || []).some(matched => isFilterAction(rule.action)
+          ? isJsonLocationWithin(location, matched)
+          : formatJsonPath(matched) === path),
+        present: !isRemoved(path)
+      })),
+      added: Array.from(new Set(added))
+    };
+  }
+
+  /**
+   * 生成一个目标中全部字段的决策记录
+   * 去留由匹配的删除/保留规则按冲突解决策略决定，与 applyFilters 使用同一判定
+   */
+  private traceTarget(
+    target: FilterTarget,
+    rules: FilterRule[],
+    activeRules: Set<FilterRule>,
+    view: TraceView,
+    result: FilterResult
+  ): FieldTrace[] {
+    const evaluate = (rule: FilterRule, matched: boolean): RuleEvaluation => ({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      action: rule.action,
+      priority: rule.priority,
+      conditionMet: activeRules.has(rule),
+      matched: activeRules.has(rule) && matched
+    });
+
+    const traces: FieldTrace[] = view.fields.map(field => {
+      const matchedRules = new Set(rules.filter(rule => activeRules.has(rule) && (isGlobalAction(rule.action) || field.matches(rule))));
+      const lastMatched = (...actions: FilterAction[]) => [...rules].reverse()
+        .find(rule => matchedRules.has(rule) && actions.includes(rule.action));
+
+      const filterRule = resolveFilterRule(
+        rules.filter(rule => matchedRules.has(rule) && isFilterAction(rule.action)),
+        this.resolutionStrategy
+      );
+      const kept = !filterRule || isKeepAction(filterRule.action);
+      const renameRule = kept ? lastMatched(FilterAction.RENAME) : undefined;
+      const redaction = (result.redactedEntries || []).find(entry => entry.target === target && entry.key === field.name);
+      const setRule = lastMatched(FilterAction.SET);
+
+      let decision: TraceDecision = TraceDecision.KEPT;
+      let decidingRuleId = kept ? filterRule?.id : undefined;
+
+      if (!field.present) {
+        decision = renameRule ? TraceDecision.RENAMED : TraceDecision.DELETED;
+        decidingRuleId = renameRule ? renameRule.id : kept ? undefined : filterRule?.id;
+      } else if (renameRule && field.changed === undefined) {
+        decision = TraceDecision.RENAMED;
+        decidingRuleId = renameRule.id;
+      } else if (redaction && field.changed !== false) {
+        decision = TraceDecision.REDACTED;
+        decidingRuleId = redaction.ruleId;
+      } else if (setRule && field.changed !== false) {
+        decision = TraceDecision.MODIFIED;
+        decidingRuleId = setRule.id;
+      }
+
+      // 匹配重命名规则但仍以原名保留的字段：新键名已存在，重命名被跳过
+      const skippedRename = renameRule && field.present && field.changed === false && renameRule.replacement !== field.name
+        ? renameRule
+        : undefined;
+
+      return {
+        target,
+        key: field.key,
+        evaluations: rules.map(rule => evaluate(rule, matchedRules.has(rule))),
+        decision,
+        decidingRuleId,
+        ...(skippedRename ? { note: `未重命名为 ${skippedRename.replacement ?? ''}：同名字段已存在` } : {})
+      };
+    });
+
+    // 过滤后新出现的字段由最后执行的新增、设置或重命名规则产生
+    view.added.forEach(key => {
+      const producesKey = (rule: FilterRule): boolean => {
+        if (rule.action === FilterAction.RENAME) {
+          return rule.replacement === key;
+        }
+        if (rule.action !== FilterAction.ADD && rule.action !== FilterAction.SET) {
+          return false;
+        }
+        if (target === FilterTarget.JSON_BODY) {
+          const location = this.getLiteralJsonLocation(rule);
+          return location !== null && formatJsonPath(location) === key;
+        }
+        return rule.matchValue === key;
+      };
+      const rule = [...rules].reverse().find(rule => activeRules.has(rule) && producesKey(rule));
+
+      traces.push({
+        target,
+        key,
+        evaluations: rules.map(candidate => evaluate(candidate, candidate === rule)),
+        decision: rule?.action === FilterAction.RENAME ? TraceDecision.RENAMED : TraceDecision.ADDED,
+        decidingRuleId: rule?.id
+      });
+    });
+
+    return traces;
+  }
+
   /**
    * 按目标类型分组规则
    */
@@ -78,7 +438,11 @@ export class FilterEngine {
       [FilterTarget.HEADERS]: [],
       [FilterTarget.QUERY_PARAMS]: [],
       [FilterTarget.FORM_DATA]: [],
-      [FilterTarget.JSON_BODY]: []
+      [FilterTarget.JSON_BODY]: [],
+      [FilterTarget.MULTIPART]: [],
+      [FilterTarget.COOKIES]: [],
+      [FilterTarget.OPTIONS]: [],
+      [FilterTarget.AUTH]: []
     };
 
     rules.forEach(rule => {
@@ -89,229 +453,688 @@ export class FilterEngine {
   }
 
   /**
-   * 应用请求头规则
+   * 按冲突解决策略决定一个目标中每一项的去留，返回每一项是否保留
+   * 每一项由匹配它的删除/保留规则（全局规则匹配所有项）按策略选出一条决定，没有规则匹配的项保留；
+   * 至少决定了一项去留的规则按执行顺序记入 appliedRules
+   * 提供 candidates 时每一项只检查它返回的候选规则（如键名索引筛选出的规则），否则检查目标的全部规则
    */
-  private applyHeaderRules(result: FilterResult, rules: FilterRule[]): void {
-    const originalHeaders = { ...result.headers };
-    
-    // 先处理全局规则（DELETE_ALL, KEEP_ALL）
-    const globalRules = rules.filter(r => 
-      r.action === FilterAction.DELETE_ALL || r.action === FilterAction.KEEP_ALL
-    );
-    
-    if (globalRules.length > 0) {
-      const highestGlobalRule = globalRules[0]; // 已按优先级排序
-      
-      if (highestGlobalRule.action === FilterAction.DELETE_ALL) {
-        result.headers = {};
-        result.appliedRules.push(highestGlobalRule.id);
-      } else if (highestGlobalRule.action === FilterAction.KEEP_ALL) {
-        // 保留所有，不做任何操作
-        result.appliedRules.push(highestGlobalRule.id);
+  private resolveEntries(
+    result: FilterResult,
+    rules: FilterRule[],
+    count: number,
+    matches: (index: number, rule: FilterRule) => boolean,
+    candidates?: (index: number) => FilterRule[]
+  ): boolean[] {
+    const filterRules = rules.filter(rule => isFilterAction(rule.action));
+    const activeRules = new Set(filterRules);
+    const decidingRules = new Set<FilterRule>();
+
+    const kept = Array.from({ length: count }, (_, index) => {
+      const checkedRules = candidates ? candidates(index).filter(rule => activeRules.has(rule)) : filterRules;
+      const rule = resolveFilterRule(
+        checkedRules.filter(candidate => isGlobalAction(candidate.action) || matches(index, candidate)),
+        this.resolutionStrategy
+      );
+      if (rule) {
+        decidingRules.add(rule);
       }
+      return !rule || isKeepAction(rule.action);
+    });
+
+    filterRules.filter(rule => decidingRules.has(rule)).forEach(rule => result.appliedRules.push(rule.id));
+    return kept;
+  }
+
+  /**
+   * 应用键值对目标（请求头、查询参数、表单数据、Cookie、认证信息）的规则，返回过滤后的键值对
+   * 依次执行删除/保留、脱敏和改写规则
+   */
+  private applyRecordRules(
+    result: FilterResult,
+    rules: FilterRule[],
+    target: FilterTarget,
+    originalEntries: Record<string, string>
+  ): Record<string, string> {
+    const keys = Object.keys(originalEntries);
+    const kept = this.resolveEntries(
+      result,
+      rules,
+      keys.length,
+      (index, rule) => this.isEntryMatch(keys[index], originalEntries[keys[index]], rule),
+      index => this.compiled.candidateRules(target, keys[index])
+    );
+
+    const entries: Record<string, string> = {};
+    keys.filter((_, index) => kept[index]).forEach(key => {
+      entries[key] = originalEntries[key];
+    });
+
+    this.applyRedactRules(result, rules, target, entries, originalEntries);
+    return this.applyRewriteRules(result, rules, target, entries);
+  }
+
+  /**
+   * 应用JSON请求体规则
+   * 只在有规则时复制一次请求体，原始请求体只读，用于匹配和恢复被保留的节点
+   */
+  private applyJsonBodyRules(result: FilterResult, rules: FilterRule[], originalJsonBody: unknown): void {
+    if (!originalJsonBody || typeof originalJsonBody !== 'object') {
+      return;
     }
 
-    // 再处理具体规则（DELETE, KEEP）
-    const specificRules = rules.filter(r => 
-      r.action === FilterAction.DELETE || r.action === FilterAction.KEEP
+    result.jsonBody = JSON.parse(JSON.stringify(originalJsonBody));
+
+    // 参与判定的节点：顶层字段和删除/保留规则匹配到的节点；规则匹配一个节点时也作用于它的子孙节点
+    const filterRules = rules.filter(rule => isFilterAction(rule.action));
+    const matchedLocations = new Map(filterRules.map(rule => [rule, this.findMatchingJsonLocations(originalJsonBody, rule)]));
+    const uniqueLocations = new Map<string, JsonLocation>();
+    [this.getTopLevelJsonLocations(originalJsonBody), ...matchedLocations.values()].forEach(matched => {
+      matched.forEach(location => uniqueLocations.set(formatJsonPath(location), location));
+    });
+    const locations = Array.from(uniqueLocations.values()).sort((a, b) => a.length - b.length);
+
+    const kept = this.resolveEntries(result, rules, locations.length, (index, rule) =>
+      (matchedLocations.get(rule) || []).some(matched => isJsonLocationWithin(locations[index], matched))
     );
 
-    specificRules.forEach(rule => {
-      const matchingKeys = this.findMatchingKeys(Object.keys(originalHeaders), rule);
-      
-      if (matchingKeys.length > 0) {
-        matchingKeys.forEach(key => {
-          if (rule.action === FilterAction.DELETE) {
-            delete result.headers[key];
-          } else if (rule.action === FilterAction.KEEP) {
-            result.headers[key] = originalHeaders[key];
-          }
+    // 从浅到深处理，保留的子节点可以从被删除的父节点中恢复
+    locations.forEach((location, index) => {
+      if (!kept[index]) {
+        deleteJsonValue(result.jsonBody, location);
+      } else if (!hasJsonValue(result.jsonBody, location)) {
+        const value = JSON.parse(JSON.stringify(getJsonValue(originalJsonBody, location)));
+        setJsonValue(result.jsonBody, location, value, originalJsonBody);
+      }
+    });
+
+    // 脱敏规则在删除/保留规则之后执行，避免保留规则恢复已脱敏的原始值
+    rules.filter(r => r.action === FilterAction.REDACT).forEach(rule => {
+      const matchingLocations = this.findMatchingJsonLocations(originalJsonBody, rule)
+        .filter(location => hasJsonValue(result.jsonBody, location))
+        .filter(location => this.markRedacted(result, FilterTarget.JSON_BODY, formatJsonPath(location), rule));
+
+      if (matchingLocations.length > 0) {
+        matchingLocations.forEach(location => {
+          const value = maskJsonValue(getJsonValue(result.jsonBody, location), rule.maskStrategy, rule.maskValue);
+          setJsonValue(result.jsonBody, location, value, originalJsonBody);
         });
         result.appliedRules.push(rule.id);
       }
     });
+
+    // 数组元素删除后先记录被删除的节点，再移除空位
+    result.removedJsonPaths = collectRemovedPaths(originalJsonBody, result.jsonBody);
+    compactJsonArrays(result.jsonBody);
+
+    // 改写规则最后执行，匹配的是过滤后的请求体
+    rules.filter(r => requiresReplacement(r.action)).forEach(rule => {
+      const replacement = rule.replacement ?? '';
+      const matchingLocations = this.findMatchingJsonLocations(result.jsonBody, rule);
+      const literalLocation = this.getLiteralJsonLocation(rule);
+      let applied = false;
+
+      if (rule.action === FilterAction.RENAME) {
+        matchingLocations.forEach(location => {
+          applied = renameJsonKey(result.jsonBody, location, replacement) || applied;
+        });
+      } else if (rule.action === FilterAction.SET) {
+        matchingLocations.forEach(location => {
+          setJsonValue(result.jsonBody, location, this.parseJsonReplacement(replacement), result.jsonBody);
+        });
+        applied = matchingLocations.length > 0;
+        if (!applied && literalLocation) {
+          setJsonValue(result.jsonBody, literalLocation, this.parseJsonReplacement(replacement), result.jsonBody);
+          applied = true;
+        }
+      } else if (rule.action === FilterAction.ADD) {
+        if (literalLocation && !hasJsonValue(result.jsonBody, literalLocation)) {
+          setJsonValue(result.jsonBody, literalLocation, this.parseJsonReplacement(replacement), result.jsonBody);
+          applied = true;
+        }
+      }
+
+      if (applied) {
+        result.appliedRules.push(rule.id);
+      }
+    });
   }
 
   /**
-   * 应用查询参数规则
+   * JSON请求体的顶层节点，数组按下标
    */
-  private applyQueryParamRules(result: FilterResult, rules: FilterRule[]): void {
-    const originalParams = { ...result.queryParams };
-    
-    // 处理全局规则
-    const globalRules = rules.filter(r => 
-      r.action === FilterAction.DELETE_ALL || r.action === FilterAction.KEEP_ALL
-    );
-    
-    if (globalRules.length > 0) {
-      const highestGlobalRule = globalRules[0];
-      
-      if (highestGlobalRule.action === FilterAction.DELETE_ALL) {
-        result.queryParams = {};
-        result.appliedRules.push(highestGlobalRule.id);
-      } else if (highestGlobalRule.action === FilterAction.KEEP_ALL) {
-        result.appliedRules.push(highestGlobalRule.id);
-      }
+  private getTopLevelJsonLocations(jsonBody: unknown): JsonLocation[] {
+    if (Array.isArray(jsonBody)) {
+      return jsonBody.map((_, index) => [index]);
     }
+    return Object.keys(jsonBody as Record<string, unknown>).map(key => [key]);
+  }
 
-    // 处理具体规则
-    const specificRules = rules.filter(r => 
-      r.action === FilterAction.DELETE || r.action === FilterAction.KEEP
+  /**
+   * 获取规则唯一指向的JSON位置（精确匹配的键名，或不含通配符的JSON路径），用于新增节点
+   */
+  private getLiteralJsonLocation(rule: FilterRule): JsonLocation | null {
+    if (this.isLiteralKeyRule(rule)) {
+      return [rule.matchValue];
+    }
+    if (rule.matchMode === MatchMode.JSON_PATH) {
+      const segments = this.compiled.getJsonPath(rule);
+      return segments ? toLiteralLocation(segments) : null;
+    }
+    return null;
+  }
+
+  /**
+   * 解析JSON请求体的替换值：合法的JSON字面量（数字、布尔值、对象等）按JSON解析，否则作为字符串
+   */
+  private parseJsonReplacement(replacement: string): unknown {
+    try {
+      return JSON.parse(replacement);
+    } catch {
+      return replacement;
+    }
+  }
+
+  /**
+   * 查找JSON请求体中与规则匹配的节点位置
+   * JSON路径模式可以定位任意深度的节点，其他匹配模式只匹配顶层字段
+   */
+  private findMatchingJsonLocations(jsonBody: unknown, rule: FilterRule): JsonLocation[] {
+    if (rule.matchMode === MatchMode.JSON_PATH) {
+      const segments = this.compiled.getJsonPath(rule);
+      return segments ? findJsonPaths(jsonBody, segments) : [];
+    }
+
+    return this.findMatchingKeys(jsonBody as Record<string, unknown>, rule).map(key => [key]);
+  }
+
+  /**
+   * 应用multipart表单字段规则
+   * 同名字段可能出现多次，按键名匹配时同名字段会被整体删除或保留
+   */
+  private applyMultipartRules(result: FilterResult, rules: FilterRule[]): void {
+    const originalFields: MultipartField[] = result.multipartData || [];
+    if (originalFields.length === 0) {
+      return;
+    }
+
+    const present = this.resolveEntries(
+      result,
+      rules,
+      originalFields.length,
+      (index, rule) => this.isEntryMatch(originalFields[index].name, originalFields[index].value, rule),
+      index => this.compiled.candidateRules(FilterTarget.MULTIPART, originalFields[index].name)
     );
 
-    specificRules.forEach(rule => {
-      const matchingKeys = this.findMatchingKeys(Object.keys(originalParams), rule);
-      
-      if (matchingKeys.length > 0) {
-        matchingKeys.forEach(key => {
-          if (rule.action === FilterAction.DELETE) {
-            delete result.queryParams[key];
-          } else if (rule.action === FilterAction.KEEP) {
-            result.queryParams[key] = originalParams[key];
-          }
+    // 脱敏只作用于文本字段，文件路径保持不变
+    rules.filter(r => r.action === FilterAction.REDACT).forEach(rule => {
+      const matchingIndexes = originalFields
+        .map((_, index) => index)
+        .filter(index => present[index] && !originalFields[index].isFile && !originalFields[index].isFileContent)
+        .filter(index => this.isEntryMatch(originalFields[index].name, originalFields[index].value, rule))
+        .filter(index => this.markRedacted(result, FilterTarget.MULTIPART, originalFields[index].name, rule));
+
+      if (matchingIndexes.length > 0) {
+        matchingIndexes.forEach(index => {
+          const field = originalFields[index];
+          originalFields[index] = { ...field, value: maskValue(field.value, rule.maskStrategy, rule.maskValue) };
         });
         result.appliedRules.push(rule.id);
       }
     });
+
+    let fields = originalFields.filter((_, index) => present[index]);
+
+    // 改写规则最后执行，匹配的是过滤后的字段
+    rules.filter(r => requiresReplacement(r.action)).forEach(rule => {
+      const replacement = rule.replacement ?? '';
+      const matched = fields.map(field => this.isEntryMatch(field.name, field.value, rule));
+      const exists = fields.some(field => field.name === rule.matchValue);
+      let applied = matched.some(Boolean);
+
+      if (rule.action === FilterAction.RENAME) {
+        fields = fields.map((field, index) => matched[index] ? { ...field, name: replacement } : field);
+      } else if (rule.action === FilterAction.SET) {
+        fields = fields.map((field, index) => matched[index]
+          ? { name: field.name, value: replacement, isFile: false }
+          : field);
+        if (!applied && this.isLiteralKeyRule(rule)) {
+          fields.push({ name: rule.matchValue, value: replacement, isFile: false });
+          applied = true;
+        }
+      } else if (rule.action === FilterAction.ADD) {
+        applied = !exists;
+        if (applied) {
+          fields.push({ name: rule.matchValue, value: replacement, isFile: false });
+        }
+      }
+
+      if (applied) {
+        result.appliedRules.push(rule.id);
+      }
+    });
+
+    result.multipartData = fields;
   }
 
   /**
-   * 应用表单数据规则
+   * 应用认证信息规则
+   * 认证信息按字段 username、password（用户名密码认证）或 token（令牌认证）处理，凭据全部删除后不再发送认证信息
+   * 有 Authorization 请求头时 -u、--oauth2-bearer 仍保留在选项中，规则同样作用于这些选项，凭据全部删除时移除选项
    */
-  private applyFormDataRules(result: FilterResult, rules: FilterRule[]): void {
-    const originalFormData = { ...result.formData };
-    
-    // 处理全局规则
-    const globalRules = rules.filter(r => 
-      r.action === FilterAction.DELETE_ALL || r.action === FilterAction.KEEP_ALL
-    );
-    
-    if (globalRules.length > 0) {
-      const highestGlobalRule = globalRules[0];
-      
-      if (highestGlobalRule.action === FilterAction.DELETE_ALL) {
-        result.formData = {};
-        result.appliedRules.push(highestGlobalRule.id);
-      } else if (highestGlobalRule.action === FilterAction.KEEP_ALL) {
-        result.appliedRules.push(highestGlobalRule.id);
+  private applyAuthRules(result: FilterResult, rules: FilterRule[]): void {
+    if (result.auth) {
+      result.auth = this.applyCredentialRules(result, rules, result.auth);
+    }
+
+    const options = result.options || [];
+    if (options.some(isAuthOption)) {
+      result.options = options.flatMap(option => {
+        if (!isAuthOption(option)) {
+          return [option];
+        }
+        const auth = this.applyCredentialRules(result, rules, authFromOption(option, options));
+        return auth ? [{ ...option, value: formatAuthOptionValue(auth) }] : [];
+      });
+    }
+  }
+
+  /**
+   * 对 -b/--cookie 中的Cookie单独应用Cookie规则，删除Cookie请求头时据此保留 -b 中的Cookie
+   * 规则改写或新增的Cookie如果原本只在Cookie请求头中，不算作 -b 中的Cookie
+   */
+  private applyOptionCookieRules(context: FilterContext, result: FilterResult, rules: FilterRule[]): void {
+    const originalOptionCookies = context.optionCookies || {};
+    const isHeaderCookie = (name: string) => name in (context.cookies || {}) && !(name in originalOptionCookies);
+    const optionCookies = this.applySeparateRecordRules(result, rules, FilterTarget.COOKIES, originalOptionCookies);
+
+    result.optionCookies = Object.fromEntries(Object.entries(optionCookies).filter(([name]) => !isHeaderCookie(name)));
+  }
+
+  /**
+   * 对一处凭据应用认证信息规则
+   */
+  private applyCredentialRules(result: FilterResult, rules: FilterRule[], auth: CurlAuth): CurlAuth | null {
+    return authFromRecord(auth, this.applySeparateRecordRules(result, rules, FilterTarget.AUTH, authToRecord(auth)));
+  }
+
+  /**
+   * 对同一目标的另一组键值对（如 -b 中的Cookie、-u 中的凭据）应用规则
+   * 单独记录脱敏项（同一字段在两处都要脱敏），应用的规则和脱敏项合并到过滤结果中
+   */
+  private applySeparateRecordRules(
+    result: FilterResult,
+    rules: FilterRule[],
+    target: FilterTarget,
+    originalEntries: Record<string, string>
+  ): Record<string, string> {
+    const scratch: FilterResult = { ...result, appliedRules: [], redactedEntries: [] };
+    const entries = this.applyRecordRules(scratch, rules, target, originalEntries);
+
+    scratch.appliedRules.filter(id => !result.appliedRules.includes(id)).forEach(id => result.appliedRules.push(id));
+    const redactedEntries = result.redactedEntries || [];
+    (scratch.redactedEntries || []).forEach(entry => {
+      if (!redactedEntries.some(existing => existing.target === entry.target && existing.key === entry.key)) {
+        redactedEntries.push(entry);
       }
+    });
+    if (redactedEntries.length > 0) {
+      result.redactedEntries = redactedEntries;
     }
 
-    // 处理具体规则
-    const specificRules = rules.filter(r => 
-      r.action === FilterAction.DELETE || r.action === FilterAction.KEEP
+    return entries;
+  }
+
+  /**
+   * 应用curl选项规则
+   * 选项按长选项名或命令中的写法匹配（--insecure 或 -k），按值匹配时只有带参数的选项可以匹配
+   */
+  private applyOptionRules(result: FilterResult, rules: FilterRule[]): void {
+    const originalOptions: CurlOption[] = result.options || [];
+    const present = this.resolveEntries(result, rules, originalOptions.length, (index, rule) =>
+      this.isOptionMatch(originalOptions[index], rule)
     );
 
-    specificRules.forEach(rule => {
-      const matchingKeys = this.findMatchingKeys(Object.keys(originalFormData), rule);
-      
-      if (matchingKeys.length > 0) {
-        matchingKeys.forEach(key => {
-          if (rule.action === FilterAction.DELETE) {
-            delete result.formData[key];
-          } else if (rule.action === FilterAction.KEEP) {
-            result.formData[key] = originalFormData[key];
-          }
+    // 脱敏只作用于带参数的选项，如 -u、--proxy
+    rules.filter(r => r.action === FilterAction.REDACT).forEach(rule => {
+      const matchingIndexes = originalOptions
+        .map((_, index) => index)
+        .filter(index => present[index] && originalOptions[index].value !== undefined)
+        .filter(index => this.isOptionMatch(originalOptions[index], rule))
+        .filter(index => this.markRedacted(result, FilterTarget.OPTIONS, originalOptions[index].name, rule));
+
+      if (matchingIndexes.length > 0) {
+        matchingIndexes.forEach(index => {
+          const option = originalOptions[index];
+          originalOptions[index] = { ...option, value: maskValue(option.value ?? '', rule.maskStrategy, rule.maskValue) };
         });
         result.appliedRules.push(rule.id);
       }
     });
+
+    let options = originalOptions.filter((_, index) => present[index]);
+
+    // 改写规则最后执行，匹配的是过滤后的选项；新增的选项按选项目录决定是否带参数
+    rules.filter(r => requiresReplacement(r.action)).forEach(rule => {
+      const replacement = rule.replacement ?? '';
+      const matched = options.map(option => this.isOptionMatch(option, rule));
+      const exists = options.some(option => option.name === rule.matchValue || option.flag === rule.matchValue);
+      let applied = matched.some(Boolean);
+
+      if (rule.action === FilterAction.RENAME) {
+        const name = findCurlOption(replacement)?.name ?? replacement;
+        options = options.map((option, index) => matched[index] ? { ...option, name, flag: replacement } : option);
+      } else if (rule.action === FilterAction.SET) {
+        options = options.map((option, index) => matched[index] && option.value !== undefined
+          ? { ...option, value: replacement }
+          : option);
+        if (!applied && this.isLiteralKeyRule(rule)) {
+          options.push(this.createOption(rule.matchValue, replacement));
+          applied = true;
+        }
+      } else if (rule.action === FilterAction.ADD) {
+        applied = !exists;
+        if (applied) {
+          options.push(this.createOption(rule.matchValue, replacement));
+        }
+      }
+
+      if (applied) {
+        result.appliedRules.push(rule.id);
+      }
+    });
+
+    result.options = options;
   }
 
   /**
-   * 应用JSON请求体规则
+   * 检查curl选项是否与规则匹配（长选项名或命令中的写法）
    */
-  private applyJsonBodyRules(result: FilterResult, rules: FilterRule[]): void {
-    if (!result.jsonBody || typeof result.jsonBody !== 'object') {
-      return;
-    }
-
-    const originalJsonBody = JSON.parse(JSON.stringify(result.jsonBody));
-    
-    // 处理全局规则
-    const globalRules = rules.filter(r => 
-      r.action === FilterAction.DELETE_ALL || r.action === FilterAction.KEEP_ALL
+  private isOptionMatch(option: CurlOption, rule: FilterRule): boolean {
+    return this.applyNegation(
+      rule,
+      this.isEntryPatternMatch(option.name, option.value, rule) || this.isEntryPatternMatch(option.flag, option.value, rule)
     );
-    
-    if (globalRules.length > 0) {
-      const highestGlobalRule = globalRules[0];
-      
-      if (highestGlobalRule.action === FilterAction.DELETE_ALL) {
-        result.jsonBody = {};
-        result.appliedRules.push(highestGlobalRule.id);
-      } else if (highestGlobalRule.action === FilterAction.KEEP_ALL) {
-        result.appliedRules.push(highestGlobalRule.id);
-      }
+  }
+
+  /**
+   * 按选项目录创建新增的curl选项，不带参数的选项忽略替换值
+   */
+  private createOption(flag: string, value: string): CurlOption {
+    const spec = findCurlOption(flag);
+    const option: CurlOption = { name: spec?.name ?? flag, flag };
+    if (!spec || spec.hasValue) {
+      option.value = value;
     }
+    return option;
+  }
 
-    // 处理具体规则
-    const specificRules = rules.filter(r => 
-      r.action === FilterAction.DELETE || r.action === FilterAction.KEEP
-    );
+  /**
+   * 应用键值对目标的脱敏规则
+   * 脱敏规则在删除/保留规则之后执行，只替换仍然存在的项，避免保留规则恢复已脱敏的原始值
+   */
+  private applyRedactRules(
+    result: FilterResult,
+    rules: FilterRule[],
+    target: FilterTarget,
+    entries: Record<string, string>,
+    originalEntries: Record<string, string>
+  ): void {
+    rules.filter(r => r.action === FilterAction.REDACT).forEach(rule => {
+      const matchingKeys = this.findMatchingKeys(originalEntries, rule)
+        .filter(key => key in entries)
+        .filter(key => this.markRedacted(result, target, key, rule));
 
-    specificRules.forEach(rule => {
-      const matchingKeys = this.findMatchingKeys(Object.keys(originalJsonBody), rule);
-      
       if (matchingKeys.length > 0) {
         matchingKeys.forEach(key => {
-          if (rule.action === FilterAction.DELETE) {
-            delete result.jsonBody[key];
-          } else if (rule.action === FilterAction.KEEP) {
-            result.jsonBody[key] = originalJsonBody[key];
+          entries[key] = maskValue(entries[key], rule.maskStrategy, rule.maskValue);
+        });
+        result.appliedRules.push(rule.id);
+      }
+    });
+  }
+
+  /**
+   * 应用键值对目标的改写规则（SET/ADD/RENAME），返回改写后的键值对
+   * 改写规则在删除/保留和脱敏规则之后按优先级依次执行，匹配的是过滤后的项，
+   * 因此后执行的规则可以看到先执行的规则新增或重命名的键
+   */
+  private applyRewriteRules(
+    result: FilterResult,
+    rules: FilterRule[],
+    target: FilterTarget,
+    entries: Record<string, string>
+  ): Record<string, string> {
+    let current = { ...entries };
+
+    rules.filter(r => requiresReplacement(r.action)).forEach(rule => {
+      const replacement = rule.replacement ?? '';
+      const matchingKeys = this.findMatchingKeys(current, rule);
+      let applied = matchingKeys.length > 0;
+
+      if (rule.action === FilterAction.RENAME) {
+        // 依次重命名匹配的键；新键名已存在（请求头不区分大小写）时跳过并给出警告，不覆盖已有的值
+        const renamedKeys = matchingKeys.filter(key => {
+          const others = Object.fromEntries(Object.entries(current).filter(([other]) => other !== key));
+          const existing = this.findExistingKey(others, replacement, target);
+          if (existing !== undefined) {
+            this.addWarning(result, formatRenameConflict(rule, key, existing));
+            return false;
           }
+          current = Object.fromEntries(Object.entries(current).map(([other, value]) => [other === key ? replacement : other, value]));
+          return true;
         });
+        applied = renamedKeys.length > 0;
+      } else if (rule.action === FilterAction.SET) {
+        matchingKeys.forEach(key => {
+          current[key] = replacement;
+        });
+        if (!applied && this.isLiteralKeyRule(rule)) {
+          current[this.findExistingKey(current, rule.matchValue, target) ?? rule.matchValue] = replacement;
+          applied = true;
+        }
+      } else if (rule.action === FilterAction.ADD) {
+        applied = this.findExistingKey(current, rule.matchValue, target) === undefined;
+        if (applied) {
+          current[rule.matchValue] = replacement;
+        }
+      }
+
+      if (applied) {
         result.appliedRules.push(rule.id);
       }
     });
+
+    return current;
+  }
+
+  /**
+   * 添加警告，相同的警告只保留一条
+   */
+  private addWarning(result: FilterResult, warning: string): void {
+    if (!result.warnings.includes(warning)) {
+      result.warnings.push(warning);
+    }
+  }
+
+  /**
+   * 判断规则的匹配值是否就是一个具体的键名（精确匹配键名），这类规则在键不存在时可以新增
+   */
+  private isLiteralKeyRule(rule: FilterRule): boolean {
+    return rule.matchMode === MatchMode.EXACT && (rule.matchScope || MatchScope.KEY) === MatchScope.KEY && !rule.negate;
+  }
+
+  /**
+   * 查找已存在的同名键，请求头名称不区分大小写
+   */
+  private findExistingKey(entries: Record<string, string>, name: string, target: FilterTarget): string | undefined {
+    if (target === FilterTarget.HEADERS) {
+      return Object.keys(entries).find(key => key.toLowerCase() === name.toLowerCase());
+    }
+    return name in entries ? name : undefined;
+  }
+
+  /**
+   * 记录被脱敏的项，已被其他规则脱敏过的项返回 false，避免重复脱敏
+   */
+  private markRedacted(result: FilterResult, target: FilterTarget, key: string, rule: FilterRule): boolean {
+    const redactedEntries = result.redactedEntries || [];
+    if (redactedEntries.some(entry => entry.target === target && entry.key === key)) {
+      return false;
+    }
+    redactedEntries.push({ target, key, ruleId: rule.id });
+    result.redactedEntries = redactedEntries;
+    return true;
+  }
+
+  /**
+   * 同步Cookie请求头与拆分后的Cookie
+   * 删除Cookie请求头即删除其中全部Cookie，-b 中的Cookie保留；Cookie被规则修改时用不来自 -b 的Cookie重新生成请求头
+   */
+  private syncCookieHeader(context: FilterContext, result: FilterResult): void {
+    const headerKey = Object.keys(context.headers).find(key => key.toLowerCase() === 'cookie');
+    if (!headerKey) {
+      return;
+    }
+
+    const optionCookies = result.optionCookies || {};
+    if (!(headerKey in result.headers)) {
+      result.cookies = { ...optionCookies };
+      return;
+    }
+
+    const cookies = result.cookies || {};
+    if (JSON.stringify(cookies) === JSON.stringify(context.cookies || {})) {
+      return;
+    }
+
+    const headerCookies = Object.fromEntries(Object.entries(cookies).filter(([name]) => !(name in optionCookies)));
+    if (Object.keys(headerCookies).length > 0) {
+      result.headers[headerKey] = serializeCookies(headerCookies);
+    } else {
+      delete result.headers[headerKey];
+    }
+  }
+
+  /**
+   * 同步Authorization请求头与认证信息
+   * 删除或被请求头规则修改的 Authorization 以请求头为准；认证信息被规则修改时重新生成请求头
+   */
+  private syncAuthHeader(context: FilterContext, result: FilterResult): void {
+    if (context.auth?.source !== AuthSource.HEADER) {
+      return;
+    }
+
+    const headerKey = Object.keys(context.headers).find(key => key.toLowerCase() === 'authorization');
+    if (!headerKey) {
+      return;
+    }
+
+    if (!(headerKey in result.headers)) {
+      result.auth = null;
+      return;
+    }
+
+    if (result.headers[headerKey] !== context.headers[headerKey]) {
+      result.auth = parseAuthorizationHeader(result.headers[headerKey]);
+      return;
+    }
+
+    if (JSON.stringify(result.auth) === JSON.stringify(context.auth)) {
+      return;
+    }
+
+    const header = result.auth ? formatAuthorizationHeader(result.auth) : null;
+    if (header !== null) {
+      result.headers[headerKey] = header;
+    } else {
+      delete result.headers[headerKey];
+    }
   }
 
   /**
    * 根据规则查找匹配的键
    */
-  private findMatchingKeys(keys: string[], rule: FilterRule): string[] {
-    if (!rule.matchValue && (rule.action === FilterAction.DELETE || rule.action === FilterAction.KEEP)) {
+  private findMatchingKeys(entries: Record<string, unknown>, rule: FilterRule): string[] {
+    if (!rule.matchValue && requiresMatchValue(rule.action)) {
       return [];
     }
 
-    return keys.filter(key => this.isMatch(key, rule.matchValue, rule.matchMode));
-  }
-
-  /**
-   * 检查是否匹配
-   */
-  private isMatch(value: string, pattern: string, mode: MatchMode): boolean {
-    if (!pattern) return false;
-
-    switch (mode) {
-      case MatchMode.EXACT:
-        return value === pattern;
-      
-      case MatchMode.CONTAINS:
-        return value.toLowerCase().includes(pattern.toLowerCase());
-      
-      case MatchMode.STARTS_WITH:
-        return value.toLowerCase().startsWith(pattern.toLowerCase());
-      
-      case MatchMode.ENDS_WITH:
-        return value.toLowerCase().endsWith(pattern.toLowerCase());
-      
-      case MatchMode.REGEX:
-        try {
-          const regex = new RegExp(pattern, 'i');
-          return regex.test(value);
-        } catch {
-          return false;
-        }
-      
-      default:
-        return false;
+    return Object.keys(entries).filter(key => this.isEntryMatch(key, entries[key], rule));
+  }
+
+  /**
+   * 检查键值对是否与规则匹配，取反的规则匹配不符合匹配值的项
+   */
+  private isEntryMatch(key: string, value: unknown, rule: FilterRule): boolean {
+    return this.applyNegation(rule, this.isEntryPatternMatch(key, value, rule));
+  }
+
+  /**
+   * 对规则的匹配结果取反；没有匹配值的规则不匹配任何项，取反后也不匹配
+   */
+  private applyNegation(rule: FilterRule, matched: boolean): boolean {
+    return rule.negate && rule.matchValue ? !matched : matched;
+  }
+
+  /**
+   * 按规则的匹配范围检查键值对是否符合匹配值
+   * 只有字符串、数字、布尔值和 null 可以按值匹配，对象和数组的值永远不匹配
+   */
+  private isEntryPatternMatch(key: string, value: unknown, rule: FilterRule): boolean {
+    const scope = rule.matchScope || MatchScope.KEY;
+
+    if (scope !== MatchScope.VALUE && this.compiled.matchesKey(rule, key)) {
+      return true;
     }
+
+    if (scope === MatchScope.KEY || (value !== null && typeof value === 'object') || value === undefined) {
+      return false;
+    }
+
+    return this.compiled.matchesValue(rule, String(value));
   }
 }
 
 /**
  * 创建过滤引擎实例
  */
-export function createFilterEngine(rules: FilterRule[] = []): FilterEngine {
-  return new FilterEngine(rules);
+export function createFilterEngine(rules: FilterRule[] = [], resolutionStrategy?: ResolutionStrategy): FilterEngine {
+  return new FilterEngine(rules, resolutionStrategy);
+}
+
+/**
+ * 对解析后的请求应用过滤规则
+ * 返回过滤结果，以及替换为过滤后各部分的请求（可直接用于重新生成命令）
+ */
+export function filterParsedCurl(engine: FilterEngine, parsed: ParsedCurl): { result: FilterResult; filtered: ParsedCurl } {
+  const context: FilterContext = {
+    headers: parsed.headers,
+    queryParams: parsed.queryParams,
+    formData: parsed.formData,
+    jsonBody: parsed.jsonBody,
+    multipartData: parsed.multipartData,
+    cookies: parsed.cookies,
+    optionCookies: parsed.optionCookies,
+    options: parsed.options,
+    auth: parsed.auth,
+    url: parsed.url,
+    method: parsed.method
+  };
+
+  const result = engine.applyFilters(context);
+  const filtered: ParsedCurl = {
+    ...parsed,
+    headers: result.headers,
+    queryParams: result.queryParams,
+    formData: result.formData,
+    jsonBody: result.jsonBody,
+    multipartData: result.multipartData || [],
+    cookies: result.cookies || {},
+    optionCookies: result.optionCookies || {},
+    options: result.options || [],
+    otherOptions: curlOptionsToArgs(result.options || []),
+    auth: result.auth ?? null
+  };
+
+  return { result, filtered };
 }
@@ -0,0 +1,68 @@
+// 过滤任务：过滤 Worker 与主线程之间的消息，以及 Worker 和主线程共用的任务执行
+
+import type { FilterRule, FilterResult, ResolutionStrategy } from '../types/filterRules';
+import type { HarFile } from '../types/har';
+import { parseCurl, type ParsedCurl } from './curlParser';
+import { buildCurlFromContext } from './curlBuilder';
+import { filterParsedCurl, type FilterEngine } from './filterEngine';
+import { filterHarEntries, type HarBatchItem } from './har';
+
+/**
+ * 过滤一条命令的结果
+ */
+export interface CurlFilterOutput {
+  result: FilterResult;     // 过滤结果
+  filtered: ParsedCurl;     // 过滤后的请求，url 为空表示命令中没有URL
+  outputCurl: string;       // 过滤后的cURL命令
+}
+
+/**
+ * 批量任务的进度
+ */
+export interface FilterProgress {
+  completed: number;        // 已过滤的请求数
+  total: number;            // 请求总数
+}
+
+/**
+ * 过滤任务：一条命令（cURL、PowerShell 或原始HTTP请求），或 HAR 文件中的全部请求
+ */
+export type FilterJob =
+  | { type: 'curl'; text: string }
+  | { type: 'har'; har: HarFile };
+
+/**
+ * 过滤任务的结果，与任务类型对应
+ */
+export type FilterJobOutput = CurlFilterOutput | HarBatchItem[];
+
+/**
+ * 主线程发给过滤 Worker 的消息
+ */
+export type FilterWorkerRequest =
+  | { type: 'configure'; rules: FilterRule[]; resolutionStrategy: ResolutionStrategy }
+  | { type: 'run'; jobId: number; job: FilterJob };
+
+/**
+ * 过滤 Worker 发回主线程的消息
+ */
+export type FilterWorkerResponse =
+  | { type: 'progress'; jobId: number; progress: FilterProgress }
+  | { type: 'done'; jobId: number; output: FilterJobOutput }
+  | { type: 'failed'; jobId: number; message: string };
+
+/**
+ * 用过滤引擎执行过滤任务，批量任务每过滤完一条请求调用一次 onProgress
+ */
+export function runFilterJob(
+  engine: FilterEngine,
+  job: FilterJob,
+  onProgress?: (progress: FilterProgress) => void
+): FilterJobOutput {
+  if (job.type === 'har') {
+    return filterHarEntries(job.har, engine, (completed, total) => onProgress?.({ completed, total }));
+  }
+
+  const { result, filtered } = filterParsedCurl(engine, parseCurl(job.text));
+  return { result, filtered, outputCurl: buildCurlFromContext(filtered) };
+}
@@ -0,0 +1,264 @@
+// 过滤服务：在 Web Worker 中执行过滤任务，界面在过滤大请求体或 HAR 文件时保持响应
+// 同一服务同时只执行一个任务，新任务开始时取消仍在执行的旧任务；任务超时（如正则表达式灾难性回溯）时终止 Worker
+// 不支持 Worker 的环境（如测试环境）在主线程中执行，此时无法中断正在执行的任务
+
+import type { FilterRule, ResolutionStrategy } from '../types/filterRules';
+import type { HarFile } from '../types/har';
+import { DEFAULT_SETTINGS, MatchMode } from '../types/filterRules';
+import { FilterEngine } from './filterEngine';
+import {
+  runFilterJob,
+  type CurlFilterOutput,
+  type FilterJob,
+  type FilterJobOutput,
+  type FilterProgress,
+  type FilterWorkerRequest,
+  type FilterWorkerResponse
+} from './filterJobs';
+import type { HarBatchItem } from './har';
+
+// 默认的任务超时时间（毫秒）：单条命令从开始时计时，批量任务从最近一次进度计时
+export const DEFAULT_FILTER_TIMEOUT = 10000;
+
+// 任务被取消时 Promise 拒绝的错误名称
+const CANCELLED_ERROR_NAME = 'AbortError';
+
+/**
+ * 过滤服务的选项
+ */
+export interface FilterServiceOptions {
+  timeout?: number;                        // 任务超时时间（毫秒）
+  createWorker?: (() => Worker) | null;    // 创建 Worker，null 表示在主线程中执行；默认在支持时使用过滤 Worker
+}
+
+// 正在执行的任务
+interface PendingJob {
+  id: number;
+  resolve: (output: FilterJobOutput) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: FilterProgress) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * 创建过滤 Worker
+ */
+function createFilterWorker(): Worker {
+  return new Worker(new URL('../workers/filterWorker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * 判断错误是否因任务被取消（被新任务替代或主动取消）而产生，这类错误通常无需提示用户
+ */
+export function isFilterJobCancelled(error: unknown): boolean {
+  return error instanceof Error && error.name === CANCELLED_ERROR_NAME;
+}
+
+/**
+ * 过滤服务
+ */
+export class FilterService {
+  private rules: FilterRule[] = [];
+  private resolutionStrategy: ResolutionStrategy = DEFAULT_SETTINGS.resolutionStrategy;
+  private readonly timeout: number;
+  private readonly createWorker: (() => Worker) | null;
+  private worker: Worker | null = null;
+  private engine: FilterEngine | null = null;
+  private pending: PendingJob | null = null;
+  private nextJobId = 1;
+
+  constructor(options: FilterServiceOptions = {}) {
+    this.timeout = options.timeout ?? DEFAULT_FILTER_TIMEOUT;
+    this.createWorker = options.createWorker !== undefined
+      ? options.createWorker
+      : typeof Worker === 'undefined' ? null : createFilterWorker;
+  }
+
+  /**
+   * 设置规则，对之后开始的任务生效
+   */
+  setRules(rules: FilterRule[]): void {
+    this.rules = rules;
+    this.engine?.setRules(rules);
+    this.configureWorker();
+  }
+
+  /**
+   * 设置删除/保留规则的冲突解决策略，对之后开始的任务生效
+   */
+  setResolutionStrategy(strategy: ResolutionStrategy): void {
+    this.resolutionStrategy = strategy;
+    this.engine?.setResolutionStrategy(strategy);
+    this.configureWorker();
+  }
+
+  /**
+   * 解析并过滤一条命令
+   */
+  filterCurl(text: string): Promise<CurlFilterOutput> {
+    return this.run({ type: 'curl', text }) as Promise<CurlFilterOutput>;
+  }
+
+  /**
+   * 过滤 HAR 文件中的全部请求，过滤过程中通过 onProgress 报告进度
+   */
+  filterHar(har: HarFile, onProgress?: (progress: FilterProgress) => void): Promise<HarBatchItem[]> {
+    return this.run({ type: 'har', har }, onProgress) as Promise<HarBatchItem[]>;
+  }
+
+  /**
+   * 取消正在执行的任务，任务的 Promise 以取消错误拒绝（见 isFilterJobCancelled）
+   */
+  cancel(): void {
+    if (this.pending) {
+      const error = new Error('过滤任务已取消');
+      error.name = CANCELLED_ERROR_NAME;
+      this.fail(error);
+    }
+  }
+
+  /**
+   * 取消正在执行的任务并释放 Worker；之后开始新任务时会重新创建
+   */
+  dispose(): void {
+    this.cancel();
+    this.terminateWorker();
+  }
+
+  private run(job: FilterJob, onProgress?: (progress: FilterProgress) => void): Promise<FilterJobOutput> {
+    this.cancel();
+
+    return new Promise<FilterJobOutput>((resolve, reject) => {
+      const pending: PendingJob = { id: this.nextJobId++, resolve, reject, onProgress };
+      this.pending = pending;
+
+      if (!this.createWorker) {
+        this.runInProcess(pending, job);
+        return;
+      }
+
+      this.startTimer(pending);
+      this.getWorker(this.createWorker).postMessage({ type: 'run', jobId: pending.id, job } satisfies FilterWorkerRequest);
+    });
+  }
+
+  /**
+   * 在主线程中执行任务，推迟到下一个微任务，调用方可以先取消
+   */
+  private runInProcess(pending: PendingJob, job: FilterJob): void {
+    if (!this.engine) {
+      this.engine = new FilterEngine(this.rules, this.resolutionStrategy);
+    }
+    const engine = this.engine;
+
+    queueMicrotask(() => {
+      if (this.pending !== pending) return;
+      try {
+        const output = runFilterJob(engine, job, progress => pending.onProgress?.(progress));
+        this.complete(output);
+      } catch (error) {
+        this.fail(error as Error);
+      }
+    });
+  }
+
+  private getWorker(createWorker: () => Worker): Worker {
+    if (!this.worker) {
+      const worker = createWorker();
+      worker.addEventListener('message', (event: MessageEvent<FilterWorkerResponse>) => this.handleMessage(event.data));
+      worker.addEventListener('error', event => {
+        event.preventDefault();
+        this.terminateWorker();
+        this.fail(new Error(`过滤 Worker 出错：${event.message || '无法加载'}`));
+      });
+      this.worker = worker;
+      this.configureWorker();
+    }
+    return this.worker;
+  }
+
+  private configureWorker(): void {
+    this.worker?.postMessage({
+      type: 'configure',
+      rules: this.rules,
+      resolutionStrategy: this.resolutionStrategy
+    } satisfies FilterWorkerRequest);
+  }
+
+  private terminateWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private handleMessage(message: FilterWorkerResponse): void {
+    const pending = this.pending;
+    if (!pending || message.jobId !== pending.id) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'progress':
+        this.startTimer(pending);
+        pending.onProgress?.(message.progress);
+        break;
+      case 'done':
+        this.complete(message.output);
+        break;
+      case 'failed':
+        this.fail(new Error(message.message));
+        break;
+    }
+  }
+
+  /**
+   * 启动或重新开始任务的超时计时，超时后终止 Worker（无法中断正在执行的正则表达式）
+   */
+  private startTimer(pending: PendingJob): void {
+    clearTimeout(pending.timer);
+    pending.timer = setTimeout(() => {
+      if (this.pending === pending) {
+        this.terminateWorker();
+        this.fail(new Error(this.getTimeoutMessage()));
+      }
+    }, this.timeout);
+  }
+
+  /**
+   * 超时提示，列出可能发生灾难性回溯的正则表达式规则
+   */
+  private getTimeoutMessage(): string {
+    const seconds = this.timeout / 1000;
+    const regexRules = this.rules
+      .filter(rule => rule.enabled && rule.matchMode === MatchMode.REGEX)
+      .map(rule => `「${rule.name}」`);
+
+    return regexRules.length > 0
+      ? `过滤超时（超过 ${seconds} 秒），请检查正则表达式规则${regexRules.join('、')}是否存在灾难性回溯`
+      : `过滤超时（超过 ${seconds} 秒）`;
+  }
+
+  private complete(output: FilterJobOutput): void {
+    const pending = this.finish();
+    pending?.resolve(output);
+  }
+
+  /**
+   * 以错误结束正在执行的任务；Worker 仍在执行被取消的任务时终止它，避免阻塞之后的任务
+   */
+  private fail(error: Error): void {
+    if (this.pending && this.worker && error.name === CANCELLED_ERROR_NAME) {
+      this.terminateWorker();
+    }
+    const pending = this.finish();
+    pending?.reject(error);
+  }
+
+  private finish(): PendingJob | null {
+    const pending = this.pending;
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending = null;
+    }
+    return pending;
+  }
+}
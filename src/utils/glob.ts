@@ -0,0 +1,48 @@
+// 通配符模式匹配
+
+/**
+ * 将通配符模式转换为正则表达式（整体匹配）
+ * * 匹配任意数量的任意字符（包括换行符），? 匹配单个字符，其余字符按字面匹配
+ */
+export function globToRegExp(pattern: string, flags = ''): RegExp {
+  const source = Array.from(pattern).map(char => {
+    if (char === '*') return '.*';
+    if (char === '?') return '.';
+    return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+
+  return new RegExp(`^${source}$`, flags.includes('s') ? flags : `${flags}s`);
+}
+
+// 已编译通配符模式的缓存上限，超出后淘汰最久未使用的模式，避免规则不断变化时缓存无限增长
+export const MAX_COMPILED_GLOBS = 500;
+
+// 已编译的通配符模式（按使用顺序排列），规则的适用条件在批量过滤时会对每个请求重复匹配
+const compiledGlobs = new Map<string, RegExp>();
+
+/**
+ * 判断文本是否匹配通配符模式
+ */
+export function matchGlob(value: string, pattern: string, ignoreCase = false): boolean {
+  const flags = ignoreCase ? 'i' : '';
+  const cacheKey = `${flags}:${pattern}`;
+  let regex = compiledGlobs.get(cacheKey);
+  if (regex) {
+    compiledGlobs.delete(cacheKey);
+  } else {
+    regex = globToRegExp(pattern, flags);
+    if (compiledGlobs.size >= MAX_COMPILED_GLOBS) {
+      const oldest = compiledGlobs.keys().next();
+      if (!oldest.done) compiledGlobs.delete(oldest.value);
+    }
+  }
+  compiledGlobs.set(cacheKey, regex);
+  return regex.test(value);
+}
+
+/**
+ * 已缓存的通配符模式数量
+ */
+export function getCompiledGlobCount(): number {
+  return compiledGlobs.size;
+}
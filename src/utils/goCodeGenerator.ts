@@ -0,0 +1,214 @@
+// Go 代码生成：标准库 net/http
+
+import type { MultipartField } from '../types/filterRules';
+import { serializeCookies } from './cookies';
+import { RequestBodyKind, findHeader, hasControlChars, isControlChar, type RequestBodyPart, type RequestModel } from './requestModel';
+
+// 错误处理语句（生成的代码遇到错误直接 panic）
+const PANIC_ON_ERROR = ['if err != nil {', '\tpanic(err)', '}'];
+
+/**
+ * 生成双引号字符串字面量
+ */
+export function goString(value: string): string {
+  let result = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '"') {
+      result += '\\' + char;
+    } else if (char === '\n') {
+      result += '\\n';
+    } else if (char === '\r') {
+      result += '\\r';
+    } else if (char === '\t') {
+      result += '\\t';
+    } else if (isControlChar(code)) {
+      result += '\\x' + code.toString(16).padStart(2, '0');
+    } else {
+      result += char;
+    }
+  }
+  return `"${result}"`;
+}
+
+/**
+ * 生成多行文本字面量：能用反引号原始字符串时使用原始字符串，否则使用双引号字符串
+ */
+function goText(value: string): string {
+  return value.includes('`') || hasControlChars(value, '\t\n') ? goString(value) : '`' + value + '`';
+}
+
+/**
+ * 生成构建 multipart 请求体的语句，文件字段放在独立的代码块中以便重复使用变量名
+ */
+function buildMultipartLines(fields: MultipartField[], imports: Set<string>): string[] {
+  imports.add('bytes').add('mime/multipart');
+  const lines = ['body := &bytes.Buffer{}', 'writer := multipart.NewWriter(body)'];
+
+  fields.forEach(field => {
+    const name = goString(field.name);
+
+    if (field.isFile) {
+      imports.add('io').add('os');
+      const filename = goString(field.filename || field.value.split(/[\\/]/).pop() || field.value);
+      const createPart = field.contentType
+        ? [
+          'partHeader := make(textproto.MIMEHeader)',
+          `partHeader.Set("Content-Disposition", fmt.Sprintf(\`form-data; name="%s"; filename="%s"\`, ${name}, ${filename}))`,
+          `partHeader.Set("Content-Type", ${goString(field.contentType)})`,
+          'part, err := writer.CreatePart(partHeader)'
+        ]
+        : [`part, err := writer.CreateFormFile(${name}, ${filename})`];
+      if (field.contentType) {
+        imports.add('fmt').add('net/textproto');
+      }
+
+      lines.push('{', ...[
+        `file, err := os.Open(${goString(field.value)})`,
+        ...PANIC_ON_ERROR,
+        'defer file.Close()',
+        ...createPart,
+        ...PANIC_ON_ERROR,
+        'if _, err := io.Copy(part, file); err != nil {',
+        '\tpanic(err)',
+        '}'
+      ].map(line => '\t' + line), '}');
+      return;
+    }
+
+    if (field.isFileContent) {
+      imports.add('os');
+      lines.push('{', ...[
+        `content, err := os.ReadFile(${goString(field.value)})`,
+        ...PANIC_ON_ERROR,
+        `writer.WriteField(${name}, string(content))`
+      ].map(line => '\t' + line), '}');
+      return;
+    }
+
+    lines.push(`writer.WriteField(${name}, ${goString(field.value)})`);
+  });
+
+  lines.push('writer.Close()');
+  return lines;
+}
+
+/**
+ * 生成读取引用文件的请求体的语句；只有一个文件时直接使用文件内容，否则按顺序写入缓冲区
+ */
+function buildFileBodyLines(parts: RequestBodyPart[], imports: Set<string>): string[] {
+  imports.add('bytes').add('os');
+
+  if (parts.length === 1 && 'file' in parts[0] && !parts[0].urlencode) {
+    return [`content, err := os.ReadFile(${goString(parts[0].file)})`, ...PANIC_ON_ERROR, 'body := bytes.NewReader(content)'];
+  }
+
+  const lines = ['body := &bytes.Buffer{}'];
+  parts.forEach(part => {
+    if ('file' in part) {
+      if (part.urlencode) imports.add('net/url');
+      lines.push('{', ...[
+        `content, err := os.ReadFile(${goString(part.file)})`,
+        ...PANIC_ON_ERROR,
+        part.urlencode ? 'body.WriteString(url.QueryEscape(string(content)))' : 'body.Write(content)'
+      ].map(line => '\t' + line), '}');
+    } else {
+      lines.push(`body.WriteString(${goString(part.text)})`);
+    }
+  });
+  return lines;
+}
+
+/**
+ * 生成构建请求体的语句，返回请求体变量名（没有请求体时为 nil）
+ */
+function buildBodyLines(model: RequestModel, imports: Set<string>): { lines: string[]; body: string } {
+  const body = model.body;
+  switch (body.kind) {
+    case RequestBodyKind.JSON:
+      imports.add('strings');
+      return { lines: [`body := strings.NewReader(${goText(JSON.stringify(body.value))})`], body: 'body' };
+
+    case RequestBodyKind.FORM: {
+      imports.add('net/url').add('strings');
+      const lines = ['form := url.Values{}'];
+      Object.entries(body.fields).forEach(([key, value]) => {
+        lines.push(`form.Set(${goString(key)}, ${goString(value)})`);
+      });
+      lines.push('body := strings.NewReader(form.Encode())');
+      return { lines, body: 'body' };
+    }
+
+    case RequestBodyKind.MULTIPART:
+      return { lines: buildMultipartLines(body.fields, imports), body: 'body' };
+
+    case RequestBodyKind.FILE:
+      return { lines: buildFileBodyLines(body.parts, imports), body: 'body' };
+
+    case RequestBodyKind.RAW:
+      imports.add('strings');
+      return { lines: [`body := strings.NewReader(${goText(body.content)})`], body: 'body' };
+
+    default:
+      return { lines: [], body: 'nil' };
+  }
+}
+
+/**
+ * 生成请求头设置语句
+ * multipart 的 Content-Type 使用 writer 生成的 boundary；表单缺少 Content-Type 时补充
+ */
+function buildHeaderLines(model: RequestModel): string[] {
+  const lines = Object.entries(model.headers).map(([key, value]) => `req.Header.Set(${goString(key)}, ${goString(value)})`);
+
+  if (model.body.kind === RequestBodyKind.MULTIPART) {
+    lines.push('req.Header.Set("Content-Type", writer.FormDataContentType())');
+  } else if (model.body.kind === RequestBodyKind.FORM && !findHeader(model.headers, 'content-type')) {
+    lines.push('req.Header.Set("Content-Type", "application/x-www-form-urlencoded")');
+  }
+  if (Object.keys(model.cookies).length > 0) {
+    lines.push(`req.Header.Set("Cookie", ${goString(serializeCookies(model.cookies))})`);
+  }
+
+  return lines;
+}
+
+/**
+ * 生成 net/http 代码（gofmt 格式）
+ */
+export function generateGo(model: RequestModel): string {
+  const imports = new Set(['fmt', 'io', 'net/http']);
+  const { lines: bodyLines, body } = buildBodyLines(model, imports);
+  const headerLines = buildHeaderLines(model);
+
+  const statements = [
+    ...bodyLines,
+    ...(bodyLines.length > 0 ? [''] : []),
+    `req, err := http.NewRequest(${goString(model.method)}, ${goString(model.url)}, ${body})`,
+    ...PANIC_ON_ERROR,
+    ...headerLines,
+    '',
+    'resp, err := http.DefaultClient.Do(req)',
+    ...PANIC_ON_ERROR,
+    'defer resp.Body.Close()',
+    '',
+    'respBody, err := io.ReadAll(resp.Body)',
+    ...PANIC_ON_ERROR,
+    'fmt.Println(resp.StatusCode)',
+    'fmt.Println(string(respBody))'
+  ];
+
+  const importLines = [...imports].sort().map(path => `\t"${path}"`);
+  return [
+    'package main',
+    '',
+    'import (',
+    ...importLines,
+    ')',
+    '',
+    'func main() {',
+    ...statements.map(line => line ? '\t' + line : ''),
+    '}',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,340 @@
+// HAR 1.2 文件的导入、批量过滤和导出
+
+import type { HarEntry, HarFile, HarNameValue, HarPostData, HarRequest, HarResponse } from '../types/har';
+import type { FilterResult, MultipartField } from '../types/filterRules';
+import { createParsedRequest, type ParsedCurl } from './curlParser';
+import { buildCurlFromContext, buildRequestBody, buildRequestUrl } from './curlBuilder';
+import { FilterEngine, filterParsedCurl } from './filterEngine';
+import { buildMultipartBody, MULTIPART_BOUNDARY } from './rawHttpBuilder';
+import { parseMultipartBody, utf8Length } from './rawHttpParser';
+import { getCookiesOutsideHeader, parseCookieString, serializeCookies } from './cookies';
+
+// 由请求URL和请求体决定的请求头，导入时去掉，重新生成请求时会重新计算
+const GENERATED_HEADERS = ['host', 'content-length', 'transfer-encoding'];
+
+/**
+ * HAR 中的一条请求及其过滤结果
+ */
+export interface HarBatchItem {
+  index: number;            // 在 log.entries 中的位置
+  entry: HarEntry;          // 原始记录
+  method: string;
+  url: string;              // 原始请求URL
+  status: number;           // 响应状态码，没有响应（如请求被取消）时为 0
+  parsed: ParsedCurl;       // 原始请求
+  filtered: ParsedCurl;     // 过滤后的请求
+  result: FilterResult;     // 过滤结果
+  outputCurl: string;       // 过滤后的cURL命令
+  response?: HarResponse;   // 按Cookie规则过滤后的响应
+}
+
+/**
+ * 按URL、方法、状态码筛选条目的条件，未设置的条件不参与筛选
+ */
+export interface HarItemFilter {
+  url?: string;             // URL包含的文本（不区分大小写）
+  method?: string;          // HTTP方法
+  status?: string;          // 状态码（如 404）或状态类别（如 4xx）
+}
+
+/**
+ * 解析 HAR 文件内容
+ */
+export function parseHar(text: string): HarFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('HAR文件不是有效的JSON');
+  }
+
+  const log = (data as Partial<HarFile> | null)?.log;
+  if (!log || !Array.isArray(log.entries)) {
+    throw new Error('HAR文件缺少 log.entries');
+  }
+
+  log.entries.forEach((entry, index) => {
+    if (!entry || !entry.request || typeof entry.request.url !== 'string' || typeof entry.request.method !== 'string') {
+      throw new Error(`HAR文件第 ${index + 1} 条记录缺少请求URL或方法`);
+    }
+  });
+
+  return data as HarFile;
+}
+
+/**
+ * 合并 HAR 中的请求头：键名转为小写，重复的请求头合并（Cookie 用 "; "，其他用 ", "），跳过 HTTP/2 伪请求头
+ */
+function mergeHeaders(headers: HarNameValue[] = []): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  headers.forEach(({ name, value }) => {
+    const key = name.toLowerCase();
+    if (key.startsWith(':') || GENERATED_HEADERS.includes(key)) return;
+
+    if (key in result) {
+      result[key] += (key === 'cookie' ? '; ' : ', ') + value;
+    } else {
+      result[key] = value;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 把 multipart 请求的 params 转换为表单字段，文件字段以文件名引用（文件内容不保留）
+ */
+function paramsToMultipart(postData: HarPostData): MultipartField[] {
+  return (postData.params || []).map(param => param.fileName !== undefined
+    ? { name: param.name, value: param.fileName, isFile: true, contentType: param.contentType }
+    : { name: param.name, value: param.value || '', isFile: false, isString: true });
+}
+
+/**
+ * 把 HAR 中的请求转换为解析结果
+ * 查询参数、Cookie和请求体的处理与cURL命令相同；multipart 请求体优先使用 params，其次按 boundary 拆分 text
+ */
+export function harRequestToParsedCurl(request: HarRequest): ParsedCurl {
+  const headers = mergeHeaders(request.headers);
+  if (!headers['cookie'] && request.cookies && request.cookies.length > 0) {
+    headers['cookie'] = request.cookies.map(({ name, value }) => `${name}=${value}`).join('; ');
+  }
+
+  const postData = request.postData;
+  let body: string | undefined;
+  let multipartData: MultipartField[] = [];
+
+  if (postData) {
+    const mimeType = postData.mimeType || headers['content-type'] || '';
+    const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(mimeType);
+
+    if (/^multipart\/form-data/i.test(mimeType) && postData.params && postData.params.length > 0) {
+      multipartData = paramsToMultipart(postData);
+    } else if (/^multipart\/form-data/i.test(mimeType) && postData.text && boundary) {
+      multipartData = parseMultipartBody(postData.text, boundary[1] ?? boundary[2]) || [];
+    }
+
+    if (multipartData.length > 0) {
+      // boundary 由生成的命令重新决定
+      delete headers['content-type'];
+    } else if (postData.text !== undefined && postData.text !== '') {
+      body = postData.text;
+    } else if (postData.params && postData.params.length > 0) {
+      body = postData.params
+        .map(param => `${encodeURIComponent(param.name)}=${encodeURIComponent(param.value || '')}`)
+        .join('&');
+    }
+
+    if (body !== undefined && !headers['content-type'] && postData.mimeType) {
+      headers['content-type'] = postData.mimeType;
+    }
+  }
+
+  return createParsedRequest({
+    url: request.url,
+    method: request.method.toUpperCase(),
+    headers,
+    body,
+    multipartData
+  });
+}
+
+/**
+ * 拆出 Set-Cookie 响应头中的Cookie名称和值（第一个分号之前的部分）
+ */
+function parseSetCookie(header: string): HarNameValue | null {
+  const pair = header.split(';')[0];
+  const equalIndex = pair.indexOf('=');
+  const name = equalIndex < 0 ? '' : pair.substring(0, equalIndex).trim();
+  return name ? { name, value: pair.substring(equalIndex + 1).trim() } : null;
+}
+
+/**
+ * 用Cookie规则过滤响应的 Set-Cookie 响应头和 cookies 列表，规则的适用条件按对应的请求判断
+ * 被删除或重命名的Cookie从响应中去掉，被脱敏或改写的Cookie换成过滤后的值，Cookie的属性保持不变
+ */
+function filterHarResponse(response: HarResponse, parsed: ParsedCurl, engine: FilterEngine): HarResponse {
+  const isSetCookie = (header: HarNameValue) => header.name.toLowerCase() === 'set-cookie';
+  const setCookies = (response.headers || []).filter(isSetCookie).map(header => parseSetCookie(header.value));
+  const cookies: Record<string, string> = {};
+  [...(response.cookies || []), ...setCookies].forEach(cookie => {
+    if (cookie) cookies[cookie.name] = cookie.value;
+  });
+  if (Object.keys(cookies).length === 0) {
+    return response;
+  }
+
+  // 请求中的Cookie请求头不参与：请求头规则删除它时会连带清空Cookie
+  const headers = Object.fromEntries(Object.entries(parsed.headers).filter(([name]) => name.toLowerCase() !== 'cookie'));
+  const filtered = engine.applyFilters({
+    headers,
+    queryParams: parsed.queryParams,
+    formData: {},
+    jsonBody: null,
+    cookies,
+    url: parsed.url,
+    method: parsed.method
+  }).cookies || {};
+
+  const keep = (name: string) => name in filtered;
+  return {
+    ...response,
+    ...(response.headers ? {
+      headers: response.headers.flatMap(header => {
+        const cookie = isSetCookie(header) ? parseSetCookie(header.value) : null;
+        if (!cookie) return [header];
+        if (!keep(cookie.name)) return [];
+        const attributes = header.value.indexOf(';') < 0 ? '' : header.value.substring(header.value.indexOf(';'));
+        return [{ ...header, value: `${cookie.name}=${filtered[cookie.name]}${attributes}` }];
+      })
+    } : {}),
+    ...(response.cookies ? {
+      cookies: response.cookies.filter(cookie => keep(cookie.name)).map(cookie => ({ ...cookie, value: filtered[cookie.name] }))
+    } : {})
+  };
+}
+
+/**
+ * 对 HAR 中的所有请求应用过滤规则，每过滤完一条请求调用一次 onProgress
+ */
+export function filterHarEntries(
+  har: HarFile,
+  engine: FilterEngine,
+  onProgress?: (completed: number, total: number) => void
+): HarBatchItem[] {
+  const total = har.log.entries.length;
+
+  return har.log.entries.map((entry, index) => {
+    const parsed = harRequestToParsedCurl(entry.request);
+    const { result, filtered } = filterParsedCurl(engine, parsed);
+    onProgress?.(index + 1, total);
+
+    return {
+      index,
+      entry,
+      method: parsed.method,
+      url: entry.request.url,
+      status: entry.response?.status || 0,
+      parsed,
+      filtered,
+      result,
+      outputCurl: buildCurlFromContext(filtered),
+      ...(entry.response ? { response: filterHarResponse(entry.response, parsed, engine) } : {})
+    };
+  });
+}
+
+/**
+ * 判断条目是否满足筛选条件
+ */
+export function matchesHarItemFilter(item: HarBatchItem, filter: HarItemFilter): boolean {
+  if (filter.url && !item.url.toLowerCase().includes(filter.url.toLowerCase())) {
+    return false;
+  }
+
+  if (filter.method && item.method !== filter.method.toUpperCase()) {
+    return false;
+  }
+
+  if (filter.status) {
+    const status = filter.status.trim().toLowerCase();
+    const classMatch = /^([1-5])xx$/.exec(status);
+    if (classMatch) {
+      if (Math.floor(item.status / 100) !== Number(classMatch[1])) return false;
+    } else if (String(item.status) !== status) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 把过滤后的请求生成为 shell 脚本，每条请求前注释其序号、方法和URL
+ */
+export function buildCurlScript(items: HarBatchItem[]): string {
+  const lines = ['#!/bin/sh', ''];
+
+  items.forEach((item, i) => {
+    const url = buildRequestUrl(item.filtered).replace(/[\r\n]/g, '');
+    lines.push(`# ${i + 1}. ${item.method} ${url}`, item.outputCurl, '');
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * 把（过滤后的）解析结果转换为 HAR 请求
+ * 请求头、查询参数、Cookie 和请求体都取自过滤后的内容；multipart 请求体使用固定分隔符重新生成
+ */
+export function parsedCurlToHarRequest(parsed: ParsedCurl, httpVersion = 'HTTP/1.1'): HarRequest {
+  const isMultipart = parsed.multipartData.length > 0;
+  const headers: HarNameValue[] = [];
+  let contentType: string | undefined;
+
+  Object.entries(parsed.headers).forEach(([name, value]) => {
+    if (isMultipart && name.toLowerCase() === 'content-type') return;
+    if (name.toLowerCase() === 'content-type') contentType = value;
+    headers.push({ name, value });
+  });
+
+  // 不在Cookie请求头中的Cookie（如 -b 中的Cookie）合并到同一个请求头
+  const extraCookies = getCookiesOutsideHeader(parsed.headers, parsed.cookies, parsed.optionCookies);
+  if (Object.keys(extraCookies).length > 0) {
+    const cookieHeader = headers.find(header => header.name.toLowerCase() === 'cookie');
+    if (cookieHeader) {
+      cookieHeader.value = serializeCookies({ ...parseCookieString(cookieHeader.value), ...extraCookies });
+    } else {
+      headers.push({ name: 'cookie', value: serializeCookies(extraCookies) });
+    }
+  }
+
+  let postData: HarPostData | undefined;
+  if (isMultipart) {
+    const mimeType = `multipart/form-data; boundary=${MULTIPART_BOUNDARY}`;
+    headers.push({ name: 'content-type', value: mimeType });
+    postData = {
+      mimeType,
+      text: buildMultipartBody(parsed.multipartData),
+      params: parsed.multipartData.map(field => field.isFile
+        ? { name: field.name, fileName: field.filename || field.value.split(/[\\/]/).pop() || field.value, contentType: field.contentType }
+        : { name: field.name, value: field.value })
+    };
+  } else {
+    const text = buildRequestBody(parsed);
+    if (text !== undefined) {
+      postData = { mimeType: contentType || 'application/x-www-form-urlencoded', text };
+    }
+  }
+
+  return {
+    method: parsed.method,
+    url: buildRequestUrl(parsed),
+    httpVersion,
+    cookies: Object.entries(parsed.cookies).map(([name, value]) => ({ name, value })),
+    headers,
+    queryString: Object.entries(parsed.queryParams).map(([name, value]) => ({ name, value })),
+    ...(postData ? { postData } : {}),
+    headersSize: -1,
+    bodySize: postData?.text !== undefined ? utf8Length(postData.text) : 0
+  };
+}
+
+/**
+ * 用选中的条目生成新的 HAR 文件
+ * 请求替换为过滤后的请求，响应替换为过滤了Cookie的响应，时间等其他字段原样保留
+ */
+export function buildHarFromItems(har: HarFile, items: HarBatchItem[]): HarFile {
+  return {
+    log: {
+      ...har.log,
+      creator: { name: 'curl-filter', version: '1.0' },
+      entries: items.map(item => ({
+        ...item.entry,
+        request: parsedCurlToHarRequest(item.filtered, item.entry.request.httpVersion || 'HTTP/1.1'),
+        ...(item.response ? { response: item.response } : {})
+      }))
+    }
+  };
+}
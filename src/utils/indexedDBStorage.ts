@@ -219,7 +219,8 @@ export class IndexedDBStorageManager {
         return await this.loadFromBackup() || this.createDefaultConfig();
       }
 
-      return config;
+      // 旧版本保存的设置可能缺少新增的设置项
+      return { ...config, settings: { ...DEFAULT_SETTINGS, ...config.settings } };
     } catch (error) {
       console.error('加载配置失败:', error);
       // 尝试从备份恢复
@@ -743,6 +744,13 @@ export class IndexedDBStorageManager {
           target: rule.target,
           matchMode: rule.matchMode,
           matchValue: rule.matchValue,
+          matchScope: rule.matchScope,
+          caseSensitive: rule.caseSensitive,
+          negate: rule.negate,
+          maskStrategy: rule.maskStrategy,
+          maskValue: rule.maskValue,
+          replacement: rule.replacement,
+          condition: rule.condition,
           priority: rule.priority,
           enabled: rule.enabled,
           description: rule.description
@@ -778,6 +786,13 @@ export class IndexedDBStorageManager {
         target: rule.target,
         matchMode: rule.matchMode,
         matchValue: rule.matchValue || '',
+        matchScope: rule.matchScope,
+        caseSensitive: rule.caseSensitive,
+        negate: rule.negate,
+        maskStrategy: rule.maskStrategy,
+        maskValue: rule.maskValue,
+        replacement: rule.replacement,
+        condition: rule.condition,
         priority: rule.priority ?? 50,
         enabled: rule.enabled ?? true,
         description: rule.description || '',
@@ -0,0 +1,205 @@
+// Java 代码生成：OkHttp 4
+
+import type { MultipartField } from '../types/filterRules';
+import { serializeCookies } from './cookies';
+import { RequestBodyKind, findHeader, isControlChar, type RequestBodyPart, type RequestModel } from './requestModel';
+
+// OkHttp 要求必须带请求体的HTTP方法
+const METHODS_REQUIRING_BODY = ['POST', 'PUT', 'PATCH', 'PROPPATCH', 'REPORT'];
+
+/**
+ * 生成双引号字符串字面量
+ * 控制字符使用八进制转义：Java 会在编译前处理 \u 转义，\u000a 会直接变成换行导致编译错误
+ */
+export function javaString(value: string): string {
+  let result = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '"') {
+      result += '\\' + char;
+    } else if (char === '\n') {
+      result += '\\n';
+    } else if (char === '\r') {
+      result += '\\r';
+    } else if (char === '\t') {
+      result += '\\t';
+    } else if (isControlChar(code)) {
+      result += '\\' + code.toString(8).padStart(3, '0');
+    } else {
+      result += char;
+    }
+  }
+  return `"${result}"`;
+}
+
+/**
+ * 生成 MediaType 表达式，没有类型时为 null
+ */
+function mediaType(contentType: string | undefined): string {
+  return contentType ? `MediaType.parse(${javaString(contentType)})` : 'null';
+}
+
+/**
+ * 生成 multipart 字段的构建语句
+ */
+function buildMultipartBody(fields: MultipartField[], imports: Set<string>): string[] {
+  imports.add('okhttp3.MultipartBody');
+  const lines = ['RequestBody body = new MultipartBody.Builder()', '        .setType(MultipartBody.FORM)'];
+
+  fields.forEach(field => {
+    const name = javaString(field.name);
+    if (field.isFile) {
+      imports.add('java.io.File').add('okhttp3.MediaType');
+      const filename = javaString(field.filename || field.value.split(/[\\/]/).pop() || field.value);
+      const file = `RequestBody.create(new File(${javaString(field.value)}), ${mediaType(field.contentType)})`;
+      lines.push(`        .addFormDataPart(${name}, ${filename}, ${file})`);
+    } else if (field.isFileContent) {
+      imports.add('java.nio.file.Files').add('java.nio.file.Path');
+      lines.push(`        .addFormDataPart(${name}, Files.readString(Path.of(${javaString(field.value)})))`);
+    } else {
+      lines.push(`        .addFormDataPart(${name}, ${javaString(field.value)})`);
+    }
+  });
+
+  lines.push('        .build();');
+  return lines;
+}
+
+/**
+ * 生成读取引用文件的请求体的语句；只有一个文件时直接上传文件，否则按顺序写入字节数组
+ */
+function buildFileBody(parts: RequestBodyPart[], type: string, imports: Set<string>): string[] {
+  imports.add('okhttp3.MediaType');
+
+  if (parts.length === 1 && 'file' in parts[0] && !parts[0].urlencode) {
+    imports.add('java.io.File');
+    return [`RequestBody body = RequestBody.create(new File(${javaString(parts[0].file)}), ${type});`];
+  }
+
+  imports.add('java.io.ByteArrayOutputStream');
+  const lines = ['ByteArrayOutputStream content = new ByteArrayOutputStream();'];
+  parts.forEach(part => {
+    if ('file' in part && part.urlencode) {
+      imports.add('java.net.URLEncoder').add('java.nio.charset.StandardCharsets').add('java.nio.file.Files').add('java.nio.file.Path');
+      lines.push(
+        `content.write(URLEncoder.encode(Files.readString(Path.of(${javaString(part.file)})), StandardCharsets.UTF_8)` +
+        '.getBytes(StandardCharsets.UTF_8));'
+      );
+    } else if ('file' in part) {
+      imports.add('java.nio.file.Files').add('java.nio.file.Path');
+      lines.push(`content.write(Files.readAllBytes(Path.of(${javaString(part.file)})));`);
+    } else {
+      imports.add('java.nio.charset.StandardCharsets');
+      lines.push(`content.write(${javaString(part.text)}.getBytes(StandardCharsets.UTF_8));`);
+    }
+  });
+  lines.push(`RequestBody body = RequestBody.create(content.toByteArray(), ${type});`);
+  return lines;
+}
+
+/**
+ * 生成构建请求体的语句，返回请求体表达式（没有请求体时为 null）
+ * OkHttp 会根据请求体的 MediaType 设置 Content-Type，contentTypeFromBody 表示请求头中无需再设置
+ */
+function buildBody(model: RequestModel, imports: Set<string>): { lines: string[]; body: string; contentTypeFromBody: boolean } {
+  const body = model.body;
+  const contentType = findHeader(model.headers, 'content-type');
+
+  switch (body.kind) {
+    case RequestBodyKind.JSON:
+    case RequestBodyKind.RAW: {
+      imports.add('okhttp3.MediaType');
+      const content = body.kind === RequestBodyKind.JSON ? JSON.stringify(body.value) : body.content;
+      return {
+        lines: [`RequestBody body = RequestBody.create(${javaString(content)}, ${mediaType(contentType)});`],
+        body: 'body',
+        contentTypeFromBody: contentType !== undefined
+      };
+    }
+
+    case RequestBodyKind.FORM: {
+      imports.add('okhttp3.FormBody');
+      const lines = ['RequestBody body = new FormBody.Builder()'];
+      Object.entries(body.fields).forEach(([key, value]) => {
+        lines.push(`        .add(${javaString(key)}, ${javaString(value)})`);
+      });
+      lines.push('        .build();');
+      // FormBody 固定使用 application/x-www-form-urlencoded
+      return { lines, body: 'body', contentTypeFromBody: true };
+    }
+
+    case RequestBodyKind.MULTIPART:
+      return { lines: buildMultipartBody(body.fields, imports), body: 'body', contentTypeFromBody: true };
+
+    case RequestBodyKind.FILE:
+      return {
+        lines: buildFileBody(body.parts, mediaType(contentType), imports),
+        body: 'body',
+        contentTypeFromBody: contentType !== undefined
+      };
+
+    default:
+      if (METHODS_REQUIRING_BODY.includes(model.method)) {
+        return { lines: [], body: 'RequestBody.create(new byte[0])', contentTypeFromBody: false };
+      }
+      return { lines: [], body: 'null', contentTypeFromBody: false };
+  }
+}
+
+/**
+ * 生成 OkHttp 代码
+ */
+export function generateJavaOkHttp(model: RequestModel): string {
+  const imports = new Set([
+    'java.io.IOException',
+    'okhttp3.OkHttpClient',
+    'okhttp3.Request',
+    'okhttp3.RequestBody',
+    'okhttp3.Response'
+  ]);
+  const { lines: bodyLines, body, contentTypeFromBody } = buildBody(model, imports);
+
+  const builder = ['Request request = new Request.Builder()', `        .url(${javaString(model.url)})`];
+  if (model.method !== 'GET' || body !== 'null') {
+    builder.push(`        .method(${javaString(model.method)}, ${body})`);
+  }
+  Object.entries(model.headers).forEach(([key, value]) => {
+    if (contentTypeFromBody && key.toLowerCase() === 'content-type') return;
+    builder.push(`        .addHeader(${javaString(key)}, ${javaString(value)})`);
+  });
+  if (Object.keys(model.cookies).length > 0) {
+    builder.push(`        .addHeader("Cookie", ${javaString(serializeCookies(model.cookies))})`);
+  }
+  builder.push('        .build();');
+
+  const statements = [
+    'OkHttpClient client = new OkHttpClient();',
+    '',
+    ...bodyLines,
+    ...(bodyLines.length > 0 ? [''] : []),
+    ...builder,
+    '',
+    'try (Response response = client.newCall(request).execute()) {',
+    '    System.out.println(response.code());',
+    '    System.out.println(response.body().string());',
+    '}'
+  ];
+
+  const importLines = [...imports].sort((a, b) => {
+    // java.* 排在第三方包之前
+    const groupA = a.startsWith('java.') ? 0 : 1;
+    const groupB = b.startsWith('java.') ? 0 : 1;
+    return groupA - groupB || a.localeCompare(b);
+  }).map(path => `import ${path};`);
+
+  return [
+    ...importLines,
+    '',
+    'public class Main {',
+    '    public static void main(String[] args) throws IOException {',
+    ...statements.map(line => line ? '        ' + line : ''),
+    '    }',
+    '}',
+    ''
+  ].join('\n');
+}
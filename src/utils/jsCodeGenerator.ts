@@ -0,0 +1,329 @@
+// JavaScript 代码生成：浏览器 fetch、Node.js fetch、undici 和 axios
+
+import type { MultipartField } from '../types/filterRules';
+import { serializeCookies } from './cookies';
+import { RequestBodyKind, indentLines, isControlChar, type RequestBodyPart, type RequestModel } from './requestModel';
+
+// 运行环境：浏览器中无法读取本地文件，也不允许设置部分请求头
+type JsRuntime = 'browser' | 'node';
+
+// 浏览器禁止脚本设置的请求头（Fetch 规范中的 forbidden request-header）
+const FORBIDDEN_BROWSER_HEADERS = [
+  'accept-charset', 'accept-encoding', 'access-control-request-headers', 'access-control-request-method',
+  'connection', 'content-length', 'cookie', 'date', 'dnt', 'expect', 'host', 'keep-alive', 'origin',
+  'referer', 'te', 'trailer', 'transfer-encoding', 'upgrade', 'via'
+];
+
+// 字符串字面量中需要转义的字符
+const JS_ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  "'": "\\'",
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029'
+};
+
+/**
+ * 生成单引号字符串字面量
+ */
+export function jsString(value: string): string {
+  let result = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (JS_ESCAPES[char]) {
+      result += JS_ESCAPES[char];
+    } else if (isControlChar(code)) {
+      result += '\\u' + code.toString(16).padStart(4, '0');
+    } else {
+      result += char;
+    }
+  }
+  return `'${result}'`;
+}
+
+/**
+ * 生成字符串键值对的对象字面量
+ */
+function jsObject(entries: Record<string, string>): string {
+  const lines = Object.entries(entries).map(([key, value]) => `  ${jsString(key)}: ${jsString(value)}`);
+  return lines.length > 0 ? `{\n${lines.join(',\n')}\n}` : '{}';
+}
+
+/**
+ * 生成对象字面量的属性列表，如 method、headers、body
+ */
+function jsOptions(options: Array<[string, string]>): string {
+  const lines = options.map(([key, value]) => `  ${key}: ${indentLines(value, '  ')}`);
+  return `{\n${lines.join(',\n')}\n}`;
+}
+
+/**
+ * 判断浏览器是否禁止设置该请求头
+ */
+function isForbiddenBrowserHeader(key: string): boolean {
+  const lowerKey = key.toLowerCase();
+  return FORBIDDEN_BROWSER_HEADERS.includes(lowerKey) || lowerKey.startsWith('proxy-') || lowerKey.startsWith('sec-');
+}
+
+/**
+ * 取得文件路径中的文件名
+ */
+function baseName(path: string): string {
+  return path.split(/[\\/]/).pop() || path;
+}
+
+/**
+ * 生成构建 FormData 的语句
+ * Node.js 中用 openAsBlob/readFile 读取文件；浏览器中无法按路径读取文件，生成空文件占位并注明原路径
+ */
+function buildFormDataLines(fields: MultipartField[], runtime: JsRuntime, imports: Set<string>): string[] {
+  const lines = ['const formData = new FormData();'];
+
+  fields.forEach(field => {
+    const name = jsString(field.name);
+
+    if (field.isFile) {
+      const filename = jsString(field.filename || baseName(field.value));
+      const typeOption = field.contentType ? `, { type: ${jsString(field.contentType)} }` : '';
+      if (runtime === 'node') {
+        imports.add("import { openAsBlob } from 'node:fs';");
+        lines.push(`formData.append(${name}, await openAsBlob(${jsString(field.value)}${typeOption}), ${filename});`);
+      } else {
+        lines.push(`// 浏览器中无法按路径读取文件，请替换为 <input type="file"> 选择的文件：${field.value}`);
+        lines.push(`formData.append(${name}, new File([], ${filename}${typeOption}));`);
+      }
+      return;
+    }
+
+    if (field.isFileContent) {
+      if (runtime === 'node') {
+        imports.add("import { readFile } from 'node:fs/promises';");
+        lines.push(`formData.append(${name}, await readFile(${jsString(field.value)}, 'utf8'));`);
+      } else {
+        lines.push(`// 浏览器中无法按路径读取文件，请替换为文件内容：${field.value}`);
+        lines.push(`formData.append(${name}, '');`);
+      }
+      return;
+    }
+
+    lines.push(`formData.append(${name}, ${jsString(field.value)});`);
+  });
+
+  return lines;
+}
+
+/**
+ * 生成读取引用文件的请求体的语句，请求体变量为 content
+ * Node.js 中用 readFile 读取文件；浏览器中无法按路径读取文件，文件内容留空并注明原路径
+ */
+function buildFileBodyLines(parts: RequestBodyPart[], runtime: JsRuntime, imports: Set<string>): string[] {
+  if (runtime === 'browser') {
+    const files = parts.flatMap(part => 'file' in part ? [part.urlencode ? `${part.file}（URL编码后）` : part.file] : []);
+    const text = parts.map(part => 'text' in part ? part.text : '').join('');
+    return [
+      `// 浏览器中无法按路径读取文件，请替换为文件内容：${files.join(', ')}`,
+      `const content = ${jsString(text)};`
+    ];
+  }
+
+  imports.add("import { readFile } from 'node:fs/promises';");
+  const chunks = parts.map(part => {
+    if (!('file' in part)) return `Buffer.from(${jsString(part.text)})`;
+    return part.urlencode
+      ? `Buffer.from(encodeURIComponent(await readFile(${jsString(part.file)}, 'utf8')))`
+      : `await readFile(${jsString(part.file)})`;
+  });
+  if (chunks.length === 1 && 'file' in parts[0]) {
+    return [`const content = ${chunks[0]};`];
+  }
+  return [`const content = Buffer.concat([\n${chunks.map(chunk => '  ' + chunk).join(',\n')}\n]);`];
+}
+
+/**
+ * 生成请求体表达式，返回 undefined 表示没有请求体
+ * stringify 为 true 时表单序列化为字符串（undici.request 不会自动序列化），否则交给HTTP库处理
+ */
+function buildBodyExpression(model: RequestModel, stringify: boolean): string | undefined {
+  const body = model.body;
+  switch (body.kind) {
+    case RequestBodyKind.JSON:
+      return `JSON.stringify(${JSON.stringify(body.value, null, 2)})`;
+    case RequestBodyKind.FORM:
+      return `new URLSearchParams(${jsObject(body.fields)})${stringify ? '.toString()' : ''}`;
+    case RequestBodyKind.MULTIPART:
+      return 'formData';
+    case RequestBodyKind.FILE:
+      return 'content';
+    case RequestBodyKind.RAW:
+      return jsString(body.content);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 整理请求头：Cookie 合并为 Cookie 请求头；浏览器中省略被禁止的请求头，Cookie 改为随请求携带
+ */
+function buildHeaders(model: RequestModel, runtime: JsRuntime): { headers: Record<string, string>; omitted: string[] } {
+  const headers: Record<string, string> = {};
+  const omitted: string[] = [];
+
+  Object.entries(model.headers).forEach(([key, value]) => {
+    if (runtime === 'browser' && isForbiddenBrowserHeader(key)) {
+      omitted.push(key);
+    } else {
+      headers[key] = value;
+    }
+  });
+
+  if (runtime === 'node' && Object.keys(model.cookies).length > 0) {
+    headers['cookie'] = serializeCookies(model.cookies);
+  }
+
+  return { headers, omitted };
+}
+
+/**
+ * 拼接导入语句、准备语句和请求代码
+ */
+function joinSections(imports: Set<string>, prelude: string[], request: string[]): string {
+  return [[...imports], prelude, request]
+    .filter(section => section.length > 0)
+    .map(section => section.join('\n'))
+    .join('\n\n') + '\n';
+}
+
+/**
+ * 生成 fetch 代码
+ */
+function generateFetch(model: RequestModel, runtime: JsRuntime): string {
+  const imports = new Set<string>();
+  const prelude: string[] = [];
+  const options: Array<[string, string]> = [];
+  const { headers, omitted } = buildHeaders(model, runtime);
+
+  if (omitted.length > 0) {
+    prelude.push(`// 浏览器不允许脚本设置以下请求头，已省略：${omitted.join(', ')}`);
+  }
+  if (model.body.kind === RequestBodyKind.MULTIPART) {
+    prelude.push(...buildFormDataLines(model.body.fields, runtime, imports));
+  }
+  if (model.body.kind === RequestBodyKind.FILE) {
+    prelude.push(...buildFileBodyLines(model.body.parts, runtime, imports));
+  }
+
+  if (model.method !== 'GET') {
+    options.push(['method', jsString(model.method)]);
+  }
+  if (Object.keys(headers).length > 0) {
+    options.push(['headers', jsObject(headers)]);
+  }
+  if (runtime === 'browser' && Object.keys(model.cookies).length > 0) {
+    // 浏览器会自动携带目标站点的Cookie，脚本不能直接设置
+    options.push(['credentials', "'include'"]);
+  }
+  const body = buildBodyExpression(model, false);
+  if (body !== undefined) {
+    options.push(['body', body]);
+  }
+
+  const args = options.length > 0 ? `${jsString(model.url)}, ${jsOptions(options)}` : jsString(model.url);
+  return joinSections(imports, prelude, [
+    `const response = await fetch(${args});`,
+    '',
+    'console.log(response.status);',
+    'console.log(await response.text());'
+  ]);
+}
+
+/**
+ * 生成浏览器 fetch 代码
+ */
+export function generateBrowserFetch(model: RequestModel): string {
+  return generateFetch(model, 'browser');
+}
+
+/**
+ * 生成 Node.js 内置 fetch 代码（Node.js 18+，上传文件使用的 openAsBlob 需要 Node.js 20+）
+ */
+export function generateNodeFetch(model: RequestModel): string {
+  return generateFetch(model, 'node');
+}
+
+/**
+ * 生成 undici request 代码
+ * undici.request 不会根据请求体补充 Content-Type，表单请求体缺少时自动添加
+ */
+export function generateUndici(model: RequestModel): string {
+  const imports = new Set<string>(["import { request } from 'undici';"]);
+  const prelude: string[] = [];
+  const options: Array<[string, string]> = [];
+  const { headers } = buildHeaders(model, 'node');
+  const hasContentType = Object.keys(headers).some(key => key.toLowerCase() === 'content-type');
+
+  if (model.body.kind === RequestBodyKind.MULTIPART) {
+    prelude.push(...buildFormDataLines(model.body.fields, 'node', imports));
+  }
+  if (model.body.kind === RequestBodyKind.FILE) {
+    prelude.push(...buildFileBodyLines(model.body.parts, 'node', imports));
+  }
+  if (model.body.kind === RequestBodyKind.FORM && !hasContentType) {
+    headers['content-type'] = 'application/x-www-form-urlencoded';
+  }
+
+  options.push(['method', jsString(model.method)]);
+  if (Object.keys(headers).length > 0) {
+    options.push(['headers', jsObject(headers)]);
+  }
+  const body = buildBodyExpression(model, true);
+  if (body !== undefined) {
+    options.push(['body', body]);
+  }
+
+  return joinSections(imports, prelude, [
+    `const { statusCode, body } = await request(${jsString(model.url)}, ${jsOptions(options)});`,
+    '',
+    'console.log(statusCode);',
+    'console.log(await body.text());'
+  ]);
+}
+
+/**
+ * 生成 axios 代码
+ * JSON请求体直接传入对象，由 axios 负责序列化
+ */
+export function generateAxios(model: RequestModel): string {
+  const imports = new Set<string>(["import axios from 'axios';"]);
+  const prelude: string[] = [];
+  const options: Array<[string, string]> = [
+    ['method', jsString(model.method.toLowerCase())],
+    ['url', jsString(model.url)]
+  ];
+  const { headers } = buildHeaders(model, 'node');
+
+  if (model.body.kind === RequestBodyKind.MULTIPART) {
+    prelude.push(...buildFormDataLines(model.body.fields, 'node', imports));
+  }
+  if (model.body.kind === RequestBodyKind.FILE) {
+    prelude.push(...buildFileBodyLines(model.body.parts, 'node', imports));
+  }
+
+  if (Object.keys(headers).length > 0) {
+    options.push(['headers', jsObject(headers)]);
+  }
+  const data = model.body.kind === RequestBodyKind.JSON
+    ? JSON.stringify(model.body.value, null, 2)
+    : buildBodyExpression(model, false);
+  if (data !== undefined) {
+    options.push(['data', data]);
+  }
+
+  return joinSections(imports, prelude, [
+    `const response = await axios.request(${jsOptions(options)});`,
+    '',
+    'console.log(response.status);',
+    'console.log(response.data);'
+  ]);
+}
@@ -0,0 +1,316 @@
+// JSON路径选择器：解析 data.user.password、items[*].trackingId、..token 等路径并定位JSON节点
+
+/**
+ * 路径中的一段选择器
+ */
+export interface JsonPathSegment {
+  key: string | number | null; // 属性名、数组下标，null 表示通配符 *
+  descendant: boolean;         // 是否为递归下降（..）
+}
+
+/**
+ * JSON节点的具体位置，如 ['items', 0, 'trackingId']
+ */
+export type JsonLocation = Array<string | number>;
+
+/**
+ * 判断值是否为可以包含子节点的对象或数组
+ */
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * 读取方括号选择器 [0]、[*]、['key']、["key"]，返回选择器和结束位置
+ */
+function readBracket(path: string, start: number): { key: string | number | null; end: number } {
+  const close = path[start + 1] === "'" || path[start + 1] === '"'
+    ? readQuotedKey(path, start + 1)
+    : null;
+
+  if (close) {
+    if (path[close.end] !== ']') {
+      throw new Error(`JSON路径格式无效：位置 ${close.end} 处缺少 ]`);
+    }
+    return { key: close.key, end: close.end + 1 };
+  }
+
+  const end = path.indexOf(']', start);
+  if (end < 0) {
+    throw new Error(`JSON路径格式无效：位置 ${start} 处的 [ 未闭合`);
+  }
+
+  const content = path.slice(start + 1, end).trim();
+  if (content === '*') {
+    return { key: null, end: end + 1 };
+  }
+  if (/^\d+$/.test(content)) {
+    return { key: Number(content), end: end + 1 };
+  }
+
+  throw new Error(`JSON路径格式无效：不支持的下标 [${content}]`);
+}
+
+/**
+ * 读取引号包裹的属性名，支持反斜杠转义
+ */
+function readQuotedKey(path: string, start: number): { key: string; end: number } {
+  const quote = path[start];
+  let key = '';
+  let i = start + 1;
+
+  while (i < path.length && path[i] !== quote) {
+    if (path[i] === '\\' && i + 1 < path.length) {
+      i++;
+    }
+    key += path[i];
+    i++;
+  }
+
+  if (i >= path.length) {
+    throw new Error('JSON路径格式无效：引号未闭合');
+  }
+
+  return { key, end: i + 1 };
+}
+
+/**
+ * 解析JSON路径
+ *
+ * 支持可选的 $ 前缀、点号属性（a.b）、数组下标（[0]）、通配符（* 和 [*]）、
+ * 引号属性（['a.b']）以及递归下降（..token）。不以 $、. 或 [ 开头的路径视为从根节点开始。
+ * 路径格式无效时抛出错误。
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const segments: JsonPathSegment[] = [];
+  let input = path.trim();
+
+  if (input.startsWith('$')) {
+    input = input.slice(1);
+  } else if (input && input[0] !== '.' && input[0] !== '[') {
+    input = '.' + input;
+  }
+
+  let i = 0;
+  while (i < input.length) {
+    let descendant = false;
+
+    if (input.startsWith('..', i)) {
+      descendant = true;
+      i += 2;
+    } else if (input[i] === '.') {
+      i++;
+    } else if (input[i] !== '[') {
+      throw new Error(`JSON路径格式无效：位置 ${i} 处应为 . 或 [`);
+    }
+
+    if (input[i] === '[') {
+      const { key, end } = readBracket(input, i);
+      segments.push({ key, descendant });
+      i = end;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && input[end] !== '.' && input[end] !== '[') end++;
+    const name = input.slice(i, end);
+    if (!name) {
+      throw new Error(`JSON路径格式无效：位置 ${i} 处缺少属性名`);
+    }
+
+    segments.push({ key: name === '*' ? null : name, descendant });
+    i = end;
+  }
+
+  if (segments.length === 0) {
+    throw new Error('JSON路径不能为空');
+  }
+
+  return segments;
+}
+
+/**
+ * 列出节点的直接子节点
+ */
+function childEntries(value: unknown): Array<[string | number, unknown]> {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => [index, item]);
+  }
+  if (isContainer(value)) {
+    return Object.entries(value);
+  }
+  return [];
+}
+
+/**
+ * 判断子节点是否满足选择器
+ */
+function matchesKey(key: string | number, selector: string | number | null): boolean {
+  return selector === null || key === selector || String(key) === String(selector);
+}
+
+/**
+ * 查找与路径匹配的所有节点位置（按文档顺序，不重复）
+ */
+export function findJsonPaths(root: unknown, segments: JsonPathSegment[]): JsonLocation[] {
+  let current: Array<{ value: unknown; location: JsonLocation }> = [{ value: root, location: [] }];
+
+  segments.forEach(segment => {
+    const next: Array<{ value: unknown; location: JsonLocation }> = [];
+
+    const visit = (value: unknown, location: JsonLocation) => {
+      childEntries(value).forEach(([key, child]) => {
+        const childLocation = [...location, key];
+        if (matchesKey(key, segment.key)) {
+          next.push({ value: child, location: childLocation });
+        }
+        if (segment.descendant) {
+          visit(child, childLocation);
+        }
+      });
+    };
+
+    current.forEach(({ value, location }) => visit(value, location));
+    current = next;
+  });
+
+  const seen = new Set<string>();
+  return current
+    .map(({ location }) => location)
+    .filter(location => {
+      const id = JSON.stringify(location);
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+}
+
+/**
+ * 读取指定位置的节点，不存在时返回 undefined
+ */
+export function getJsonValue(root: unknown, location: JsonLocation): unknown {
+  let value = root;
+  for (const key of location) {
+    if (!isContainer(value) || !(key in value)) {
+      return undefined;
+    }
+    value = (value as Record<string | number, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * 判断指定位置的节点是否存在
+ */
+export function hasJsonValue(root: unknown, location: JsonLocation): boolean {
+  if (location.length === 0) return true;
+  const parent = getJsonValue(root, location.slice(0, -1));
+  return isContainer(parent) && location[location.length - 1] in parent;
+}
+
+/**
+ * 删除指定位置的节点
+ * 数组元素只留下空位而不移动后续元素，保证其他位置在同一轮过滤中仍然有效，
+ * 处理完成后需调用 compactJsonArrays 移除空位。
+ */
+export function deleteJsonValue(root: unknown, location: JsonLocation): void {
+  if (location.length === 0) return;
+  const parent = getJsonValue(root, location.slice(0, -1));
+  if (isContainer(parent)) {
+    delete (parent as Record<string | number, unknown>)[location[location.length - 1]];
+  }
+}
+
+/**
+ * 将节点写入指定位置，缺少的中间节点按 template 中同一位置的类型（对象或数组）创建
+ */
+export function setJsonValue(root: unknown, location: JsonLocation, value: unknown, template: unknown): void {
+  if (location.length === 0 || !isContainer(root)) return;
+
+  let target = root as Record<string | number, unknown>;
+  for (let i = 0; i < location.length - 1; i++) {
+    const key = location[i];
+    if (!isContainer(target[key])) {
+      target[key] = Array.isArray(getJsonValue(template, location.slice(0, i + 1))) ? [] : {};
+    }
+    target = target[key] as Record<string | number, unknown>;
+  }
+
+  target[location[location.length - 1]] = value;
+}
+
+/**
+ * 重命名指定位置的对象属性，保持属性顺序；父节点不是对象时返回 false
+ */
+export function renameJsonKey(root: unknown, location: JsonLocation, newKey: string): boolean {
+  if (location.length === 0) return false;
+  const parent = getJsonValue(root, location.slice(0, -1));
+  const oldKey = location[location.length - 1];
+  if (!isContainer(parent) || Array.isArray(parent) || !(oldKey in parent)) {
+    return false;
+  }
+
+  const entries = Object.entries(parent);
+  entries.forEach(([key]) => delete parent[key]);
+  entries.forEach(([key, value]) => {
+    parent[key === String(oldKey) ? newKey : key] = value;
+  });
+  return true;
+}
+
+/**
+ * 路径不含通配符和递归下降时返回它唯一对应的位置，否则返回 null
+ */
+export function toLiteralLocation(segments: JsonPathSegment[]): JsonLocation | null {
+  if (segments.some(segment => segment.descendant || segment.key === null)) {
+    return null;
+  }
+  return segments.map(segment => segment.key as string | number);
+}
+
+/**
+ * 移除数组中由 deleteJsonValue 留下的空位（原地修改）
+ */
+export function compactJsonArrays(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    const items = value.filter((_, index) => index in value);
+    value.length = 0;
+    items.forEach(item => value.push(compactJsonArrays(item)));
+  } else if (isContainer(value)) {
+    Object.values(value).forEach(compactJsonArrays);
+  }
+  return value;
+}
+
+/**
+ * 将节点位置格式化为路径字符串，如 $.items[0].trackingId
+ */
+export function formatJsonPath(location: JsonLocation): string {
+  return '$' + location.map(key => {
+    if (typeof key === 'number') return `[${key}]`;
+    if (/^[A-Za-z_$][\w$-]*$/.test(key)) return `.${key}`;
+    return `['${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+  }).join('');
+}
+
+/**
+ * 列出 original 中在 filtered 同一位置已不存在的节点（只列出最外层被删除的节点）
+ * filtered 需要是尚未调用 compactJsonArrays 的结果，数组下标才能与原始数据对应
+ */
+export function collectRemovedPaths(original: unknown, filtered: unknown): string[] {
+  const removed: string[] = [];
+
+  const walk = (value: unknown, location: JsonLocation) => {
+    childEntries(value).forEach(([key, child]) => {
+      const childLocation = [...location, key];
+      if (!hasJsonValue(filtered, childLocation)) {
+        removed.push(formatJsonPath(childLocation));
+      } else {
+        walk(child, childLocation);
+      }
+    });
+  };
+
+  walk(original, []);
+  return removed;
+}
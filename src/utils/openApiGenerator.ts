@@ -0,0 +1,305 @@
+// 从过滤后的请求生成 OpenAPI 3 文档（可直接作为 Coze 插件工具导入）
+
+import type { ParsedCurl } from './curlParser';
+import { serializeCookies } from './cookies';
+import { RequestBodyKind, findHeader, buildRequestModel, type RequestModel } from './requestModel';
+
+/**
+ * 字段所在位置
+ */
+export const FieldLocation = {
+  QUERY: 'query',     // 查询参数
+  HEADER: 'header',   // 请求头（Cookie 作为一个 Cookie 请求头）
+  BODY: 'body'        // 请求体的顶层字段（JSON对象的键、表单字段）
+} as const;
+
+export type FieldLocation = typeof FieldLocation[keyof typeof FieldLocation];
+
+/**
+ * 请求中的一个字段
+ * 用户输入的字段是必填参数，请求中的值作为示例；常量字段只能取请求中的值（单值枚举 + 默认值）
+ */
+export interface OpenApiField {
+  location: FieldLocation;
+  name: string;
+  value: unknown;         // 请求中的值
+  isInput: boolean;       // 是否由用户（大模型）提供
+  description?: string;   // 参数说明，Coze 会把它提供给大模型
+}
+
+/**
+ * 文档信息
+ */
+export interface OpenApiOptions {
+  title: string;          // 插件名称
+  description?: string;   // 插件说明
+  operationId?: string;   // 工具名称，默认由方法和路径生成
+  summary?: string;       // 工具说明
+}
+
+/**
+ * JSON Schema（OpenAPI 3.0 子集）
+ */
+export interface OpenApiSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  format?: string;
+  nullable?: boolean;
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  enum?: unknown[];
+  default?: unknown;
+  example?: unknown;
+  description?: string;
+}
+
+// 不作为参数的请求头：Content-Type 由 requestBody 决定，其余由HTTP客户端生成
+const EXCLUDED_HEADERS = ['content-type', 'content-length', 'host'];
+
+/**
+ * 根据值推断 Schema
+ */
+export function inferSchema(value: unknown): OpenApiSchema {
+  if (value === null || value === undefined) {
+    return { type: 'string', nullable: true };
+  }
+  if (typeof value === 'boolean') {
+    return { type: 'boolean' };
+  }
+  if (typeof value === 'number') {
+    return { type: Number.isInteger(value) ? 'integer' : 'number' };
+  }
+  if (Array.isArray(value)) {
+    return { type: 'array', items: value.length > 0 ? inferSchema(value[0]) : { type: 'string' } };
+  }
+  if (typeof value === 'object') {
+    const properties: Record<string, OpenApiSchema> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+      properties[key] = inferSchema(item);
+    });
+    return { type: 'object', properties };
+  }
+  return { type: 'string' };
+}
+
+/**
+ * 判断JSON请求体是否为对象（只有对象的顶层键可以单独标记）
+ */
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 提取请求中可以标记为输入或常量的字段
+ * 默认查询参数和请求体字段为用户输入，请求头为常量
+ */
+export function extractOpenApiFields(parsed: ParsedCurl): OpenApiField[] {
+  const model = buildRequestModel(parsed);
+  const fields: OpenApiField[] = [];
+
+  Object.entries(model.queryParams).forEach(([name, value]) => {
+    fields.push({ location: FieldLocation.QUERY, name, value, isInput: true });
+  });
+
+  Object.entries(model.headers).forEach(([name, value]) => {
+    if (EXCLUDED_HEADERS.includes(name.toLowerCase())) return;
+    fields.push({ location: FieldLocation.HEADER, name, value, isInput: false });
+  });
+  if (Object.keys(model.cookies).length > 0) {
+    fields.push({ location: FieldLocation.HEADER, name: 'Cookie', value: serializeCookies(model.cookies), isInput: false });
+  }
+
+  const body = model.body;
+  if (body.kind === RequestBodyKind.JSON && isJsonObject(body.value)) {
+    Object.entries(body.value).forEach(([name, value]) => {
+      fields.push({ location: FieldLocation.BODY, name, value, isInput: true });
+    });
+  } else if (body.kind === RequestBodyKind.FORM) {
+    Object.entries(body.fields).forEach(([name, value]) => {
+      fields.push({ location: FieldLocation.BODY, name, value, isInput: true });
+    });
+  } else if (body.kind === RequestBodyKind.MULTIPART) {
+    body.fields.forEach(field => {
+      fields.push({ location: FieldLocation.BODY, name: field.name, value: field.isFile ? undefined : field.value, isInput: true });
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * 生成字段的 Schema：输入字段以请求中的值为示例，常量字段为单值枚举
+ */
+function fieldSchema(field: OpenApiField, baseSchema: OpenApiSchema): OpenApiSchema {
+  const schema: OpenApiSchema = { ...baseSchema };
+  if (field.description) {
+    schema.description = field.description;
+  }
+  if (field.value === undefined) {
+    return schema;
+  }
+  if (field.isInput) {
+    schema.example = field.value;
+  } else {
+    schema.enum = [field.value];
+    schema.default = field.value;
+  }
+  return schema;
+}
+
+/**
+ * 由方法和路径生成工具名称（Coze 要求只包含字母、数字和下划线）
+ */
+export function buildOperationId(method: string, path: string): string {
+  const words = path.split(/[^A-Za-z0-9]+/).filter(word => word);
+  return [method.toLowerCase(), ...words].join('_').slice(0, 64);
+}
+
+/**
+ * 生成请求体定义
+ */
+function buildRequestBody(model: RequestModel, fields: OpenApiField[]): Record<string, unknown> | undefined {
+  const body = model.body;
+  const bodyFields = fields.filter(field => field.location === FieldLocation.BODY);
+  const required = bodyFields.filter(field => field.isInput).map(field => field.name);
+
+  let mediaType: string;
+  let schema: OpenApiSchema;
+  switch (body.kind) {
+    case RequestBodyKind.JSON:
+      mediaType = 'application/json';
+      schema = isJsonObject(body.value) ? { type: 'object', properties: {} } : { ...inferSchema(body.value), example: body.value };
+      break;
+    case RequestBodyKind.FORM:
+      mediaType = 'application/x-www-form-urlencoded';
+      schema = { type: 'object', properties: {} };
+      break;
+    case RequestBodyKind.MULTIPART:
+      mediaType = 'multipart/form-data';
+      schema = { type: 'object', properties: {} };
+      break;
+    case RequestBodyKind.FILE:
+      mediaType = (findHeader(model.headers, 'content-type') || 'application/octet-stream').split(';')[0].trim();
+      schema = { type: 'string', format: 'binary' };
+      break;
+    case RequestBodyKind.RAW:
+      mediaType = (findHeader(model.headers, 'content-type') || 'text/plain').split(';')[0].trim();
+      schema = { type: 'string', example: body.content };
+      break;
+    default:
+      return undefined;
+  }
+
+  const properties = schema.properties;
+  if (properties) {
+    bodyFields.forEach(field => {
+      const multipartField = body.kind === RequestBodyKind.MULTIPART ? body.fields.find(item => item.name === field.name) : undefined;
+      const baseSchema: OpenApiSchema = multipartField?.isFile ? { type: 'string', format: 'binary' } : inferSchema(field.value);
+      properties[field.name] = fieldSchema(field, baseSchema);
+    });
+    if (required.length > 0) {
+      schema.required = required;
+    }
+  }
+
+  return { required: true, content: { [mediaType]: { schema } } };
+}
+
+/**
+ * 生成 OpenAPI 3.0 文档
+ * 服务器地址为请求的 scheme://host[:port]，路径为请求路径，响应只声明 200
+ */
+export function generateOpenApiDocument(parsed: ParsedCurl, fields: OpenApiField[], options: OpenApiOptions): Record<string, unknown> {
+  const model = buildRequestModel(parsed);
+  let server = '';
+  let path = model.baseUrl;
+  try {
+    const urlObj = new URL(model.url);
+    server = urlObj.origin;
+    path = urlObj.pathname || '/';
+  } catch {
+    // URL无法解析时整体作为路径
+  }
+
+  const parameters = fields
+    .filter(field => field.location !== FieldLocation.BODY)
+    .map(field => ({
+      name: field.name,
+      in: field.location,
+      required: field.isInput,
+      ...(field.description ? { description: field.description } : {}),
+      schema: fieldSchema({ ...field, description: undefined }, inferSchema(field.value))
+    }));
+
+  const requestBody = buildRequestBody(model, fields);
+  const operation = {
+    operationId: options.operationId || buildOperationId(model.method, path),
+    summary: options.summary || `${model.method} ${path}`,
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(requestBody ? { requestBody } : {}),
+    responses: {
+      '200': { description: 'OK' }
+    }
+  };
+
+  return {
+    openapi: '3.0.1',
+    info: {
+      title: options.title,
+      ...(options.description ? { description: options.description } : {}),
+      version: 'v1'
+    },
+    ...(server ? { servers: [{ url: server }] } : {}),
+    paths: {
+      [path]: {
+        [model.method.toLowerCase()]: operation
+      }
+    }
+  };
+}
+
+/**
+ * 判断字符串能否不加引号写入YAML
+ */
+function isPlainYamlString(value: string): boolean {
+  return /^[A-Za-z_/][A-Za-z0-9_ ./-]*$/.test(value)
+    && !/\s$/.test(value)
+    && !/^(true|false|yes|no|on|off|null|~)$/i.test(value);
+}
+
+/**
+ * 生成YAML标量
+ */
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return isPlainYamlString(value) ? value : JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * 把JSON值转换为YAML（块格式，缩进两个空格）
+ */
+export function toYaml(value: unknown, indent = ''): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return value.map(item => {
+      const text = toYaml(item, indent + '  ');
+      return `${indent}- ${isJsonObject(item) || Array.isArray(item) ? text.trimStart() : text}`;
+    }).join('\n');
+  }
+
+  if (isJsonObject(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) return '{}';
+    return entries.map(([key, item]) => {
+      const name = isPlainYamlString(key) ? key : JSON.stringify(key);
+      const isEmpty = (Array.isArray(item) && item.length === 0) || (isJsonObject(item) && Object.keys(item).length === 0);
+      if (!isEmpty && (Array.isArray(item) || isJsonObject(item))) {
+        return `${indent}${name}:\n${toYaml(item, indent + '  ')}`;
+      }
+      return `${indent}${name}: ${toYaml(item, indent + '  ')}`;
+    }).join('\n');
+  }
+
+  return yamlScalar(value);
+}
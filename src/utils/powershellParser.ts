@@ -0,0 +1,475 @@
+// PowerShell 命令解析：Invoke-WebRequest（Chrome "Copy as PowerShell" 格式）和 curl.exe 的参数拆分
+
+/**
+ * 从PowerShell脚本中提取出的请求信息
+ */
+export interface PowerShellRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>; // 请求头（键名已转为小写）
+  body?: string;                   // 请求体
+}
+
+type PsTokenType = 'string' | 'word' | 'variable' | 'punct' | 'newline';
+
+interface PsToken {
+  type: PsTokenType;
+  value: string;
+}
+
+// HTTP/2 伪请求头，旧版Chrome会把它们写入 -Headers
+const PSEUDO_HEADERS = new Set(['authority', 'method', 'path', 'scheme']);
+
+// 双引号字符串中的反引号转义
+const BACKTICK_ESCAPES: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  e: '\x1b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v'
+};
+
+// Invoke-WebRequest / Invoke-RestMethod 的开关参数，后面的参数不是它们的值
+const SWITCH_PARAMETERS = new Set([
+  '-usebasicparsing', '-usedefaultcredentials', '-disablekeepalive', '-skipcertificatecheck',
+  '-skipheadervalidation', '-skiphttperrorcheck', '-allowunencryptedauthentication',
+  '-allowinsecureredirect', '-preserveauthorizationonredirect', '-noproxy', '-passthru', '-resume'
+]);
+
+const PUNCTUATION = new Set(['(', ')', '{', '}', '=', ';', ',']);
+
+// PowerShell 把弯引号当作普通引号处理
+const SINGLE_QUOTES = new Set(["'", '\u2018', '\u2019', '\u201A', '\u201B']);
+const DOUBLE_QUOTES = new Set(['"', '\u201C', '\u201D', '\u201E']);
+
+/**
+ * 判断字符是否可以作为裸单词的一部分
+ */
+function isWordChar(char: string): boolean {
+  return !/\s/.test(char) && !PUNCTUATION.has(char) && !SINGLE_QUOTES.has(char) && !DOUBLE_QUOTES.has(char) && char !== '`';
+}
+
+/**
+ * 读取双引号字符串，返回字符串值和结束位置
+ */
+function readDoubleQuoted(input: string, start: number): { value: string; end: number } {
+  let value = '';
+  let i = start + 1;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === '`' && i + 1 < input.length) {
+      const next = input[i + 1];
+      value += BACKTICK_ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+
+    if (DOUBLE_QUOTES.has(char)) {
+      // 连续两个双引号表示字面双引号
+      if (DOUBLE_QUOTES.has(input[i + 1])) {
+        value += input[i + 1];
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+
+    value += char;
+    i++;
+  }
+
+  return { value, end: i };
+}
+
+/**
+ * 读取单引号字符串，返回字符串值和结束位置
+ */
+function readSingleQuoted(input: string, start: number): { value: string; end: number } {
+  let value = '';
+  let i = start + 1;
+
+  while (i < input.length) {
+    if (SINGLE_QUOTES.has(input[i])) {
+      if (SINGLE_QUOTES.has(input[i + 1])) {
+        value += input[i + 1];
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+    value += input[i];
+    i++;
+  }
+
+  return { value, end: i };
+}
+
+/**
+ * 判断是否为反引号续行，返回续行符的长度（不是续行时返回0）
+ */
+function lineContinuationLength(input: string, i: number): number {
+  if (input[i] !== '`') return 0;
+  if (input[i + 1] === '\n') return 2;
+  return input[i + 1] === '\r' && input[i + 2] === '\n' ? 3 : 0;
+}
+
+/**
+ * 将PowerShell脚本拆分为token
+ */
+function tokenize(input: string): PsToken[] {
+  const tokens: PsToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    // 反引号换行：续行
+    const continuation = lineContinuationLength(input, i);
+    if (continuation > 0) {
+      i += continuation;
+      continue;
+    }
+
+    if (char === '\n') {
+      tokens.push({ type: 'newline', value: '\n' });
+      i++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // 注释
+    if (char === '#') {
+      while (i < input.length && input[i] !== '\n') i++;
+      continue;
+    }
+
+    if (DOUBLE_QUOTES.has(char)) {
+      const { value, end } = readDoubleQuoted(input, i);
+      tokens.push({ type: 'string', value });
+      i = end;
+      continue;
+    }
+
+    if (SINGLE_QUOTES.has(char)) {
+      const { value, end } = readSingleQuoted(input, i);
+      tokens.push({ type: 'string', value });
+      i = end;
+      continue;
+    }
+
+    // 哈希表起始 @{ 视为 {
+    if (char === '@' && input[i + 1] === '{') {
+      tokens.push({ type: 'punct', value: '{' });
+      i += 2;
+      continue;
+    }
+
+    if (PUNCTUATION.has(char)) {
+      tokens.push({ type: 'punct', value: char });
+      i++;
+      continue;
+    }
+
+    // 参数模式下裸单词中的 = 是普通字符（如未加引号的URL查询参数）；哈希表的键不含 /，遇到 = 时结束
+    let end = i;
+    while (end < input.length &&
+        (isWordChar(input[end]) || (input[end] === '=' && input.slice(i, end).includes('/')))) end++;
+    if (end === i) {
+      // 孤立的反引号等字符，直接跳过
+      i++;
+      continue;
+    }
+    const word = input.slice(i, end);
+    tokens.push({ type: word.startsWith('$') ? 'variable' : 'word', value: word });
+    i = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * 读取一个参数值：字符串、裸单词，或括号表达式中的第一个字符串
+ * 返回参数值和下一个token的位置
+ */
+function readArgument(tokens: PsToken[], i: number): { value: string | undefined; next: number } {
+  const token = tokens[i];
+  if (!token) return { value: undefined, next: i };
+
+  if (token.type === 'string' || token.type === 'word') {
+    return { value: token.value, next: i + 1 };
+  }
+
+  // 如 -Body ([System.Text.Encoding]::UTF8.GetBytes("..."))
+  if (token.type === 'punct' && token.value === '(') {
+    let depth = 0;
+    let value: string | undefined;
+    let j = i;
+    for (; j < tokens.length; j++) {
+      const current = tokens[j];
+      if (current.type === 'punct' && current.value === '(') depth++;
+      if (current.type === 'punct' && current.value === ')') depth--;
+      if (value === undefined && current.type === 'string') value = current.value;
+      if (depth === 0) break;
+    }
+    return { value, next: j + 1 };
+  }
+
+  return { value: undefined, next: i + 1 };
+}
+
+/**
+ * 判断token能否作为参数值
+ */
+function hasArgumentValue(token: PsToken | undefined): boolean {
+  if (!token) return false;
+  if (token.type === 'string' || token.type === 'variable') return true;
+  if (token.type === 'word') return !token.value.startsWith('-');
+  return token.type === 'punct' && (token.value === '(' || token.value === '{');
+}
+
+/**
+ * 读取哈希表 @{ key = value; ... }，返回键值对和下一个token的位置
+ */
+function readHashtable(tokens: PsToken[], i: number): { entries: Array<[string, string]>; next: number } {
+  const entries: Array<[string, string]> = [];
+  let j = i + 1;
+
+  while (j < tokens.length) {
+    const token = tokens[j];
+
+    if (token.type === 'punct' && token.value === '}') {
+      return { entries, next: j + 1 };
+    }
+
+    if ((token.type === 'string' || token.type === 'word') &&
+        tokens[j + 1]?.type === 'punct' && tokens[j + 1].value === '=') {
+      const { value, next } = readArgument(tokens, j + 2);
+      if (value !== undefined) {
+        entries.push([token.value, value]);
+      }
+      j = next;
+      continue;
+    }
+
+    j++;
+  }
+
+  return { entries, next: j };
+}
+
+/**
+ * 判断命令名是否为 Invoke-WebRequest / Invoke-RestMethod
+ */
+function isInvokeCommand(word: string): boolean {
+  return /^(invoke-webrequest|invoke-restmethod|iwr|irm)$/i.test(word);
+}
+
+/**
+ * 判断输入是否为PowerShell请求命令
+ */
+export function isPowerShellCommand(input: string): boolean {
+  return /(^|[\s;(])(Invoke-WebRequest|Invoke-RestMethod|iwr|irm)(?=\s)/i.test(input) ||
+    /New-Object\s+Microsoft\.PowerShell\.Commands\.WebRequestSession/i.test(input);
+}
+
+/**
+ * 解析PowerShell请求命令
+ *
+ * 支持 -Uri（或第一个位置参数）、-Method、-Headers @{...}、-ContentType、-UserAgent、-Body，
+ * 以及 WebRequestSession 上设置的 UserAgent 和 Cookies。
+ */
+export function parsePowerShell(input: string): PowerShellRequest {
+  const tokens = tokenize(input);
+  const request: PowerShellRequest = {
+    url: '',
+    method: 'GET',
+    headers: {}
+  };
+  const cookies: string[] = [];
+  let sessionUserAgent: string | undefined;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    // $session.UserAgent = "..."
+    if (token.type === 'variable' && /\.UserAgent$/i.test(token.value) &&
+        tokens[i + 1]?.value === '=' && tokens[i + 2]?.type === 'string') {
+      sessionUserAgent = tokens[i + 2].value;
+      i += 2;
+      continue;
+    }
+
+    // $session.Cookies.Add((New-Object System.Net.Cookie("name", "value", "/", "domain")))
+    if (token.type === 'variable' && /\.Cookies\.Add$/i.test(token.value)) {
+      const values: string[] = [];
+      let j = i + 1;
+      while (j < tokens.length && tokens[j].type !== 'newline' && values.length < 2) {
+        if (tokens[j].type === 'string') values.push(tokens[j].value);
+        j++;
+      }
+      if (values.length === 2) {
+        cookies.push(`${values[0]}=${values[1]}`);
+      }
+      i = j - 1;
+      continue;
+    }
+
+    if (token.type !== 'word' || !isInvokeCommand(token.value)) {
+      continue;
+    }
+
+    // 解析命令参数，直到语句结束
+    let j = i + 1;
+    let hasPositionalUri = false;
+    while (j < tokens.length) {
+      const current = tokens[j];
+      if (current.type === 'newline' || (current.type === 'punct' && current.value === ';')) {
+        break;
+      }
+
+      if (current.type !== 'word' || !current.value.startsWith('-')) {
+        // 与 PowerShell 一致，第一个位置参数绑定到 -Uri
+        if (!hasPositionalUri && (current.type === 'string' || current.type === 'word')) {
+          hasPositionalUri = true;
+          if (!request.url) request.url = current.value;
+        }
+        j++;
+        continue;
+      }
+
+      const name = current.value.toLowerCase();
+
+      if (name === '-headers' && tokens[j + 1]?.type === 'punct' && tokens[j + 1].value === '{') {
+        const { entries, next } = readHashtable(tokens, j + 1);
+        entries.forEach(([key, value]) => {
+          const lowerKey = key.toLowerCase();
+          if (!PSEUDO_HEADERS.has(lowerKey)) {
+            request.headers[lowerKey] = value;
+          }
+        });
+        j = next;
+        continue;
+      }
+
+      // 开关参数（如 -UseBasicParsing）后面没有参数值
+      if (SWITCH_PARAMETERS.has(name) || !hasArgumentValue(tokens[j + 1])) {
+        j++;
+        continue;
+      }
+
+      const { value, next } = readArgument(tokens, j + 1);
+      switch (name) {
+        case '-uri':
+          request.url = value ?? '';
+          break;
+        case '-method':
+          request.method = (value ?? 'GET').toUpperCase();
+          break;
+        case '-contenttype':
+          if (value !== undefined) request.headers['content-type'] = value;
+          break;
+        case '-useragent':
+          if (value !== undefined) request.headers['user-agent'] = value;
+          break;
+        case '-body':
+          request.body = value;
+          break;
+      }
+      j = next;
+    }
+
+    break;
+  }
+
+  if (sessionUserAgent !== undefined && !request.headers['user-agent']) {
+    request.headers['user-agent'] = sessionUserAgent;
+  }
+
+  if (cookies.length > 0 && !request.headers['cookie']) {
+    request.headers['cookie'] = cookies.join('; ');
+  }
+
+  return request;
+}
+
+/**
+ * 按PowerShell参数模式拆分原生命令（如 curl.exe）的参数，遇到换行或分号即停止
+ * 相连的引号字符串和裸单词组成同一个参数，不展开变量和子表达式
+ */
+export function splitPowerShellArgs(input: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inArg = false;
+  let i = 0;
+
+  const finishArg = () => {
+    if (inArg) {
+      args.push(current);
+      current = '';
+      inArg = false;
+    }
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    const continuation = lineContinuationLength(input, i);
+    if (continuation > 0) {
+      finishArg();
+      i += continuation;
+      continue;
+    }
+
+    // 语句结束
+    if (char === '\n' || char === ';') {
+      finishArg();
+      if (args.length > 0) break;
+      i++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      finishArg();
+      i++;
+      continue;
+    }
+
+    if (char === '#' && !inArg) {
+      while (i < input.length && input[i] !== '\n') i++;
+      continue;
+    }
+
+    if (char === '`' && i + 1 < input.length) {
+      current += BACKTICK_ESCAPES[input[i + 1]] ?? input[i + 1];
+      inArg = true;
+      i += 2;
+      continue;
+    }
+
+    if (SINGLE_QUOTES.has(char) || DOUBLE_QUOTES.has(char)) {
+      const { value, end } = SINGLE_QUOTES.has(char) ? readSingleQuoted(input, i) : readDoubleQuoted(input, i);
+      current += value;
+      inArg = true;
+      i = end;
+      continue;
+    }
+
+    current += char;
+    inArg = true;
+    i++;
+  }
+  finishArg();
+
+  // 调用运算符：& curl.exe ...
+  return args[0] === '&' ? args.slice(1) : args;
+}
@@ -0,0 +1,222 @@
+// Python 代码生成：requests 和 httpx（同步与异步）
+
+import type { MultipartField } from '../types/filterRules';
+import { RequestBodyKind, indentLines, isControlChar, type RequestBodyPart, type RequestModel } from './requestModel';
+
+// 有对应快捷函数（requests.get、client.post 等）的HTTP方法
+const SHORTCUT_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// 字符串字面量中需要转义的字符
+const PY_ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  "'": "\\'",
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t'
+};
+
+/**
+ * 生成单引号字符串字面量
+ */
+export function pyString(value: string): string {
+  let result = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (PY_ESCAPES[char]) {
+      result += PY_ESCAPES[char];
+    } else if (isControlChar(code)) {
+      result += '\\x' + code.toString(16).padStart(2, '0');
+    } else {
+      result += char;
+    }
+  }
+  return `'${result}'`;
+}
+
+/**
+ * 将JSON值转换为Python字面量（dict、list、True/False/None），每个元素单独一行并带尾随逗号
+ */
+export function pyLiteral(value: unknown): string {
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string') return pyString(value);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const items = value.map(item => `    ${indentLines(pyLiteral(item), '    ')},`);
+    return `[\n${items.join('\n')}\n]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '{}';
+  const items = entries.map(([key, item]) => `    ${pyString(key)}: ${indentLines(pyLiteral(item), '    ')},`);
+  return `{\n${items.join('\n')}\n}`;
+}
+
+/**
+ * 生成 multipart 字段列表：[(name, (filename, file, content_type)), ...]
+ * 使用列表而不是dict，同名字段不会互相覆盖
+ */
+function pyFiles(fields: MultipartField[]): string {
+  const items = fields.map(field => {
+    let part: string;
+    if (field.isFile) {
+      const filename = field.filename || field.value.split(/[\\/]/).pop() || field.value;
+      const contentType = field.contentType ? `, ${pyString(field.contentType)}` : '';
+      part = `(${pyString(filename)}, open(${pyString(field.value)}, 'rb')${contentType})`;
+    } else if (field.isFileContent) {
+      part = `(None, open(${pyString(field.value)}, encoding='utf-8').read())`;
+    } else {
+      part = `(None, ${pyString(field.value)})`;
+    }
+    return `    (${pyString(field.name)}, ${part}),`;
+  });
+  return `[\n${items.join('\n')}\n]`;
+}
+
+/**
+ * 生成读取引用文件的请求体表达式（bytes），文本片段按 UTF-8 编码，需要URL编码的文件用 quote 编码
+ */
+function pyFileBody(parts: RequestBodyPart[]): string {
+  return parts
+    .map(part => {
+      if (!('file' in part)) return `${pyString(part.text)}.encode()`;
+      return part.urlencode
+        ? `quote(open(${pyString(part.file)}, 'rb').read(), safe='').encode()`
+        : `open(${pyString(part.file)}, 'rb').read()`;
+    })
+    .join(' + ');
+}
+
+/**
+ * 生成请求参数的变量定义、调用参数和需要的标准库导入
+ * rawKeyword 为原始文本请求体使用的参数名：requests 为 data，httpx 为 content
+ * cookiesAsArgument 为 false 时只定义 cookies 变量，由调用方传给 Client
+ */
+function buildArguments(
+  model: RequestModel,
+  rawKeyword: 'data' | 'content',
+  cookiesAsArgument: boolean
+): { variables: string[]; args: string[]; imports: string[] } {
+  const imports: string[] = [];
+  const variables: string[] = [`url = ${pyString(model.baseUrl)}`];
+  const args: string[] = ['url'];
+
+  const define = (name: string, value: string, asArgument = true) => {
+    variables.push(`${name} = ${value}`);
+    if (asArgument) {
+      args.push(`${name === 'json_data' ? 'json' : name}=${name}`);
+    }
+  };
+
+  if (Object.keys(model.queryParams).length > 0) {
+    define('params', pyLiteral(model.queryParams));
+  }
+  if (Object.keys(model.headers).length > 0) {
+    define('headers', pyLiteral(model.headers));
+  }
+  if (Object.keys(model.cookies).length > 0) {
+    define('cookies', pyLiteral(model.cookies), cookiesAsArgument);
+  }
+
+  const body = model.body;
+  switch (body.kind) {
+    case RequestBodyKind.JSON:
+      define('json_data', pyLiteral(body.value));
+      break;
+    case RequestBodyKind.FORM:
+      define('data', pyLiteral(body.fields));
+      break;
+    case RequestBodyKind.MULTIPART:
+      define('files', pyFiles(body.fields));
+      break;
+    case RequestBodyKind.FILE:
+      if (body.parts.some(part => 'file' in part && part.urlencode)) {
+        imports.push('from urllib.parse import quote');
+      }
+      define(rawKeyword, pyFileBody(body.parts));
+      break;
+    case RequestBodyKind.RAW:
+      define(rawKeyword, pyString(body.content));
+      break;
+  }
+
+  return { variables, args, imports };
+}
+
+/**
+ * 生成调用表达式，如 requests.post(url, headers=headers)；没有快捷函数的方法使用 request()
+ */
+function buildCall(receiver: string, method: string, args: string[]): string {
+  return SHORTCUT_METHODS.includes(method)
+    ? `${receiver}.${method.toLowerCase()}(${args.join(', ')})`
+    : `${receiver}.request(${[pyString(method), ...args].join(', ')})`;
+}
+
+/**
+ * 拼接代码段落
+ */
+function joinSections(sections: string[][]): string {
+  return sections
+    .filter(section => section.length > 0)
+    .map(section => section.join('\n\n'))
+    .join('\n\n') + '\n';
+}
+
+/**
+ * 生成 requests 代码
+ */
+export function generatePythonRequests(model: RequestModel): string {
+  const { variables, args, imports } = buildArguments(model, 'data', true);
+
+  return joinSections([
+    [...imports, 'import requests'],
+    variables,
+    [`response = ${buildCall('requests', model.method, args)}`],
+    ['print(response.status_code)\nprint(response.text)']
+  ]);
+}
+
+/**
+ * 生成 httpx 代码
+ * httpx 不推荐按请求设置Cookie，Cookie 通过 Client 传入
+ */
+export function generatePythonHttpx(model: RequestModel, useAsync = false): string {
+  const { variables, args, imports } = buildArguments(model, 'content', false);
+  const clientArgs = Object.keys(model.cookies).length > 0 ? 'cookies=cookies' : '';
+
+  if (!useAsync) {
+    return joinSections([
+      [...imports, 'import httpx'],
+      variables,
+      [
+        `with httpx.Client(${clientArgs}) as client:\n    response = ${buildCall('client', model.method, args)}`,
+        'print(response.status_code)\nprint(response.text)'
+      ]
+    ]);
+  }
+
+  // 异步版本把变量定义放在协程中
+  const body = variables
+    .map(line => '    ' + indentLines(line, '    '))
+    .join('\n\n');
+
+  // 顶层函数前后按 PEP 8 空两行
+  return [
+    ['import asyncio', ...imports].join('\n') + '\n\nimport httpx',
+    'async def main():\n' + body + '\n\n' +
+    `    async with httpx.AsyncClient(${clientArgs}) as client:\n` +
+    `        response = await ${buildCall('client', model.method, args)}\n\n` +
+    '    print(response.status_code)\n    print(response.text)',
+    'asyncio.run(main())'
+  ].join('\n\n\n') + '\n';
+}
+
+/**
+ * 生成 httpx 异步代码
+ */
+export function generatePythonHttpxAsync(model: RequestModel): string {
+  return generatePythonHttpx(model, true);
+}
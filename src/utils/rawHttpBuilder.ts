@@ -0,0 +1,113 @@
+// 根据（过滤后的）解析结果生成原始HTTP/1.1请求文本
+
+import type { ParsedCurl } from './curlParser';
+import type { MultipartField } from '../types/filterRules';
+import { buildRequestUrl, buildRequestBody } from './curlBuilder';
+import { getCookiesOutsideHeader, parseCookieString, serializeCookies } from './cookies';
+import { utf8Length } from './rawHttpParser';
+
+// 生成 multipart 请求体使用的固定分隔符，保证同一请求每次生成的文本相同
+export const MULTIPART_BOUNDARY = '----CurlFilterFormBoundary7MA4YWxkTrZu0gW';
+
+// 由请求URL和请求体重新生成的请求头
+const GENERATED_HEADERS = ['host', 'content-length', 'transfer-encoding'];
+
+/**
+ * 转义 Content-Disposition 中的引号参数值
+ */
+function quoteParam(value: string): string {
+  return '"' + value.replace(/(["\\])/g, '\\$1').replace(/\r?\n/g, ' ') + '"';
+}
+
+/**
+ * 生成 multipart/form-data 请求体
+ * 浏览器中无法读取本地文件，文件字段（@file、<file）只生成字段头，内容为空
+ */
+export function buildMultipartBody(fields: MultipartField[], boundary = MULTIPART_BOUNDARY): string {
+  const parts = fields.map(field => {
+    const lines: string[] = [];
+    if (field.isFile) {
+      const filename = field.filename || field.value.split(/[\\/]/).pop() || field.value;
+      lines.push(`Content-Disposition: form-data; name=${quoteParam(field.name)}; filename=${quoteParam(filename)}`);
+      lines.push(`Content-Type: ${field.contentType || 'application/octet-stream'}`);
+    } else {
+      lines.push(`Content-Disposition: form-data; name=${quoteParam(field.name)}`);
+      if (field.contentType) {
+        lines.push(`Content-Type: ${field.contentType}`);
+      }
+    }
+    (field.headers || []).forEach(header => lines.push(header));
+
+    const content = field.isFile || field.isFileContent ? '' : field.value;
+    return `--${boundary}\r\n${lines.join('\r\n')}\r\n\r\n${content}\r\n`;
+  });
+
+  return parts.join('') + `--${boundary}--\r\n`;
+}
+
+/**
+ * 从过滤上下文生成原始HTTP/1.1请求文本（CRLF换行）
+ *
+ * Host 优先使用请求头中显式指定的值，否则取自URL；Content-Length 按过滤后的请求体（UTF-8字节数）重新计算，
+ * 请求体引用文件（@file）时无法得知文件大小，原样保留数据且不生成 Content-Length；
+ * multipart 请求使用固定分隔符重新生成请求体和 Content-Type；请求头名称与cURL输出一样使用解析后的小写形式。
+ */
+export function buildRawHttpFromContext(parsed: ParsedCurl): string {
+  const url = buildRequestUrl(parsed).split('#')[0];
+  let host = '';
+  let target = url;
+  try {
+    const urlObj = new URL(url);
+    host = urlObj.host;
+    target = (urlObj.pathname || '/') + urlObj.search;
+  } catch {
+    // URL无法解析时原样作为请求目标
+  }
+
+  const isMultipart = parsed.multipartData.length > 0;
+  const body = isMultipart ? buildMultipartBody(parsed.multipartData) : buildRequestBody(parsed);
+  const hasFileRef = !isMultipart && parsed.dataParts.some(part => part.fileRef !== undefined);
+
+  // 不在Cookie请求头中的Cookie（如 -b 中的Cookie）合并到同一个请求头
+  const extraCookies = getCookiesOutsideHeader(parsed.headers, parsed.cookies, parsed.optionCookies);
+  const headerLines: string[] = [];
+  let hasCookieHeader = false;
+  let hasContentType = false;
+  Object.entries(parsed.headers).forEach(([key, value]) => {
+    const lowerKey = key.toLowerCase();
+    if (lowerKey === 'host') {
+      host = value;
+      return;
+    }
+    if (GENERATED_HEADERS.includes(lowerKey)) return;
+    if (isMultipart && lowerKey === 'content-type') return;
+    if (lowerKey === 'content-type') hasContentType = true;
+    if (lowerKey === 'cookie') {
+      hasCookieHeader = true;
+      headerLines.push(`${key}: ${serializeCookies({ ...parseCookieString(value), ...extraCookies })}`);
+      return;
+    }
+    headerLines.push(`${key}: ${value}`);
+  });
+
+  if (!hasCookieHeader && Object.keys(extraCookies).length > 0) {
+    headerLines.push(`cookie: ${serializeCookies(extraCookies)}`);
+  }
+  if (isMultipart) {
+    headerLines.push(`content-type: multipart/form-data; boundary=${MULTIPART_BOUNDARY}`);
+  } else if (body !== undefined && !hasContentType) {
+    // 与 curl -d 一致，没有指定类型的请求体按表单发送
+    headerLines.push('content-type: application/x-www-form-urlencoded');
+  }
+  if (body !== undefined && !hasFileRef) {
+    headerLines.push(`content-length: ${utf8Length(body)}`);
+  }
+
+  const lines = [`${parsed.method} ${target} HTTP/1.1`];
+  if (host) {
+    lines.push(`host: ${host}`);
+  }
+  lines.push(...headerLines);
+
+  return lines.join('\r\n') + '\r\n\r\n' + (body ?? '');
+}
@@ -0,0 +1,218 @@
+// 原始HTTP请求文本解析（Burp、.http 文件、RFC 示例中的 "POST /path HTTP/1.1" 格式）
+
+import type { MultipartField } from '../types/filterRules';
+
+/**
+ * 从原始HTTP请求中提取出的请求信息
+ */
+export interface RawHttpRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;  // 请求头（键名已转为小写，不含 Host、Content-Length 和 Transfer-Encoding）
+  body?: string;                    // 请求体（已按 Content-Length 截断、已解码分块传输）
+  multipartData: MultipartField[];  // multipart/form-data 请求体拆分出的字段
+}
+
+// 请求行：方法 请求目标 [HTTP版本]
+const REQUEST_LINE = /^([A-Za-z][A-Za-z0-9_-]*)\s+(\S+)(?:\s+HTTP\/(\d(?:\.\d)?))?\s*$/i;
+
+// 标准HTTP方法，不区分大小写；其他（扩展）方法需要大写，避免把 curl 等命令名误判为方法
+const STANDARD_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'TRACE', 'CONNECT'];
+
+/**
+ * 解析请求行，方法统一转为大写；不是请求行时返回 null
+ */
+function matchRequestLine(line: string): { method: string; target: string; version?: string } | null {
+  const match = REQUEST_LINE.exec(line);
+  if (!match) {
+    return null;
+  }
+
+  const method = match[1].toUpperCase();
+  if (match[1] !== method && !STANDARD_METHODS.includes(method)) {
+    return null;
+  }
+  return { method, target: match[2], version: match[3] };
+}
+
+/**
+ * 判断输入是否为原始HTTP请求
+ * 请求行需要带HTTP版本，或请求目标以 / 或 http(s):// 开头，避免把普通文本误判为请求
+ */
+export function isRawHttpRequest(input: string): boolean {
+  const firstLine = input.trimStart().split(/\r?\n/, 1)[0];
+  const requestLine = matchRequestLine(firstLine);
+  return !!requestLine && (requestLine.version !== undefined || /^(\/|https?:\/\/)/i.test(requestLine.target));
+}
+
+/**
+ * 计算字符串按UTF-8编码后的字节数
+ */
+export function utf8Length(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+/**
+ * 按UTF-8字节数截取字符串开头
+ */
+function truncateUtf8(value: string, length: number): string {
+  const bytes = new TextEncoder().encode(value);
+  return bytes.length <= length ? value : new TextDecoder().decode(bytes.slice(0, length));
+}
+
+/**
+ * 解码分块传输（Transfer-Encoding: chunked）的请求体
+ */
+function decodeChunked(body: string): string {
+  let result = '';
+  let rest = body;
+
+  while (rest) {
+    const lineEnd = rest.indexOf('\n');
+    if (lineEnd < 0) break;
+
+    const size = parseInt(rest.slice(0, lineEnd).split(';')[0].trim(), 16);
+    if (isNaN(size) || size === 0) break;
+
+    const chunk = truncateUtf8(rest.slice(lineEnd + 1), size);
+    result += chunk;
+    rest = rest.slice(lineEnd + 1 + chunk.length).replace(/^\r?\n/, '');
+  }
+
+  return result;
+}
+
+/**
+ * 读取请求头参数，如 multipart/form-data; boundary=xxx 中的 boundary
+ */
+function getHeaderParam(value: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|;)\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;]*))`, 'i').exec(value);
+  return match ? (match[1] ?? match[2].trim()) : undefined;
+}
+
+/**
+ * 拆分 multipart/form-data 请求体
+ * 文本字段保留内容；文件字段转换为以文件名引用的文件（与 curl -F name=@file 一致），内嵌的文件内容不保留
+ * 格式无法识别时返回 null
+ */
+export function parseMultipartBody(body: string, boundary: string): MultipartField[] | null {
+  const delimiter = '--' + boundary;
+  const sections = body.split(delimiter);
+  if (sections.length < 2) return null;
+
+  const fields: MultipartField[] = [];
+  for (const section of sections.slice(1)) {
+    if (section.startsWith('--')) break;
+
+    const part = section.replace(/^\r?\n/, '').replace(/\r?\n$/, '');
+    const separator = /\r?\n\r?\n/.exec(part);
+    const headerText = separator ? part.slice(0, separator.index) : part;
+    const content = separator ? part.slice(separator.index + separator[0].length) : '';
+
+    const headers: Record<string, string> = {};
+    headerText.split(/\r?\n/).forEach(line => {
+      const colonIndex = line.indexOf(':');
+      if (colonIndex > 0) {
+        headers[line.slice(0, colonIndex).trim().toLowerCase()] = line.slice(colonIndex + 1).trim();
+      }
+    });
+
+    const disposition = headers['content-disposition'] || '';
+    const name = getHeaderParam(disposition, 'name');
+    if (name === undefined) return null;
+
+    const filename = getHeaderParam(disposition, 'filename');
+    if (filename !== undefined) {
+      fields.push({ name, value: filename, isFile: true, contentType: headers['content-type'] });
+    } else {
+      fields.push({ name, value: content, isFile: false, isString: true });
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * 解析原始HTTP请求
+ *
+ * 支持 CRLF 和 LF 换行、折叠的请求头、绝对URL或路径形式的请求目标、按 Content-Length 截断请求体，
+ * 以及分块传输解码。路径形式的请求目标根据 Host 请求头补全为URL：端口为80时使用 http，否则使用 https。
+ */
+export function parseRawHttp(input: string): RawHttpRequest {
+  const text = input.replace(/^\s+/, '');
+  const headerEnd = /\r?\n\r?\n/.exec(text);
+  const head = headerEnd ? text.slice(0, headerEnd.index) : text.replace(/\s+$/, '');
+  let body = headerEnd ? text.slice(headerEnd.index + headerEnd[0].length) : undefined;
+
+  const lines = head.split(/\r?\n/);
+  const requestLine = matchRequestLine(lines[0]);
+  if (!requestLine) {
+    throw new Error('无效的HTTP请求行: ' + lines[0]);
+  }
+
+  // 解析请求头，以空白开头的行是上一行的续行
+  const headers: Record<string, string> = {};
+  let lastKey = '';
+  lines.slice(1).forEach(line => {
+    if (/^[ \t]/.test(line) && lastKey) {
+      headers[lastKey] += ' ' + line.trim();
+      return;
+    }
+    const colonIndex = line.indexOf(':');
+    // 跳过 HTTP/2 伪请求头（:authority 等）
+    if (colonIndex > 0) {
+      lastKey = line.slice(0, colonIndex).trim().toLowerCase();
+      headers[lastKey] = line.slice(colonIndex + 1).trim();
+    }
+  });
+
+  // 补全请求URL
+  const target = requestLine.target;
+  const host = headers['host'];
+  let url = target;
+  if (!/^https?:\/\//i.test(target)) {
+    if (!host) {
+      throw new Error('HTTP请求缺少 Host 请求头，无法确定请求URL');
+    }
+    const scheme = /:80$/.test(host) ? 'http' : 'https';
+    url = `${scheme}://${host}${target.startsWith('/') ? target : '/' + target}`;
+  }
+
+  // 解码请求体
+  if (body !== undefined) {
+    if (/chunked/i.test(headers['transfer-encoding'] || '')) {
+      body = decodeChunked(body);
+    } else if (/^\d+$/.test(headers['content-length'] || '')) {
+      body = truncateUtf8(body, Number(headers['content-length']));
+    } else {
+      // 没有 Content-Length 时去掉编辑器在末尾添加的换行
+      body = body.replace(/(\r?\n)+$/, '');
+    }
+  }
+
+  // Host、Content-Length 和 Transfer-Encoding 由请求URL和请求体决定，重新生成请求时会重新计算
+  delete headers['host'];
+  delete headers['content-length'];
+  delete headers['transfer-encoding'];
+
+  // multipart 请求体拆分为字段，boundary 由生成的命令重新决定
+  let multipartData: MultipartField[] = [];
+  const contentType = headers['content-type'] || '';
+  const boundary = getHeaderParam(contentType, 'boundary');
+  if (body && /^multipart\/form-data/i.test(contentType) && boundary) {
+    const fields = parseMultipartBody(body, boundary);
+    if (fields) {
+      multipartData = fields;
+      body = undefined;
+      delete headers['content-type'];
+    }
+  }
+
+  return {
+    url,
+    method: requestLine.method,
+    headers,
+    body: body || undefined,
+    multipartData
+  };
+}
@@ -0,0 +1,62 @@
+// 敏感值脱敏工具
+
+import { MaskStrategy } from '../types/filterRules';
+
+/**
+ * 固定字符串脱敏的默认占位符
+ */
+export const DEFAULT_REDACTION = '<REDACTED>';
+
+// 部分脱敏时保留的末尾字符数
+const PARTIAL_VISIBLE_CHARS = 4;
+
+/**
+ * 计算字符串的 FNV-1a 32位哈希（十六进制）
+ * 只用于生成稳定的占位符，便于判断两个脱敏值是否相同，不具备加密强度
+ */
+function fnv1a(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 按脱敏方式替换值
+ * - fixed：替换为固定字符串（默认 <REDACTED>）
+ * - partial：只保留末尾4个字符，如 ****abcd；不超过4个字符时全部隐藏
+ * - hash：替换为值的短哈希，如 <hash:1a2b3c4d>
+ */
+export function maskValue(value: string, strategy: MaskStrategy = MaskStrategy.FIXED, replacement?: string): string {
+  switch (strategy) {
+    case MaskStrategy.PARTIAL:
+      return value.length > PARTIAL_VISIBLE_CHARS
+        ? '****' + value.slice(-PARTIAL_VISIBLE_CHARS)
+        : '****';
+
+    case MaskStrategy.HASH:
+      return `<hash:${fnv1a(value)}>`;
+
+    default:
+      return replacement || DEFAULT_REDACTION;
+  }
+}
+
+/**
+ * 对JSON节点脱敏：基本类型直接替换，对象和数组递归替换其中的每个值
+ */
+export function maskJsonValue(value: unknown, strategy?: MaskStrategy, replacement?: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => maskJsonValue(item, strategy, replacement));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, maskJsonValue(item, strategy, replacement)])
+    );
+  }
+
+  return maskValue(String(value), strategy, replacement);
+}
@@ -0,0 +1,180 @@
+// 代码生成使用的请求模型：把（过滤后的）解析结果整理成与具体语言无关的结构
+
+import type { ParsedCurl } from './curlParser';
+import type { MultipartField } from '../types/filterRules';
+import { buildRequestUrl, buildRequestBody } from './curlBuilder';
+import { applyAuthStyle, AuthStyle } from './auth';
+
+/**
+ * 请求体类型
+ */
+export const RequestBodyKind = {
+  NONE: 'none',           // 没有请求体
+  JSON: 'json',           // JSON请求体
+  FORM: 'form',           // application/x-www-form-urlencoded 表单
+  MULTIPART: 'multipart', // multipart/form-data 表单（-F）
+  FILE: 'file',           // 引用文件的数据（-d @file、--data-binary @file），发送时读取文件内容
+  RAW: 'raw'              // 其他原始文本
+} as const;
+
+export type RequestBodyKind = typeof RequestBodyKind[keyof typeof RequestBodyKind];
+
+/**
+ * 引用文件的请求体片段：文件内容，或原样发送的文本（如 -d 之间的 & 分隔符）
+ * urlencode 为 true 时文件内容要先URL编码再发送（--data-urlencode name@file）
+ */
+export type RequestBodyPart = { file: string; urlencode?: boolean } | { text: string };
+
+export type RequestBody =
+  | { kind: typeof RequestBodyKind.NONE }
+  | { kind: typeof RequestBodyKind.JSON; value: unknown }
+  | { kind: typeof RequestBodyKind.FORM; fields: Record<string, string> }
+  | { kind: typeof RequestBodyKind.MULTIPART; fields: MultipartField[] }
+  | { kind: typeof RequestBodyKind.FILE; parts: RequestBodyPart[]; content: string }  // content 为命令行中的数据，文件写作 @file
+  | { kind: typeof RequestBodyKind.RAW; content: string };
+
+export interface RequestModel {
+  method: string;
+  url: string;                         // 完整URL（含查询字符串，不含片段标识）
+  baseUrl: string;                     // 不含查询字符串的URL
+  queryParams: Record<string, string>; // 查询参数
+  headers: Record<string, string>;     // 请求头（不含Cookie和Content-Length，由 cookies 和各HTTP库负责）
+  cookies: Record<string, string>;     // Cookie
+  body: RequestBody;
+}
+
+/**
+ * 判断请求头是否为指定名称（不区分大小写）
+ */
+function isHeader(key: string, name: string): boolean {
+  return key.toLowerCase() === name;
+}
+
+/**
+ * 查找请求头的值（不区分大小写）
+ */
+export function findHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(key => isHeader(key, name));
+  return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * 按 curl 拼接数据的方式把引用文件的数据拆成文件和文本片段，相邻文本合并
+ * --data-urlencode name@file 的文件内容与 curl 一样先URL编码，名称和 = 原样发送
+ */
+function buildFileParts(parsed: ParsedCurl): RequestBodyPart[] {
+  const parts: RequestBodyPart[] = [];
+  const pushText = (text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last && 'text' in last) {
+      last.text += text;
+    } else {
+      parts.push({ text });
+    }
+  };
+
+  parsed.dataParts.forEach((part, index) => {
+    if (index > 0) {
+      pushText(part.option === '--json' && parsed.dataParts[index - 1].option === '--json' ? '' : '&');
+    }
+    if (part.fileRef === undefined) {
+      pushText(part.content);
+      return;
+    }
+    const name = part.value.substring(0, part.value.length - part.fileRef.length - 1);
+    pushText(name ? `${name}=` : '');
+    parts.push(part.option === '--data-urlencode' ? { file: part.fileRef, urlencode: true } : { file: part.fileRef });
+  });
+
+  return parts;
+}
+
+/**
+ * 确定请求体类型
+ * curl -d 在没有指定 Content-Type 时按表单发送，因此没有 Content-Type 且能解析出字段的数据也视为表单
+ */
+function buildBody(parsed: ParsedCurl): RequestBody {
+  if (parsed.multipartData.length > 0) {
+    return { kind: RequestBodyKind.MULTIPART, fields: parsed.multipartData };
+  }
+
+  const content = buildRequestBody(parsed);
+  if (content === undefined) {
+    return { kind: RequestBodyKind.NONE };
+  }
+
+  // 引用文件的数据无法得知内容，由生成的代码读取文件
+  if (parsed.dataParts.some(part => part.fileRef !== undefined)) {
+    return { kind: RequestBodyKind.FILE, parts: buildFileParts(parsed), content };
+  }
+
+  if (parsed.jsonBody !== null && parsed.jsonBody !== undefined) {
+    return { kind: RequestBodyKind.JSON, value: parsed.jsonBody };
+  }
+
+  const contentType = (findHeader(parsed.headers, 'content-type') || '').toLowerCase();
+  const isForm = contentType ? contentType.includes('application/x-www-form-urlencoded') : true;
+  if (isForm && Object.keys(parsed.formData).length > 0) {
+    return { kind: RequestBodyKind.FORM, fields: parsed.formData };
+  }
+
+  return { kind: RequestBodyKind.RAW, content };
+}
+
+/**
+ * 从（过滤后的）解析结果构建请求模型
+ * URL和请求体与 buildCurlFromContext 生成的命令保持一致；-u 和 --oauth2-bearer 的认证信息写成 Authorization 请求头
+ */
+export function buildRequestModel(parsed: ParsedCurl): RequestModel {
+  const url = buildRequestUrl(parsed).split('#')[0];
+  const body = buildBody(parsed);
+
+  const headers: Record<string, string> = {};
+  Object.entries(applyAuthStyle(parsed, AuthStyle.HEADER).headers).forEach(([key, value]) => {
+    if (isHeader(key, 'cookie') || isHeader(key, 'content-length')) return;
+    // multipart 的 boundary 由HTTP库生成，原有的 Content-Type 不能沿用
+    if (body.kind === RequestBodyKind.MULTIPART && isHeader(key, 'content-type')) return;
+    headers[key] = value;
+  });
+  // 引用文件的数据与 curl -d 一样，没有指定 Content-Type 时按表单发送
+  if (body.kind === RequestBodyKind.FILE && findHeader(headers, 'content-type') === undefined) {
+    headers['content-type'] = 'application/x-www-form-urlencoded';
+  }
+
+  return {
+    method: parsed.method,
+    url,
+    baseUrl: url.split('?')[0],
+    queryParams: parsed.queryParams,
+    headers,
+    cookies: parsed.cookies,
+    body
+  };
+}
+
+/**
+ * 判断字符编码是否为控制字符（C0 控制字符和 DEL）
+ */
+export function isControlChar(code: number): boolean {
+  return code < 0x20 || code === 0x7f;
+}
+
+/**
+ * 判断文本是否包含控制字符，allowed 中的字符（如制表符、换行符）除外
+ */
+export function hasControlChars(value: string, allowed = ''): boolean {
+  for (let i = 0; i < value.length; i++) {
+    if (isControlChar(value.charCodeAt(i)) && !allowed.includes(value[i])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * 为多行文本的每一行（首行除外）添加缩进，用于把生成的代码块嵌入到外层代码中
+ */
+export function indentLines(text: string, indent: string): string {
+  return text.split('\n').join('\n' + indent);
+}
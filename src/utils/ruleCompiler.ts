@@ -0,0 +1,255 @@
+// 规则集的编译：设置规则时一次性编译匹配值，批量过滤（如HAR导入的大量请求）时不再逐条规则重复计算
+// 精确匹配和列表匹配的键名放入哈希表，开头匹配的键名放入前缀树，同一键名的匹配结果在规则集内缓存
+// 决定去留时先按键名从索引中取出候选规则，索引未命中的按键名匹配规则不再逐条检查
+
+import type { FilterRule, FilterTarget } from '../types/filterRules';
+import { MatchMode, MatchScope } from '../types/filterRules';
+import { compilePattern, isCaseSensitive, parseMatchList } from './ruleMatching';
+import type { PatternMatcher } from './ruleMatching';
+import { isGlobalAction, sortByPriority } from './ruleResolution';
+import { parseJsonPath } from './jsonPath';
+import type { JsonPathSegment } from './jsonPath';
+
+// 键名匹配结果的缓存上限，超出后清空重新缓存，避免键名很多时占用过多内存
+const MAX_CACHED_KEYS = 10000;
+
+// 前缀树节点，rules 为匹配值在此结束的开头匹配规则
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  rules: FilterRule[];
+}
+
+/**
+ * 开头匹配规则的前缀树，一次遍历键名即可找出所有匹配的规则
+ */
+class PrefixTrie {
+  private root: TrieNode = { children: new Map(), rules: [] };
+
+  insert(prefix: string, rule: FilterRule): void {
+    let node = this.root;
+    for (const char of prefix) {
+      let child = node.children.get(char);
+      if (!child) {
+        child = { children: new Map(), rules: [] };
+        node.children.set(char, child);
+      }
+      node = child;
+    }
+    node.rules.push(rule);
+  }
+
+  collect(value: string, matched: Set<FilterRule>): void {
+    let node: TrieNode | undefined = this.root;
+    for (const char of value) {
+      node = node.children.get(char);
+      if (!node) return;
+      node.rules.forEach(rule => matched.add(rule));
+    }
+  }
+}
+
+/**
+ * 一个目标中按键名匹配的规则索引
+ */
+class KeyIndex {
+  private exact = new Map<string, FilterRule[]>();
+  private exactIgnoreCase = new Map<string, FilterRule[]>();
+  private prefixes = new PrefixTrie();
+  private prefixesIgnoreCase = new PrefixTrie();
+  private scanned: Array<[FilterRule, PatternMatcher]> = [];
+  private cache = new Map<string, Set<FilterRule>>();
+
+  add(rule: FilterRule, matcher: PatternMatcher): void {
+    const caseSensitive = isCaseSensitive(rule);
+    const normalize = (text: string) => caseSensitive ? text : text.toLowerCase();
+
+    switch (rule.matchMode) {
+      case MatchMode.EXACT:
+      case MatchMode.ONE_OF: {
+        const names = rule.matchMode === MatchMode.EXACT ? [rule.matchValue] : parseMatchList(rule.matchValue);
+        const exact = caseSensitive ? this.exact : this.exactIgnoreCase;
+        names.forEach(name => {
+          const key = normalize(name);
+          exact.set(key, [...(exact.get(key) || []), rule]);
+        });
+        break;
+      }
+
+      case MatchMode.STARTS_WITH:
+        (caseSensitive ? this.prefixes : this.prefixesIgnoreCase).insert(normalize(rule.matchValue), rule);
+        break;
+
+      default:
+        this.scanned.push([rule, matcher]);
+    }
+  }
+
+  /**
+   * 返回键名符合匹配值的全部规则（不考虑取反）
+   */
+  match(key: string): Set<FilterRule> {
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const lowerKey = key.toLowerCase();
+    const matched = new Set<FilterRule>([
+      ...(this.exact.get(key) || []),
+      ...(this.exactIgnoreCase.get(lowerKey) || [])
+    ]);
+    this.prefixes.collect(key, matched);
+    this.prefixesIgnoreCase.collect(lowerKey, matched);
+    this.scanned.forEach(([rule, matcher]) => {
+      if (matcher(key)) matched.add(rule);
+    });
+
+    if (this.cache.size >= MAX_CACHED_KEYS) {
+      this.cache.clear();
+    }
+    this.cache.set(key, matched);
+    return matched;
+  }
+}
+
+/**
+ * 编译后的规则集
+ * 规则对象按引用索引，修改规则后需要重新编译（FilterEngine.setRules）
+ */
+export class CompiledRuleSet {
+  readonly rules: FilterRule[];  // 启用的规则，按执行顺序排列
+
+  private matchers = new Map<FilterRule, PatternMatcher>();
+  private keyIndexes = new Map<FilterTarget, KeyIndex>();
+  private indexedRules = new Set<FilterRule>();
+  private scannedRules = new Map<FilterTarget, FilterRule[]>();  // 无法用键名索引排除的规则，每个键都要检查
+  private order = new Map<FilterRule, number>();
+  private candidates = new Map<FilterTarget, Map<string, FilterRule[]>>();
+  private jsonPaths = new Map<FilterRule, JsonPathSegment[] | null>();
+  private warnings = new Map<FilterRule, string | null>();
+
+  constructor(rules: FilterRule[]) {
+    this.rules = sortByPriority(rules.filter(rule => rule.enabled));
+
+    this.rules.forEach((rule, position) => {
+      const matcher = this.getMatcher(rule);
+      this.order.set(rule, position);
+
+      if (rule.matchMode === MatchMode.JSON_PATH) {
+        this.jsonPaths.set(rule, this.compileJsonPath(rule.matchValue));
+      } else if (rule.matchValue && (rule.matchScope || MatchScope.KEY) !== MatchScope.VALUE) {
+        let index = this.keyIndexes.get(rule.target);
+        if (!index) {
+          index = new KeyIndex();
+          this.keyIndexes.set(rule.target, index);
+        }
+        index.add(rule, matcher);
+        this.indexedRules.add(rule);
+      }
+
+      // 全局规则匹配所有键，取反的规则匹配索引未命中的键，可按值匹配的规则还要检查值，都不能只靠索引筛选
+      if (
+        !this.indexedRules.has(rule) ||
+        isGlobalAction(rule.action) ||
+        rule.negate ||
+        (rule.matchScope || MatchScope.KEY) !== MatchScope.KEY
+      ) {
+        this.scannedRules.set(rule.target, [...(this.scannedRules.get(rule.target) || []), rule]);
+      }
+    });
+  }
+
+  /**
+   * 返回可能匹配该键的规则，按执行顺序排列：键名索引命中的规则和无法用索引排除的规则
+   * 其余按键名匹配的规则一定不匹配该键，调用方只需检查返回的规则
+   */
+  candidateRules(target: FilterTarget, key: string): FilterRule[] {
+    let cache = this.candidates.get(target);
+    if (!cache) {
+      cache = new Map();
+      this.candidates.set(target, cache);
+    }
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const scanned = this.scannedRules.get(target) || [];
+    const matched = Array.from(this.keyIndexes.get(target)?.match(key) || []).filter(rule => !scanned.includes(rule));
+    const candidates = [...matched, ...scanned].sort((a, b) => (this.order.get(a) ?? 0) - (this.order.get(b) ?? 0));
+
+    if (cache.size >= MAX_CACHED_KEYS) {
+      cache.clear();
+    }
+    cache.set(key, candidates);
+    return candidates;
+  }
+
+  /**
+   * 检查键名是否符合规则的匹配值（不考虑取反和匹配范围）
+   */
+  matchesKey(rule: FilterRule, key: string): boolean {
+    if (!this.indexedRules.has(rule)) {
+      return this.getMatcher(rule)(key);
+    }
+    return this.keyIndexes.get(rule.target)?.match(key).has(rule) ?? false;
+  }
+
+  /**
+   * 检查文本是否符合规则的匹配值（不考虑取反）
+   */
+  matchesValue(rule: FilterRule, value: string): boolean {
+    return this.getMatcher(rule)(value);
+  }
+
+  /**
+   * 获取JSON路径模式规则解析后的路径，匹配值为空或路径无效时返回 null
+   */
+  getJsonPath(rule: FilterRule): JsonPathSegment[] | null {
+    if (!this.jsonPaths.has(rule)) {
+      this.jsonPaths.set(rule, this.compileJsonPath(rule.matchValue));
+    }
+    return this.jsonPaths.get(rule) ?? null;
+  }
+
+  /**
+   * 检查规则的匹配值能否使用，无效的正则表达式和JSON路径不会匹配任何内容
+   */
+  getPatternWarning(rule: FilterRule): string | null {
+    if (!this.warnings.has(rule)) {
+      this.warnings.set(rule, this.compileWarning(rule));
+    }
+    return this.warnings.get(rule) ?? null;
+  }
+
+  private getMatcher(rule: FilterRule): PatternMatcher {
+    let matcher = this.matchers.get(rule);
+    if (!matcher) {
+      matcher = compilePattern(rule);
+      this.matchers.set(rule, matcher);
+    }
+    return matcher;
+  }
+
+  private compileWarning(rule: FilterRule): string | null {
+    if (!rule.matchValue) {
+      return null;
+    }
+    if (rule.matchMode === MatchMode.JSON_PATH && this.getJsonPath(rule) === null) {
+      return `规则「${rule.name}」的JSON路径无效，不会匹配任何内容`;
+    }
+    if (rule.matchMode === MatchMode.REGEX) {
+      try {
+        new RegExp(rule.matchValue);
+      } catch {
+        return `规则「${rule.name}」的正则表达式无效，不会匹配任何内容`;
+      }
+    }
+    return null;
+  }
+
+  private compileJsonPath(path: string): JsonPathSegment[] | null {
+    if (!path) return null;
+    try {
+      return parseJsonPath(path);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+// 规则适用条件：按主机、路径、方法、Content-Type 和请求头限定规则的作用范围
+
+import type { FilterContext, RuleCondition } from '../types/filterRules';
+import { matchGlob } from './glob';
+
+/**
+ * 从URL中解析主机名和路径，curl 允许省略协议，解析失败时返回 null
+ */
+function parseRequestUrl(url: string): { host: string; path: string } | null {
+  try {
+    const parsed = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(url) ? url : `http://${url}`);
+    return { host: parsed.hostname, path: parsed.pathname };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 不区分大小写地查找请求头的值
+ */
+function findHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * 获取请求的内容类型；使用 -F 且未指定 Content-Type 时 curl 会发送 multipart/form-data
+ */
+function getContentType(context: FilterContext): string {
+  const contentType = findHeader(context.headers, 'content-type');
+  if (contentType !== undefined) return contentType;
+  return context.multipartData && context.multipartData.length > 0 ? 'multipart/form-data' : '';
+}
+
+/**
+ * 判断条件是否为空（没有设置任何条件）
+ */
+export function isEmptyCondition(condition?: RuleCondition): boolean {
+  return !condition ||
+    (!condition.host && !condition.path && !condition.contentType && !condition.hasHeader &&
+      (!condition.methods || condition.methods.length === 0));
+}
+
+/**
+ * 判断请求是否满足规则的适用条件，所有已设置的条件都满足时返回 true
+ */
+export function matchesRuleCondition(condition: RuleCondition | undefined, context: FilterContext): boolean {
+  if (!condition || isEmptyCondition(condition)) {
+    return true;
+  }
+
+  if (condition.host || condition.path) {
+    const url = parseRequestUrl(context.url);
+    if (!url) return false;
+    if (condition.host && !matchGlob(url.host, condition.host, true)) return false;
+    if (condition.path && !matchGlob(url.path, condition.path)) return false;
+  }
+
+  if (condition.methods && condition.methods.length > 0 &&
+      !condition.methods.some(method => method.toUpperCase() === context.method.toUpperCase())) {
+    return false;
+  }
+
+  if (condition.contentType &&
+      !getContentType(context).toLowerCase().includes(condition.contentType.toLowerCase())) {
+    return false;
+  }
+
+  if (condition.hasHeader && findHeader(context.headers, condition.hasHeader) === undefined) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * 生成条件的简短描述，如 "主机 *.example.com，方法 GET/POST"
+ */
+export function describeRuleCondition(condition?: RuleCondition): string {
+  if (!condition) return '';
+
+  const parts: string[] = [];
+  if (condition.host) parts.push(`主机 ${condition.host}`);
+  if (condition.path) parts.push(`路径 ${condition.path}`);
+  if (condition.methods && condition.methods.length > 0) parts.push(`方法 ${condition.methods.join('/')}`);
+  if (condition.contentType) parts.push(`Content-Type 包含 ${condition.contentType}`);
+  if (condition.hasHeader) parts.push(`存在请求头 ${condition.hasHeader}`);
+
+  return parts.join('，');
+}
@@ -0,0 +1,92 @@
+// 规则匹配值的匹配：匹配模式和大小写
+
+import type { FilterRule } from '../types/filterRules';
+import { FilterTarget, MatchMode } from '../types/filterRules';
+import { globToRegExp } from './glob';
+
+/**
+ * 编译后的匹配函数，检查文本是否符合规则的匹配值
+ */
+export type PatternMatcher = (value: string) => boolean;
+
+/**
+ * 拆分列表匹配的匹配值：逗号分隔的名称，忽略首尾空白和空项
+ */
+export function parseMatchList(matchValue: string): string[] {
+  return matchValue.split(',').map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * 检查规则是否区分大小写
+ * 未设置时请求头不区分大小写；其他目标的精确、通配符和列表匹配区分大小写，包含、开头、结尾和正则匹配不区分大小写
+ */
+export function isCaseSensitive(rule: Pick<FilterRule, 'target' | 'matchMode' | 'caseSensitive'>): boolean {
+  if (rule.caseSensitive !== undefined) {
+    return rule.caseSensitive;
+  }
+  if (rule.target === FilterTarget.HEADERS) {
+    return false;
+  }
+  return rule.matchMode === MatchMode.EXACT || rule.matchMode === MatchMode.GLOB || rule.matchMode === MatchMode.ONE_OF;
+}
+
+/**
+ * 把规则的匹配值编译为匹配函数（不考虑取反）：正则表达式和通配符只编译一次，列表匹配使用哈希表
+ * 匹配值为空或正则表达式无效时不匹配任何文本
+ */
+export function compilePattern(
+  rule: Pick<FilterRule, 'target' | 'matchMode' | 'matchValue' | 'caseSensitive'>
+): PatternMatcher {
+  const pattern = rule.matchValue;
+  if (!pattern) return () => false;
+
+  const caseSensitive = isCaseSensitive(rule);
+  const normalize = (text: string) => caseSensitive ? text : text.toLowerCase();
+  const expected = normalize(pattern);
+
+  switch (rule.matchMode) {
+    case MatchMode.EXACT:
+      return value => normalize(value) === expected;
+
+    case MatchMode.CONTAINS:
+      return value => normalize(value).includes(expected);
+
+    case MatchMode.STARTS_WITH:
+      return value => normalize(value).startsWith(expected);
+
+    case MatchMode.ENDS_WITH:
+      return value => normalize(value).endsWith(expected);
+
+    case MatchMode.GLOB: {
+      const regex = globToRegExp(pattern, caseSensitive ? '' : 'i');
+      return value => regex.test(value);
+    }
+
+    case MatchMode.ONE_OF: {
+      const names = new Set(parseMatchList(pattern).map(normalize));
+      return value => names.has(normalize(value));
+    }
+
+    case MatchMode.REGEX:
+      try {
+        const regex = new RegExp(pattern, caseSensitive ? '' : 'i');
+        return value => regex.test(value);
+      } catch {
+        return () => false;
+      }
+
+    default:
+      return () => false;
+  }
+}
+
+/**
+ * 检查文本是否符合规则的匹配值（不考虑取反），匹配值为空或正则表达式无效时不匹配
+ * 需要反复匹配同一规则时使用 compilePattern
+ */
+export function matchesPattern(
+  value: string,
+  rule: Pick<FilterRule, 'target' | 'matchMode' | 'matchValue' | 'caseSensitive'>
+): boolean {
+  return compilePattern(rule)(value);
+}
@@ -0,0 +1,50 @@
+// 删除/保留规则的冲突解决：过滤引擎、解释模式和规则冲突检测共用同一套判定
+
+import type { FilterRule } from '../types/filterRules';
+import { FilterAction, ResolutionStrategy } from '../types/filterRules';
+
+/**
+ * 检查动作是否为全局动作（删除全部/保留全部），全局规则匹配目标中的所有项
+ */
+export function isGlobalAction(action: FilterAction): boolean {
+  return action === FilterAction.DELETE_ALL || action === FilterAction.KEEP_ALL;
+}
+
+/**
+ * 检查动作是否决定项的去留（删除、删除全部、保留、保留全部）
+ */
+export function isFilterAction(action: FilterAction): boolean {
+  return isGlobalAction(action) || action === FilterAction.DELETE || action === FilterAction.KEEP;
+}
+
+/**
+ * 检查决定去留的动作是否保留项
+ */
+export function isKeepAction(action: FilterAction): boolean {
+  return action === FilterAction.KEEP || action === FilterAction.KEEP_ALL;
+}
+
+/**
+ * 按执行顺序排列规则：优先级从高到低，优先级相同时保持规则列表中的顺序
+ */
+export function sortByPriority(rules: FilterRule[]): FilterRule[] {
+  return [...rules].sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * 从匹配某一项的删除/保留规则中选出决定去留的规则，没有规则匹配时返回 undefined（保留）
+ * matchingRules 须已按执行顺序排列
+ */
+export function resolveFilterRule(
+  matchingRules: FilterRule[],
+  strategy: ResolutionStrategy
+): FilterRule | undefined {
+  switch (strategy) {
+    case ResolutionStrategy.LAST_MATCH:
+      return matchingRules[matchingRules.length - 1];
+    case ResolutionStrategy.DENY_OVERRIDES:
+      return matchingRules.find(rule => !isKeepAction(rule.action)) ?? matchingRules[0];
+    default:
+      return matchingRules[0];
+  }
+}
@@ -21,6 +21,13 @@ function createTemplateRule(input: CreateRuleInput): Omit<FilterRule, 'id' | 'cr
     target: input.target,
     matchMode: input.matchMode,
     matchValue: input.matchValue,
+    matchScope: input.matchScope,
+    caseSensitive: input.caseSensitive,
+    negate: input.negate,
+    maskStrategy: input.maskStrategy,
+    maskValue: input.maskValue,
+    replacement: input.replacement,
+    condition: input.condition,
     priority: input.priority,
     enabled: input.enabled,
     description: input.description
@@ -179,6 +186,16 @@ const DEBUG_CLEANUP_TEMPLATE: RuleTemplate = {
       priority: 50,
       enabled: true,
       description: '删除以debug、trace、_开头的查询参数'
+    }),
+    createTemplateRule({
+      name: '删除输出和调试选项',
+      action: FilterAction.DELETE,
+      target: FilterTarget.OPTIONS,
+      matchMode: MatchMode.REGEX,
+      matchValue: '^--(verbose|include|silent|show-error|progress-bar|output|dump-header|write-out|trace.*|stderr)$',
+      priority: 50,
+      enabled: true,
+      description: '删除 -v、-i、-s、-o、-w 等只影响本地输出的curl选项'
     })
   ]
 };
@@ -299,6 +316,52 @@ const MINIMAL_TEMPLATE: RuleTemplate = {
   ]
 };
 
+/**
+ * 去除统计Cookie模板
+ */
+const ANALYTICS_COOKIES_TEMPLATE: RuleTemplate = {
+  id: 'analytics-cookies',
+  name: '去除统计Cookie',
+  description: '删除Google Analytics、Facebook Pixel、Hotjar等统计分析Cookie，保留会话Cookie',
+  category: 'optimization',
+  isBuiltIn: true,
+  rules: [
+    createTemplateRule({
+      name: '删除统计分析Cookie',
+      action: FilterAction.DELETE,
+      target: FilterTarget.COOKIES,
+      matchMode: MatchMode.REGEX,
+      matchValue: '^(_ga.*|_gid|_gat.*|_gcl_.*|__utm.*|_fbp|_fbc|_hj.*|Hm_.*)$',
+      priority: 80,
+      enabled: true,
+      description: '删除常见统计工具写入的Cookie'
+    })
+  ]
+};
+
+/**
+ * 隐藏登录凭据模板
+ */
+const HIDE_CREDENTIALS_TEMPLATE: RuleTemplate = {
+  id: 'hide-credentials',
+  name: '隐藏登录凭据',
+  description: '对 -u、--oauth2-bearer 和 Authorization 请求头中的密码和令牌脱敏，保留用户名和认证方式',
+  category: 'security',
+  isBuiltIn: true,
+  rules: [
+    createTemplateRule({
+      name: '密码和令牌脱敏',
+      action: FilterAction.REDACT,
+      target: FilterTarget.AUTH,
+      matchMode: MatchMode.REGEX,
+      matchValue: '^(password|token)$',
+      priority: 80,
+      enabled: true,
+      description: '把密码和令牌替换为 <REDACTED>'
+    })
+  ]
+};
+
 /**
  * 完整保留模板
  */
@@ -360,6 +423,8 @@ export const BUILT_IN_TEMPLATES: RuleTemplate[] = [
   DEBUG_CLEANUP_TEMPLATE,
   API_TEST_TEMPLATE,
   MINIMAL_TEMPLATE,
+  ANALYTICS_COOKIES_TEMPLATE,
+  HIDE_CREDENTIALS_TEMPLATE,
   KEEP_ALL_TEMPLATE
 ];
 
@@ -8,12 +8,23 @@ import {
   FilterAction,
   FilterTarget,
   MatchMode,
+  MatchScope,
   isValidFilterAction,
   isValidFilterTarget,
   isValidMatchMode,
+  isValidMatchScope,
+  isValidMaskStrategy,
+  requiresMatchValue,
+  requiresReplacement,
   isValidPriority,
+  ResolutionStrategy,
+  DEFAULT_SETTINGS,
   PRIORITY_RANGE
 } from '../types/filterRules';
+import { parseJsonPath, toLiteralLocation } from './jsonPath';
+import { isEmptyCondition } from './ruleConditions';
+import { parseMatchList } from './ruleMatching';
+import { isGlobalAction, isFilterAction, isKeepAction, sortByPriority } from './ruleResolution';
 
 /**
  * 验证单个规则
@@ -45,6 +56,14 @@ export function validateRule(rule: Partial<FilterRule>): RuleValidationResult {
     errors.push('无效的匹配模式');
   }
 
+  if (rule.matchScope !== undefined && !isValidMatchScope(rule.matchScope)) {
+    errors.push('无效的匹配范围');
+  }
+
+  if (rule.maskStrategy !== undefined && !isValidMaskStrategy(rule.maskStrategy)) {
+    errors.push('无效的脱敏方式');
+  }
+
   // 验证优先级
   if (rule.priority === undefined || rule.priority === null) {
     errors.push('必须设置优先级');
@@ -54,7 +73,7 @@ export function validateRule(rule: Partial<FilterRule>): RuleValidationResult {
 
   // 验证匹配值
   if (rule.action && rule.matchValue !== undefined) {
-    const needsMatchValue = rule.action === FilterAction.DELETE || rule.action === FilterAction.KEEP;
+    const needsMatchValue = requiresMatchValue(rule.action);
     const hasMatchValue = rule.matchValue && rule.matchValue.trim() !== '';
 
     if (needsMatchValue && !hasMatchValue) {
@@ -64,6 +83,48 @@ export function validateRule(rule: Partial<FilterRule>): RuleValidationResult {
     }
   }
 
+  // 验证改写动作
+  if (rule.action && requiresReplacement(rule.action)) {
+    if (!rule.replacement) {
+      errors.push(rule.action === FilterAction.RENAME ? '重命名动作需要指定新键名' : '该动作类型需要指定新值');
+    }
+    if (rule.action === FilterAction.ADD && rule.matchMode !== MatchMode.EXACT && rule.matchMode !== MatchMode.JSON_PATH) {
+      errors.push('新增动作只能使用精确匹配或JSON路径，匹配值即为新增的键名');
+    }
+    if (rule.action === FilterAction.ADD && rule.matchMode === MatchMode.JSON_PATH && rule.matchValue) {
+      try {
+        if (!toLiteralLocation(parseJsonPath(rule.matchValue))) {
+          errors.push('新增动作的JSON路径不能包含通配符或递归下降');
+        }
+      } catch {
+        // 路径格式错误在下方的JSON路径验证中报告
+      }
+    }
+  }
+
+  // 验证列表匹配
+  if (rule.matchMode === MatchMode.ONE_OF && rule.matchValue && parseMatchList(rule.matchValue).length === 0) {
+    errors.push('列表匹配至少需要一个名称，多个名称用逗号分隔');
+  }
+
+  // 验证取反
+  if (rule.negate) {
+    if (rule.matchMode === MatchMode.JSON_PATH) {
+      errors.push('JSON路径匹配模式不支持取反');
+    }
+    if (rule.action === FilterAction.ADD || rule.action === FilterAction.RENAME) {
+      errors.push('新增和重命名动作不支持取反');
+    }
+    if (rule.action && !requiresMatchValue(rule.action)) {
+      warnings.push('该动作类型作用于所有项目，取反设置将被忽略');
+    }
+  }
+
+  // 验证适用条件
+  if (rule.condition?.methods?.some(method => !/^[A-Za-z]+$/.test(method))) {
+    errors.push('适用条件中存在无效的HTTP方法');
+  }
+
   // 验证正则表达式
   if (rule.matchMode === MatchMode.REGEX && rule.matchValue) {
     try {
@@ -73,6 +134,23 @@ export function validateRule(rule: Partial<FilterRule>): RuleValidationResult {
     }
   }
 
+  // 验证JSON路径
+  if (rule.matchMode === MatchMode.JSON_PATH) {
+    if (rule.target && rule.target !== FilterTarget.JSON_BODY) {
+      errors.push('JSON路径匹配模式只能用于JSON请求体');
+    }
+    if (rule.matchScope && rule.matchScope !== MatchScope.KEY) {
+      warnings.push('JSON路径匹配模式按路径定位节点，匹配范围设置将被忽略');
+    }
+    if (rule.matchValue) {
+      try {
+        parseJsonPath(rule.matchValue);
+      } catch (e) {
+        errors.push((e as Error).message);
+      }
+    }
+  }
+
   // 验证规则名称长度
   if (rule.name && rule.name.length > 50) {
     warnings.push('规则名称过长，建议不超过50个字符');
@@ -109,7 +187,7 @@ export function validateRuleField(
 
     case 'matchValue':
       if (rule?.action) {
-        const needsMatchValue = rule.action === FilterAction.DELETE || rule.action === FilterAction.KEEP;
+        const needsMatchValue = requiresMatchValue(rule.action);
         const hasMatchValue = value && value.trim() !== '';
 
         if (needsMatchValue && !hasMatchValue) {
@@ -125,6 +203,21 @@ export function validateRuleField(
           errors.push('正则表达式格式无效');
         }
       }
+
+      // 验证JSON路径
+      if (rule?.matchMode === MatchMode.JSON_PATH && value) {
+        try {
+          parseJsonPath(value);
+        } catch {
+          errors.push('JSON路径格式无效');
+        }
+      }
+      break;
+
+    case 'replacement':
+      if (rule?.action && requiresReplacement(rule.action) && !value) {
+        errors.push(rule.action === FilterAction.RENAME ? '重命名动作需要指定新键名' : '该动作类型需要指定新值');
+      }
       break;
 
     case 'priority':
@@ -140,7 +233,10 @@ export function validateRuleField(
 /**
  * 验证规则列表
  */
-export function validateRules(rules: FilterRule[]): RuleValidationResult {
+export function validateRules(
+  rules: FilterRule[],
+  strategy: ResolutionStrategy = DEFAULT_SETTINGS.resolutionStrategy
+): RuleValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
 
@@ -171,7 +267,7 @@ export function validateRules(rules: FilterRule[]): RuleValidationResult {
   }
 
   // 检查规则冲突
-  const conflicts = detectRuleConflicts(rules);
+  const conflicts = detectRuleConflicts(rules, strategy);
   if (conflicts.length > 0) {
     warnings.push(...conflicts);
   }
@@ -185,10 +281,15 @@ export function validateRules(rules: FilterRule[]): RuleValidationResult {
 
 /**
  * 检测规则冲突
+ * 按冲突解决策略找出永远不会决定任何项去留的删除/保留规则（与过滤引擎使用同一判定）；
+ * 带适用条件的规则不一定生效，不会被视为覆盖其他规则
  */
-export function detectRuleConflicts(rules: FilterRule[]): string[] {
+export function detectRuleConflicts(
+  rules: FilterRule[],
+  strategy: ResolutionStrategy = DEFAULT_SETTINGS.resolutionStrategy
+): string[] {
   const warnings: string[] = [];
-  const enabledRules = rules.filter(rule => rule.enabled);
+  const enabledRules = rules.filter(rule => rule.enabled && isFilterAction(rule.action));
 
   // 按目标类型分组
   const rulesByTarget = new Map<FilterTarget, FilterRule[]>();
@@ -199,50 +300,34 @@ export function detectRuleConflicts(rules: FilterRule[]): string[] {
     rulesByTarget.get(rule.target)!.push(rule);
   });
 
+  const formatNames = (targetRules: FilterRule[]) => targetRules.map(rule => `「${rule.name}」`).join('、');
+
   // 检查每个目标类型的规则冲突
   rulesByTarget.forEach((targetRules, target) => {
-    const sortedRules = targetRules.sort((a, b) => b.priority - a.priority);
-
-    // 检查DELETE_ALL和KEEP_ALL的冲突
-    const deleteAllRules = sortedRules.filter(r => r.action === FilterAction.DELETE_ALL);
-    const keepAllRules = sortedRules.filter(r => r.action === FilterAction.KEEP_ALL);
+    const sortedRules = sortByPriority(targetRules);
+    const targetName = getTargetDisplayName(target);
 
-    if (deleteAllRules.length > 1) {
-      warnings.push(`${getTargetDisplayName(target)}存在多个"删除全部"规则，只有优先级最高的会生效`);
-    }
-
-    if (keepAllRules.length > 1) {
-      warnings.push(`${getTargetDisplayName(target)}存在多个"保留全部"规则，只有优先级最高的会生效`);
-    }
+    // 任一删除规则匹配即删除：无条件的"删除全部"规则使所有保留规则失效
+    if (strategy === ResolutionStrategy.DENY_OVERRIDES) {
+      const deleteAllRule = sortedRules.find(rule => rule.action === FilterAction.DELETE_ALL && isEmptyCondition(rule.condition));
+      const keepRules = sortedRules.filter(rule => isKeepAction(rule.action));
 
-    if (deleteAllRules.length > 0 && keepAllRules.length > 0) {
-      const highestDeleteAll = deleteAllRules[0];
-      const highestKeepAll = keepAllRules[0];
-      
-      if (highestDeleteAll.priority > highestKeepAll.priority) {
-        warnings.push(`${getTargetDisplayName(target)}的"删除全部"规则优先级高于"保留全部"规则，所有项目都会被删除`);
-      } else if (highestKeepAll.priority > highestDeleteAll.priority) {
-        warnings.push(`${getTargetDisplayName(target)}的"保留全部"规则优先级高于"删除全部"规则，所有项目都会被保留`);
-      } else {
-        warnings.push(`${getTargetDisplayName(target)}的"删除全部"和"保留全部"规则优先级相同，可能产生不可预期的结果`);
+      if (deleteAllRule && keepRules.length > 0) {
+        warnings.push(`${targetName}的"删除全部"规则「${deleteAllRule.name}」会删除所有项目，保留规则${formatNames(keepRules)}不会生效`);
       }
+      return;
     }
 
-    // 检查具体规则是否会被全局规则覆盖
-    const globalRules = sortedRules.filter(r => 
-      r.action === FilterAction.DELETE_ALL || r.action === FilterAction.KEEP_ALL
-    );
-    const specificRules = sortedRules.filter(r => 
-      r.action === FilterAction.DELETE || r.action === FilterAction.KEEP
-    );
-
-    if (globalRules.length > 0 && specificRules.length > 0) {
-      const highestGlobal = globalRules[0];
-      const affectedSpecific = specificRules.filter(r => r.priority <= highestGlobal.priority);
-      
-      if (affectedSpecific.length > 0) {
-        warnings.push(`${getTargetDisplayName(target)}的${affectedSpecific.length}个具体规则会被全局规则"${highestGlobal.name}"覆盖`);
-      }
+    // 按执行顺序第一个（或最后一个）匹配的规则决定去留：无条件的全局规则匹配所有项，排在它之后（或之前）的规则不会生效
+    const isLastMatch = strategy === ResolutionStrategy.LAST_MATCH;
+    const orderedRules = isLastMatch ? [...sortedRules].reverse() : sortedRules;
+    const globalIndex = orderedRules.findIndex(rule => isGlobalAction(rule.action) && isEmptyCondition(rule.condition));
+    const shadowedRules = globalIndex >= 0 ? orderedRules.slice(globalIndex + 1) : [];
+
+    if (shadowedRules.length > 0) {
+      const globalRule = orderedRules[globalIndex];
+      const position = isLastMatch ? '之前' : '之后';
+      warnings.push(`${targetName}的全局规则「${globalRule.name}」决定所有项目的去留，执行顺序在它${position}的规则${formatNames(shadowedRules)}不会生效`);
     }
   });
 
@@ -257,7 +342,11 @@ function getTargetDisplayName(target: FilterTarget): string {
     [FilterTarget.HEADERS]: '请求头',
     [FilterTarget.QUERY_PARAMS]: '查询参数',
     [FilterTarget.FORM_DATA]: '表单数据',
-    [FilterTarget.JSON_BODY]: 'JSON请求体'
+    [FilterTarget.JSON_BODY]: 'JSON请求体',
+    [FilterTarget.MULTIPART]: 'Multipart表单',
+    [FilterTarget.COOKIES]: 'Cookie',
+    [FilterTarget.OPTIONS]: 'curl选项',
+    [FilterTarget.AUTH]: '认证信息'
   };
   return displayNames[target];
 }
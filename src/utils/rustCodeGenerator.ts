@@ -0,0 +1,162 @@
+// Rust 代码生成：reqwest（blocking 客户端）
+
+import type { MultipartField } from '../types/filterRules';
+import { serializeCookies } from './cookies';
+import { RequestBodyKind, hasControlChars, isControlChar, type RequestBodyPart, type RequestModel } from './requestModel';
+
+// reqwest 提供快捷方法的HTTP方法
+const SHORTCUT_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'];
+
+/**
+ * 生成双引号字符串字面量
+ */
+export function rustString(value: string): string {
+  let result = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '"') {
+      result += '\\' + char;
+    } else if (char === '\n') {
+      result += '\\n';
+    } else if (char === '\r') {
+      result += '\\r';
+    } else if (char === '\t') {
+      result += '\\t';
+    } else if (isControlChar(code)) {
+      result += '\\x' + code.toString(16).padStart(2, '0');
+    } else {
+      result += char;
+    }
+  }
+  return `"${result}"`;
+}
+
+/**
+ * 生成文本字面量：包含双引号时尽量使用原始字符串 r#"..."#，避免大量转义
+ */
+function rustText(value: string): string {
+  if (value.includes('"') && !value.includes('"#') && !hasControlChars(value, '\t\n')) {
+    return `r#"${value}"#`;
+  }
+  return rustString(value);
+}
+
+/**
+ * 生成 multipart 表单的构建语句
+ */
+function buildMultipartLines(fields: MultipartField[]): string[] {
+  const lines = ['let form = multipart::Form::new()'];
+
+  fields.forEach(field => {
+    const name = rustString(field.name);
+    if (field.isFile) {
+      if (field.filename || field.contentType) {
+        let part = `multipart::Part::file(${rustString(field.value)})?`;
+        if (field.filename) part += `.file_name(${rustString(field.filename)})`;
+        if (field.contentType) part += `.mime_str(${rustString(field.contentType)})?`;
+        lines.push(`    .part(${name}, ${part})`);
+      } else {
+        lines.push(`    .file(${name}, ${rustString(field.value)})?`);
+      }
+    } else if (field.isFileContent) {
+      lines.push(`    .text(${name}, std::fs::read_to_string(${rustString(field.value)})?)`);
+    } else {
+      lines.push(`    .text(${name}, ${rustString(field.value)})`);
+    }
+  });
+
+  lines[lines.length - 1] += ';';
+  return lines;
+}
+
+/**
+ * 生成读取引用文件的请求体表达式（Vec<u8>），多个片段按顺序拼接，需要URL编码的文件用 urlencoding 编码
+ */
+function rustFileBody(parts: RequestBodyPart[]): string {
+  const chunks = parts.map(part => {
+    if (!('file' in part)) return `${rustString(part.text)}.as_bytes().to_vec()`;
+    return part.urlencode
+      ? `urlencoding::encode_binary(&std::fs::read(${rustString(part.file)})?).into_owned().into_bytes()`
+      : `std::fs::read(${rustString(part.file)})?`;
+  });
+  return chunks.length === 1 ? chunks[0] : `[${chunks.join(', ')}].concat()`;
+}
+
+/**
+ * 生成请求体的调用，如 .body(...)、.form(...)、.multipart(form)
+ */
+function buildBodyCall(model: RequestModel): string[] {
+  const body = model.body;
+  switch (body.kind) {
+    case RequestBodyKind.JSON:
+      return [`.body(${rustText(JSON.stringify(body.value))})`];
+    case RequestBodyKind.FORM: {
+      const pairs = Object.entries(body.fields).map(([key, value]) => `    (${rustString(key)}, ${rustString(value)}),`);
+      return ['.form(&[', ...pairs, '])'];
+    }
+    case RequestBodyKind.MULTIPART:
+      return ['.multipart(form)'];
+    case RequestBodyKind.FILE:
+      return [`.body(${rustFileBody(body.parts)})`];
+    case RequestBodyKind.RAW:
+      return [`.body(${rustText(body.content)})`];
+    default:
+      return [];
+  }
+}
+
+/**
+ * 生成 reqwest 代码
+ * 需要在 Cargo.toml 中启用 blocking 特性，multipart 请求还需要 multipart 特性，URL编码文件内容还需要 urlencoding
+ */
+export function generateRustReqwest(model: RequestModel): string {
+  const body = model.body;
+  const isMultipart = body.kind === RequestBodyKind.MULTIPART;
+  const multipartLines = body.kind === RequestBodyKind.MULTIPART ? [...buildMultipartLines(body.fields), ''] : [];
+  const features = isMultipart ? '"blocking", "multipart"' : '"blocking"';
+  const uses = isMultipart
+    ? ['use reqwest::blocking::{multipart, Client};']
+    : ['use reqwest::blocking::Client;'];
+  if (!SHORTCUT_METHODS.includes(model.method)) {
+    uses.push('use reqwest::Method;');
+  }
+
+  const start = SHORTCUT_METHODS.includes(model.method)
+    ? `.${model.method.toLowerCase()}(${rustString(model.url)})`
+    : `.request(Method::from_bytes(b${rustString(model.method)})?, ${rustString(model.url)})`;
+
+  const chain = [start];
+  Object.entries(model.headers).forEach(([key, value]) => {
+    chain.push(`.header(${rustString(key)}, ${rustString(value)})`);
+  });
+  if (Object.keys(model.cookies).length > 0) {
+    chain.push(`.header("cookie", ${rustString(serializeCookies(model.cookies))})`);
+  }
+  chain.push(...buildBodyCall(model), '.send()?;');
+
+  const statements = [
+    'let client = Client::new();',
+    '',
+    ...multipartLines,
+    'let response = client',
+    ...chain.map(line => '    ' + line),
+    '',
+    'println!("{}", response.status());',
+    'println!("{}", response.text()?);',
+    '',
+    'Ok(())'
+  ];
+
+  const urlencodesFile = body.kind === RequestBodyKind.FILE && body.parts.some(part => 'file' in part && part.urlencode);
+
+  return [
+    `// Cargo.toml: reqwest = { version = "0.12", features = [${features}] }`,
+    ...(urlencodesFile ? ['// Cargo.toml: urlencoding = "2"'] : []),
+    ...uses,
+    '',
+    'fn main() -> Result<(), Box<dyn std::error::Error>> {',
+    ...statements.map(line => line ? '    ' + line : ''),
+    '}',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,396 @@
+// 命令行分词工具，按照 bash 或 Windows cmd 的规则把命令行拆分为参数
+
+/**
+ * 分词结果
+ */
+export interface ShellToken {
+  value: string;        // 去除引号和转义后的参数值（即程序实际收到的 argv）
+  raw: string;          // 源文本中的原始片段
+  start: number;        // 源文本起始偏移
+  end: number;          // 源文本结束偏移（不包含）
+  isOperator?: boolean; // 是否为控制操作符（; | || && &）
+}
+
+const WHITESPACE = new Set([' ', '\t', '\n', '\r']);
+
+// 双引号内反斜杠只对这些字符生效
+const DOUBLE_QUOTE_ESCAPABLE = new Set(['$', '`', '"', '\\']);
+
+// ANSI-C 引号中的简单转义
+const ANSI_C_ESCAPES: Record<string, string> = {
+  a: '\x07',
+  b: '\b',
+  e: '\x1b',
+  E: '\x1b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+  '?': '?'
+};
+
+/**
+ * 判断位置 i 处是否为反斜杠换行（行继续符）
+ * 返回行继续符的长度，不是则返回0
+ */
+function lineContinuationLength(input: string, i: number): number {
+  if (input[i] !== '\\') return 0;
+  if (input[i + 1] === '\n') return 2;
+  if (input[i + 1] === '\r' && input[i + 2] === '\n') return 3;
+  return 0;
+}
+
+/**
+ * 解析 $'...' 中的一个转义序列
+ * 返回解码后的文本和消耗的字符数（不含开头的反斜杠）
+ */
+function readAnsiCEscape(input: string, i: number): { text: string; length: number } {
+  const char = input[i];
+
+  if (char === undefined) {
+    return { text: '\\', length: 0 };
+  }
+
+  if (char in ANSI_C_ESCAPES) {
+    return { text: ANSI_C_ESCAPES[char], length: 1 };
+  }
+
+  // \xHH（1-2位十六进制）
+  if (char === 'x') {
+    const match = /^[0-9a-fA-F]{1,2}/.exec(input.slice(i + 1, i + 3));
+    if (match) {
+      return { text: String.fromCharCode(parseInt(match[0], 16)), length: 1 + match[0].length };
+    }
+    return { text: '\\x', length: 1 };
+  }
+
+  // \uHHHH 和 \UHHHHHHHH
+  if (char === 'u' || char === 'U') {
+    const maxDigits = char === 'u' ? 4 : 8;
+    const match = new RegExp(`^[0-9a-fA-F]{1,${maxDigits}}`).exec(input.slice(i + 1, i + 1 + maxDigits));
+    if (match) {
+      const codePoint = parseInt(match[0], 16);
+      if (codePoint <= 0x10ffff) {
+        return { text: String.fromCodePoint(codePoint), length: 1 + match[0].length };
+      }
+    }
+    return { text: '\\' + char, length: 1 };
+  }
+
+  // \nnn（1-3位八进制）
+  if (/[0-7]/.test(char)) {
+    const match = /^[0-7]{1,3}/.exec(input.slice(i, i + 3))!;
+    return { text: String.fromCharCode(parseInt(match[0], 8) & 0xff), length: match[0].length };
+  }
+
+  // \cX 控制字符
+  if (char === 'c' && input[i + 1] !== undefined) {
+    return { text: String.fromCharCode(input.charCodeAt(i + 1) & 0x1f), length: 2 };
+  }
+
+  // 未知转义保持原样
+  return { text: '\\' + char, length: 1 };
+}
+
+/**
+ * 读取控制操作符，返回操作符文本，不是操作符则返回空字符串
+ * 单个 & 后面紧跟非空白字符时按字面处理，兼容未加引号的 URL（如 ?a=1&b=2）
+ */
+function readOperator(input: string, i: number): string {
+  const char = input[i];
+  const next = input[i + 1];
+
+  if (char === ';') return ';';
+  if (char === '|') return next === '|' ? '||' : '|';
+  if (char === '&') {
+    if (next === '&') return '&&';
+    if (next === undefined || WHITESPACE.has(next)) return '&';
+  }
+  return '';
+}
+
+/**
+ * 按照 POSIX shell 规则拆分命令行
+ *
+ * 支持单引号、双引号、$'...'（ANSI-C 引号）、$"..."、反斜杠转义、
+ * 反斜杠换行续行、# 注释以及控制操作符。未闭合的引号会一直读到输入末尾。
+ * 不执行变量展开、命令替换和通配符展开，$ 和 ` 按字面保留。
+ */
+export function splitShellWords(input: string): ShellToken[] {
+  const tokens: ShellToken[] = [];
+  let value = '';
+  let start = -1;
+  let i = 0;
+
+  const pushWord = (end: number) => {
+    if (start >= 0) {
+      tokens.push({ value, raw: input.slice(start, end), start, end });
+    }
+    value = '';
+    start = -1;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    // 行继续符：在单词中间也直接删除
+    const continuation = lineContinuationLength(input, i);
+    if (continuation > 0) {
+      i += continuation;
+      continue;
+    }
+
+    if (WHITESPACE.has(char)) {
+      pushWord(i);
+      i++;
+      continue;
+    }
+
+    if (start < 0) {
+      // 注释只在单词开头生效
+      if (char === '#') {
+        while (i < input.length && input[i] !== '\n') i++;
+        continue;
+      }
+      start = i;
+    }
+
+    const operator = readOperator(input, i);
+    if (operator) {
+      if (start !== i) {
+        pushWord(i);
+      }
+      tokens.push({ value: operator, raw: operator, start: i, end: i + operator.length, isOperator: true });
+      start = -1;
+      i += operator.length;
+      continue;
+    }
+
+    // 反斜杠转义下一个字符
+    if (char === '\\') {
+      if (i + 1 < input.length) {
+        value += input[i + 1];
+        i += 2;
+      } else {
+        value += char;
+        i++;
+      }
+      continue;
+    }
+
+    // 单引号：内容完全按字面处理
+    if (char === "'") {
+      const close = input.indexOf("'", i + 1);
+      const end = close < 0 ? input.length : close;
+      value += input.slice(i + 1, end);
+      i = end + 1;
+      continue;
+    }
+
+    // ANSI-C 引号 $'...'
+    if (char === '$' && input[i + 1] === "'") {
+      i += 2;
+      while (i < input.length && input[i] !== "'") {
+        if (input[i] === '\\') {
+          const escape = readAnsiCEscape(input, i + 1);
+          value += escape.text;
+          i += 1 + escape.length;
+        } else {
+          value += input[i];
+          i++;
+        }
+      }
+      i++;
+      continue;
+    }
+
+    // 双引号（$"..." 按双引号处理）
+    if (char === '"' || (char === '$' && input[i + 1] === '"')) {
+      i += char === '$' ? 2 : 1;
+      while (i < input.length && input[i] !== '"') {
+        const innerContinuation = lineContinuationLength(input, i);
+        if (innerContinuation > 0) {
+          i += innerContinuation;
+          continue;
+        }
+        if (input[i] === '\\' && DOUBLE_QUOTE_ESCAPABLE.has(input[i + 1])) {
+          value += input[i + 1];
+          i += 2;
+        } else {
+          value += input[i];
+          i++;
+        }
+      }
+      i++;
+      continue;
+    }
+
+    value += char;
+    i++;
+  }
+
+  pushWord(Math.min(i, input.length));
+
+  return tokens;
+}
+
+/**
+ * 只返回第一条命令的参数值（遇到控制操作符即停止）
+ */
+export function splitShellArgs(input: string): string[] {
+  const args: string[] = [];
+  for (const token of splitShellWords(input)) {
+    if (token.isOperator) break;
+    args.push(token.value);
+  }
+  return args;
+}
+
+/**
+ * 模拟 cmd.exe 对 ^ 转义的处理，返回 cmd 交给程序的命令行
+ *
+ * 引号外的 ^ 会转义下一个字符；行尾的 ^ 是续行符，
+ * 续行后的第一个字符同样按字面保留（Chrome 用 ^ 加两个换行表示字面换行）。
+ */
+function unescapeCmdCarets(input: string): string {
+  let output = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      output += char;
+      continue;
+    }
+
+    if (char === '^' && !inQuotes) {
+      if (input[i + 1] === '\r' && input[i + 2] === '\n') {
+        i += 2;
+      } else if (input[i + 1] === '\n') {
+        i += 1;
+      }
+      if (i + 1 < input.length) {
+        output += input[i + 1];
+        i++;
+      }
+      continue;
+    }
+
+    output += char;
+  }
+
+  return output;
+}
+
+/**
+ * 按照 Windows C 运行库（MSVCRT）的规则拆分命令行
+ */
+function splitWindowsCommandLine(line: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inArg = false;
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < line.length) {
+    const char = line[i];
+
+    // 反斜杠只有在引号前才有转义作用：2n个 -> n个并切换引号，2n+1个 -> n个加字面引号
+    if (char === '\\') {
+      let count = 0;
+      while (line[i] === '\\') {
+        count++;
+        i++;
+      }
+      if (line[i] === '"') {
+        current += '\\'.repeat(Math.floor(count / 2));
+        if (count % 2 === 1) {
+          current += '"';
+          i++;
+        }
+      } else {
+        current += '\\'.repeat(count);
+      }
+      inArg = true;
+      continue;
+    }
+
+    if (char === '"') {
+      // 引号内连续两个引号表示字面引号
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i += 2;
+      } else {
+        inQuotes = !inQuotes;
+        i++;
+      }
+      inArg = true;
+      continue;
+    }
+
+    if (!inQuotes && WHITESPACE.has(char)) {
+      if (inArg) {
+        args.push(current);
+        current = '';
+        inArg = false;
+      }
+      i++;
+      continue;
+    }
+
+    current += char;
+    inArg = true;
+    i++;
+  }
+
+  if (inArg) {
+    args.push(current);
+  }
+
+  return args;
+}
+
+/**
+ * 按照 Windows cmd 的规则拆分命令行（Chrome "Copy as cURL (cmd)" 格式）
+ */
+export function splitCmdArgs(input: string): string[] {
+  return splitWindowsCommandLine(unescapeCmdCarets(input));
+}
+
+/**
+ * 判断参数能否不加引号直接使用
+ */
+function isBareShellWord(value: string): boolean {
+  return value !== '' && /^[A-Za-z0-9_\-+=/:.,@%]+$/.test(value);
+}
+
+/**
+ * 将参数转换为 bash 可安全使用的形式（必要时使用单引号包裹）
+ */
+export function quoteShellArg(value: string): string {
+  if (isBareShellWord(value)) {
+    return value;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * 将参数转换为 bash 可安全使用的形式（必要时使用双引号包裹）
+ * 双引号中的 ! 会触发历史扩展且无法用反斜杠转义，因此单独放在单引号中拼接
+ */
+export function quoteShellArgDouble(value: string): string {
+  if (isBareShellWord(value)) {
+    return value;
+  }
+  return value
+    .split('!')
+    .map(part => `"${part.replace(/[\\"$`]/g, '\\$&')}"`)
+    .join(`'!'`);
+}
+
@@ -0,0 +1,39 @@
+// 过滤 Worker：在后台线程中解析命令和执行过滤规则，大请求体或回溯严重的正则表达式不会阻塞界面
+
+import { FilterEngine } from '../utils/filterEngine';
+import { runFilterJob, type FilterWorkerRequest, type FilterWorkerResponse } from '../utils/filterJobs';
+
+// 批量任务上报进度的最小间隔（毫秒）
+const PROGRESS_INTERVAL = 100;
+
+const engine = new FilterEngine();
+
+function post(message: FilterWorkerResponse): void {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', (event: MessageEvent<FilterWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'configure') {
+    engine.setRules(request.rules);
+    engine.setResolutionStrategy(request.resolutionStrategy);
+    return;
+  }
+
+  const { jobId, job } = request;
+  let lastProgressAt = 0;
+
+  try {
+    const output = runFilterJob(engine, job, progress => {
+      const now = Date.now();
+      if (now - lastProgressAt >= PROGRESS_INTERVAL || progress.completed === progress.total) {
+        lastProgressAt = now;
+        post({ type: 'progress', jobId, progress });
+      }
+    });
+    post({ type: 'done', jobId, output });
+  } catch (error) {
+    post({ type: 'failed', jobId, message: (error as Error).message });
+  }
+});